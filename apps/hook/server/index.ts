@@ -12,10 +12,19 @@
  *    - Triggered by /review slash command
  *    - Runs git diff, opens review UI
  *    - Outputs feedback to stdout (captured by slash command)
+ *    - `--diagnostics <file>` (repeatable) imports SARIF, ESLint JSON or
+ *      `tsc --pretty false` output as annotations
+ *    - `--coverage <file>` shades added lines from an lcov or Istanbul JSON report
+ *
+ * 3. Daemon (`plannotator daemon`):
+ *    - Long-lived server hosting plan/review sessions on one fixed port
+ *    - Other invocations register with it when PLANNOTATOR_DAEMON is set
  *
  * Environment variables:
- *   PLANNOTATOR_REMOTE - Set to "1" or "true" for remote mode (preferred)
- *   PLANNOTATOR_PORT   - Fixed port to use (default: random locally, 19432 for remote)
+ *   PLANNOTATOR_REMOTE      - Set to "1" or "true" for remote mode (preferred)
+ *   PLANNOTATOR_PORT        - Fixed port to use (default: random locally, 19432 for remote)
+ *   PLANNOTATOR_DAEMON      - Set to "1" or "true" (or the daemon URL) to use a running daemon
+ *   PLANNOTATOR_DAEMON_PORT - Port for `plannotator daemon` (default: 19433)
  */
 
 import {
@@ -27,6 +36,12 @@ import {
   handleReviewServerReady,
 } from "@plannotator/server/review";
 import { getGitContext, runGitDiff } from "@plannotator/server/git";
+import {
+  startDaemon,
+  getDaemonUrl,
+  registerPlanSession,
+  registerReviewSession,
+} from "@plannotator/server/daemon";
 
 // Embed the built HTML at compile time
 // @ts-ignore - Bun import attribute for text
@@ -43,11 +58,46 @@ const args = process.argv.slice(2);
 // Check if URL sharing is enabled (default: true)
 const sharingEnabled = process.env.PLANNOTATOR_SHARE !== "disabled";
 
-if (args[0] === "review") {
+// Register sessions with a running daemon instead of binding a port
+const daemonUrl = getDaemonUrl();
+
+if (args[0] === "daemon") {
+  // ============================================
+  // DAEMON MODE
+  // ============================================
+
+  await startDaemon({
+    onReady: (url) => {
+      console.error(`Plannotator daemon running at ${url}`);
+      console.error(`Set PLANNOTATOR_DAEMON=1 to route plan and code reviews through it`);
+    },
+  });
+
+  // Bun.serve keeps the process alive until interrupted
+
+} else if (args[0] === "review") {
   // ============================================
   // CODE REVIEW MODE
   // ============================================
 
+  // Read the diagnostics and coverage files named on the command line;
+  // they're parsed in the browser
+  const diagnostics: { name: string; content: string }[] = [];
+  let coverage: { name: string; content: string } | undefined;
+  for (let i = 1; i < args.length; i++) {
+    const [flag, inlineValue] = args[i].split(/=(.*)/s);
+    if (flag !== "--diagnostics" && flag !== "--coverage") continue;
+    const path = inlineValue ?? args[++i];
+    const file = path ? Bun.file(path) : null;
+    if (!file || !(await file.exists())) {
+      console.error(`${flag === "--coverage" ? "Coverage" : "Diagnostics"} file not found: ${path ?? ""}`);
+      process.exit(1);
+    }
+    const source = { name: path, content: await file.text() };
+    if (flag === "--coverage") coverage = source;
+    else diagnostics.push(source);
+  }
+
   // Get git context (branches, available diff options)
   const gitContext = await getGitContext();
 
@@ -58,16 +108,21 @@ if (args[0] === "review") {
   );
 
   // Start review server (even if empty - user can switch diff types)
-  const server = await startReviewServer({
+  const reviewOptions = {
     rawPatch,
     gitRef,
-    origin: "claude-code",
-    diffType: "uncommitted",
+    origin: "claude-code" as const,
+    diffType: "uncommitted" as const,
     gitContext,
     sharingEnabled,
+    diagnostics,
+    coverage,
     htmlContent: reviewHtmlContent,
     onReady: handleReviewServerReady,
-  });
+  };
+  const server =
+    (daemonUrl && (await registerReviewSession(daemonUrl, reviewOptions))) ||
+    (await startReviewServer(reviewOptions));
 
   // Wait for user feedback
   const result = await server.waitForDecision();
@@ -92,10 +147,12 @@ if (args[0] === "review") {
 
   let planContent = "";
   let permissionMode = "default";
+  let agentSessionId: string | undefined;
   try {
     const event = JSON.parse(eventJson);
     planContent = event.tool_input?.plan || "";
     permissionMode = event.permission_mode || "default";
+    agentSessionId = event.session_id;
   } catch {
     console.error("Failed to parse hook event from stdin");
     process.exit(1);
@@ -107,16 +164,20 @@ if (args[0] === "review") {
   }
 
   // Start the plan review server
-  const server = await startPlannotatorServer({
+  const planOptions = {
     plan: planContent,
     origin: "claude-code",
     permissionMode,
+    agentSessionId,
     sharingEnabled,
     htmlContent: planHtmlContent,
-    onReady: (url, isRemote, port) => {
+    onReady: (url: string, isRemote: boolean, port: number) => {
       handleServerReady(url, isRemote, port);
     },
-  });
+  };
+  const server =
+    (daemonUrl && (await registerPlanSession(daemonUrl, planOptions))) ||
+    (await startPlannotatorServer(planOptions));
 
   // Wait for user decision (blocks until approve/deny)
   const result = await server.waitForDecision();
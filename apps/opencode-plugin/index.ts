@@ -8,6 +8,7 @@
  * Environment variables:
  *   PLANNOTATOR_REMOTE - Set to "1" or "true" for remote mode (devcontainer, SSH)
  *   PLANNOTATOR_PORT   - Fixed port to use (default: random locally, 19432 for remote)
+ *   PLANNOTATOR_DAEMON - Set to "1" or "true" (or the daemon URL) to use a running `plannotator daemon`
  *
  * @packageDocumentation
  */
@@ -22,6 +23,11 @@ import {
   handleReviewServerReady,
 } from "@plannotator/server/review";
 import { getGitContext, runGitDiff } from "@plannotator/server/git";
+import {
+  getDaemonUrl,
+  registerPlanSession,
+  registerReviewSession,
+} from "@plannotator/server/daemon";
 
 // @ts-ignore - Bun import attribute for text
 import indexHtml from "./plannotator.html" with { type: "text" };
@@ -104,16 +110,20 @@ Do NOT proceed with implementation until your plan is approved.
         );
 
         // Start server even if empty - user can switch diff types
-        const server = await startReviewServer({
+        const reviewOptions = {
           rawPatch,
           gitRef,
-          origin: "opencode",
-          diffType: "uncommitted",
+          origin: "opencode" as const,
+          diffType: "uncommitted" as const,
           gitContext,
           sharingEnabled: await getSharingEnabled(),
           htmlContent: reviewHtmlContent,
           onReady: handleReviewServerReady,
-        });
+        };
+        const daemonUrl = getDaemonUrl();
+        const server =
+          (daemonUrl && (await registerReviewSession(daemonUrl, reviewOptions))) ||
+          (await startReviewServer(reviewOptions));
 
         const result = await server.waitForDecision();
         await Bun.sleep(1500);
@@ -166,15 +176,20 @@ Do NOT proceed with implementation until your plan is approved.
         },
 
         async execute(args, context) {
-          const server = await startPlannotatorServer({
+          const planOptions = {
             plan: args.plan,
             origin: "opencode",
+            agentSessionId: context.sessionID,
             sharingEnabled: await getSharingEnabled(),
             htmlContent,
-            onReady: (url, isRemote, port) => {
+            onReady: (url: string, isRemote: boolean, port: number) => {
               handleServerReady(url, isRemote, port);
             },
-          });
+          };
+          const daemonUrl = getDaemonUrl();
+          const server =
+            (daemonUrl && (await registerPlanSession(daemonUrl, planOptions))) ||
+            (await startPlannotatorServer(planOptions));
 
           const result = await server.waitForDecision();
           await Bun.sleep(1500);
@@ -89,6 +89,7 @@ console.log(
   JSON.stringify({
     gitRef: displayRef,
     feedback: result.feedback,
+    feedbackJson: result.feedbackJson,
     annotations: result.annotations,
   }, null, 2)
 );
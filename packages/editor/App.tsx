@@ -1,10 +1,11 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { parseMarkdownToBlocks, exportDiff, extractFrontmatter, Frontmatter } from '@plannotator/ui/utils/parser';
+import { parseMarkdownToBlocks, exportDiff, exportFeedbackJson, extractFrontmatter, Frontmatter } from '@plannotator/ui/utils/parser';
+import { getOpenAnnotations } from '@plannotator/ui/utils/threads';
 import { Viewer, ViewerHandle } from '@plannotator/ui/components/Viewer';
 import { AnnotationPanel } from '@plannotator/ui/components/AnnotationPanel';
 import { ExportModal } from '@plannotator/ui/components/ExportModal';
 import { ConfirmDialog } from '@plannotator/ui/components/ConfirmDialog';
-import { Annotation, Block, EditorMode } from '@plannotator/ui/types';
+import { Annotation, AnnotationType, Block, EditorMode } from '@plannotator/ui/types';
 import { ThemeProvider } from '@plannotator/ui/components/ThemeProvider';
 import { ModeToggle } from '@plannotator/ui/components/ModeToggle';
 import { ModeSwitcher } from '@plannotator/ui/components/ModeSwitcher';
@@ -12,7 +13,11 @@ import { TaterSpriteRunning } from '@plannotator/ui/components/TaterSpriteRunnin
 import { TaterSpritePullup } from '@plannotator/ui/components/TaterSpritePullup';
 import { Settings } from '@plannotator/ui/components/Settings';
 import { useSharing } from '@plannotator/ui/hooks/useSharing';
+import { useDraftAutosave } from '@plannotator/ui/hooks/useDraftAutosave';
+import { DRAFT_VERSION, PlanDraft, fetchDraft, hashContent, reconcilePlanDraft } from '@plannotator/ui/utils/drafts';
+import { DraftBanner } from '@plannotator/ui/components/DraftBanner';
 import { storage } from '@plannotator/ui/utils/storage';
+import { apiUrl } from '@plannotator/ui/utils/api';
 import { UpdateBanner } from '@plannotator/ui/components/UpdateBanner';
 import { getObsidianSettings, getEffectiveVaultPath, CUSTOM_PATH_SENTINEL } from '@plannotator/ui/utils/obsidian';
 import { getBearSettings } from '@plannotator/ui/utils/bear';
@@ -25,6 +30,8 @@ import {
 } from '@plannotator/ui/utils/permissionMode';
 import { PermissionModeSetup } from '@plannotator/ui/components/PermissionModeSetup';
 import { ImageAnnotator } from '@plannotator/ui/components/ImageAnnotator';
+import { PlanDiffView, type PreviousRevision } from '@plannotator/ui/components/PlanDiffView';
+import { PlanEditor } from '@plannotator/ui/components/PlanEditor';
 
 const PLAN_CONTENT = `# Implementation Plan: Real-time Collaboration
 
@@ -313,6 +320,8 @@ const App: React.FC = () => {
   const [showClaudeCodeWarning, setShowClaudeCodeWarning] = useState(false);
   const [isPanelOpen, setIsPanelOpen] = useState(true);
   const [editorMode, setEditorMode] = useState<EditorMode>('selection');
+  // Reviewer's direct edits to the plan markdown (null = unedited)
+  const [editedPlan, setEditedPlan] = useState<string | null>(null);
   const [taterMode, setTaterMode] = useState(() => {
     const stored = storage.getItem('plannotator-tater-mode');
     return stored === 'true';
@@ -327,6 +336,11 @@ const App: React.FC = () => {
   const [showPermissionModeSetup, setShowPermissionModeSetup] = useState(false);
   const [permissionMode, setPermissionMode] = useState<PermissionMode>('bypassPermissions');
   const [sharingEnabled, setSharingEnabled] = useState(true);
+  const [previousRevision, setPreviousRevision] = useState<PreviousRevision | null>(null);
+  const [showPlanDiff, setShowPlanDiff] = useState(false);
+  const [draftReady, setDraftReady] = useState(false);
+  const [pendingDraftAnnotations, setPendingDraftAnnotations] = useState<Annotation[] | null>(null);
+  const [restoredDraft, setRestoredDraft] = useState<{ message: string; detail?: string } | null>(null);
   const viewerRef = useRef<ViewerHandle>(null);
 
   // URL-based sharing
@@ -365,6 +379,18 @@ const App: React.FC = () => {
     }
   }, [pendingSharedAnnotations, clearPendingSharedAnnotations]);
 
+  // Highlight annotations restored from a draft once the plan is rendered
+  useEffect(() => {
+    if (!pendingDraftAnnotations) return;
+    const timer = setTimeout(() => {
+      viewerRef.current?.applySharedAnnotations(
+        pendingDraftAnnotations.filter(ann => ann.type !== AnnotationType.GLOBAL_COMMENT)
+      );
+      setPendingDraftAnnotations(null);
+    }, 100);
+    return () => clearTimeout(timer);
+  }, [pendingDraftAnnotations]);
+
   const handleTaterModeChange = (enabled: boolean) => {
     setTaterMode(enabled);
     storage.setItem('plannotator-tater-mode', String(enabled));
@@ -376,7 +402,7 @@ const App: React.FC = () => {
     if (isLoadingShared) return; // Wait for share check to complete
     if (isSharedSession) return; // Already loaded from share
 
-    fetch('/api/plan')
+    fetch(apiUrl('/api/plan'))
       .then(res => {
         if (!res.ok) throw new Error('Not in API mode');
         return res.json();
@@ -396,6 +422,55 @@ const App: React.FC = () => {
           // Load saved permission mode preference
           setPermissionMode(getPermissionModeSettings().mode);
         }
+
+        // Look up the previous revision of this plan (saved on the last approve/deny)
+        const planSaveSettings = getPlanSaveSettings();
+        if (planSaveSettings.enabled) {
+          fetch(apiUrl('/api/plan/previous'))
+            .then(res => (res.ok ? res.json() : null))
+            .then((previousData: { previous: PreviousRevision | null } | null) => {
+              if (previousData?.previous) {
+                setPreviousRevision(previousData.previous);
+              }
+            })
+            .catch(() => {
+              // No previous revision available
+            });
+        }
+
+        // Restore annotations autosaved before a reload, crash or restart
+        fetchDraft<PlanDraft>('plan')
+          .then(draft => {
+            if (!draft) return;
+            const planChanged = draft.contentHash !== hashContent(data.plan);
+            const { annotations: restored, detached } = planChanged
+              ? reconcilePlanDraft(draft.annotations, data.plan)
+              : { annotations: draft.annotations, detached: 0 };
+            // Direct edits were made to the old text, so they only apply to the same plan
+            const restoredEdits = !planChanged && draft.editedPlan !== null;
+            const count = restored.length + draft.globalAttachments.length;
+            if (count === 0 && !restoredEdits) return;
+
+            setAnnotations(restored);
+            setGlobalAttachments(draft.globalAttachments);
+            if (restoredEdits) setEditedPlan(draft.editedPlan);
+            setPendingDraftAnnotations(restored);
+
+            const details: string[] = [];
+            if (detached > 0) {
+              details.push(`${detached} no longer match${detached === 1 ? 'es' : ''} the plan and ${detached === 1 ? 'was' : 'were'} kept as global comments.`);
+            }
+            if (planChanged && draft.editedPlan !== null) {
+              details.push('Direct edits were dropped because the plan changed.');
+            }
+            setRestoredDraft({
+              message: count > 0
+                ? `Restored ${count} annotation${count === 1 ? '' : 's'} from your draft`
+                : 'Restored your edits from your draft',
+              detail: details.join(' ') || undefined,
+            });
+          })
+          .finally(() => setDraftReady(true));
       })
       .catch(() => {
         // Not in API mode - use default content
@@ -404,6 +479,32 @@ const App: React.FC = () => {
       .finally(() => setIsLoading(false));
   }, [isLoadingShared, isSharedSession]);
 
+  // Autosave annotations once any saved draft has been restored
+  const planDraft = useMemo<PlanDraft | null>(() => {
+    if (!isApiMode || !draftReady || submitted) return null;
+    return {
+      version: DRAFT_VERSION,
+      kind: 'plan',
+      contentHash: hashContent(markdown),
+      annotations,
+      globalAttachments,
+      editedPlan,
+    };
+  }, [isApiMode, draftReady, submitted, markdown, annotations, globalAttachments, editedPlan]);
+  useDraftAutosave(
+    planDraft,
+    annotations.length === 0 && globalAttachments.length === 0 && editedPlan === null
+  );
+
+  const handleDiscardDraft = () => {
+    viewerRef.current?.clearAllHighlights();
+    setAnnotations([]);
+    setGlobalAttachments([]);
+    setEditedPlan(null);
+    setSelectedAnnotationId(null);
+    setRestoredDraft(null);
+  };
+
   useEffect(() => {
     const { frontmatter: fm } = extractFrontmatter(markdown);
     setFrontmatter(fm);
@@ -445,7 +546,7 @@ const App: React.FC = () => {
         : pendingPasteImage.file;
       formData.append('file', fileToUpload);
 
-      const res = await fetch('/api/upload', { method: 'POST', body: formData });
+      const res = await fetch(apiUrl('/api/upload'), { method: 'POST', body: formData });
       if (res.ok) {
         const { path } = await res.json();
         setGlobalAttachments(prev => [...prev, path]);
@@ -475,7 +576,9 @@ const App: React.FC = () => {
       const planSaveSettings = getPlanSaveSettings();
 
       // Build request body - include integrations if enabled
-      const body: { obsidian?: object; bear?: object; feedback?: string; agentSwitch?: string; planSave?: { enabled: boolean; customPath?: string }; permissionMode?: string } = {};
+      const body: { obsidian?: object; bear?: object; feedback?: string; feedbackJson?: object; editedPlan?: string; agentSwitch?: string; planSave?: { enabled: boolean; customPath?: string }; permissionMode?: string } = {};
+      // The reviewer-approved version of the plan includes direct edits
+      const approvedPlan = editedPlan ?? markdown;
 
       // Include permission mode for Claude Code
       if (origin === 'claude-code') {
@@ -499,20 +602,24 @@ const App: React.FC = () => {
         body.obsidian = {
           vaultPath: effectiveVaultPath,
           folder: obsidianSettings.folder || 'plannotator',
-          plan: markdown,
+          plan: approvedPlan,
         };
       }
 
       if (bearSettings.enabled) {
-        body.bear = { plan: markdown };
+        body.bear = { plan: approvedPlan };
       }
 
       // Include annotations as feedback if any exist (for OpenCode "approve with notes")
-      if (annotations.length > 0 || globalAttachments.length > 0) {
+      if (openAnnotations.length > 0 || globalAttachments.length > 0) {
         body.feedback = diffOutput;
       }
+      body.feedbackJson = exportFeedbackJson(markdown, blocks, annotations, globalAttachments, 'approved');
+      if (editedPlan !== null) {
+        body.editedPlan = editedPlan;
+      }
 
-      await fetch('/api/approve', {
+      await fetch(apiUrl('/api/approve'), {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(body),
@@ -527,11 +634,13 @@ const App: React.FC = () => {
     setIsSubmitting(true);
     try {
       const planSaveSettings = getPlanSaveSettings();
-      await fetch('/api/deny', {
+      await fetch(apiUrl('/api/deny'), {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           feedback: diffOutput,
+          feedbackJson: exportFeedbackJson(markdown, blocks, annotations, globalAttachments, 'denied'),
+          ...(editedPlan !== null && { editedPlan }),
           planSave: {
             enabled: planSaveSettings.enabled,
             ...(planSaveSettings.customPath && { customPath: planSaveSettings.customPath }),
@@ -577,6 +686,10 @@ const App: React.FC = () => {
   };
 
   const diffOutput = useMemo(() => exportDiff(blocks, annotations, globalAttachments), [blocks, annotations, globalAttachments]);
+  // Resolved threads are not sent, so they don't count as pending feedback
+  const openAnnotations = useMemo(() => getOpenAnnotations(annotations), [annotations]);
+  // Direct edits are feedback too, sent as a diff
+  const hasFeedback = openAnnotations.length > 0 || editedPlan !== null;
 
   const agentName = useMemo(() => {
     if (origin === 'opencode') return 'OpenCode';
@@ -624,7 +737,7 @@ const App: React.FC = () => {
               <>
                 <button
                   onClick={() => {
-                    if (annotations.length === 0) {
+                    if (!hasFeedback) {
                       setShowFeedbackPrompt(true);
                     } else {
                       handleDeny();
@@ -648,7 +761,7 @@ const App: React.FC = () => {
                   <button
                     onClick={() => {
                       // Show warning for Claude Code users with annotations
-                      if (origin === 'claude-code' && annotations.length > 0) {
+                      if (origin === 'claude-code' && hasFeedback) {
                         setShowClaudeCodeWarning(true);
                       } else {
                         handleApprove();
@@ -658,7 +771,7 @@ const App: React.FC = () => {
                     className={`px-2 py-1 md:px-2.5 rounded-md text-xs font-medium transition-all ${
                       isSubmitting
                         ? 'opacity-50 cursor-not-allowed bg-muted text-muted-foreground'
-                        : origin === 'claude-code' && annotations.length > 0
+                        : origin === 'claude-code' && hasFeedback
                           ? 'bg-success/50 text-success-foreground/70 hover:bg-success hover:text-success-foreground'
                           : 'bg-success text-success-foreground hover:opacity-90'
                     }`}
@@ -666,11 +779,11 @@ const App: React.FC = () => {
                     <span className="md:hidden">{isSubmitting ? '...' : 'OK'}</span>
                     <span className="hidden md:inline">{isSubmitting ? 'Approving...' : 'Approve'}</span>
                   </button>
-                  {origin === 'claude-code' && annotations.length > 0 && (
+                  {origin === 'claude-code' && hasFeedback && (
                     <div className="absolute top-full right-0 mt-2 px-3 py-2 bg-popover border border-border rounded-lg shadow-xl text-xs text-foreground w-56 text-center opacity-0 invisible group-hover/approve:opacity-100 group-hover/approve:visible transition-all pointer-events-none z-50">
                       <div className="absolute bottom-full right-4 border-4 border-transparent border-b-border" />
                       <div className="absolute bottom-full right-4 mt-px border-4 border-transparent border-b-popover" />
-                      {agentName} doesn't support feedback on approval. Your annotations won't be seen.
+                      {agentName} doesn't support feedback on approval. Your annotations and edits won't be seen.
                     </div>
                   )}
                 </div>
@@ -714,25 +827,53 @@ const App: React.FC = () => {
           <main className="flex-1 overflow-y-auto bg-grid">
             <div className="min-h-full flex flex-col items-center px-4 py-3 md:px-10 md:py-8 xl:px-16">
               {/* Mode Switcher */}
-              <div className="w-full max-w-[832px] 2xl:max-w-5xl mb-3 md:mb-4 flex justify-start">
+              <div className="w-full max-w-[832px] 2xl:max-w-5xl mb-3 md:mb-4 flex items-center justify-between gap-2">
                 <ModeSwitcher mode={editorMode} onChange={setEditorMode} taterMode={taterMode} />
+                {previousRevision && (
+                  <button
+                    onClick={() => setShowPlanDiff(!showPlanDiff)}
+                    className={`px-2.5 py-1 rounded-md text-xs font-medium transition-all ${
+                      showPlanDiff
+                        ? 'bg-primary/15 text-primary'
+                        : 'text-muted-foreground hover:text-foreground hover:bg-muted'
+                    }`}
+                    title="Show changes since the last revision of this plan"
+                  >
+                    {showPlanDiff ? 'Back to plan' : 'Changes since last revision'}
+                  </button>
+                )}
               </div>
 
-              <Viewer
-                ref={viewerRef}
-                blocks={blocks}
-                markdown={markdown}
-                frontmatter={frontmatter}
-                annotations={annotations}
-                onAddAnnotation={handleAddAnnotation}
-                onSelectAnnotation={setSelectedAnnotationId}
-                selectedAnnotationId={selectedAnnotationId}
-                mode={editorMode}
-                taterMode={taterMode}
-                globalAttachments={globalAttachments}
-                onAddGlobalAttachment={handleAddGlobalAttachment}
-                onRemoveGlobalAttachment={handleRemoveGlobalAttachment}
-              />
+              {showPlanDiff && previousRevision && (
+                <PlanDiffView previous={previousRevision} blocks={blocks} markdown={markdown} />
+              )}
+
+              {editorMode === 'edit' && !(showPlanDiff && previousRevision) && (
+                <PlanEditor
+                  original={markdown}
+                  value={editedPlan ?? markdown}
+                  onChange={(value: string) => setEditedPlan(value === markdown ? null : value)}
+                />
+              )}
+
+              {/* Keep the viewer mounted so highlights survive toggling the diff view and edit mode */}
+              <div className={`w-full flex flex-col items-center ${(showPlanDiff && previousRevision) || editorMode === 'edit' ? 'hidden' : ''}`}>
+                <Viewer
+                  ref={viewerRef}
+                  blocks={blocks}
+                  markdown={markdown}
+                  frontmatter={frontmatter}
+                  annotations={annotations}
+                  onAddAnnotation={handleAddAnnotation}
+                  onSelectAnnotation={setSelectedAnnotationId}
+                  selectedAnnotationId={selectedAnnotationId}
+                  mode={editorMode}
+                  taterMode={taterMode}
+                  globalAttachments={globalAttachments}
+                  onAddGlobalAttachment={handleAddGlobalAttachment}
+                  onRemoveGlobalAttachment={handleRemoveGlobalAttachment}
+                />
+              </div>
             </div>
           </main>
 
@@ -757,7 +898,7 @@ const App: React.FC = () => {
           shareUrl={shareUrl}
           shareUrlSize={shareUrlSize}
           diffOutput={diffOutput}
-          annotationCount={annotations.length}
+          annotationCount={openAnnotations.length}
           taterSprite={taterMode ? <TaterSpritePullup /> : undefined}
           sharingEnabled={sharingEnabled}
         />
@@ -767,7 +908,7 @@ const App: React.FC = () => {
           isOpen={showFeedbackPrompt}
           onClose={() => setShowFeedbackPrompt(false)}
           title="Add Annotations First"
-          message={`To provide feedback, select text in the plan and add annotations. ${agentName} will use your annotations to revise the plan.`}
+          message={`To provide feedback, select text in the plan and add annotations, or rewrite it in Edit mode. ${agentName} will use your feedback to revise the plan.`}
           variant="info"
         />
 
@@ -780,7 +921,14 @@ const App: React.FC = () => {
             handleApprove();
           }}
           title="Annotations Won't Be Sent"
-          message={<>{agentName} doesn't yet support feedback on approval. Your {annotations.length} annotation{annotations.length !== 1 ? 's' : ''} will be lost.</>}
+          message={
+            <>
+              {agentName} doesn't yet support feedback on approval.{' '}
+              {openAnnotations.length > 0
+                ? <>Your {openAnnotations.length} annotation{openAnnotations.length !== 1 ? 's' : ''}{editedPlan !== null && ' and edits'} will be lost.</>
+                : <>Your edits will only be kept in the saved plan.</>}
+            </>
+          }
           subMessage={
             <>
               To send feedback, use <strong>Send Feedback</strong> instead.
@@ -844,6 +992,15 @@ const App: React.FC = () => {
         {/* Update notification */}
         <UpdateBanner origin={origin} />
 
+        {restoredDraft && !submitted && (
+          <DraftBanner
+            message={restoredDraft.message}
+            detail={restoredDraft.detail}
+            onDiscard={handleDiscardDraft}
+            onDismiss={() => setRestoredDraft(null)}
+          />
+        )}
+
         {/* Image Annotator for pasted images */}
         <ImageAnnotator
           isOpen={!!pendingPasteImage}
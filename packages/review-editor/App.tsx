@@ -4,34 +4,60 @@ import { ModeToggle } from '@plannotator/ui/components/ModeToggle';
 import { ConfirmDialog } from '@plannotator/ui/components/ConfirmDialog';
 import { Settings } from '@plannotator/ui/components/Settings';
 import { UpdateBanner } from '@plannotator/ui/components/UpdateBanner';
+import { DraftBanner } from '@plannotator/ui/components/DraftBanner';
+import { useDraftAutosave } from '@plannotator/ui/hooks/useDraftAutosave';
+import { DRAFT_VERSION, ReviewDraft, fetchDraft, getViewedFileHash, hashContent, reconcileReviewDraft, restoreViewedFiles } from '@plannotator/ui/utils/drafts';
+import { carryForwardReview, discardPreviousReview, fetchPreviousReview } from '@plannotator/ui/utils/reviewRounds';
+import { DeferredFile, DiffFile, getPatchLines, parseDiffToFiles } from '@plannotator/ui/utils/diffParser';
+import { fetchFilePatch, loadDeferredFiles, mergeLoadedFiles, withFilePatch } from '@plannotator/ui/utils/filePatches';
+import { createGeneratedFileMatcher, getGeneratedFilePatterns } from '@plannotator/ui/utils/generatedFiles';
+import { DiagnosticFinding, DiagnosticsSource, findingsToAnnotations, matchDiffFile, parseDiagnostics } from '@plannotator/ui/utils/diagnostics';
+import { CoverageReport, getDiffCoverage, isCoverageReport, parseCoverage, toLineRanges } from '@plannotator/ui/utils/coverage';
 import { storage } from '@plannotator/ui/utils/storage';
+import { apiUrl } from '@plannotator/ui/utils/api';
 import { getIdentity } from '@plannotator/ui/utils/identity';
 import { getAgentSwitchSettings, getEffectiveAgentName } from '@plannotator/ui/utils/agentSwitch';
-import { CodeAnnotation, CodeAnnotationType, SelectedLineRange, DiffAnnotationMetadata } from '@plannotator/ui/types';
-import { DiffViewer } from './components/DiffViewer';
-import { ReviewPanel } from './components/ReviewPanel';
+import { formatRepliesMarkdown, getOpenAnnotations, toFeedbackReplies } from '@plannotator/ui/utils/threads';
+import { formatLabelsMarkdown, sortBySeverity } from '@plannotator/ui/utils/labels';
+import {
+  CodeAnnotation,
+  CodeAnnotationType,
+  SelectedLineRange,
+  DiffAnnotationMetadata,
+  FEEDBACK_SCHEMA_VERSION,
+  ReviewFeedbackDocument,
+} from '@plannotator/ui/types';
+import { DiffViewer, StagingAction } from './components/DiffViewer';
+import { ReviewPanel, canApplySuggestion } from './components/ReviewPanel';
 import { FileTree } from './components/FileTree';
+import { ReviewExportModal } from './components/ReviewExportModal';
 import { DEMO_DIFF } from './demoData';
 
 declare const __APP_VERSION__: string;
 
-interface DiffFile {
-  path: string;
-  oldPath?: string;
-  patch: string;
-  additions: number;
-  deletions: number;
-}
-
 interface DiffOption {
   id: string;
   label: string;
 }
 
+type SuggestionResult =
+  | { id: string; status: 'applied'; lineStart: number; lineEnd: number; lineCount: number }
+  | { id: string; status: 'conflict'; error: string };
+
+// The diff the server sends back after changing the repository
+interface RefreshedDiff {
+  rawPatch: string;
+  deferredFiles?: DeferredFile[];
+  gitRef: string;
+  stagingActions?: StagingAction[];
+  discardedCount?: number;
+}
+
 interface GitContext {
   currentBranch: string;
   defaultBranch: string;
   diffOptions: DiffOption[];
+  branches?: string[];
 }
 
 interface DiffData {
@@ -44,52 +70,22 @@ interface DiffData {
   sharingEnabled?: boolean;
 }
 
-// Simple diff parser to extract files from unified diff
-function parseDiffToFiles(rawPatch: string): DiffFile[] {
-  const files: DiffFile[] = [];
-  const fileChunks = rawPatch.split(/^diff --git /m).filter(Boolean);
-
-  for (const chunk of fileChunks) {
-    const lines = chunk.split('\n');
-    const headerMatch = lines[0]?.match(/a\/(.+) b\/(.+)/);
-    if (!headerMatch) continue;
-
-    const oldPath = headerMatch[1];
-    const newPath = headerMatch[2];
-
-    let additions = 0;
-    let deletions = 0;
-
-    for (const line of lines) {
-      if (line.startsWith('+') && !line.startsWith('+++')) additions++;
-      if (line.startsWith('-') && !line.startsWith('---')) deletions++;
-    }
-
-    files.push({
-      path: newPath,
-      oldPath: oldPath !== newPath ? oldPath : undefined,
-      patch: 'diff --git ' + chunk,
-      additions,
-      deletions,
-    });
-  }
-
-  return files;
-}
-
 // Generate unique ID
 function generateId(): string {
   return Math.random().toString(36).substring(2, 9);
 }
 
 // Export annotations as markdown feedback
-function exportReviewFeedback(annotations: CodeAnnotation[], files: DiffFile[]): string {
+function exportReviewFeedback(allAnnotations: CodeAnnotation[], files: DiffFile[]): string {
+  // Resolved threads are settled between reviewers, not feedback for the agent
+  const annotations = getOpenAnnotations(allAnnotations);
   if (annotations.length === 0) {
     return '# Code Review\n\nNo feedback provided.';
   }
 
+  // Files with blocking items come first, and blocking items lead each file
   const grouped = new Map<string, CodeAnnotation[]>();
-  for (const ann of annotations) {
+  for (const ann of sortBySeverity(annotations)) {
     const existing = grouped.get(ann.filePath) || [];
     existing.push(ann);
     grouped.set(ann.filePath, existing);
@@ -100,7 +96,7 @@ function exportReviewFeedback(annotations: CodeAnnotation[], files: DiffFile[]):
   for (const [filePath, fileAnnotations] of grouped) {
     output += `## ${filePath}\n\n`;
 
-    const sorted = [...fileAnnotations].sort((a, b) => a.lineStart - b.lineStart);
+    const sorted = sortBySeverity([...fileAnnotations].sort((a, b) => a.lineStart - b.lineStart));
 
     for (let i = 0; i < sorted.length; i++) {
       const ann = sorted[i];
@@ -108,14 +104,26 @@ function exportReviewFeedback(annotations: CodeAnnotation[], files: DiffFile[]):
         ? `Line ${ann.lineStart}`
         : `Lines ${ann.lineStart}-${ann.lineEnd}`;
 
-      output += `### ${lineRange} (${ann.side})\n`;
+      output += `### ${lineRange} (${ann.side}${ann.outdated ? ', lines changed since this comment' : ''})\n`;
+      output += formatLabelsMarkdown(ann);
+      if (ann.carriedOver) {
+        output += ann.carriedOver.status === 'likely-addressed' && !ann.carriedOver.confirmed
+          ? `*From review round ${ann.carriedOver.round}. The code changed since; check it's fully addressed.*\n`
+          : `*From review round ${ann.carriedOver.round}, still open.*\n`;
+      }
 
       if (ann.text) {
         output += `${ann.text}\n`;
       }
 
       if (ann.suggestedCode) {
-        output += `\n**Suggested code:**\n\`\`\`\n${ann.suggestedCode}\n\`\`\`\n`;
+        const heading = ann.applied ? 'Suggested code (already applied to the file):' : 'Suggested code:';
+        output += `\n**${heading}**\n\`\`\`\n${ann.suggestedCode}\n\`\`\`\n`;
+      }
+
+      const replies = formatRepliesMarkdown(ann.replies);
+      if (replies) {
+        output += `\n${replies}`;
       }
 
       output += '\n';
@@ -125,6 +133,108 @@ function exportReviewFeedback(annotations: CodeAnnotation[], files: DiffFile[]):
   return output;
 }
 
+// Collect the text of a line range on one side of a file patch
+function getRangeText(patch: string, side: 'old' | 'new', start: number, end: number): string {
+  return getPatchLines(patch)
+    .filter(line => {
+      const lineNumber = side === 'old' ? line.oldLine : line.newLine;
+      return lineNumber !== undefined && lineNumber >= start && lineNumber <= end;
+    })
+    .map(line => line.text)
+    .join('\n');
+}
+
+// Export annotations as a versioned, machine-readable feedback document
+function exportReviewFeedbackJson(
+  annotations: CodeAnnotation[],
+  files: DiffFile[],
+  decision: ReviewFeedbackDocument['decision']
+): ReviewFeedbackDocument {
+  const sorted = sortBySeverity(getOpenAnnotations(annotations).sort((a, b) =>
+    a.filePath === b.filePath ? a.lineStart - b.lineStart : a.filePath.localeCompare(b.filePath)
+  ));
+
+  return {
+    schema: 'plannotator/feedback',
+    version: FEEDBACK_SCHEMA_VERSION,
+    kind: 'review',
+    decision,
+    createdAt: new Date().toISOString(),
+    annotations: sorted.map(ann => {
+      const file = files.find(f => f.path === ann.filePath);
+      return {
+        id: ann.id,
+        type: ann.type,
+        filePath: ann.filePath,
+        side: ann.side,
+        lineStart: ann.lineStart,
+        lineEnd: ann.lineEnd,
+        anchorText: ann.anchorText ?? (file ? getRangeText(file.patch, ann.side, ann.lineStart, ann.lineEnd) : ''),
+        ...(ann.text && { text: ann.text }),
+        ...(ann.suggestedCode && { suggestedCode: ann.suggestedCode }),
+        ...(ann.applied && { applied: true }),
+        ...(ann.carriedOver && { carriedOver: ann.carriedOver }),
+        ...(ann.severity && { severity: ann.severity }),
+        ...(ann.tags?.length && { tags: ann.tags }),
+        ...(ann.replies?.length && { replies: toFeedbackReplies(ann.replies) }),
+        ...(ann.author && { author: ann.author }),
+        createdAt: new Date(ann.createdAt).toISOString(),
+      };
+    }),
+  };
+}
+
+// Parse diagnostics into annotations on the diff's added lines. Files with
+// findings that were left out of the diff for size are loaded first.
+async function importDiagnostics(sources: DiagnosticsSource[], files: DiffFile[]) {
+  const findings: DiagnosticFinding[] = [];
+  const errors: string[] = [];
+  for (const source of sources) {
+    try {
+      findings.push(...parseDiagnostics(source.content));
+    } catch (err) {
+      errors.push(`${source.name}: ${err instanceof Error ? err.message : 'Failed to read'}`);
+    }
+  }
+
+  const paths = new Set(findings.flatMap(finding => matchDiffFile(finding.path, files) ?? []));
+  const loaded = await loadDeferredFiles(files, paths);
+  return { ...findingsToAnnotations(findings, loaded), loaded, errors };
+}
+
+// After suggestions are written to a file, applied annotations cover their
+// replacement lines and later annotations in the file move with the code
+function updateAppliedAnnotations(
+  annotations: CodeAnnotation[],
+  results: Extract<SuggestionResult, { status: 'applied' }>[]
+): CodeAnnotation[] {
+  const applied = results.flatMap(result => {
+    const ann = annotations.find(a => a.id === result.id);
+    return ann ? [{ ...result, filePath: ann.filePath }] : [];
+  });
+
+  const shiftFor = (ann: CodeAnnotation, lineStart: number) => applied
+    .filter(r => r.filePath === ann.filePath && r.lineEnd < lineStart)
+    .reduce((sum, r) => sum + r.lineCount - (r.lineEnd - r.lineStart + 1), 0);
+
+  return annotations.map(ann => {
+    const own = applied.find(r => r.id === ann.id);
+    if (own) {
+      const lineStart = own.lineStart + shiftFor(ann, own.lineStart);
+      return {
+        ...ann,
+        applied: true,
+        lineStart,
+        lineEnd: lineStart + Math.max(own.lineCount, 1) - 1,
+        anchorText: ann.suggestedCode,
+      };
+    }
+    if (ann.side !== 'new') return ann;
+    const shift = shiftFor(ann, ann.lineStart);
+    return shift ? { ...ann, lineStart: ann.lineStart + shift, lineEnd: ann.lineEnd + shift } : ann;
+  });
+}
+
 const ReviewApp: React.FC = () => {
   const [diffData, setDiffData] = useState<DiffData | null>(null);
   const [files, setFiles] = useState<DiffFile[]>([]);
@@ -138,11 +248,19 @@ const ReviewApp: React.FC = () => {
   const [diffStyle, setDiffStyle] = useState<'split' | 'unified'>(() => {
     return (storage.getItem('review-diff-style') as 'split' | 'unified') || 'split';
   });
+  const [wordDiff, setWordDiff] = useState(() => storage.getItem('review-word-diff') !== 'false');
+  // Whether the diff shown ignores whitespace; the saved preference is applied once the diff loads
+  const [ignoreWhitespace, setIgnoreWhitespace] = useState(false);
+  const [syncWhitespacePreference, setSyncWhitespacePreference] = useState(false);
   const [isPanelOpen, setIsPanelOpen] = useState(true);
   const [copyFeedback, setCopyFeedback] = useState<string | null>(null);
   const [viewedFiles, setViewedFiles] = useState<Set<string>>(new Set());
   const [origin, setOrigin] = useState<'opencode' | 'claude-code' | null>(null);
   const [diffType, setDiffType] = useState<string>('uncommitted');
+  const [diffRef, setDiffRef] = useState<string | undefined>(undefined);
+  const [diffLabel, setDiffLabel] = useState<string>('');
+  const [diffError, setDiffError] = useState<string | null>(null);
+  const [includeUntracked, setIncludeUntracked] = useState(true);
   const [gitContext, setGitContext] = useState<GitContext | null>(null);
   const [isLoadingDiff, setIsLoadingDiff] = useState(false);
   const [isSendingFeedback, setIsSendingFeedback] = useState(false);
@@ -150,8 +268,22 @@ const ReviewApp: React.FC = () => {
   const [submitted, setSubmitted] = useState<'approved' | 'feedback' | false>(false);
   const [showApproveWarning, setShowApproveWarning] = useState(false);
   const [sharingEnabled, setSharingEnabled] = useState(true);
+  const [isApplyingSuggestions, setIsApplyingSuggestions] = useState(false);
+  const [applyErrors, setApplyErrors] = useState<Record<string, string>>({});
+  const [draftReady, setDraftReady] = useState(false);
+  const [restoredDraft, setRestoredDraft] = useState<{ source: 'draft' | 'round'; message: string; detail?: string } | null>(null);
+  const [generatedPatterns, setGeneratedPatterns] = useState<string[]>(getGeneratedFilePatterns);
+  const [stagingActions, setStagingActions] = useState<StagingAction[]>([]);
+  const [discardedCount, setDiscardedCount] = useState(0);
+  const [isStaging, setIsStaging] = useState(false);
+  const [pendingDiscard, setPendingDiscard] = useState<{ path: string; hunk?: { index: number; header: string } } | null>(null);
+  const [stagingError, setStagingError] = useState<string | null>(null);
+  const [importNotice, setImportNotice] = useState<{ message: string; isError?: boolean } | null>(null);
+  const [isDraggingDiagnostics, setIsDraggingDiagnostics] = useState(false);
+  const [coverageReport, setCoverageReport] = useState<CoverageReport | null>(null);
 
   const identity = useMemo(() => getIdentity(), []);
+  const isGeneratedFile = useMemo(() => createGeneratedFileMatcher(generatedPatterns), [generatedPatterns]);
 
   // Mark file as viewed when it becomes active
   useEffect(() => {
@@ -186,25 +318,76 @@ const ReviewApp: React.FC = () => {
   const activeFileAnnotations = useMemo(() => {
     const activeFile = files[activeFileIndex];
     if (!activeFile) return [];
-    return annotations.filter(a => a.filePath === activeFile.path);
+    // Outdated annotations no longer point at the right lines, so they're only listed in the panel
+    return annotations.filter(a => a.filePath === activeFile.path && !a.outdated);
   }, [annotations, files, activeFileIndex]);
 
+  // Add imported findings to the review, skipping ones already in it
+  const showImportedDiagnostics = useCallback((result: Awaited<ReturnType<typeof importDiagnostics>>) => {
+    setFiles(prev => mergeLoadedFiles(prev, result.loaded));
+    setAnnotations(prev => {
+      const ids = new Set(prev.map(ann => ann.id));
+      return [...prev, ...result.annotations.filter(ann => !ids.has(ann.id))];
+    });
+
+    const count = result.annotations.length;
+    const parts = [`Imported ${count} finding${count === 1 ? '' : 's'}`];
+    if (result.skipped > 0) parts.push(`${result.skipped} on unchanged lines left out`);
+    setImportNotice({
+      message: [parts.join('; '), ...result.errors].join('. '),
+      isError: result.errors.length > 0,
+    });
+  }, []);
+
+  // Import diagnostics files and coverage reports dropped on the page
+  const handleDropDiagnostics = useCallback(async (dropped: File[]) => {
+    const sources = await Promise.all(dropped.map(async file => ({ name: file.name, content: await file.text() })));
+    const coverage = sources.find(source => isCoverageReport(source.content));
+    if (coverage) {
+      try {
+        const report = parseCoverage(coverage.content);
+        setCoverageReport(report);
+        const count = Object.keys(getDiffCoverage(report, files)).length;
+        setImportNotice({ message: `Loaded coverage for ${count} file${count === 1 ? '' : 's'} in the diff` });
+      } catch (err) {
+        setImportNotice({ message: `${coverage.name}: ${err instanceof Error ? err.message : 'Failed to read'}`, isError: true });
+      }
+    }
+    const diagnostics = sources.filter(source => source !== coverage);
+    if (diagnostics.length > 0) showImportedDiagnostics(await importDiagnostics(diagnostics, files));
+  }, [files, showImportedDiagnostics]);
+
+  // Hide the import summary after a while, unless something went wrong
+  useEffect(() => {
+    if (!importNotice || importNotice.isError) return;
+    const timer = setTimeout(() => setImportNotice(null), 5000);
+    return () => clearTimeout(timer);
+  }, [importNotice]);
+
   // Load diff content - try API first, fall back to demo
   useEffect(() => {
-    fetch('/api/diff')
+    fetch(apiUrl('/api/diff'))
       .then(res => {
         if (!res.ok) throw new Error('Not in API mode');
         return res.json();
       })
       .then((data: {
         rawPatch: string;
+        deferredFiles?: DeferredFile[];
         gitRef: string;
         origin?: 'opencode' | 'claude-code';
         diffType?: string;
+        diffRef?: string;
+        includeUntracked?: boolean;
+        ignoreWhitespace?: boolean;
         gitContext?: GitContext;
         sharingEnabled?: boolean;
+        stagingActions?: StagingAction[];
+        discardedCount?: number;
+        diagnostics?: DiagnosticsSource[];
+        coverage?: DiagnosticsSource;
       }) => {
-        const apiFiles = parseDiffToFiles(data.rawPatch);
+        const apiFiles = parseDiffToFiles(data.rawPatch, data.deferredFiles);
         setDiffData({
           files: apiFiles,
           rawPatch: data.rawPatch,
@@ -217,8 +400,80 @@ const ReviewApp: React.FC = () => {
         setFiles(apiFiles);
         if (data.origin) setOrigin(data.origin);
         if (data.diffType) setDiffType(data.diffType);
-        if (data.gitContext) setGitContext(data.gitContext);
+        setDiffRef(data.diffRef);
+        setDiffLabel(data.gitRef);
+        if (data.includeUntracked !== undefined) setIncludeUntracked(data.includeUntracked);
+        setIgnoreWhitespace(!!data.ignoreWhitespace);
+        if (data.gitContext) {
+          setGitContext(data.gitContext);
+          if (!!data.ignoreWhitespace !== (storage.getItem('review-ignore-whitespace') === 'true')) {
+            setSyncWhitespacePreference(true);
+          }
+        }
         if (data.sharingEnabled !== undefined) setSharingEnabled(data.sharingEnabled);
+        setStagingActions(data.stagingActions ?? []);
+        setDiscardedCount(data.discardedCount ?? 0);
+        if (data.coverage) {
+          try {
+            setCoverageReport(parseCoverage(data.coverage.content));
+          } catch (err) {
+            setImportNotice({ message: `${data.coverage.name}: ${err instanceof Error ? err.message : 'Failed to read'}`, isError: true });
+          }
+        }
+
+        // Annotated files left out of the diff for size are loaded first, so
+        // restored annotations are checked against their real lines
+        const withAnnotatedFiles = async (annotated: CodeAnnotation[]) => {
+          const loaded = await loadDeferredFiles(apiFiles, new Set(annotated.map(ann => ann.filePath)));
+          setFiles(prev => mergeLoadedFiles(prev, loaded));
+          return loaded;
+        };
+
+        // Restore annotations autosaved before a reload, crash or restart,
+        // or else carry forward the ones sent in the last round of feedback
+        fetchDraft<ReviewDraft>('review')
+          .then(async draft => {
+            const viewed = restoreViewedFiles(draft?.viewedFiles, apiFiles);
+            if (viewed.length > 0) setViewedFiles(prev => new Set([...prev, ...viewed]));
+
+            if (!draft || draft.annotations.length === 0) {
+              const previous = await fetchPreviousReview();
+              if (previous) {
+                const carried = carryForwardReview(previous, await withAnnotatedFiles(previous.annotations));
+                const addressed = carried.filter(ann => ann.carriedOver?.status === 'likely-addressed').length;
+                setAnnotations(carried);
+                setRestoredDraft({
+                  source: 'round',
+                  message: `Carried over ${carried.length} annotation${carried.length === 1 ? '' : 's'} from review round ${previous.round}`,
+                  detail: addressed > 0
+                    ? `${addressed} look${addressed === 1 ? 's' : ''} addressed since. Confirm each one in the panel.`
+                    : 'None of the annotated code changed since.',
+                });
+              }
+              // Diagnostics passed on the command line are imported once; a
+              // saved draft already holds them
+              if (!draft && data.diagnostics?.length) {
+                showImportedDiagnostics(await importDiagnostics(data.diagnostics, apiFiles));
+              }
+              return;
+            }
+
+            const { annotations: restored, outdated } = reconcileReviewDraft(
+              draft.annotations,
+              await withAnnotatedFiles(draft.annotations),
+              draft.fileHashes
+            );
+            setAnnotations(restored);
+            const count = restored.length;
+            setRestoredDraft({
+              source: 'draft',
+              message: `Restored ${count} annotation${count === 1 ? '' : 's'} from your draft`,
+              detail: outdated > 0
+                ? `${outdated} ${outdated === 1 ? 'is' : 'are'} on lines that changed and ${outdated === 1 ? 'is' : 'are'} marked outdated.`
+                : undefined,
+            });
+          })
+          .finally(() => setDraftReady(true));
       })
       .catch(() => {
         // Not in API mode - use demo content
@@ -233,12 +488,42 @@ const ReviewApp: React.FC = () => {
       .finally(() => setIsLoading(false));
   }, []);
 
+  // Autosave annotations once any saved draft has been restored
+  const fileHashes = useMemo(
+    () => Object.fromEntries(files.map(file => [file.path, hashContent(file.patch)])),
+    [files]
+  );
+  const reviewDraft = useMemo<ReviewDraft | null>(() => {
+    if (!draftReady || submitted) return null;
+    const viewed = Object.fromEntries(
+      files.flatMap(file => (viewedFiles.has(file.path) ? [[file.path, getViewedFileHash(file)]] : []))
+    );
+    return { version: DRAFT_VERSION, kind: 'review', fileHashes, annotations, viewedFiles: viewed };
+  }, [draftReady, submitted, files, fileHashes, annotations, viewedFiles]);
+  useDraftAutosave(reviewDraft, annotations.length === 0 && viewedFiles.size === 0);
+
+  const handleDiscardDraft = useCallback(() => {
+    // Discarding carried-over annotations ends the multi-round review
+    if (restoredDraft?.source === 'round') {
+      discardPreviousReview().catch(err => console.error('Failed to discard previous review:', err));
+    }
+    setAnnotations([]);
+    setSelectedAnnotationId(null);
+    setApplyErrors({});
+    setRestoredDraft(null);
+  }, [restoredDraft]);
+
   // Handle diff style change
   const handleDiffStyleChange = useCallback((style: 'split' | 'unified') => {
     setDiffStyle(style);
     storage.setItem('review-diff-style', style);
   }, []);
 
+  const handleWordDiffChange = useCallback((enabled: boolean) => {
+    setWordDiff(enabled);
+    storage.setItem('review-word-diff', String(enabled));
+  }, []);
+
   // Handle line selection from diff viewer
   const handleLineSelection = useCallback((range: SelectedLineRange | null) => {
     setPendingSelection(range);
@@ -248,13 +533,15 @@ const ReviewApp: React.FC = () => {
   const handleAddAnnotation = useCallback((
     type: CodeAnnotationType,
     text?: string,
-    suggestedCode?: string
+    suggestedCode?: string,
+    anchorText?: string
   ) => {
     if (!pendingSelection || !files[activeFileIndex]) return;
 
     // Normalize line range (in case user selected bottom-to-top)
     const lineStart = Math.min(pendingSelection.start, pendingSelection.end);
     const lineEnd = Math.max(pendingSelection.start, pendingSelection.end);
+    const side = pendingSelection.side === 'additions' ? 'new' : 'old';
 
     const newAnnotation: CodeAnnotation = {
       id: generateId(),
@@ -262,9 +549,11 @@ const ReviewApp: React.FC = () => {
       filePath: files[activeFileIndex].path,
       lineStart,
       lineEnd,
-      side: pendingSelection.side === 'additions' ? 'new' : 'old',
+      side,
       text,
       suggestedCode,
+      // Lines expanded beyond the patch come from the viewer
+      anchorText: anchorText ?? getRangeText(files[activeFileIndex].patch, side, lineStart, lineEnd),
       createdAt: Date.now(),
       author: identity,
     };
@@ -273,6 +562,41 @@ const ReviewApp: React.FC = () => {
     setPendingSelection(null);
   }, [pendingSelection, files, activeFileIndex, identity]);
 
+  // Patch coverage of the loaded files, when a coverage report was given
+  const diffCoverage = useMemo(
+    () => (coverageReport ? getDiffCoverage(coverageReport, files) : undefined),
+    [coverageReport, files]
+  );
+
+  // Add a concern on each run of uncovered added lines in the active file,
+  // leaving out runs that already have one
+  const handleFlagUncovered = useCallback(() => {
+    const file = files[activeFileIndex];
+    const uncovered = file && diffCoverage?.[file.path]?.uncovered;
+    if (!uncovered?.length) return;
+
+    setAnnotations(prev => {
+      const flagged = toLineRanges(uncovered)
+        .filter(range => !prev.some(ann =>
+          ann.filePath === file.path && ann.side === 'new' && ann.lineStart === range.start && ann.lineEnd === range.end && ann.type === 'concern'
+        ))
+        .map((range): CodeAnnotation => ({
+          id: generateId(),
+          type: 'concern',
+          filePath: file.path,
+          lineStart: range.start,
+          lineEnd: range.end,
+          side: 'new',
+          text: range.start === range.end ? 'This line is not covered by tests.' : 'These lines are not covered by tests.',
+          anchorText: getRangeText(file.patch, 'new', range.start, range.end),
+          createdAt: Date.now(),
+          author: identity,
+          tags: ['testing'],
+        }));
+      return [...prev, ...flagged];
+    });
+  }, [files, activeFileIndex, diffCoverage, identity]);
+
   // Delete annotation
   const handleDeleteAnnotation = useCallback((id: string) => {
     setAnnotations(prev => prev.filter(a => a.id !== id));
@@ -281,6 +605,13 @@ const ReviewApp: React.FC = () => {
     }
   }, [selectedAnnotationId]);
 
+  // Edit annotation (replies, resolved state)
+  const handleUpdateAnnotation = useCallback((id: string, updates: Partial<CodeAnnotation>) => {
+    setAnnotations(prev => prev.map(ann =>
+      ann.id === id ? { ...ann, ...updates } : ann
+    ));
+  }, []);
+
   // Handle identity change - update author on existing annotations
   const handleIdentityChange = useCallback((oldIdentity: string, newIdentity: string) => {
     setAnnotations(prev => prev.map(ann =>
@@ -296,39 +627,217 @@ const ReviewApp: React.FC = () => {
     }
   }, [activeFileIndex]);
 
-  // Switch diff type (uncommitted, staged, last-commit, branch, etc.)
-  const handleDiffSwitch = useCallback(async (newDiffType: string) => {
-    if (newDiffType === diffType || newDiffType === 'separator') return;
+  // Switch diff type (uncommitted, staged, last-commit, branch, a commit or a range)
+  const handleDiffSwitch = useCallback(async (
+    newDiffType: string,
+    ref?: string,
+    overrides: { includeUntracked?: boolean; ignoreWhitespace?: boolean } = {}
+  ) => {
+    if (newDiffType === 'separator') return;
+    const untracked = overrides.includeUntracked ?? includeUntracked;
+    const whitespace = overrides.ignoreWhitespace ?? ignoreWhitespace;
+    if (newDiffType === diffType && ref === diffRef && untracked === includeUntracked && whitespace === ignoreWhitespace) return;
 
     setIsLoadingDiff(true);
+    setDiffError(null);
     try {
-      const res = await fetch('/api/diff/switch', {
+      const res = await fetch(apiUrl('/api/diff/switch'), {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ diffType: newDiffType }),
+        body: JSON.stringify({
+          diffType: newDiffType,
+          ...(ref && { ref }),
+          includeUntracked: untracked,
+          ignoreWhitespace: whitespace,
+        }),
       });
 
-      if (!res.ok) throw new Error('Failed to switch diff');
+      if (!res.ok) {
+        const { error } = await res.json().catch(() => ({ error: undefined })) as { error?: string };
+        throw new Error(error || 'Failed to switch diff');
+      }
 
       const data = await res.json() as {
         rawPatch: string;
+        deferredFiles?: DeferredFile[];
         gitRef: string;
         diffType: string;
+        diffRef?: string;
+        includeUntracked?: boolean;
+        ignoreWhitespace?: boolean;
+        stagingActions?: StagingAction[];
+        discardedCount?: number;
       };
 
-      const newFiles = parseDiffToFiles(data.rawPatch);
+      const newFiles = parseDiffToFiles(data.rawPatch, data.deferredFiles);
       setFiles(newFiles);
+      // Viewed files are kept per diff; bring back the ones saved for this one
+      if (data.diffType !== diffType || data.diffRef !== diffRef) {
+        setViewedFiles(new Set());
+        fetchDraft<ReviewDraft>('review').then(draft => {
+          const viewed = restoreViewedFiles(draft?.viewedFiles, newFiles);
+          if (viewed.length > 0) setViewedFiles(prev => new Set([...prev, ...viewed]));
+        });
+      }
       setDiffType(data.diffType);
+      setDiffRef(data.diffRef);
+      setDiffLabel(data.gitRef);
+      setIncludeUntracked(data.includeUntracked ?? untracked);
+      setIgnoreWhitespace(data.ignoreWhitespace ?? whitespace);
+      setStagingActions(data.stagingActions ?? []);
+      setDiscardedCount(data.discardedCount ?? 0);
       setActiveFileIndex(0);
       setPendingSelection(null);
       // Note: We keep existing annotations - they may still be relevant
       // or user can clear them manually
     } catch (err) {
       console.error('Failed to switch diff:', err);
+      setDiffError(err instanceof Error ? err.message : 'Failed to switch diff');
     } finally {
       setIsLoadingDiff(false);
     }
-  }, [diffType]);
+  }, [diffType, diffRef, includeUntracked, ignoreWhitespace]);
+
+  const handleIgnoreWhitespaceChange = useCallback((enabled: boolean) => {
+    storage.setItem('review-ignore-whitespace', String(enabled));
+    handleDiffSwitch(diffType, diffRef, { ignoreWhitespace: enabled });
+  }, [handleDiffSwitch, diffType, diffRef]);
+
+  // Re-run the first diff if the saved whitespace preference differs from it
+  useEffect(() => {
+    if (!syncWhitespacePreference) return;
+    setSyncWhitespacePreference(false);
+    handleDiffSwitch(diffType, diffRef, {
+      ignoreWhitespace: storage.getItem('review-ignore-whitespace') === 'true',
+    });
+  }, [syncWhitespacePreference, handleDiffSwitch, diffType, diffRef]);
+
+  // Show the diff the server re-ran after changing the repository, staying on the same file
+  const showRefreshedDiff = useCallback((data: RefreshedDiff) => {
+    const activePath = files[activeFileIndex]?.path;
+    const newFiles = parseDiffToFiles(data.rawPatch, data.deferredFiles);
+    setFiles(newFiles);
+    setActiveFileIndex(Math.max(0, newFiles.findIndex(f => f.path === activePath)));
+    setDiffData(prev => prev && { ...prev, files: newFiles, rawPatch: data.rawPatch });
+    setDiffLabel(data.gitRef);
+    setStagingActions(data.stagingActions ?? []);
+    setDiscardedCount(data.discardedCount ?? 0);
+    setPendingSelection(null);
+  }, [files, activeFileIndex]);
+
+  // Write suggested code into the working tree, then reload the diff
+  const handleApplySuggestions = useCallback(async (ids: string[]) => {
+    const targets = annotations.filter(ann => ids.includes(ann.id) && canApplySuggestion(ann));
+    if (targets.length === 0) return;
+
+    setIsApplyingSuggestions(true);
+    try {
+      const res = await fetch(apiUrl('/api/suggestions/apply'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          suggestions: targets.map(ann => {
+            const file = files.find(f => f.path === ann.filePath);
+            return {
+              id: ann.id,
+              filePath: ann.filePath,
+              lineStart: ann.lineStart,
+              lineEnd: ann.lineEnd,
+              suggestedCode: ann.suggestedCode,
+              anchorText: ann.anchorText ?? (file ? getRangeText(file.patch, 'new', ann.lineStart, ann.lineEnd) : undefined),
+            };
+          }),
+        }),
+      });
+
+      if (!res.ok) {
+        const { error } = await res.json().catch(() => ({ error: undefined })) as { error?: string };
+        throw new Error(error || 'Failed to apply suggestions');
+      }
+
+      const data = await res.json() as RefreshedDiff & { results: SuggestionResult[] };
+
+      setAnnotations(prev => updateAppliedAnnotations(
+        prev,
+        data.results.filter((r): r is Extract<SuggestionResult, { status: 'applied' }> => r.status === 'applied')
+      ));
+      setApplyErrors(prev => {
+        const next = { ...prev };
+        for (const result of data.results) {
+          if (result.status === 'conflict') next[result.id] = result.error;
+          else delete next[result.id];
+        }
+        return next;
+      });
+
+      showRefreshedDiff(data);
+    } catch (err) {
+      console.error('Failed to apply suggestions:', err);
+      const message = err instanceof Error ? err.message : 'Failed to apply suggestions';
+      setApplyErrors(prev => ({ ...prev, ...Object.fromEntries(targets.map(ann => [ann.id, message])) }));
+    } finally {
+      setIsApplyingSuggestions(false);
+    }
+  }, [annotations, files, showRefreshedDiff]);
+
+  // Stage, unstage or discard a file or one of its hunks, then reload the diff
+  const runStagingAction = useCallback(async (
+    action: StagingAction,
+    path: string,
+    hunk?: { index: number; header: string }
+  ) => {
+    setIsStaging(true);
+    setStagingError(null);
+    try {
+      const res = await fetch(apiUrl('/api/staging'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, path, hunk: hunk?.index, hunkHeader: hunk?.header }),
+      });
+
+      if (!res.ok) {
+        const { error } = await res.json().catch(() => ({ error: undefined })) as { error?: string };
+        throw new Error(error || `Failed to ${action} changes`);
+      }
+
+      showRefreshedDiff(await res.json() as RefreshedDiff);
+    } catch (err) {
+      console.error(`Failed to ${action} changes:`, err);
+      setStagingError(err instanceof Error ? err.message : `Failed to ${action} changes`);
+    } finally {
+      setIsStaging(false);
+    }
+  }, [showRefreshedDiff]);
+
+  // Discarding changes the working tree, so it's confirmed first
+  const handleStagingAction = useCallback((action: StagingAction, hunk?: { index: number; header: string }) => {
+    const path = files[activeFileIndex]?.path;
+    if (!path) return;
+    if (action === 'discard') {
+      setPendingDiscard({ path, hunk });
+    } else {
+      runStagingAction(action, path, hunk);
+    }
+  }, [files, activeFileIndex, runStagingAction]);
+
+  // Restore the most recently discarded changes
+  const handleUndoDiscard = useCallback(async () => {
+    setIsStaging(true);
+    setStagingError(null);
+    try {
+      const res = await fetch(apiUrl('/api/staging/undo'), { method: 'POST' });
+      if (!res.ok) {
+        const { error } = await res.json().catch(() => ({ error: undefined })) as { error?: string };
+        throw new Error(error || 'Failed to restore changes');
+      }
+      showRefreshedDiff(await res.json() as RefreshedDiff);
+    } catch (err) {
+      console.error('Failed to restore changes:', err);
+      setStagingError(err instanceof Error ? err.message : 'Failed to restore changes');
+    } finally {
+      setIsStaging(false);
+    }
+  }, [showRefreshedDiff]);
 
   // Select annotation - switches file if needed and scrolls to it
   const handleSelectAnnotation = useCallback((id: string | null) => {
@@ -353,11 +862,18 @@ const ReviewApp: React.FC = () => {
     setSelectedAnnotationId(id);
   }, [annotations, files, activeFileIndex, handleFileSwitch]);
 
-  // Copy raw diff to clipboard
+  // Fetch the patch of a file that was left out of the diff for size
+  const handleLoadFilePatch = useCallback(async (path: string) => {
+    const patch = await fetchFilePatch(path);
+    setFiles(prev => withFilePatch(prev, path, patch));
+  }, []);
+
+  // Copy raw diff to clipboard, including files left out of it for size
   const handleCopyDiff = useCallback(async () => {
     if (!diffData) return;
     try {
-      await navigator.clipboard.writeText(diffData.rawPatch);
+      const fullFiles = files.some(file => file.deferred) ? await loadDeferredFiles(files) : files;
+      await navigator.clipboard.writeText(fullFiles.map(file => file.patch).join(''));
       setCopyFeedback('Diff copied!');
       setTimeout(() => setCopyFeedback(null), 2000);
     } catch (err) {
@@ -365,11 +881,11 @@ const ReviewApp: React.FC = () => {
       setCopyFeedback('Failed to copy');
       setTimeout(() => setCopyFeedback(null), 2000);
     }
-  }, [diffData]);
+  }, [diffData, files]);
 
   // Copy feedback markdown to clipboard
   const handleCopyFeedback = useCallback(async () => {
-    if (annotations.length === 0) {
+    if (getOpenAnnotations(annotations).length === 0) {
       setShowNoAnnotationsDialog(true);
       return;
     }
@@ -387,21 +903,23 @@ const ReviewApp: React.FC = () => {
 
   // Send feedback to OpenCode via API
   const handleSendFeedback = useCallback(async () => {
-    if (annotations.length === 0) {
+    if (getOpenAnnotations(annotations).length === 0) {
       setShowNoAnnotationsDialog(true);
       return;
     }
     setIsSendingFeedback(true);
     try {
       const feedback = exportReviewFeedback(annotations, files);
+      const feedbackJson = exportReviewFeedbackJson(annotations, files, 'changes-requested');
       const agentSwitchSettings = getAgentSwitchSettings();
       const effectiveAgent = getEffectiveAgentName(agentSwitchSettings);
 
-      const res = await fetch('/api/feedback', {
+      const res = await fetch(apiUrl('/api/feedback'), {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           feedback,
+          feedbackJson,
           annotations,
           ...(effectiveAgent && { agentSwitch: effectiveAgent }),
         }),
@@ -423,11 +941,12 @@ const ReviewApp: React.FC = () => {
   const handleApprove = useCallback(async () => {
     setIsApproving(true);
     try {
-      const res = await fetch('/api/feedback', {
+      const res = await fetch(apiUrl('/api/feedback'), {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           feedback: 'LGTM - no changes requested.',
+          feedbackJson: exportReviewFeedbackJson([], [], 'approved'),
           annotations: [],
         }),
       });
@@ -445,6 +964,7 @@ const ReviewApp: React.FC = () => {
   }, []);
 
   const activeFile = files[activeFileIndex];
+  const openAnnotations = useMemo(() => getOpenAnnotations(annotations), [annotations]);
   const feedbackMarkdown = useMemo(() =>
     exportReviewFeedback(annotations, files),
     [annotations, files]
@@ -462,7 +982,25 @@ const ReviewApp: React.FC = () => {
 
   return (
     <ThemeProvider defaultTheme="dark">
-      <div className="h-screen flex flex-col bg-background overflow-hidden">
+      <div
+        className="h-screen flex flex-col bg-background overflow-hidden"
+        onDragOver={(e) => {
+          // Drops handled further down (image attachments) are left alone
+          if (e.defaultPrevented || !e.dataTransfer.types.includes('Files')) return;
+          e.preventDefault();
+          setIsDraggingDiagnostics(true);
+        }}
+        onDragLeave={(e) => {
+          if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDraggingDiagnostics(false);
+        }}
+        onDrop={(e) => {
+          setIsDraggingDiagnostics(false);
+          if (e.defaultPrevented) return;
+          e.preventDefault();
+          const dropped = Array.from<File>(e.dataTransfer.files).filter(file => !file.type.startsWith('image/'));
+          if (dropped.length > 0) handleDropDiagnostics(dropped);
+        }}
+      >
         {/* Header */}
         <header className="h-12 flex items-center justify-between px-2 md:px-4 border-b border-border/50 bg-card/50 backdrop-blur-xl z-50">
           <div className="flex items-center gap-2 md:gap-3">
@@ -521,6 +1059,35 @@ const ReviewApp: React.FC = () => {
               </button>
             </div>
 
+            {/* Intra-line and whitespace toggles */}
+            <div className="flex items-center gap-1 bg-muted rounded-lg p-0.5">
+              <button
+                onClick={() => handleWordDiffChange(!wordDiff)}
+                className={`px-2 py-1 text-xs rounded-md transition-colors ${
+                  wordDiff
+                    ? 'bg-background text-foreground shadow-sm'
+                    : 'text-muted-foreground hover:text-foreground'
+                }`}
+                title="Highlight the changed words within each line"
+              >
+                Words
+              </button>
+              {gitContext && (
+                <button
+                  onClick={() => handleIgnoreWhitespaceChange(!ignoreWhitespace)}
+                  disabled={isLoadingDiff}
+                  className={`px-2 py-1 text-xs rounded-md transition-colors disabled:opacity-50 ${
+                    ignoreWhitespace
+                      ? 'bg-background text-foreground shadow-sm'
+                      : 'text-muted-foreground hover:text-foreground'
+                  }`}
+                  title="Hide changes that only add or remove whitespace"
+                >
+                  Ignore whitespace
+                </button>
+              )}
+            </div>
+
             {/* Primary actions */}
             <button
               onClick={handleCopyDiff}
@@ -549,15 +1116,15 @@ const ReviewApp: React.FC = () => {
                 {/* Send Feedback button - accent color, disabled if no annotations */}
                 <button
                   onClick={handleSendFeedback}
-                  disabled={isSendingFeedback || isApproving || annotations.length === 0}
+                  disabled={isSendingFeedback || isApproving || openAnnotations.length === 0}
                   className={`p-1.5 md:px-2.5 md:py-1 rounded-md text-xs font-medium transition-all ${
                     isSendingFeedback || isApproving
                       ? 'opacity-50 cursor-not-allowed bg-muted text-muted-foreground'
-                      : annotations.length === 0
+                      : openAnnotations.length === 0
                         ? 'opacity-50 cursor-not-allowed bg-accent/10 text-accent/50'
                         : 'bg-accent/15 text-accent hover:bg-accent/25 border border-accent/30'
                   }`}
-                  title={annotations.length === 0 ? "Add annotations to send feedback" : "Send feedback"}
+                  title={openAnnotations.length === 0 ? "Add annotations to send feedback" : "Send feedback"}
                 >
                   <svg className="w-4 h-4 md:hidden" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
                     <path strokeLinecap="round" strokeLinejoin="round" d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
@@ -569,7 +1136,7 @@ const ReviewApp: React.FC = () => {
                 <div className="relative group/approve">
                   <button
                     onClick={() => {
-                      if (annotations.length > 0) {
+                      if (openAnnotations.length > 0) {
                         setShowApproveWarning(true);
                       } else {
                         handleApprove();
@@ -579,7 +1146,7 @@ const ReviewApp: React.FC = () => {
                     className={`px-2 py-1 md:px-2.5 rounded-md text-xs font-medium transition-all ${
                       isSendingFeedback || isApproving
                         ? 'opacity-50 cursor-not-allowed bg-muted text-muted-foreground'
-                        : annotations.length > 0
+                        : openAnnotations.length > 0
                           ? 'bg-success/50 text-success-foreground/70 hover:bg-success hover:text-success-foreground'
                           : 'bg-success text-success-foreground hover:opacity-90'
                     }`}
@@ -588,11 +1155,11 @@ const ReviewApp: React.FC = () => {
                     <span className="md:hidden">{isApproving ? '...' : 'OK'}</span>
                     <span className="hidden md:inline">{isApproving ? 'Approving...' : 'Approve'}</span>
                   </button>
-                  {annotations.length > 0 && (
+                  {openAnnotations.length > 0 && (
                     <div className="absolute top-full right-0 mt-2 px-3 py-2 bg-popover border border-border rounded-lg shadow-xl text-xs text-foreground w-56 text-center opacity-0 invisible group-hover/approve:opacity-100 group-hover/approve:visible transition-all pointer-events-none z-50">
                       <div className="absolute bottom-full right-4 border-4 border-transparent border-b-border" />
                       <div className="absolute bottom-full right-4 mt-px border-4 border-transparent border-b-popover" />
-                      Your {annotations.length} annotation{annotations.length !== 1 ? 's' : ''} won't be sent if you approve.
+                      Your {openAnnotations.length} annotation{openAnnotations.length !== 1 ? 's' : ''} won't be sent if you approve.
                     </div>
                   )}
                 </div>
@@ -631,6 +1198,7 @@ const ReviewApp: React.FC = () => {
               onIdentityChange={handleIdentityChange}
               origin={origin}
               mode="review"
+              onGeneratedPatternsChange={setGeneratedPatterns}
             />
 
             {/* Panel toggle */}
@@ -672,11 +1240,20 @@ const ReviewApp: React.FC = () => {
               onSelectFile={handleFileSwitch}
               annotations={annotations}
               viewedFiles={viewedFiles}
+              isGeneratedFile={isGeneratedFile}
+              coverage={diffCoverage}
               enableKeyboardNav={!showExportModal}
               diffOptions={gitContext?.diffOptions}
               activeDiffType={diffType}
               onSelectDiff={handleDiffSwitch}
               isLoadingDiff={isLoadingDiff}
+              diffLabel={diffLabel}
+              diffError={diffError}
+              branches={gitContext?.branches}
+              defaultBranch={gitContext?.defaultBranch}
+              currentBranch={gitContext?.currentBranch}
+              includeUntracked={includeUntracked}
+              onToggleUntracked={(value) => handleDiffSwitch(diffType, diffRef, { includeUntracked: value })}
             />
           )}
 
@@ -686,7 +1263,16 @@ const ReviewApp: React.FC = () => {
               <DiffViewer
                 patch={activeFile.patch}
                 filePath={activeFile.path}
+                oldPath={activeFile.oldPath}
+                status={activeFile.status}
+                binary={activeFile.binary}
+                deferred={activeFile.deferred}
+                onLoadPatch={() => handleLoadFilePatch(activeFile.path)}
+                collapsed={isGeneratedFile(activeFile.path)}
+                canExpandContext={!!gitContext}
                 diffStyle={diffStyle}
+                wordDiff={wordDiff}
+                ignoreWhitespace={ignoreWhitespace}
                 annotations={activeFileAnnotations}
                 selectedAnnotationId={selectedAnnotationId}
                 pendingSelection={pendingSelection}
@@ -694,6 +1280,14 @@ const ReviewApp: React.FC = () => {
                 onAddAnnotation={handleAddAnnotation}
                 onSelectAnnotation={handleSelectAnnotation}
                 onDeleteAnnotation={handleDeleteAnnotation}
+                onApplySuggestion={gitContext ? (id) => handleApplySuggestions([id]) : undefined}
+                applyErrors={applyErrors}
+                isApplyingSuggestions={isApplyingSuggestions}
+                stagingActions={stagingActions}
+                onStagingAction={gitContext ? handleStagingAction : undefined}
+                isStaging={isStaging}
+                coverage={diffCoverage?.[activeFile.path]}
+                onFlagUncovered={handleFlagUncovered}
               />
             ) : (
               <div className="h-full flex items-center justify-center">
@@ -706,11 +1300,13 @@ const ReviewApp: React.FC = () => {
                   <div>
                     <h3 className="text-sm font-medium text-foreground">No changes</h3>
                     <p className="text-xs text-muted-foreground mt-1">
-                      {diffType === 'uncommitted' && "No uncommitted changes to review."}
+                      {diffType === 'uncommitted' && (includeUntracked ? "No uncommitted changes to review." : "No uncommitted changes to tracked files.")}
                       {diffType === 'staged' && "No staged changes. Stage some files with git add."}
                       {diffType === 'unstaged' && "No unstaged changes. All changes are staged."}
                       {diffType === 'last-commit' && "No changes in the last commit."}
                       {diffType === 'branch' && `No changes between this branch and ${gitContext?.defaultBranch || 'main'}.`}
+                      {diffType === 'commit' && "This commit has no file changes."}
+                      {diffType === 'range' && `No changes in ${diffLabel}.`}
                     </p>
                   </div>
                   {gitContext?.diffOptions && gitContext.diffOptions.length > 1 && (
@@ -732,45 +1328,23 @@ const ReviewApp: React.FC = () => {
             selectedAnnotationId={selectedAnnotationId}
             onSelectAnnotation={handleSelectAnnotation}
             onDeleteAnnotation={handleDeleteAnnotation}
+            onUpdateAnnotation={handleUpdateAnnotation}
+            onApplySuggestions={gitContext ? handleApplySuggestions : undefined}
+            applyErrors={applyErrors}
+            isApplyingSuggestions={isApplyingSuggestions}
             feedbackMarkdown={feedbackMarkdown}
+            onExport={() => setShowExportModal(true)}
           />
         </div>
 
         {/* Export Modal */}
         {showExportModal && (
-          <div className="fixed inset-0 z-50 flex items-center justify-center bg-background/80 backdrop-blur-sm p-4">
-            <div className="bg-card border border-border rounded-xl w-full max-w-2xl flex flex-col max-h-[80vh] shadow-2xl">
-              <div className="p-4 border-b border-border flex justify-between items-center">
-                <h3 className="font-semibold text-sm">Export Review Feedback</h3>
-                <button
-                  onClick={() => setShowExportModal(false)}
-                  className="p-1.5 rounded-md hover:bg-muted text-muted-foreground hover:text-foreground transition-colors"
-                >
-                  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-                    <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
-                  </svg>
-                </button>
-              </div>
-              <div className="flex-1 overflow-auto p-4">
-                <div className="text-xs text-muted-foreground mb-2">
-                  {annotations.length} annotation{annotations.length !== 1 ? 's' : ''}
-                </div>
-                <pre className="export-code-block whitespace-pre-wrap">
-                  {feedbackMarkdown}
-                </pre>
-              </div>
-              <div className="p-4 border-t border-border flex justify-end gap-2">
-                <button
-                  onClick={async () => {
-                    await navigator.clipboard.writeText(feedbackMarkdown);
-                  }}
-                  className="px-3 py-1.5 rounded-md text-xs font-medium bg-primary text-primary-foreground hover:opacity-90 transition-colors"
-                >
-                  Copy to Clipboard
-                </button>
-              </div>
-            </div>
-          </div>
+          <ReviewExportModal
+            annotations={annotations}
+            files={files}
+            feedbackMarkdown={feedbackMarkdown}
+            onClose={() => setShowExportModal(false)}
+          />
         )}
 
         {/* No annotations dialog */}
@@ -778,7 +1352,7 @@ const ReviewApp: React.FC = () => {
           isOpen={showNoAnnotationsDialog}
           onClose={() => setShowNoAnnotationsDialog(false)}
           title="No Annotations"
-          message="You haven't made any annotations yet. There's nothing to copy."
+          message="You haven't made any annotations yet, or all of them are resolved. There's nothing to send."
           variant="info"
         />
 
@@ -791,7 +1365,7 @@ const ReviewApp: React.FC = () => {
             handleApprove();
           }}
           title="Annotations Won't Be Sent"
-          message={<>You have {annotations.length} annotation{annotations.length !== 1 ? 's' : ''} that will be lost if you approve.</>}
+          message={<>You have {openAnnotations.length} annotation{openAnnotations.length !== 1 ? 's' : ''} that will be lost if you approve.</>}
           subMessage="To send your feedback, use Send Feedback instead."
           confirmText="Approve Anyway"
           cancelText="Cancel"
@@ -799,6 +1373,84 @@ const ReviewApp: React.FC = () => {
           showCancel
         />
 
+        {/* Discard confirmation */}
+        <ConfirmDialog
+          isOpen={!!pendingDiscard}
+          onClose={() => setPendingDiscard(null)}
+          onConfirm={() => {
+            if (pendingDiscard) runStagingAction('discard', pendingDiscard.path, pendingDiscard.hunk);
+            setPendingDiscard(null);
+          }}
+          title={pendingDiscard?.hunk ? 'Discard Hunk?' : 'Discard File Changes?'}
+          message={<>The {pendingDiscard?.hunk ? 'hunk' : 'changes'} in <span className="font-mono">{pendingDiscard?.path}</span> will be removed from the working tree.</>}
+          subMessage="You can undo this while the review is open."
+          confirmText="Discard"
+          cancelText="Cancel"
+          variant="warning"
+          showCancel
+        />
+
+        {/* Drop zone for diagnostics and coverage files */}
+        {isDraggingDiagnostics && (
+          <div className="fixed inset-0 z-40 pointer-events-none flex items-center justify-center bg-background/70 backdrop-blur-sm">
+            <div className="px-8 py-6 rounded-xl border-2 border-dashed border-primary/60 bg-card text-center space-y-1">
+              <div className="text-sm font-medium text-foreground">Drop to import findings or coverage</div>
+              <div className="text-xs text-muted-foreground">SARIF, ESLint JSON, tsc output, lcov or Istanbul JSON</div>
+            </div>
+          </div>
+        )}
+
+        {/* Diagnostics import summary */}
+        {importNotice && !submitted && (
+          <div className="fixed top-16 left-1/2 -translate-x-1/2 z-40 flex items-center gap-3 px-4 py-2 rounded-lg border border-border bg-card shadow-lg text-xs">
+            <span className={`max-w-md ${importNotice.isError ? 'text-destructive' : 'text-muted-foreground'}`}>
+              {importNotice.message}
+            </span>
+            <button
+              onClick={() => setImportNotice(null)}
+              className="p-1 rounded-md hover:bg-muted text-muted-foreground hover:text-foreground transition-colors"
+              aria-label="Dismiss"
+            >
+              <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        )}
+
+        {/* Staging errors and undo for discarded changes */}
+        {(stagingError || discardedCount > 0) && !submitted && (
+          <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 flex items-center gap-3 px-4 py-2 rounded-lg border border-border bg-card shadow-lg text-xs">
+            {stagingError ? (
+              <span className="text-destructive max-w-md truncate" title={stagingError}>{stagingError}</span>
+            ) : (
+              <span className="text-muted-foreground">
+                {discardedCount} discarded change{discardedCount !== 1 ? 's' : ''}
+              </span>
+            )}
+            {discardedCount > 0 && (
+              <button
+                onClick={handleUndoDiscard}
+                disabled={isStaging}
+                className="px-2 py-1 rounded-md font-medium bg-muted hover:bg-muted/80 text-foreground transition-colors disabled:opacity-50"
+              >
+                Undo discard
+              </button>
+            )}
+            {stagingError && (
+              <button
+                onClick={() => setStagingError(null)}
+                className="p-1 rounded-md hover:bg-muted text-muted-foreground hover:text-foreground transition-colors"
+                aria-label="Dismiss"
+              >
+                <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Completion overlay - shown after approve/feedback */}
         {submitted && (
           <div className="fixed inset-0 z-[100] bg-background flex items-center justify-center">
@@ -844,6 +1496,16 @@ const ReviewApp: React.FC = () => {
 
         {/* Update notification */}
         <UpdateBanner origin={origin} />
+
+        {restoredDraft && !submitted && (
+          <DraftBanner
+            message={restoredDraft.message}
+            detail={restoredDraft.detail}
+            discardLabel={restoredDraft.source === 'round' ? 'Start fresh' : undefined}
+            onDiscard={handleDiscardDraft}
+            onDismiss={() => setRestoredDraft(null)}
+          />
+        )}
       </div>
     </ThemeProvider>
   );
@@ -0,0 +1,182 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { apiUrl } from '@plannotator/ui/utils/api';
+
+interface CommitInfo {
+  hash: string;
+  shortHash: string;
+  subject: string;
+  author: string;
+  date: string;
+}
+
+interface DiffRefPickerProps {
+  mode: 'commit' | 'range';
+  /** Local branches offered as range ends */
+  branches: string[];
+  defaultBranch?: string;
+  currentBranch?: string;
+  onSelect: (diffType: 'commit' | 'range', ref: string) => void;
+  onClose: () => void;
+}
+
+function formatCommitDate(iso: string): string {
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return '';
+  const days = Math.floor((Date.now() - date.getTime()) / (24 * 60 * 60 * 1000));
+  if (days < 1) return 'today';
+  if (days < 7) return `${days}d ago`;
+  return date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
+
+/**
+ * Commit list and ref range form shown under the diff selector
+ */
+export const DiffRefPicker: React.FC<DiffRefPickerProps> = ({
+  mode,
+  branches,
+  defaultBranch,
+  currentBranch,
+  onSelect,
+  onClose,
+}) => {
+  const [commits, setCommits] = useState<CommitInfo[] | null>(null);
+  const [query, setQuery] = useState('');
+  const [base, setBase] = useState(defaultBranch || '');
+  const [head, setHead] = useState(currentBranch && currentBranch !== 'HEAD' ? currentBranch : 'HEAD');
+  const [symmetric, setSymmetric] = useState(false);
+
+  useEffect(() => {
+    if (mode !== 'commit' || commits) return;
+    fetch(apiUrl('/api/commits?limit=100'))
+      .then(res => res.json())
+      .then((data: { commits?: CommitInfo[] }) => setCommits(data.commits ?? []))
+      .catch(() => setCommits([]));
+  }, [mode, commits]);
+
+  const filteredCommits = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    if (!commits || !needle) return commits ?? [];
+    return commits.filter(commit =>
+      commit.hash.startsWith(needle) ||
+      commit.subject.toLowerCase().includes(needle) ||
+      commit.author.toLowerCase().includes(needle)
+    );
+  }, [commits, query]);
+
+  const inputClassName =
+    'w-full px-2 py-1 bg-muted rounded text-xs text-foreground focus:outline-none focus:ring-1 focus:ring-primary/50';
+
+  return (
+    <div className="mt-2 rounded-md border border-border/50 bg-card">
+      <div className="flex items-center justify-between px-2 py-1.5 border-b border-border/30">
+        <span className="text-[10px] font-semibold uppercase tracking-wider text-muted-foreground">
+          {mode === 'commit' ? 'Pick a commit' : 'Compare refs'}
+        </span>
+        <button
+          onClick={onClose}
+          className="p-0.5 rounded text-muted-foreground hover:text-foreground transition-colors"
+          title="Close"
+        >
+          <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      {mode === 'commit' ? (
+        <div className="p-2 space-y-1.5">
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => {
+              // Enter on a hash or ref that isn't in the list still tries it
+              if (e.key === 'Enter' && query.trim()) {
+                e.preventDefault();
+                onSelect('commit', filteredCommits.length === 1 ? filteredCommits[0].hash : query.trim());
+              } else if (e.key === 'Escape') {
+                onClose();
+              }
+            }}
+            placeholder="Filter, or type a hash or ref"
+            className={inputClassName}
+          />
+          <div className="max-h-64 overflow-y-auto -mx-1">
+            {commits === null ? (
+              <div className="px-1 py-2 text-[10px] text-muted-foreground">Loading commits...</div>
+            ) : filteredCommits.length === 0 ? (
+              <div className="px-1 py-2 text-[10px] text-muted-foreground">
+                {commits.length === 0 ? 'No commits' : 'No matching commits. Press Enter to try it as a ref.'}
+              </div>
+            ) : (
+              filteredCommits.map(commit => (
+                <button
+                  key={commit.hash}
+                  onClick={() => onSelect('commit', commit.hash)}
+                  className="w-full text-left px-1 py-1 rounded hover:bg-muted/60 transition-colors"
+                  title={`${commit.hash}\n${commit.author}, ${new Date(commit.date).toLocaleString()}`}
+                >
+                  <div className="text-xs text-foreground truncate">{commit.subject}</div>
+                  <div className="flex items-center gap-1.5 text-[10px] text-muted-foreground">
+                    <span className="font-mono">{commit.shortHash}</span>
+                    <span className="truncate">{commit.author}</span>
+                    <span className="ml-auto flex-shrink-0">{formatCommitDate(commit.date)}</span>
+                  </div>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      ) : (
+        <form
+          className="p-2 space-y-1.5"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (!base.trim() && !head.trim()) return;
+            onSelect('range', `${base.trim()}${symmetric ? '...' : '..'}${head.trim()}`);
+          }}
+        >
+          <datalist id="diff-ref-branches">
+            {branches.map(branch => <option key={branch} value={branch} />)}
+          </datalist>
+          <label className="block text-[10px] text-muted-foreground">
+            Base
+            <input
+              autoFocus
+              value={base}
+              onChange={(e) => setBase(e.target.value)}
+              list="diff-ref-branches"
+              placeholder="main"
+              className={`mt-0.5 ${inputClassName}`}
+            />
+          </label>
+          <label className="block text-[10px] text-muted-foreground">
+            Compare
+            <input
+              value={head}
+              onChange={(e) => setHead(e.target.value)}
+              list="diff-ref-branches"
+              placeholder="HEAD"
+              className={`mt-0.5 ${inputClassName}`}
+            />
+          </label>
+          <label className="flex items-center gap-1.5 text-[10px] text-muted-foreground cursor-pointer">
+            <input
+              type="checkbox"
+              checked={symmetric}
+              onChange={(e) => setSymmetric(e.target.checked)}
+              className="accent-primary"
+            />
+            Only changes since the branches diverged (...)
+          </label>
+          <button
+            type="submit"
+            className="w-full px-2 py-1 rounded text-xs font-medium bg-primary text-primary-foreground hover:bg-primary/90 transition-colors"
+          >
+            Compare
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
@@ -1,19 +1,88 @@
 import React, { useState, useCallback, useMemo, useRef, useEffect } from 'react';
-import { PatchDiff } from '@pierre/diffs/react';
+import { FileDiff, PatchDiff } from '@pierre/diffs/react';
+import { getSingularPatch, SPLIT_WITH_NEWLINES } from '@pierre/diffs';
 import { CodeAnnotation, CodeAnnotationType, SelectedLineRange, DiffAnnotationMetadata } from '@plannotator/ui/types';
 import { useTheme } from '@plannotator/ui/components/ThemeProvider';
+import { SeverityBadge } from '@plannotator/ui/components/AnnotationLabels';
+import { apiUrl } from '@plannotator/ui/utils/api';
+import { storage } from '@plannotator/ui/utils/storage';
+import { DiffFileStatus, getPatchHunks, getPatchLines, isImagePath, splitFilePatch } from '@plannotator/ui/utils/diffParser';
+import { FileCoverage, getCoveragePercent } from '@plannotator/ui/utils/coverage';
+import { ImageDiff } from './ImageDiff';
+
+export type StagingAction = 'stage' | 'unstage' | 'discard';
+
+const STAGING_LABELS: Record<StagingAction, string> = {
+  stage: 'Stage',
+  unstage: 'Unstage',
+  discard: 'Discard',
+};
+
+// Staging buttons shown under the last line of each hunk
+interface HunkActionsMetadata {
+  hunkIndex: number;
+  hunkHeader: string;
+}
+
+type LineAnnotationMetadata = DiffAnnotationMetadata | HunkActionsMetadata;
+
+// Shades covered and uncovered added lines inside the diff's shadow DOM; theme
+// colors reach it as inherited custom properties. The library replaces the
+// style's text but never removes it, so "no coverage" still needs some text.
+function coverageCSS(coverage: FileCoverage | undefined): string {
+  const rows = (lines: number[]) =>
+    `:is(${lines.map(line => `[data-line-type="change-addition"][data-line="${line}"]`).join(',')})`;
+  const rules: string[] = [];
+  if (coverage?.covered.length) {
+    rules.push(`${rows(coverage.covered)} [data-column-number] { background-color: color-mix(in oklab, var(--success) 25%, transparent); }`);
+  }
+  if (coverage?.uncovered.length) {
+    const uncovered = rows(coverage.uncovered);
+    rules.push(`${uncovered} [data-column-number] { background-color: color-mix(in oklab, var(--destructive) 35%, transparent); }`);
+    rules.push(`${uncovered} [data-column-content] { background-image: linear-gradient(color-mix(in oklab, var(--destructive) 12%, transparent), color-mix(in oklab, var(--destructive) 12%, transparent)); }`);
+  }
+  return rules.join('\n') || '/* no coverage */';
+}
 
 interface DiffViewerProps {
   patch: string;
   filePath: string;
+  oldPath?: string;
+  status?: DiffFileStatus;
+  /** Git reported the file as binary */
+  binary?: boolean;
+  /** The patch holds only the file's header; its hunks come from onLoadPatch */
+  deferred?: boolean;
+  onLoadPatch?: () => Promise<void>;
+  /** Generated file, collapsed until the reviewer asks to see it */
+  collapsed?: boolean;
+  /** Fetch full file contents from the server to expand context */
+  canExpandContext?: boolean;
   diffStyle: 'split' | 'unified';
+  /** Highlight changed words within modified lines */
+  wordDiff?: boolean;
+  /** The patch was made with whitespace changes ignored */
+  ignoreWhitespace?: boolean;
   annotations: CodeAnnotation[];
   selectedAnnotationId: string | null;
   pendingSelection: SelectedLineRange | null;
   onLineSelection: (range: SelectedLineRange | null) => void;
-  onAddAnnotation: (type: CodeAnnotationType, text?: string, suggestedCode?: string) => void;
+  onAddAnnotation: (type: CodeAnnotationType, text?: string, suggestedCode?: string, anchorText?: string) => void;
   onSelectAnnotation: (id: string | null) => void;
   onDeleteAnnotation: (id: string) => void;
+  /** Write an annotation's suggested code into the file (omit when not possible) */
+  onApplySuggestion?: (id: string) => void;
+  applyErrors?: Record<string, string>;
+  isApplyingSuggestions?: boolean;
+  /** What can be done to the file and its hunks in the repository */
+  stagingActions?: StagingAction[];
+  /** Stage, unstage or discard the whole file, or one hunk of it */
+  onStagingAction?: (action: StagingAction, hunk?: { index: number; header: string }) => void;
+  isStaging?: boolean;
+  /** Which added lines ran under the tests, from an imported coverage report */
+  coverage?: FileCoverage;
+  /** Add concern annotations on the uncovered added lines */
+  onFlagUncovered?: () => void;
 }
 
 interface ToolbarState {
@@ -21,10 +90,76 @@ interface ToolbarState {
   range: SelectedLineRange;
 }
 
+interface FileContents {
+  oldContent: string | null;
+  newContent: string | null;
+}
+
+// Lines shown per click on a hunk separator's expand buttons
+const EXPANSION_LINE_COUNT = 20;
+
+// Patches longer than this are rendered in chunks, each only while near the viewport
+const CHUNKED_PATCH_LINES = 2000;
+const CHUNK_LINES = 400;
+// Rough rendered height of a diff line, for placeholders of chunks not rendered
+const ESTIMATED_LINE_HEIGHT = 20;
+
+/**
+ * Renders its children only while near the visible part of the scroll
+ * container, keeping the last rendered height as a placeholder otherwise
+ */
+const LazyChunk: React.FC<{
+  root: React.RefObject<HTMLDivElement | null>;
+  estimatedHeight: number;
+  /** Render regardless of position, e.g. to scroll to an annotation inside */
+  forceVisible?: boolean;
+  children: React.ReactNode;
+}> = ({ root, estimatedHeight, forceVisible, children }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const heightRef = useRef(estimatedHeight);
+  const [isNearViewport, setIsNearViewport] = useState(false);
+
+  useEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+    const observer = new IntersectionObserver(([entry]) => {
+      if (!entry.isIntersecting) heightRef.current = el.getBoundingClientRect().height || heightRef.current;
+      setIsNearViewport(entry.isIntersecting);
+    }, { root: root.current, rootMargin: '1000px 0px' });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [root]);
+
+  const visible = isNearViewport || forceVisible;
+  return (
+    <div ref={ref} style={visible ? undefined : { height: heightRef.current }}>
+      {visible && children}
+    </div>
+  );
+};
+
+// Check that file contents are the ones the patch was made from; the file
+// may have changed on disk since the diff was loaded
+function patchMatchesContents(patch: string, oldLines: string[], newLines: string[]): boolean {
+  return getPatchLines(patch).every(line =>
+    (line.oldLine === undefined || oldLines[line.oldLine - 1] === line.text) &&
+    (line.newLine === undefined || newLines[line.newLine - 1] === line.text)
+  );
+}
+
 export const DiffViewer: React.FC<DiffViewerProps> = ({
   patch,
   filePath,
+  oldPath,
+  status = 'modified',
+  binary,
+  deferred,
+  onLoadPatch,
+  collapsed,
+  canExpandContext,
   diffStyle,
+  wordDiff = true,
+  ignoreWhitespace,
   annotations,
   selectedAnnotationId,
   pendingSelection,
@@ -32,6 +167,14 @@ export const DiffViewer: React.FC<DiffViewerProps> = ({
   onAddAnnotation,
   onSelectAnnotation,
   onDeleteAnnotation,
+  onApplySuggestion,
+  applyErrors,
+  isApplyingSuggestions,
+  stagingActions = [],
+  onStagingAction,
+  isStaging,
+  coverage,
+  onFlagUncovered,
 }) => {
   const { theme } = useTheme();
   const containerRef = useRef<HTMLDivElement>(null);
@@ -40,6 +183,10 @@ export const DiffViewer: React.FC<DiffViewerProps> = ({
   const [suggestedCode, setSuggestedCode] = useState('');
   const [showSuggestedCode, setShowSuggestedCode] = useState(false);
   const [copied, setCopied] = useState(false);
+  const [fileContents, setFileContents] = useState<FileContents | null>(null);
+  const [showFullFile, setShowFullFile] = useState(() => storage.getItem('review-full-file') === 'true');
+  const [showCollapsed, setShowCollapsed] = useState(false);
+  const [loadPatchError, setLoadPatchError] = useState<string | null>(null);
   const lastMousePosition = useRef<{ x: number; y: number }>({ x: 0, y: 0 });
 
   // Track mouse position continuously for toolbar placement
@@ -53,9 +200,23 @@ export const DiffViewer: React.FC<DiffViewerProps> = ({
     if (prevFilePathRef.current !== filePath) {
       prevFilePathRef.current = filePath;
       onLineSelection(null); // Clear selection when switching files
+      setShowCollapsed(false);
     }
   }, [filePath, onLineSelection]);
 
+  const isCollapsed = !!collapsed && !showCollapsed;
+
+  // Fetch the hunks of a file left out of the diff for size, once it's shown
+  useEffect(() => {
+    setLoadPatchError(null);
+    if (!deferred || isCollapsed || !onLoadPatch) return;
+    onLoadPatch().catch(err => {
+      setLoadPatchError(err instanceof Error ? err.message : 'Failed to load file diff');
+    });
+  // onLoadPatch is recreated on every render; the file path identifies the request
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [filePath, deferred, isCollapsed]);
+
   // Scroll to selected annotation when it changes
   useEffect(() => {
     if (!selectedAnnotationId || !containerRef.current) return;
@@ -84,10 +245,88 @@ export const DiffViewer: React.FC<DiffViewerProps> = ({
         type: ann.type,
         text: ann.text,
         suggestedCode: ann.suggestedCode,
+        applied: ann.applied,
+        applyError: applyErrors?.[ann.id],
         author: ann.author,
+        severity: ann.severity,
       } as DiffAnnotationMetadata,
     }));
-  }, [annotations]);
+  }, [annotations, applyErrors]);
+
+  // Binary, oversized or empty files come through as headers with no hunks
+  const hasHunks = useMemo(() => /^@@ /m.test(patch), [patch]);
+
+  // git needs hunks to apply; binary and mode-only changes have none
+  const canStage = !!onStagingAction && stagingActions.length > 0 && hasHunks && !deferred;
+  const hunkActionAnnotations = useMemo(() => {
+    if (!canStage) return [];
+    return getPatchHunks(patch).map((hunk, index) => ({
+      side: hunk.hasNewLines ? 'additions' : 'deletions' as const,
+      lineNumber: hunk.hasNewLines ? hunk.newEnd : hunk.oldEnd,
+      metadata: { hunkIndex: index, hunkHeader: hunk.header } as LineAnnotationMetadata,
+    }));
+  }, [canStage, patch]);
+
+  const diffAnnotations = useMemo(
+    () => [...lineAnnotations, ...hunkActionAnnotations],
+    [lineAnnotations, hunkActionAnnotations]
+  );
+  // Images are compared visually; SVGs also keep their text diff below
+  const showImageDiff = !!canExpandContext && isImagePath(filePath) && (binary || hasHunks);
+
+  // Very large patches are split into chunks rendered as they scroll into view
+  const chunks = useMemo(
+    () => (patch.split('\n').length > CHUNKED_PATCH_LINES ? splitFilePatch(patch, CHUNK_LINES) : null),
+    [patch]
+  );
+
+  // Load both versions of the file so the gaps between hunks can be expanded.
+  // Chunked patches are too large to show with the whole file.
+  useEffect(() => {
+    setFileContents(null);
+    if (!canExpandContext || !hasHunks || chunks || isCollapsed) return;
+
+    let cancelled = false;
+    const params = new URLSearchParams({ path: filePath, ...(oldPath && { oldPath }) });
+    fetch(apiUrl(`/api/file?${params}`))
+      .then(res => (res.ok ? res.json() : null))
+      .then((data: FileContents | null) => {
+        if (!cancelled) setFileContents(data);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [filePath, oldPath, patch, canExpandContext, hasHunks, chunks, isCollapsed]);
+
+  // The patch plus full file lines, or null to render the bare patch. Added
+  // and deleted files have nothing to expand.
+  const expandableDiff = useMemo(() => {
+    if (fileContents?.oldContent == null || fileContents.newContent == null) return null;
+    const oldLines = fileContents.oldContent.split(SPLIT_WITH_NEWLINES);
+    const newLines = fileContents.newContent.split(SPLIT_WITH_NEWLINES);
+    const strip = (line: string) => line.replace(/\n$/, '');
+    if (!patchMatchesContents(patch, oldLines.map(strip), newLines.map(strip))) return null;
+    try {
+      return { ...getSingularPatch(patch), oldLines, newLines };
+    } catch {
+      return null;
+    }
+  }, [fileContents, patch]);
+
+  const handleFullFileChange = useCallback((value: boolean) => {
+    setShowFullFile(value);
+    storage.setItem('review-full-file', String(value));
+  }, []);
+
+  // Text of the selected lines, including lines expanded beyond the patch
+  const getSelectedText = useCallback((range: SelectedLineRange): string | undefined => {
+    const content = range.side === 'additions' ? fileContents?.newContent : fileContents?.oldContent;
+    if (!expandableDiff || content == null) return undefined;
+    const start = Math.min(range.start, range.end);
+    const end = Math.max(range.start, range.end);
+    return content.split('\n').slice(start - 1, end).map(line => line.replace(/\r$/, '')).join('\n');
+  }, [expandableDiff, fileContents]);
 
   // Handle line selection end
   const handleLineSelectionEnd = useCallback((range: SelectedLineRange | null) => {
@@ -117,7 +356,8 @@ export const DiffViewer: React.FC<DiffViewerProps> = ({
     onAddAnnotation(
       'comment',
       commentText,
-      suggestedCode.trim() || undefined
+      suggestedCode.trim() || undefined,
+      getSelectedText(toolbarState.range)
     );
 
     // Reset state
@@ -125,7 +365,7 @@ export const DiffViewer: React.FC<DiffViewerProps> = ({
     setCommentText('');
     setSuggestedCode('');
     setShowSuggestedCode(false);
-  }, [toolbarState, commentText, suggestedCode, onAddAnnotation]);
+  }, [toolbarState, commentText, suggestedCode, onAddAnnotation, getSelectedText]);
 
   // Handle cancel
   const handleCancel = useCallback(() => {
@@ -137,9 +377,29 @@ export const DiffViewer: React.FC<DiffViewerProps> = ({
   }, [onLineSelection]);
 
   // Render annotation in diff - returns React element
-  const renderAnnotation = useCallback((annotation: { side: string; lineNumber: number; metadata?: DiffAnnotationMetadata }) => {
+  const renderAnnotation = useCallback((annotation: { side: string; lineNumber: number; metadata?: LineAnnotationMetadata }) => {
     if (!annotation.metadata) return null;
 
+    if ('hunkIndex' in annotation.metadata) {
+      const { hunkIndex, hunkHeader } = annotation.metadata;
+      return (
+        <div className="flex items-center gap-1.5 px-2 py-1">
+          {stagingActions.map(action => (
+            <button
+              key={action}
+              onClick={() => onStagingAction?.(action, { index: hunkIndex, header: hunkHeader })}
+              disabled={isStaging}
+              className={`px-2 py-0.5 rounded text-[10px] font-medium bg-muted text-muted-foreground transition-colors disabled:opacity-50 ${
+                action === 'discard' ? 'hover:text-destructive' : 'hover:text-foreground'
+              }`}
+            >
+              {STAGING_LABELS[action]} hunk
+            </button>
+          ))}
+        </div>
+      );
+    }
+
     const meta = annotation.metadata;
 
     return (
@@ -149,7 +409,10 @@ export const DiffViewer: React.FC<DiffViewerProps> = ({
         onClick={() => onSelectAnnotation(meta.annotationId)}
       >
         <div className="review-comment-header">
-          {meta.author && <span className="text-xs text-muted-foreground">{meta.author}</span>}
+          <div className="flex items-center gap-2">
+            {meta.severity && <SeverityBadge severity={meta.severity} />}
+            {meta.author && <span className="text-xs text-muted-foreground">{meta.author}</span>}
+          </div>
           <button
             className="review-comment-delete"
             onClick={(e) => {
@@ -170,11 +433,33 @@ export const DiffViewer: React.FC<DiffViewerProps> = ({
           <div className="mt-2">
             <div className="text-[10px] text-muted-foreground mb-1">Suggested:</div>
             <pre className="export-code-block text-xs">{meta.suggestedCode}</pre>
+            {/* Only the new side exists in the working tree */}
+            {onApplySuggestion && annotation.side === 'additions' && (
+              <div className="mt-1.5 flex items-center gap-2">
+                {meta.applied ? (
+                  <span className="text-[10px] font-medium text-success">Applied</span>
+                ) : (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onApplySuggestion(meta.annotationId);
+                    }}
+                    disabled={isApplyingSuggestions}
+                    className="px-2 py-0.5 rounded text-[10px] font-medium bg-primary/10 text-primary hover:bg-primary/20 disabled:opacity-50 transition-colors"
+                  >
+                    Apply suggestion
+                  </button>
+                )}
+                {meta.applyError && (
+                  <span className="text-[10px] text-destructive">{meta.applyError}</span>
+                )}
+              </div>
+            )}
           </div>
         )}
       </div>
     );
-  }, [onSelectAnnotation, onDeleteAnnotation]);
+  }, [onSelectAnnotation, onDeleteAnnotation, onApplySuggestion, isApplyingSuggestions, stagingActions, onStagingAction, isStaging]);
 
   // Render hover utility (+ button) - returns React element
   const renderHoverUtility = useCallback((getHoveredLine: () => { lineNumber: number; side: 'deletions' | 'additions' } | undefined) => {
@@ -198,6 +483,18 @@ export const DiffViewer: React.FC<DiffViewerProps> = ({
     );
   }, [handleLineSelectionEnd]);
 
+  // Annotations of each chunk: those ending within its lines, on their side
+  const chunkAnnotations = useMemo(() => {
+    if (!chunks) return [];
+    return chunks.map((chunk, i) => diffAnnotations.filter(ann => {
+      const end = (c: typeof chunk) => (ann.side === 'additions' ? c.newEnd : c.oldEnd);
+      return (i === chunks.length - 1 || ann.lineNumber <= end(chunk)) && (i === 0 || ann.lineNumber > end(chunks[i - 1]));
+    }));
+  }, [chunks, diffAnnotations]);
+
+  const coverageStyles = useMemo(() => coverageCSS(coverage), [coverage]);
+  const coveragePercent = getCoveragePercent(coverage);
+
   // Determine theme for @pierre/diffs
   const pierreTheme = useMemo(() => {
     const effectiveTheme = theme === 'system'
@@ -210,8 +507,68 @@ export const DiffViewer: React.FC<DiffViewerProps> = ({
     <div ref={containerRef} className="h-full overflow-auto relative" onMouseMove={handleMouseMove}>
       {/* File header */}
       <div className="sticky top-0 z-10 px-4 py-2 bg-card/95 backdrop-blur border-b border-border flex items-center justify-between">
-        <span className="font-mono text-sm text-foreground">{filePath}</span>
+        <span className="font-mono text-sm text-foreground">
+          {oldPath && <span className="text-muted-foreground">{oldPath} → </span>}
+          {filePath}
+          {status === 'deleted' && <span className="ml-2 text-xs text-destructive">deleted</span>}
+        </span>
+        <div className="flex items-center gap-2">
+        {coveragePercent !== null && (
+          <span
+            className={`text-xs font-mono px-1.5 py-0.5 rounded ${
+              coverage!.uncovered.length > 0 ? 'bg-destructive/15 text-destructive' : 'bg-success/15 text-success'
+            }`}
+            title={`Patch coverage: ${coverage!.covered.length} of ${coverage!.covered.length + coverage!.uncovered.length} tracked added lines ran`}
+          >
+            {coveragePercent}% covered
+          </span>
+        )}
+        {onFlagUncovered && !!coverage?.uncovered.length && (
+          <button
+            onClick={onFlagUncovered}
+            className="text-xs text-muted-foreground hover:text-foreground px-2 py-1 rounded hover:bg-muted transition-colors"
+            title="Add a concern on each run of uncovered added lines"
+          >
+            Flag uncovered
+          </button>
+        )}
+        {expandableDiff && (
+          <div className="flex items-center gap-1 bg-muted rounded-lg p-0.5">
+            <button
+              onClick={() => handleFullFileChange(false)}
+              className={`px-2 py-0.5 text-xs rounded-md transition-colors ${
+                !showFullFile ? 'bg-background text-foreground shadow-sm' : 'text-muted-foreground hover:text-foreground'
+              }`}
+              title="Show changed hunks; expand the gaps between them as needed"
+            >
+              Changes
+            </button>
+            <button
+              onClick={() => handleFullFileChange(true)}
+              className={`px-2 py-0.5 text-xs rounded-md transition-colors ${
+                showFullFile ? 'bg-background text-foreground shadow-sm' : 'text-muted-foreground hover:text-foreground'
+              }`}
+              title="Show the whole file"
+            >
+              Full file
+            </button>
+          </div>
+        )}
+        {canStage && stagingActions.map(action => (
+          <button
+            key={action}
+            onClick={() => onStagingAction?.(action)}
+            disabled={isStaging}
+            className={`text-xs text-muted-foreground px-2 py-1 rounded hover:bg-muted transition-colors disabled:opacity-50 ${
+              action === 'discard' ? 'hover:text-destructive' : 'hover:text-foreground'
+            }`}
+            title={`${STAGING_LABELS[action]} all changes to this file`}
+          >
+            {STAGING_LABELS[action]} file
+          </button>
+        ))}
         <button
+          disabled={deferred}
           onClick={async () => {
             try {
               await navigator.clipboard.writeText(patch);
@@ -221,7 +578,7 @@ export const DiffViewer: React.FC<DiffViewerProps> = ({
               console.error('Failed to copy:', err);
             }
           }}
-          className="text-xs text-muted-foreground hover:text-foreground px-2 py-1 rounded hover:bg-muted transition-colors flex items-center gap-1"
+          className="text-xs text-muted-foreground hover:text-foreground px-2 py-1 rounded hover:bg-muted transition-colors flex items-center gap-1 disabled:opacity-50 disabled:pointer-events-none"
           title="Copy this file's diff"
         >
           {copied ? (
@@ -240,10 +597,101 @@ export const DiffViewer: React.FC<DiffViewerProps> = ({
             </>
           )}
         </button>
+        </div>
       </div>
 
       {/* Diff content */}
       <div className="p-4">
+        {isCollapsed ? (
+          <div className="rounded-lg border border-border/50 bg-muted/20 px-4 py-6 text-center text-xs text-muted-foreground space-y-2">
+            <div>Generated file, collapsed by default.</div>
+            <button
+              onClick={() => setShowCollapsed(true)}
+              className="px-2.5 py-1 rounded-md bg-muted hover:bg-muted/80 text-foreground transition-colors"
+            >
+              Show diff
+            </button>
+          </div>
+        ) : deferred ? (
+          <div className="rounded-lg border border-border/50 bg-muted/20 px-4 py-6 text-center text-xs text-muted-foreground">
+            {loadPatchError ? (
+              <span className="text-destructive">{loadPatchError}</span>
+            ) : (
+              'Loading large diff...'
+            )}
+          </div>
+        ) : (
+        <>
+        {showImageDiff && (
+          <div className={hasHunks ? 'mb-4' : ''}>
+            <ImageDiff filePath={filePath} oldPath={oldPath} status={status} patch={patch} />
+          </div>
+        )}
+        {!hasHunks ? (
+          !showImageDiff && (
+          <div className="rounded-lg border border-border/50 bg-muted/20 px-4 py-6 text-center text-xs text-muted-foreground">
+            {binary
+              ? 'Binary or very large file, contents not shown.'
+              : ignoreWhitespace
+                ? 'No content changes besides whitespace (or an empty file, mode or rename only change).'
+                : 'No content changes (empty file, or a mode or rename only change).'}
+          </div>
+          )
+        ) : chunks ? (
+        <div className="space-y-4">
+          {chunks.map((chunk, i) => (
+            <LazyChunk
+              key={`${filePath}:${i}`}
+              root={containerRef}
+              estimatedHeight={chunk.lineCount * ESTIMATED_LINE_HEIGHT}
+              forceVisible={chunkAnnotations[i].some(ann => 'annotationId' in ann.metadata && ann.metadata.annotationId === selectedAnnotationId)}
+            >
+              <PatchDiff
+                patch={chunk.patch}
+                options={{
+                  theme: pierreTheme,
+                  themeType: 'dark',
+                  diffStyle,
+                  diffIndicators: 'bars',
+                  lineDiffType: wordDiff ? 'word-alt' : 'none',
+                  disableFileHeader: i > 0,
+                  enableLineSelection: true,
+                  enableHoverUtility: true,
+                  onLineSelectionEnd: handleLineSelectionEnd,
+                  unsafeCSS: coverageStyles,
+                }}
+                lineAnnotations={chunkAnnotations[i]}
+                selectedLines={pendingSelection || undefined}
+                renderAnnotation={renderAnnotation}
+                renderHoverUtility={renderHoverUtility}
+              />
+            </LazyChunk>
+          ))}
+        </div>
+        ) : expandableDiff ? (
+        <FileDiff
+          key={`${filePath}:full`} // Remount when switching away from the bare patch
+          fileDiff={expandableDiff}
+          options={{
+            theme: pierreTheme,
+            themeType: 'dark',
+            diffStyle,
+            diffIndicators: 'bars',
+            lineDiffType: wordDiff ? 'word-alt' : 'none',
+            hunkSeparators: 'line-info',
+            expandUnchanged: showFullFile,
+            expansionLineCount: EXPANSION_LINE_COUNT,
+            enableLineSelection: true,
+            enableHoverUtility: true,
+            onLineSelectionEnd: handleLineSelectionEnd,
+            unsafeCSS: coverageStyles,
+          }}
+          lineAnnotations={diffAnnotations}
+          selectedLines={pendingSelection || undefined}
+          renderAnnotation={renderAnnotation}
+          renderHoverUtility={renderHoverUtility}
+        />
+        ) : (
         <PatchDiff
           key={filePath} // Force remount on file change to reset internal state
           patch={patch}
@@ -252,15 +700,20 @@ export const DiffViewer: React.FC<DiffViewerProps> = ({
             themeType: 'dark',
             diffStyle,
             diffIndicators: 'bars',
+            lineDiffType: wordDiff ? 'word-alt' : 'none',
             enableLineSelection: true,
             enableHoverUtility: true,
             onLineSelectionEnd: handleLineSelectionEnd,
+            unsafeCSS: coverageStyles,
           }}
-          lineAnnotations={lineAnnotations}
+          lineAnnotations={diffAnnotations}
           selectedLines={pendingSelection || undefined}
           renderAnnotation={renderAnnotation}
           renderHoverUtility={renderHoverUtility}
         />
+        )}
+        </>
+        )}
       </div>
 
       {/* Annotation toolbar - single-step comment input */}
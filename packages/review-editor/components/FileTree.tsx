@@ -1,14 +1,38 @@
-import React, { useEffect, useCallback } from 'react';
+import React, { useEffect, useCallback, useLayoutEffect, useMemo, useRef, useState } from 'react';
 import { CodeAnnotation } from '@plannotator/ui/types';
+import { DiffFile, DiffFileStatus, isImagePath } from '@plannotator/ui/utils/diffParser';
+import { buildFileTreeRows, fuzzyMatch, getFileExtension } from '@plannotator/ui/utils/fileTree';
+import { FileCoverage, getCoveragePercent } from '@plannotator/ui/utils/coverage';
+import { DiffRefPicker } from './DiffRefPicker';
 
-interface DiffFile {
-  path: string;
-  oldPath?: string;
-  patch: string;
-  additions: number;
-  deletions: number;
+const STATUS_BADGES: Record<DiffFileStatus, { letter: string; label: string; className: string }> = {
+  added: { letter: 'A', label: 'Added', className: 'text-success' },
+  deleted: { letter: 'D', label: 'Deleted', className: 'text-destructive' },
+  modified: { letter: 'M', label: 'Modified', className: 'text-primary' },
+  renamed: { letter: 'R', label: 'Renamed', className: 'text-secondary' },
+  copied: { letter: 'C', label: 'Copied', className: 'text-secondary' },
+  'mode-changed': { letter: 'P', label: 'Permissions changed', className: 'text-muted-foreground' },
+};
+
+// Tooltip describing what happened to a file
+function describeFile(file: DiffFile): string {
+  const parts = [STATUS_BADGES[file.status].label];
+  if (file.oldPath) parts.push(`from ${file.oldPath}`);
+  if (file.similarity !== undefined && file.similarity < 100 && file.oldPath) parts.push(`(${file.similarity}% similar)`);
+  if (file.oldMode && file.newMode && file.oldMode !== file.newMode) parts.push(`mode ${file.oldMode} → ${file.newMode}`);
+  if (file.binary) parts.push('· binary');
+  return `${file.path}\n${parts.join(' ')}`;
 }
 
+// The file list only renders rows in view, so every row has the same height
+const ROW_HEIGHT = 24;
+// Rows rendered above and below the visible ones
+const OVERSCAN_ROWS = 10;
+// Padding of the scrolling list (p-2)
+const LIST_PADDING = 8;
+// Indent per directory level
+const INDENT = 12;
+
 interface DiffOption {
   id: string;
   label: string;
@@ -20,15 +44,30 @@ interface FileTreeProps {
   onSelectFile: (index: number) => void;
   annotations: CodeAnnotation[];
   viewedFiles: Set<string>;
+  /** Generated files are collapsed in the viewer and dimmed here */
+  isGeneratedFile?: (path: string) => boolean;
+  /** Patch coverage by file path, from an imported coverage report */
+  coverage?: Record<string, FileCoverage>;
   enableKeyboardNav?: boolean;
   /** Available diff options for the dropdown */
   diffOptions?: DiffOption[];
   /** Currently selected diff type */
   activeDiffType?: string;
-  /** Callback when user selects a different diff */
-  onSelectDiff?: (diffType: string) => void;
+  /** Callback when user selects a different diff (ref is the commit or range) */
+  onSelectDiff?: (diffType: string, ref?: string) => void;
   /** Whether diff is currently loading */
   isLoadingDiff?: boolean;
+  /** Label of the current diff, shown for commits and ranges */
+  diffLabel?: string;
+  /** Why the last diff switch failed */
+  diffError?: string | null;
+  /** Local branches, for the range picker */
+  branches?: string[];
+  defaultBranch?: string;
+  currentBranch?: string;
+  /** Whether untracked files are part of working tree diffs */
+  includeUntracked?: boolean;
+  onToggleUntracked?: (includeUntracked: boolean) => void;
 }
 
 export const FileTree: React.FC<FileTreeProps> = ({
@@ -37,12 +76,118 @@ export const FileTree: React.FC<FileTreeProps> = ({
   onSelectFile,
   annotations,
   viewedFiles,
+  isGeneratedFile,
+  coverage,
   enableKeyboardNav = true,
   diffOptions,
   activeDiffType,
   onSelectDiff,
   isLoadingDiff,
+  diffLabel,
+  diffError,
+  branches = [],
+  defaultBranch,
+  currentBranch,
+  includeUntracked,
+  onToggleUntracked,
 }) => {
+  // Commit and range diffs need a ref picked before switching
+  const [picker, setPicker] = useState<'commit' | 'range' | null>(null);
+  const isRefDiff = activeDiffType === 'commit' || activeDiffType === 'range';
+
+  const handleSelectOption = (id: string) => {
+    if (id === 'commit' || id === 'range') {
+      setPicker(id);
+    } else {
+      setPicker(null);
+      onSelectDiff?.(id);
+    }
+  };
+
+  // Annotation count per file
+  const annotationCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const ann of annotations) counts.set(ann.filePath, (counts.get(ann.filePath) ?? 0) + 1);
+    return counts;
+  }, [annotations]);
+
+  // Patch coverage across all files the report covers
+  const totalCoverage = useMemo<FileCoverage | null>(() => {
+    if (!coverage) return null;
+    const all = Object.keys(coverage).map(path => coverage[path]);
+    return { covered: all.flatMap(c => c.covered), uncovered: all.flatMap(c => c.uncovered) };
+  }, [coverage]);
+
+  // Filters
+  const [query, setQuery] = useState('');
+  const [showFilters, setShowFilters] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<Set<DiffFileStatus>>(new Set());
+  const [extensionFilter, setExtensionFilter] = useState('');
+  const [onlyAnnotated, setOnlyAnnotated] = useState(false);
+  const [hideViewed, setHideViewed] = useState(false);
+  const [collapsedDirs, setCollapsedDirs] = useState<Set<string>>(new Set());
+  const hasFilters = statusFilter.size > 0 || !!extensionFilter || onlyAnnotated || hideViewed;
+
+  const statuses = useMemo(
+    () => (Object.keys(STATUS_BADGES) as DiffFileStatus[]).filter(status => files.some(f => f.status === status)),
+    [files]
+  );
+  const extensions = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const file of files) {
+      const ext = getFileExtension(file.path);
+      counts.set(ext, (counts.get(ext) ?? 0) + 1);
+    }
+    return [...counts].sort(([a], [b]) => a.localeCompare(b));
+  }, [files]);
+
+  const visibleFiles = useMemo(() => files
+    .map((file, index) => ({ file, index }))
+    .filter(({ file, index }) =>
+      fuzzyMatch(query, file.path)
+      && (statusFilter.size === 0 || statusFilter.has(file.status))
+      && (!extensionFilter || getFileExtension(file.path) === extensionFilter)
+      && (!onlyAnnotated || annotationCounts.has(file.path))
+      // Files are marked viewed as they're opened, so the open one stays
+      && (!hideViewed || !viewedFiles.has(file.path) || index === activeFileIndex)
+    ), [files, query, statusFilter, extensionFilter, onlyAnnotated, hideViewed, annotationCounts, viewedFiles, activeFileIndex]);
+
+  // Directories stay expanded while searching so every match is shown
+  const rows = useMemo(
+    () => buildFileTreeRows(visibleFiles, query ? new Set() : collapsedDirs),
+    [visibleFiles, query, collapsedDirs]
+  );
+  const fileOrder = useMemo(
+    () => rows.flatMap(row => (row.kind === 'file' ? [row.index] : [])),
+    [rows]
+  );
+
+  const toggleDir = (path: string) => {
+    setCollapsedDirs(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  const toggleStatus = (status: DiffFileStatus) => {
+    setStatusFilter(prev => {
+      const next = new Set(prev);
+      if (next.has(status)) next.delete(status);
+      else next.add(status);
+      return next;
+    });
+  };
+
+  const clearFilters = () => {
+    setQuery('');
+    setStatusFilter(new Set());
+    setExtensionFilter('');
+    setOnlyAnnotated(false);
+    setHideViewed(false);
+  };
+
   // Keyboard navigation: j/k or arrow keys
   const handleKeyDown = useCallback((e: KeyboardEvent) => {
     if (!enableKeyboardNav) return;
@@ -52,32 +197,61 @@ export const FileTree: React.FC<FileTreeProps> = ({
       return;
     }
 
+    // Move through the files shown, in tree order
+    if (fileOrder.length === 0) return;
+    const position = fileOrder.indexOf(activeFileIndex);
+
     if (e.key === 'j' || e.key === 'ArrowDown') {
       e.preventDefault();
-      const nextIndex = Math.min(activeFileIndex + 1, files.length - 1);
-      onSelectFile(nextIndex);
+      onSelectFile(fileOrder[Math.min(position + 1, fileOrder.length - 1)]);
     } else if (e.key === 'k' || e.key === 'ArrowUp') {
       e.preventDefault();
-      const prevIndex = Math.max(activeFileIndex - 1, 0);
-      onSelectFile(prevIndex);
+      onSelectFile(fileOrder[position === -1 ? fileOrder.length - 1 : Math.max(position - 1, 0)]);
     } else if (e.key === 'Home') {
       e.preventDefault();
-      onSelectFile(0);
+      onSelectFile(fileOrder[0]);
     } else if (e.key === 'End') {
       e.preventDefault();
-      onSelectFile(files.length - 1);
+      onSelectFile(fileOrder[fileOrder.length - 1]);
     }
-  }, [enableKeyboardNav, activeFileIndex, files.length, onSelectFile]);
+  }, [enableKeyboardNav, activeFileIndex, fileOrder, onSelectFile]);
 
   useEffect(() => {
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [handleKeyDown]);
 
-  // Get annotation count per file
-  const getAnnotationCount = (filePath: string) => {
-    return annotations.filter(a => a.filePath === filePath).length;
-  };
+  // Track the list's scroll position and height to work out which rows to render
+  const listRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [listHeight, setListHeight] = useState(0);
+
+  useLayoutEffect(() => {
+    const list = listRef.current;
+    if (!list) return;
+    setListHeight(list.clientHeight);
+    const observer = new ResizeObserver(() => setListHeight(list.clientHeight));
+    observer.observe(list);
+    return () => observer.disconnect();
+  }, []);
+
+  // Keep the active file in view when it changes (keyboard navigation)
+  const activeRow = rows.findIndex(row => row.kind === 'file' && row.index === activeFileIndex);
+  useEffect(() => {
+    const list = listRef.current;
+    if (!list || activeRow === -1) return;
+    const top = LIST_PADDING + activeRow * ROW_HEIGHT;
+    if (top < list.scrollTop) {
+      list.scrollTop = top - LIST_PADDING;
+    } else if (top + ROW_HEIGHT > list.scrollTop + list.clientHeight) {
+      list.scrollTop = top + ROW_HEIGHT + LIST_PADDING - list.clientHeight;
+    }
+  // Only when the active file changes, not when rows above it come and go
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeFileIndex]);
+
+  const firstRow = Math.max(0, Math.floor((scrollTop - LIST_PADDING) / ROW_HEIGHT) - OVERSCAN_ROWS);
+  const lastRow = Math.min(rows.length, Math.ceil((scrollTop + listHeight) / ROW_HEIGHT) + OVERSCAN_ROWS);
 
   return (
     <aside className="w-64 border-r border-border bg-card/30 flex flex-col overflow-hidden">
@@ -88,7 +262,7 @@ export const FileTree: React.FC<FileTreeProps> = ({
             Files
           </span>
           <span className="text-xs text-muted-foreground bg-muted px-1.5 py-0.5 rounded">
-            {files.length}
+            {visibleFiles.length === files.length ? files.length : `${visibleFiles.length} of ${files.length}`}
           </span>
         </div>
       </div>
@@ -99,7 +273,7 @@ export const FileTree: React.FC<FileTreeProps> = ({
           <div className="relative">
             <select
               value={activeDiffType || 'uncommitted'}
-              onChange={(e) => onSelectDiff(e.target.value)}
+              onChange={(e) => handleSelectOption(e.target.value)}
               disabled={isLoadingDiff}
               className="w-full px-2.5 py-1.5 bg-muted rounded-md text-xs text-foreground focus:outline-none focus:ring-1 focus:ring-primary/50 cursor-pointer disabled:opacity-50 disabled:cursor-wait appearance-none pr-7"
             >
@@ -129,25 +303,201 @@ export const FileTree: React.FC<FileTreeProps> = ({
               )}
             </div>
           </div>
+
+          {isRefDiff && !picker && (
+            <div className="mt-1.5 flex items-center gap-1 text-[10px] text-muted-foreground">
+              <span className="truncate font-mono" title={diffLabel}>{diffLabel}</span>
+              <button
+                onClick={() => setPicker(activeDiffType as 'commit' | 'range')}
+                className="ml-auto flex-shrink-0 hover:text-foreground transition-colors"
+              >
+                Change
+              </button>
+            </div>
+          )}
+
+          {onToggleUntracked && (activeDiffType === 'uncommitted' || activeDiffType === 'unstaged') && (
+            <label className="mt-1.5 flex items-center gap-1.5 text-[10px] text-muted-foreground cursor-pointer">
+              <input
+                type="checkbox"
+                checked={!!includeUntracked}
+                onChange={(e) => onToggleUntracked(e.target.checked)}
+                disabled={isLoadingDiff}
+                className="accent-primary"
+              />
+              Include untracked files
+            </label>
+          )}
+
+          {diffError && (
+            <div className="mt-1.5 text-[10px] text-destructive">{diffError}</div>
+          )}
+
+          {picker && (
+            <DiffRefPicker
+              mode={picker}
+              branches={branches}
+              defaultBranch={defaultBranch}
+              currentBranch={currentBranch}
+              onSelect={(diffType, ref) => {
+                setPicker(null);
+                onSelectDiff(diffType, ref);
+              }}
+              onClose={() => setPicker(null)}
+            />
+          )}
+        </div>
+      )}
+
+      {/* Filters */}
+      {files.length > 1 && (
+        <div className="px-2 py-2 border-b border-border/30 space-y-1.5">
+          <div className="flex items-center gap-1">
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Escape') {
+                  setQuery('');
+                  e.currentTarget.blur();
+                }
+              }}
+              placeholder="Filter files..."
+              className="flex-1 min-w-0 px-2.5 py-1.5 bg-muted rounded-md text-xs text-foreground placeholder:text-muted-foreground/50 focus:outline-none focus:ring-1 focus:ring-primary/50"
+            />
+            <button
+              onClick={() => setShowFilters(!showFilters)}
+              className={`p-1.5 rounded-md transition-colors ${
+                hasFilters || showFilters
+                  ? 'bg-primary/15 text-primary'
+                  : 'text-muted-foreground hover:text-foreground hover:bg-muted'
+              }`}
+              title="Filter by status, type, annotations or viewed state"
+            >
+              <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M3 4a1 1 0 011-1h16a1 1 0 011 1v2.586a1 1 0 01-.293.707l-6.414 6.414a1 1 0 00-.293.707V17l-4 4v-6.586a1 1 0 00-.293-.707L3.293 7.293A1 1 0 013 6.586V4z" />
+              </svg>
+            </button>
+          </div>
+
+          {showFilters && (
+            <div className="space-y-1.5">
+              <div className="flex flex-wrap gap-1">
+                {statuses.map(status => (
+                  <button
+                    key={status}
+                    onClick={() => toggleStatus(status)}
+                    className={`px-1.5 py-0.5 rounded text-[10px] font-medium transition-colors ${
+                      statusFilter.has(status)
+                        ? 'bg-primary/15 text-primary'
+                        : 'bg-muted text-muted-foreground hover:text-foreground'
+                    }`}
+                  >
+                    {STATUS_BADGES[status].label}
+                  </button>
+                ))}
+              </div>
+              {extensions.length > 1 && (
+                <select
+                  value={extensionFilter}
+                  onChange={(e) => setExtensionFilter(e.target.value)}
+                  className="w-full px-2 py-1 bg-muted rounded-md text-[10px] text-foreground focus:outline-none focus:ring-1 focus:ring-primary/50 cursor-pointer"
+                >
+                  <option value="">All file types</option>
+                  {extensions.map(([ext, count]) => (
+                    <option key={ext} value={ext}>{ext || 'No extension'} ({count})</option>
+                  ))}
+                </select>
+              )}
+              <label className="flex items-center gap-1.5 text-[10px] text-muted-foreground cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={onlyAnnotated}
+                  onChange={(e) => setOnlyAnnotated(e.target.checked)}
+                  className="accent-primary"
+                />
+                Only files with annotations
+              </label>
+              <label className="flex items-center gap-1.5 text-[10px] text-muted-foreground cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={hideViewed}
+                  onChange={(e) => setHideViewed(e.target.checked)}
+                  className="accent-primary"
+                />
+                Hide viewed files
+              </label>
+            </div>
+          )}
         </div>
       )}
 
       {/* File list */}
-      <div className="flex-1 overflow-y-auto p-2">
-        {files.map((file, index) => {
-          const annotationCount = getAnnotationCount(file.path);
+      <div
+        ref={listRef}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        className="flex-1 overflow-y-auto p-2"
+      >
+        {rows.length === 0 && files.length > 0 && (
+          <div className="px-2 py-4 text-center text-xs text-muted-foreground space-y-1.5">
+            <div>No files match.</div>
+            <button onClick={clearFilters} className="text-primary hover:underline">
+              Clear filters
+            </button>
+          </div>
+        )}
+        <div className="relative" style={{ height: rows.length * ROW_HEIGHT }}>
+        {rows.slice(firstRow, lastRow).map((row, i) => {
+          const rowIndex = firstRow + i;
+
+          if (row.kind === 'dir') {
+            return (
+              <button
+                key={`dir:${row.path}`}
+                onClick={() => toggleDir(row.path)}
+                className="file-tree-item absolute inset-x-0 text-left"
+                style={{ top: rowIndex * ROW_HEIGHT, height: ROW_HEIGHT, paddingLeft: 8 + row.depth * INDENT }}
+                title={`${row.path}\n${row.fileCount} file${row.fileCount === 1 ? '' : 's'}`}
+              >
+                <div className="flex items-center gap-1 flex-1 min-w-0">
+                  <svg
+                    className={`w-3 h-3 flex-shrink-0 transition-transform ${row.collapsed ? '' : 'rotate-90'}`}
+                    fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}
+                  >
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M9 5l7 7-7 7" />
+                  </svg>
+                  <span className="truncate">{row.name}</span>
+                </div>
+                <div className="flex items-center gap-1.5 flex-shrink-0 text-[10px] opacity-70">
+                  <span className="additions">+{row.additions}</span>
+                  <span className="deletions">-{row.deletions}</span>
+                </div>
+              </button>
+            );
+          }
+
+          const { file, index } = row;
+          const annotationCount = annotationCounts.get(file.path) ?? 0;
           const isActive = index === activeFileIndex;
           const isViewed = viewedFiles.has(file.path);
-          const fileName = file.path.split('/').pop() || file.path;
+          const isGenerated = isGeneratedFile?.(file.path);
+          const badge = STATUS_BADGES[file.status];
+          const coveragePercent = getCoveragePercent(coverage?.[file.path]);
 
           return (
             <button
               key={file.path}
               onClick={() => onSelectFile(index)}
-              className={`file-tree-item w-full text-left group ${isActive ? 'active' : ''} ${annotationCount > 0 ? 'has-annotations' : ''}`}
+              className={`file-tree-item absolute inset-x-0 text-left group ${isActive ? 'active' : ''} ${annotationCount > 0 ? 'has-annotations' : ''} ${isGenerated && !isActive ? 'opacity-60' : ''}`}
+              style={{ top: rowIndex * ROW_HEIGHT, height: ROW_HEIGHT, paddingLeft: 8 + row.depth * INDENT }}
+              title={isGenerated ? `${describeFile(file)}\nGenerated, collapsed by default` : describeFile(file)}
             >
               <div className="flex items-center gap-1 flex-1 min-w-0">
-                <span className="truncate">{fileName}</span>
+                <span className={`w-3 flex-shrink-0 text-center text-[10px] font-mono font-semibold ${badge.className}`}>
+                  {badge.letter}
+                </span>
+                <span className={`truncate ${file.status === 'deleted' ? 'line-through opacity-70' : ''}`}>{row.name}</span>
                 {isViewed && (
                   <svg className="w-3 h-3 flex-shrink-0 opacity-50" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
                     <path strokeLinecap="round" strokeLinejoin="round" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
@@ -159,12 +509,27 @@ export const FileTree: React.FC<FileTreeProps> = ({
                 {annotationCount > 0 && (
                   <span className="text-primary font-medium">{annotationCount}</span>
                 )}
-                <span className="additions">+{file.additions}</span>
-                <span className="deletions">-{file.deletions}</span>
+                {coveragePercent !== null && (
+                  <span
+                    className={`font-mono ${coveragePercent === 100 ? 'text-success' : coveragePercent < 50 ? 'text-destructive' : 'text-muted-foreground'}`}
+                    title="Patch coverage: share of tracked added lines that ran"
+                  >
+                    {coveragePercent}%
+                  </span>
+                )}
+                {file.binary ? (
+                  <span className="text-muted-foreground">{isImagePath(file.path) ? 'image' : 'binary'}</span>
+                ) : (
+                  <>
+                    <span className="additions">+{file.additions}</span>
+                    <span className="deletions">-{file.deletions}</span>
+                  </>
+                )}
               </div>
             </button>
           );
         })}
+        </div>
       </div>
 
       {/* Footer */}
@@ -180,6 +545,14 @@ export const FileTree: React.FC<FileTreeProps> = ({
             </span>
           </span>
         </div>
+        {totalCoverage && getCoveragePercent(totalCoverage) !== null && (
+          <div className="flex justify-between">
+            <span>Patch coverage:</span>
+            <span className="font-mono" title={`${totalCoverage.covered.length} of ${totalCoverage.covered.length + totalCoverage.uncovered.length} tracked added lines ran`}>
+              {getCoveragePercent(totalCoverage)}%
+            </span>
+          </div>
+        )}
         {enableKeyboardNav && (
           <div className="text-[10px] text-muted-foreground/50 text-center">
             j/k or arrows to navigate
@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { apiUrl } from '@plannotator/ui/utils/api';
+import { storage } from '@plannotator/ui/utils/storage';
+import { DiffFileStatus } from '@plannotator/ui/utils/diffParser';
+
+type ImageDiffMode = 'side-by-side' | 'onion-skin';
+
+interface ImageDiffProps {
+  filePath: string;
+  oldPath?: string;
+  status: DiffFileStatus;
+  /** The file's part of the patch; its blob ids keep cached images from going stale */
+  patch: string;
+}
+
+// Checkerboard behind images so transparent areas are visible
+const CHECKERBOARD: React.CSSProperties = {
+  backgroundImage:
+    'linear-gradient(45deg, rgba(128,128,128,.15) 25%, transparent 25%, transparent 75%, rgba(128,128,128,.15) 75%),' +
+    'linear-gradient(45deg, rgba(128,128,128,.15) 25%, transparent 25%, transparent 75%, rgba(128,128,128,.15) 75%)',
+  backgroundSize: '16px 16px',
+  backgroundPosition: '0 0, 8px 8px',
+};
+
+function imageUrl(path: string, side: 'old' | 'new', blob: string | undefined): string {
+  const params = new URLSearchParams({ path, side });
+  if (blob) params.set('v', blob);
+  return apiUrl(`/api/file/image?${params}`);
+}
+
+const ImagePane: React.FC<{ label: string; src: string | null; className: string }> = ({ label, src, className }) => {
+  const [failed, setFailed] = useState(false);
+
+  return (
+    <div className="flex-1 min-w-0 flex flex-col gap-1.5">
+      <div className={`text-[10px] font-medium uppercase tracking-wider ${className}`}>{label}</div>
+      <div className="flex items-center justify-center min-h-[120px] rounded-lg border border-border/50 p-2" style={CHECKERBOARD}>
+        {src && !failed ? (
+          <img src={src} alt={label} className="max-w-full max-h-[60vh] object-contain" onError={() => setFailed(true)} />
+        ) : (
+          <span className="text-xs text-muted-foreground">{src ? 'Image unavailable' : 'No image'}</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Compares the old and new versions of a changed image, side by side or
+ * overlaid with an adjustable opacity (onion skin)
+ */
+export const ImageDiff: React.FC<ImageDiffProps> = ({ filePath, oldPath, status, patch }) => {
+  const [mode, setMode] = useState<ImageDiffMode>(
+    () => (storage.getItem('review-image-diff-mode') as ImageDiffMode) || 'side-by-side'
+  );
+  const [opacity, setOpacity] = useState(50);
+
+  const blobs = patch.match(/^index ([0-9a-f]+)\.\.([0-9a-f]+)/m);
+  const oldSrc = status === 'added' ? null : imageUrl(oldPath ?? filePath, 'old', blobs?.[1]);
+  const newSrc = status === 'deleted' ? null : imageUrl(filePath, 'new', blobs?.[2]);
+  const canCompare = !!oldSrc && !!newSrc;
+
+  const handleModeChange = (next: ImageDiffMode) => {
+    setMode(next);
+    storage.setItem('review-image-diff-mode', next);
+  };
+
+  return (
+    <div className="space-y-3">
+      {canCompare && (
+        <div className="flex items-center gap-3">
+          <div className="flex items-center gap-1 bg-muted rounded-lg p-0.5">
+            {(['side-by-side', 'onion-skin'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => handleModeChange(option)}
+                className={`px-2 py-1 text-xs rounded-md transition-colors ${
+                  mode === option
+                    ? 'bg-background text-foreground shadow-sm'
+                    : 'text-muted-foreground hover:text-foreground'
+                }`}
+              >
+                {option === 'side-by-side' ? 'Side by side' : 'Onion skin'}
+              </button>
+            ))}
+          </div>
+          {mode === 'onion-skin' && (
+            <label className="flex items-center gap-2 text-xs text-muted-foreground">
+              Old
+              <input
+                type="range"
+                min={0}
+                max={100}
+                value={opacity}
+                onChange={(e) => setOpacity(Number(e.target.value))}
+                className="w-32 accent-primary"
+                aria-label="New image opacity"
+              />
+              New
+            </label>
+          )}
+        </div>
+      )}
+
+      {canCompare && mode === 'onion-skin' ? (
+        <div className="relative flex items-center justify-center min-h-[120px] rounded-lg border border-border/50 p-2" style={CHECKERBOARD}>
+          <img src={oldSrc!} alt="Old" className="max-w-full max-h-[60vh] object-contain" />
+          <img
+            src={newSrc!}
+            alt="New"
+            className="absolute max-w-full max-h-[60vh] object-contain"
+            style={{ opacity: opacity / 100 }}
+          />
+        </div>
+      ) : (
+        <div className="flex gap-3">
+          {oldSrc && <ImagePane key={oldSrc} label="Old" src={oldSrc} className="text-destructive" />}
+          {newSrc && <ImagePane key={newSrc} label="New" src={newSrc} className="text-success" />}
+        </div>
+      )}
+    </div>
+  );
+};
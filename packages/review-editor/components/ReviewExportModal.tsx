@@ -0,0 +1,165 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CodeAnnotation } from '@plannotator/ui/types';
+import { DiffFile } from '@plannotator/ui/utils/diffParser';
+import { loadDeferredFiles } from '@plannotator/ui/utils/filePatches';
+import { splitExportableAnnotations, toGitHubReview, toGitLabDiscussions } from '@plannotator/ui/utils/pullRequestExport';
+import { storage } from '@plannotator/ui/utils/storage';
+
+type ExportFormat = 'markdown' | 'github' | 'gitlab';
+
+const FORMATS: { id: ExportFormat; label: string; fileName: string; type: string }[] = [
+  { id: 'markdown', label: 'Markdown', fileName: 'review-feedback.md', type: 'text/markdown' },
+  { id: 'github', label: 'GitHub Review', fileName: 'github-review.json', type: 'application/json' },
+  { id: 'gitlab', label: 'GitLab Discussions', fileName: 'gitlab-discussions.json', type: 'application/json' },
+];
+
+interface ReviewExportModalProps {
+  annotations: CodeAnnotation[];
+  files: DiffFile[];
+  feedbackMarkdown: string;
+  onClose: () => void;
+}
+
+/**
+ * Export the review as markdown feedback, or as request bodies for posting
+ * it to a GitHub pull request or GitLab merge request
+ */
+export const ReviewExportModal: React.FC<ReviewExportModalProps> = ({
+  annotations,
+  files,
+  feedbackMarkdown,
+  onClose,
+}) => {
+  const [format, setFormat] = useState<ExportFormat>(
+    () => (storage.getItem('review-export-format') as ExportFormat) || 'markdown'
+  );
+  const [copied, setCopied] = useState(false);
+  // Annotated files left out of the diff for size are needed to place their comments
+  const [exportFiles, setExportFiles] = useState(files);
+
+  useEffect(() => {
+    const paths = new Set<string>(annotations.map(ann => ann.filePath));
+    if (!files.some(file => file.deferred && paths.has(file.path))) {
+      setExportFiles(files);
+      return;
+    }
+    let cancelled = false;
+    loadDeferredFiles(files, paths).then(loaded => {
+      if (!cancelled) setExportFiles(loaded);
+    });
+    return () => { cancelled = true; };
+  }, [annotations, files]);
+
+  const { exportable, skipped } = useMemo(
+    () => splitExportableAnnotations(annotations, exportFiles),
+    [annotations, exportFiles]
+  );
+
+  const output = useMemo(() => {
+    switch (format) {
+      case 'github':
+        return JSON.stringify(toGitHubReview(exportable), null, 2);
+      case 'gitlab':
+        return JSON.stringify(toGitLabDiscussions(exportable, exportFiles), null, 2);
+      default:
+        return feedbackMarkdown;
+    }
+  }, [format, exportable, exportFiles, feedbackMarkdown]);
+
+  const current = FORMATS.find(f => f.id === format) ?? FORMATS[0];
+
+  const handleFormatChange = (next: ExportFormat) => {
+    setFormat(next);
+    setCopied(false);
+    storage.setItem('review-export-format', next);
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(output);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (e) {
+      console.error('Failed to copy:', e);
+    }
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([output], { type: current.type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = current.fileName;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-background/80 backdrop-blur-sm p-4">
+      <div className="bg-card border border-border rounded-xl w-full max-w-2xl flex flex-col max-h-[80vh] shadow-2xl">
+        <div className="p-4 border-b border-border flex justify-between items-center">
+          <h3 className="font-semibold text-sm">Export Review Feedback</h3>
+          <button
+            onClick={onClose}
+            className="p-1.5 rounded-md hover:bg-muted text-muted-foreground hover:text-foreground transition-colors"
+          >
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <div className="flex-1 overflow-auto p-4">
+          <div className="flex gap-1 bg-muted rounded-lg p-1 mb-3">
+            {FORMATS.map(option => (
+              <button
+                key={option.id}
+                onClick={() => handleFormatChange(option.id)}
+                className={`flex-1 px-3 py-1.5 text-xs font-medium rounded-md transition-colors ${
+                  format === option.id
+                    ? 'bg-background text-foreground shadow-sm'
+                    : 'text-muted-foreground hover:text-foreground'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <div className="text-xs text-muted-foreground mb-2">
+            {format === 'markdown' ? (
+              <>{annotations.length} annotation{annotations.length !== 1 ? 's' : ''}</>
+            ) : (
+              <>
+                {exportable.length} comment{exportable.length !== 1 ? 's' : ''}
+                {skipped.length > 0 && (
+                  <span title={skipped.map(ann => `${ann.filePath}:${ann.lineStart}`).join('\n')}>
+                    {' '}· {skipped.length} left out (outdated or outside the diff)
+                  </span>
+                )}
+                {format === 'github'
+                  ? ' · POST to /repos/{owner}/{repo}/pulls/{number}/reviews'
+                  : ' · POST each to /projects/{id}/merge_requests/{iid}/discussions, after filling in the diff_refs SHAs'}
+              </>
+            )}
+          </div>
+          <pre className="export-code-block whitespace-pre-wrap">
+            {output}
+          </pre>
+        </div>
+        <div className="p-4 border-t border-border flex justify-end gap-2">
+          <button
+            onClick={handleDownload}
+            className="px-3 py-1.5 rounded-md text-xs font-medium bg-muted hover:bg-muted/80 transition-colors"
+          >
+            Download
+          </button>
+          <button
+            onClick={handleCopy}
+            className="px-3 py-1.5 rounded-md text-xs font-medium bg-primary text-primary-foreground hover:opacity-90 transition-colors"
+          >
+            {copied ? 'Copied' : 'Copy to Clipboard'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,15 @@
 import React, { useState } from 'react';
-import { CodeAnnotation } from '@plannotator/ui/types';
+import { CarriedOver, CodeAnnotation } from '@plannotator/ui/types';
 import { isCurrentUser } from '@plannotator/ui/utils/identity';
+import { AnnotationThread } from '@plannotator/ui/components/AnnotationThread';
+import { AnnotationLabels, LabelFilterBar } from '@plannotator/ui/components/AnnotationLabels';
+import {
+  EMPTY_LABEL_FILTER,
+  LabelFilter,
+  LabelGrouping,
+  groupByLabel,
+  matchesLabelFilter,
+} from '@plannotator/ui/utils/labels';
 
 interface DiffFile {
   path: string;
@@ -16,9 +25,71 @@ interface ReviewPanelProps {
   selectedAnnotationId: string | null;
   onSelectAnnotation: (id: string | null) => void;
   onDeleteAnnotation: (id: string) => void;
+  onUpdateAnnotation: (id: string, updates: Partial<CodeAnnotation>) => void;
+  /** Write suggested code into the files (omit when not possible) */
+  onApplySuggestions?: (ids: string[]) => void;
+  applyErrors?: Record<string, string>;
+  isApplyingSuggestions?: boolean;
   feedbackMarkdown?: string;
+  /** Open the export dialog (markdown, GitHub or GitLab review) */
+  onExport?: () => void;
 }
 
+/**
+ * Suggestions on added or context lines can be written to the working tree;
+ * resolving a suggestion's thread sets it aside, and one from an earlier
+ * round whose code changed since isn't applied over the change
+ */
+export function canApplySuggestion(annotation: CodeAnnotation): boolean {
+  return annotation.side === 'new' && !!annotation.suggestedCode && !annotation.applied && !annotation.resolved
+    && !annotation.outdated && annotation.carriedOver?.status !== 'likely-addressed';
+}
+
+/**
+ * Status of an annotation carried over from an earlier round, with buttons to
+ * confirm it
+ */
+const CarriedOverStatus: React.FC<{
+  carriedOver: CarriedOver;
+  onChange: (updates: Partial<CodeAnnotation>) => void;
+}> = ({ carriedOver, onChange }) => {
+  const addressed = carriedOver.status === 'likely-addressed';
+  const label = carriedOver.confirmed
+    ? (addressed ? 'Addressed' : 'Still open')
+    : (addressed ? 'Likely addressed' : 'Not changed yet');
+
+  return (
+    <div className="mt-1.5 flex items-center gap-1.5 text-[10px]">
+      <span className="text-muted-foreground/70">Round {carriedOver.round}:</span>
+      <span className={`font-medium ${addressed ? 'text-success' : 'text-primary'}`}>{label}</span>
+      {!carriedOver.confirmed && (
+        <span className="ml-auto flex items-center gap-1">
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onChange({ resolved: true, carriedOver: { ...carriedOver, status: 'likely-addressed', confirmed: true } });
+            }}
+            className="px-1.5 py-0.5 rounded font-medium text-success hover:bg-success/10 transition-colors"
+            title="Confirm this was addressed and resolve it"
+          >
+            Addressed
+          </button>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onChange({ carriedOver: { ...carriedOver, status: 'still-open', confirmed: true } });
+            }}
+            className="px-1.5 py-0.5 rounded font-medium text-primary hover:bg-primary/10 transition-colors"
+            title="Keep this open and send it again"
+          >
+            Still open
+          </button>
+        </span>
+      )}
+    </div>
+  );
+};
+
 function formatTimestamp(ts: number): string {
   const now = Date.now();
   const diff = now - ts;
@@ -35,6 +106,13 @@ function formatTimestamp(ts: number): string {
   return new Date(ts).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
 }
 
+type PanelGrouping = 'file' | LabelGrouping;
+
+const GROUPINGS: { id: PanelGrouping; label: string }[] = [
+  { id: 'file', label: 'By file' },
+  { id: 'severity', label: 'By severity' },
+  { id: 'tag', label: 'By tag' },
+];
 
 export const ReviewPanel: React.FC<ReviewPanelProps> = ({
   isOpen,
@@ -44,9 +122,16 @@ export const ReviewPanel: React.FC<ReviewPanelProps> = ({
   selectedAnnotationId,
   onSelectAnnotation,
   onDeleteAnnotation,
+  onUpdateAnnotation,
+  onApplySuggestions,
+  applyErrors,
+  isApplyingSuggestions,
   feedbackMarkdown,
+  onExport,
 }) => {
   const [copied, setCopied] = useState(false);
+  const [filter, setFilter] = useState<LabelFilter>(EMPTY_LABEL_FILTER);
+  const [grouping, setGrouping] = useState<PanelGrouping>('file');
 
   const handleQuickCopy = async () => {
     if (!feedbackMarkdown) return;
@@ -58,10 +143,18 @@ export const ReviewPanel: React.FC<ReviewPanelProps> = ({
       console.error('Failed to copy:', e);
     }
   };
-  // Group annotations by file
+  // Group annotations by file, severity or tag
   const groupedAnnotations = React.useMemo(() => {
+    const visible = annotations.filter(ann => matchesLabelFilter(ann, filter));
+    if (grouping !== 'file') {
+      const sorted = [...visible].sort((a, b) =>
+        a.filePath === b.filePath ? a.lineStart - b.lineStart : a.filePath.localeCompare(b.filePath)
+      );
+      return groupByLabel(sorted, grouping);
+    }
+
     const grouped = new Map<string, CodeAnnotation[]>();
-    for (const ann of annotations) {
+    for (const ann of visible) {
       const existing = grouped.get(ann.filePath) || [];
       existing.push(ann);
       grouped.set(ann.filePath, existing);
@@ -70,8 +163,17 @@ export const ReviewPanel: React.FC<ReviewPanelProps> = ({
     for (const [, anns] of grouped) {
       anns.sort((a, b) => a.lineStart - b.lineStart);
     }
-    return grouped;
-  }, [annotations]);
+    return Array.from(grouped.entries()).map(([filePath, items]) => ({
+      key: filePath,
+      label: filePath.split('/').pop() || filePath,
+      items,
+    }));
+  }, [annotations, filter, grouping]);
+
+  const pendingSuggestionIds = React.useMemo(
+    () => annotations.filter(canApplySuggestion).map(ann => ann.id),
+    [annotations]
+  );
 
   if (!isOpen) return null;
 
@@ -89,6 +191,32 @@ export const ReviewPanel: React.FC<ReviewPanelProps> = ({
           </div>
         </div>
 
+        {onApplySuggestions && pendingSuggestionIds.length > 0 && (
+          <div className="px-2 py-1.5 border-b border-border/30">
+            <button
+              onClick={() => onApplySuggestions(pendingSuggestionIds)}
+              disabled={isApplyingSuggestions}
+              className="w-full px-2 py-1 rounded text-xs font-medium bg-primary/10 text-primary hover:bg-primary/20 disabled:opacity-50 transition-colors"
+              title="Write every open suggestion into its file"
+            >
+              {isApplyingSuggestions
+                ? 'Applying...'
+                : `Apply ${pendingSuggestionIds.length} suggestion${pendingSuggestionIds.length !== 1 ? 's' : ''}`}
+            </button>
+          </div>
+        )}
+
+        {annotations.length > 0 && (
+          <LabelFilterBar
+            annotations={annotations}
+            filter={filter}
+            onFilterChange={setFilter}
+            grouping={grouping}
+            groupings={GROUPINGS}
+            onGroupingChange={setGrouping}
+          />
+        )}
+
         {/* Content */}
         <div className="flex-1 overflow-y-auto p-2 space-y-1.5">
           {annotations.length === 0 ? (
@@ -102,18 +230,25 @@ export const ReviewPanel: React.FC<ReviewPanelProps> = ({
                 Click on lines to add annotations
               </p>
             </div>
+          ) : groupedAnnotations.length === 0 ? (
+            <p className="text-xs text-muted-foreground text-center py-6">
+              No annotations match the filters
+            </p>
           ) : (
             <div className="p-2 space-y-4">
-              {Array.from(groupedAnnotations.entries()).map(([filePath, fileAnnotations]) => (
-                <div key={filePath}>
-                  {/* File header */}
-                  <div className="px-2 py-1 text-xs font-mono text-muted-foreground truncate">
-                    {filePath.split('/').pop()}
+              {groupedAnnotations.map((group) => (
+                <div key={group.key}>
+                  {/* Group header */}
+                  <div
+                    className={`px-2 py-1 text-xs text-muted-foreground truncate ${grouping === 'file' ? 'font-mono' : 'font-semibold'}`}
+                    title={grouping === 'file' ? group.key : undefined}
+                  >
+                    {group.label}
                   </div>
 
-                  {/* Annotations for this file */}
+                  {/* Annotations in this group */}
                   <div className="space-y-1">
-                    {fileAnnotations.map((annotation) => {
+                    {group.items.map((annotation) => {
                       const isSelected = selectedAnnotationId === annotation.id;
                       return (
                         <div
@@ -123,12 +258,13 @@ export const ReviewPanel: React.FC<ReviewPanelProps> = ({
                             isSelected
                               ? 'bg-primary/5 border-primary/30 shadow-sm'
                               : 'border-transparent hover:bg-muted/50 hover:border-border/50'
-                          }`}
+                          } ${annotation.resolved && !isSelected ? 'opacity-60' : ''}`}
                         >
                           {/* Header: Line + Timestamp */}
                           <div className="flex items-center justify-between mb-1.5">
-                            <div className="flex items-center gap-2">
-                              <span className="text-[10px] font-mono text-muted-foreground">
+                            <div className="flex items-center gap-2 min-w-0">
+                              <span className="text-[10px] font-mono text-muted-foreground truncate" title={annotation.filePath}>
+                                {grouping !== 'file' && `${annotation.filePath.split('/').pop()}:`}
                                 {annotation.lineStart === annotation.lineEnd
                                   ? `L${annotation.lineStart}`
                                   : `L${annotation.lineStart}-${annotation.lineEnd}`}
@@ -140,6 +276,12 @@ export const ReviewPanel: React.FC<ReviewPanelProps> = ({
                               )}
                             </div>
                             <span className="text-[10px] text-muted-foreground/50">
+                              {annotation.resolved && <span className="mr-1.5 font-medium text-success">Resolved</span>}
+                              {annotation.outdated && (
+                                <span className="mr-1.5 font-medium text-primary" title="The lines changed since this annotation was made">
+                                  Outdated
+                                </span>
+                              )}
                               {formatTimestamp(annotation.createdAt)}
                             </span>
                           </div>
@@ -152,10 +294,50 @@ export const ReviewPanel: React.FC<ReviewPanelProps> = ({
                           )}
 
                           {annotation.suggestedCode && (
-                            <div className="mt-1 text-[10px] font-mono text-muted-foreground bg-muted/50 px-2 py-1 rounded truncate">
-                              {annotation.suggestedCode.split('\n')[0]}...
+                            <div className="mt-1 flex items-center gap-1.5">
+                              <div className="min-w-0 flex-1 text-[10px] font-mono text-muted-foreground bg-muted/50 px-2 py-1 rounded truncate">
+                                {annotation.suggestedCode.split('\n')[0]}...
+                              </div>
+                              {annotation.applied ? (
+                                <span className="text-[10px] font-medium text-success">Applied</span>
+                              ) : onApplySuggestions && canApplySuggestion(annotation) && (
+                                <button
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    onApplySuggestions([annotation.id]);
+                                  }}
+                                  disabled={isApplyingSuggestions}
+                                  className="px-1.5 py-0.5 rounded text-[10px] font-medium text-primary hover:bg-primary/10 disabled:opacity-50 transition-colors"
+                                >
+                                  Apply
+                                </button>
+                              )}
                             </div>
                           )}
+                          {applyErrors?.[annotation.id] && (
+                            <div className="mt-1 text-[10px] text-destructive">{applyErrors[annotation.id]}</div>
+                          )}
+
+                          {annotation.carriedOver && (
+                            <CarriedOverStatus
+                              carriedOver={annotation.carriedOver}
+                              onChange={(updates) => onUpdateAnnotation(annotation.id, updates)}
+                            />
+                          )}
+
+                          {/* Severity + tags */}
+                          <AnnotationLabels
+                            severity={annotation.severity}
+                            tags={annotation.tags}
+                            onChange={(updates) => onUpdateAnnotation(annotation.id, updates)}
+                          />
+
+                          {/* Replies + resolve */}
+                          <AnnotationThread
+                            replies={annotation.replies}
+                            resolved={annotation.resolved}
+                            onChange={(updates) => onUpdateAnnotation(annotation.id, updates)}
+                          />
 
                           {/* Delete button */}
                           <button
@@ -182,10 +364,10 @@ export const ReviewPanel: React.FC<ReviewPanelProps> = ({
 
         {/* Quick Copy Footer */}
         {feedbackMarkdown && annotations.length > 0 && (
-          <div className="p-2 border-t border-border/50">
+          <div className="p-2 border-t border-border/50 flex gap-1">
             <button
               onClick={handleQuickCopy}
-              className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-xs font-medium transition-all text-muted-foreground hover:text-foreground hover:bg-muted/50"
+              className="flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-xs font-medium transition-all text-muted-foreground hover:text-foreground hover:bg-muted/50"
             >
               {copied ? (
                 <>
@@ -203,6 +385,18 @@ export const ReviewPanel: React.FC<ReviewPanelProps> = ({
                 </>
               )}
             </button>
+            {onExport && (
+              <button
+                onClick={onExport}
+                title="Export as markdown, or as a GitHub or GitLab review"
+                className="flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-xs font-medium transition-all text-muted-foreground hover:text-foreground hover:bg-muted/50"
+              >
+                <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M4 16v2a2 2 0 002 2h12a2 2 0 002-2v-2M12 4v12m0 0l-4-4m4 4l4-4" />
+                </svg>
+                Export
+              </button>
+            )}
           </div>
         )}
     </aside>
@@ -0,0 +1,75 @@
+/**
+ * Session Auth Tests
+ *
+ * Run: bun test packages/server/auth.test.ts
+ */
+
+import { afterEach, describe, expect, test } from "bun:test";
+import { AUTH_HEADER, checkAuth, generateAuthToken, isAuthEnabled, resolveAuthToken, withAuthToken } from "./auth";
+
+const TOKEN = generateAuthToken();
+
+function check(path: string, headers: Record<string, string> = {}): Response | null {
+  const url = new URL(`http://localhost${path}`);
+  return checkAuth(new Request(url, { headers }), url, TOKEN);
+}
+
+describe("checkAuth", () => {
+  test("allows the token in the header or the query string", () => {
+    expect(check("/api/plan", { [AUTH_HEADER]: TOKEN })).toBeNull();
+    expect(check(withAuthToken("/api/plan", TOKEN))).toBeNull();
+    expect(check(withAuthToken("/?mode=review", TOKEN))).toBeNull();
+  });
+
+  test("rejects API requests without a valid token as JSON", async () => {
+    const missing = check("/api/plan")!;
+    expect(missing.status).toBe(401);
+    expect(await missing.json()).toEqual({ error: "Missing session token" });
+
+    const wrong = check("/api/approve", { [AUTH_HEADER]: generateAuthToken() })!;
+    expect(wrong.status).toBe(401);
+    expect(await wrong.json()).toEqual({ error: "Invalid session token" });
+
+    // Prefixes of the real token must not match
+    expect(check(`/api/plan?token=${TOKEN.slice(0, 10)}`)!.status).toBe(401);
+  });
+
+  test("rejects page requests with an HTML page", () => {
+    const res = check("/")!;
+    expect(res.status).toBe(401);
+    expect(res.headers.get("Content-Type")).toBe("text/html");
+  });
+
+  test("allows everything when the session has no token", () => {
+    const url = new URL("http://localhost/api/plan");
+    expect(checkAuth(new Request(url), url, null)).toBeNull();
+  });
+});
+
+describe("PLANNOTATOR_AUTH", () => {
+  const original = process.env.PLANNOTATOR_AUTH;
+
+  afterEach(() => {
+    if (original === undefined) delete process.env.PLANNOTATOR_AUTH;
+    else process.env.PLANNOTATOR_AUTH = original;
+  });
+
+  test("generates a token by default", () => {
+    delete process.env.PLANNOTATOR_AUTH;
+    expect(isAuthEnabled()).toBe(true);
+    expect(resolveAuthToken(undefined)).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  test("disabled turns token checks off", () => {
+    process.env.PLANNOTATOR_AUTH = "Disabled";
+    expect(isAuthEnabled()).toBe(false);
+    expect(resolveAuthToken(undefined)).toBeNull();
+  });
+
+  test("an explicit token wins over the environment", () => {
+    process.env.PLANNOTATOR_AUTH = "disabled";
+    expect(resolveAuthToken("abc")).toBe("abc");
+    delete process.env.PLANNOTATOR_AUTH;
+    expect(resolveAuthToken(null)).toBeNull();
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Per-session auth tokens
+ *
+ * Every plan/review session gets a random secret that is embedded in the URL
+ * opened in the browser and required on every request. This keeps other users
+ * on a shared machine (remote mode uses a well-known port) from reading plans
+ * or submitting decisions.
+ *
+ * Environment variables:
+ *   PLANNOTATOR_AUTH - Set to "disabled" to turn off token checks (e.g. for tests)
+ */
+
+import { timingSafeEqual } from "crypto";
+
+/** Query parameter carrying the token (used by the browser UI) */
+export const AUTH_QUERY_PARAM = "token";
+
+/** Header carrying the token (used by programmatic clients) */
+export const AUTH_HEADER = "X-Plannotator-Token";
+
+/**
+ * Check whether token auth is enabled
+ */
+export function isAuthEnabled(): boolean {
+  return process.env.PLANNOTATOR_AUTH?.toLowerCase() !== "disabled";
+}
+
+/**
+ * Generate a random session token (256 bits, hex encoded)
+ */
+export function generateAuthToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Resolve the token for a new session: an explicit token (or null to disable)
+ * wins, otherwise generate one unless auth is turned off.
+ */
+export function resolveAuthToken(token: string | null | undefined): string | null {
+  if (token !== undefined) return token;
+  return isAuthEnabled() ? generateAuthToken() : null;
+}
+
+/**
+ * Append the token to a URL so the browser UI can pick it up
+ */
+export function withAuthToken(url: string, token: string | null): string {
+  if (!token) return url;
+  const separator = url.includes("?") ? "&" : "?";
+  return `${url}${separator}${AUTH_QUERY_PARAM}=${token}`;
+}
+
+function tokensMatch(provided: string, expected: string): boolean {
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Verify a request carries the session token (header or query parameter).
+ * Returns null when the request is allowed, otherwise a 401 response:
+ * JSON for /api routes, an explanatory page for everything else.
+ */
+export function checkAuth(req: Request, url: URL, token: string | null): Response | null {
+  if (!token) return null;
+
+  const provided =
+    req.headers.get(AUTH_HEADER) ?? url.searchParams.get(AUTH_QUERY_PARAM);
+  if (provided && tokensMatch(provided, token)) {
+    return null;
+  }
+
+  const reason = provided ? "Invalid session token" : "Missing session token";
+
+  if (url.pathname.startsWith("/api/")) {
+    return Response.json({ error: reason }, { status: 401 });
+  }
+
+  return new Response(unauthorizedPage(reason), {
+    status: 401,
+    headers: { "Content-Type": "text/html" },
+  });
+}
+
+function unauthorizedPage(reason: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Unauthorized - Plannotator</title>
+<style>
+  body { margin: 0; font-family: ui-sans-serif, system-ui, sans-serif; background: #0f1117; color: #e4e4e7; }
+  main { max-width: 560px; margin: 0 auto; padding: 64px 24px; }
+  h1 { font-size: 18px; font-weight: 600; margin: 0 0 12px; }
+  p { color: #a1a1aa; font-size: 14px; line-height: 1.6; }
+  code { background: #27272a; padding: 1px 5px; border-radius: 4px; }
+</style>
+</head>
+<body>
+<main>
+  <h1>401 - ${reason}</h1>
+  <p>This Plannotator session is protected by a one-time token. Open the full URL printed by your agent
+  (or opened automatically in your browser), including the <code>?${AUTH_QUERY_PARAM}=</code> part.</p>
+  <p>Set <code>PLANNOTATOR_AUTH=disabled</code> to turn token checks off.</p>
+</main>
+</body>
+</html>`;
+}
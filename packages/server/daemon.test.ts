@@ -0,0 +1,77 @@
+/**
+ * Daemon Client Tests
+ *
+ * Run: bun test packages/server/daemon.test.ts
+ */
+
+import { afterAll, describe, expect, test } from "bun:test";
+import { registerPlanSession } from "./daemon";
+import type { PlanDecision } from "./index";
+
+// Stands in for the daemon: accepts registrations and answers decision polls
+// with the queued responses, the last one repeating
+let decisionResponses: (() => Response)[] = [];
+const daemon = Bun.serve({
+  port: 0,
+  fetch(req) {
+    const url = new URL(req.url);
+    if (url.pathname === "/api/sessions" && req.method === "POST") {
+      return Response.json({ id: "s1", path: "/session/s1", dashboardOpen: true });
+    }
+    if (url.pathname === "/api/sessions/s1/decision") {
+      const next = decisionResponses.length > 1 ? decisionResponses.shift()! : decisionResponses[0];
+      return next();
+    }
+    return new Response(null, { status: 204 });
+  },
+});
+const daemonUrl = `http://localhost:${daemon.port}`;
+
+afterAll(() => {
+  daemon.stop(true);
+});
+
+const DECISION: PlanDecision = { approved: true, feedback: "Ship it" };
+
+function register(onReady?: (url: string) => void) {
+  return registerPlanSession(daemonUrl, {
+    plan: "# Plan",
+    origin: "claude-code",
+    htmlContent: "<html></html>",
+    authToken: null,
+    project: "demo",
+    onReady,
+  });
+}
+
+describe("registerPlanSession", () => {
+  test("keeps polling through daemon errors", async () => {
+    decisionResponses = [
+      () => new Response(null, { status: 204 }),
+      () => Response.json({ error: "Restarting" }, { status: 503 }),
+      () => Response.json({ decision: DECISION }),
+    ];
+    const session = (await register())!;
+    expect(await session.waitForDecision()).toEqual(DECISION);
+    session.stop();
+  });
+
+  test("moves a session the daemon lost to a standalone server", async () => {
+    decisionResponses = [() => Response.json({ error: "Session not found" }, { status: 404 })];
+    let standaloneUrl!: (url: string) => void;
+    const ready = new Promise<string>((resolve) => (standaloneUrl = resolve));
+    const session = (await register(standaloneUrl))!;
+
+    const decision = session.waitForDecision();
+    const url = await ready;
+    expect(url).not.toStartWith(daemonUrl);
+    const res = await fetch(new URL("/api/deny", url), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ feedback: "Split step 2", planSave: { enabled: false } }),
+    });
+    expect(res.ok).toBe(true);
+    expect(await decision).toMatchObject({ approved: false, feedback: "Split step 2" });
+    session.stop();
+  });
+});
@@ -0,0 +1,633 @@
+/**
+ * Plannotator Daemon
+ *
+ * Optional long-lived server that hosts many plan and review sessions on a
+ * single fixed port, each under /session/:id. Keeps bookmarks and
+ * cookie-scoped settings stable, and lists pending sessions on a dashboard
+ * at / so a new browser tab isn't needed for every hook call.
+ *
+ * Clients (the Claude Code hook, the OpenCode plugin) register a session
+ * over HTTP and long-poll for the decision instead of binding their own port.
+ * If the daemon goes away mid-session, the client moves the session to a
+ * standalone server of its own so the decision isn't lost.
+ *
+ * Environment variables:
+ *   PLANNOTATOR_DAEMON      - Set to "1" or "true" to use the daemon on the default port,
+ *                             or to the daemon URL (e.g. http://localhost:19433)
+ *   PLANNOTATOR_DAEMON_PORT - Port the daemon listens on (default: 19433)
+ *
+ * The daemon's own API and dashboard are protected by a token written to
+ * ~/.plannotator/daemon.json (readable only by the current user), which
+ * local clients read to register sessions. Each session has its own token.
+ */
+
+import { homedir } from "os";
+import { join } from "path";
+import { chmodSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { isRemoteSession } from "./remote";
+import { detectProjectName } from "./project";
+import { AUTH_HEADER, checkAuth, resolveAuthToken, withAuthToken } from "./auth";
+import {
+  createPlanSession,
+  startPlannotatorServer,
+  type PlanSession,
+  type PlanSessionOptions,
+  type ServerOptions,
+  type ServerResult,
+} from "./index";
+import {
+  createReviewSession,
+  startReviewServer,
+  type ReviewSession,
+  type ReviewSessionOptions,
+  type ReviewServerOptions,
+  type ReviewServerResult,
+} from "./review";
+
+// --- Types ---
+
+export type SessionKind = "plan" | "review";
+
+export type SessionRegistration =
+  | ({ kind: "plan"; project?: string | null } & PlanSessionOptions)
+  | ({ kind: "review"; project?: string | null } & ReviewSessionOptions);
+
+export interface SessionSummary {
+  id: string;
+  kind: SessionKind;
+  title: string;
+  project: string | null;
+  origin: string | null;
+  createdAt: string;
+  status: "pending" | "decided";
+  path: string;
+}
+
+export interface DaemonOptions {
+  /** Port to listen on (default: PLANNOTATOR_DAEMON_PORT or 19433) */
+  port?: number;
+  /** Token for the daemon API and dashboard (default: generated, null disables auth) */
+  authToken?: string | null;
+  /** Called when the daemon starts with its URL */
+  onReady?: (url: string, port: number) => void;
+}
+
+export interface DaemonResult {
+  port: number;
+  url: string;
+  stop: () => void;
+}
+
+interface DaemonSession {
+  id: string;
+  kind: SessionKind;
+  title: string;
+  project: string | null;
+  origin: string | null;
+  createdAt: string;
+  handler: PlanSession | ReviewSession;
+  decision: unknown;
+  decidedAt: number | null;
+  lastPolledAt: number;
+}
+
+// --- Configuration ---
+
+const DEFAULT_DAEMON_PORT = 19433;
+
+// Long-poll requests are answered with 204 after this long so clients re-poll
+const DECISION_POLL_MS = 25_000;
+
+// Delays between retries when a decision poll fails to reach the daemon
+// (it may be restarting); after the last one the client gives up on it
+const RECONNECT_DELAYS_MS = [1_000, 2_000, 4_000, 8_000, 15_000, 30_000];
+
+// Pending sessions whose client stopped polling are considered abandoned
+const ABANDONED_SESSION_MS = 2 * 60_000;
+
+// Decided sessions are kept briefly so a late poll still gets the result
+const DECIDED_SESSION_TTL_MS = 5 * 60_000;
+
+const PRUNE_INTERVAL_MS = 30_000;
+
+// A dashboard that polled within this window counts as open
+const DASHBOARD_ACTIVE_MS = 5_000;
+
+const DAEMON_INFO_PATH = join(homedir(), ".plannotator", "daemon.json");
+
+/**
+ * Get the port the daemon listens on
+ */
+export function getDaemonPort(): number {
+  const envPort = process.env.PLANNOTATOR_DAEMON_PORT;
+  if (envPort) {
+    const parsed = parseInt(envPort, 10);
+    if (!isNaN(parsed) && parsed > 0 && parsed < 65536) {
+      return parsed;
+    }
+    console.error(
+      `[Daemon] Warning: Invalid PLANNOTATOR_DAEMON_PORT "${envPort}", using default ${DEFAULT_DAEMON_PORT}`
+    );
+  }
+  return DEFAULT_DAEMON_PORT;
+}
+
+/**
+ * Get the daemon URL to register sessions with, or null if the daemon
+ * is not enabled.
+ */
+export function getDaemonUrl(): string | null {
+  const value = process.env.PLANNOTATOR_DAEMON;
+  if (!value || value === "0" || value.toLowerCase() === "false") {
+    return null;
+  }
+  if (value === "1" || value.toLowerCase() === "true") {
+    return `http://localhost:${getDaemonPort()}`;
+  }
+  return value.replace(/\/+$/, "");
+}
+
+/**
+ * Read the running daemon's API token, or null if none was recorded
+ */
+function readDaemonToken(): string | null {
+  try {
+    const info = JSON.parse(readFileSync(DAEMON_INFO_PATH, "utf-8")) as { token?: string | null };
+    return info.token ?? null;
+  } catch {
+    return null;
+  }
+}
+
+// --- Daemon Server ---
+
+function extractTitle(registration: SessionRegistration): string {
+  if (registration.kind === "plan") {
+    const heading = registration.plan.match(/^#\s+(.+)$/m);
+    return heading ? heading[1].trim() : "Untitled plan";
+  }
+  return registration.gitRef || "Code review";
+}
+
+function toSummary(session: DaemonSession): SessionSummary {
+  return {
+    id: session.id,
+    kind: session.kind,
+    title: session.title,
+    project: session.project,
+    origin: session.origin,
+    createdAt: session.createdAt,
+    status: session.decidedAt === null ? "pending" : "decided",
+    path: withAuthToken(`/session/${session.id}/`, session.handler.authToken),
+  };
+}
+
+/**
+ * Start the daemon
+ *
+ * Handles:
+ * - Session registration and removal (/api/sessions)
+ * - Long-polling for decisions (/api/sessions/:id/decision)
+ * - Routing UI/API requests to sessions (/session/:id/*)
+ * - The pending session dashboard (/)
+ */
+export async function startDaemon(options: DaemonOptions = {}): Promise<DaemonResult> {
+  const port = options.port ?? getDaemonPort();
+  const daemonToken = resolveAuthToken(options.authToken);
+  const sessions = new Map<string, DaemonSession>();
+  let dashboardSeenAt = 0;
+
+  const removeSession = (id: string) => {
+    const session = sessions.get(id);
+    if (!session) return;
+    sessions.delete(id);
+    session.handler.dispose();
+    console.error(`[Daemon] Session ${id} closed`);
+  };
+
+  const pruneTimer = setInterval(() => {
+    const now = Date.now();
+    for (const session of sessions.values()) {
+      if (session.decidedAt !== null && now - session.decidedAt > DECIDED_SESSION_TTL_MS) {
+        removeSession(session.id);
+      } else if (session.decidedAt === null && now - session.lastPolledAt > ABANDONED_SESSION_MS) {
+        console.error(`[Daemon] Session ${session.id} abandoned by its client`);
+        removeSession(session.id);
+      }
+    }
+  }, PRUNE_INTERVAL_MS);
+
+  let server: ReturnType<typeof Bun.serve>;
+  try {
+    server = Bun.serve({
+      port,
+      // Long-poll requests outlive Bun's default idle timeout
+      idleTimeout: 0,
+
+      async fetch(req) {
+        const url = new URL(req.url);
+
+        // Dashboard and daemon API require the daemon token; session routes
+        // below check their own per-session token
+        if (!url.pathname.startsWith("/session/")) {
+          const unauthorized = checkAuth(req, url, daemonToken);
+          if (unauthorized) return unauthorized;
+        }
+
+        // Dashboard
+        if (url.pathname === "/" && req.method === "GET") {
+          return new Response(DASHBOARD_HTML, {
+            headers: { "Content-Type": "text/html" },
+          });
+        }
+
+        // API: List sessions
+        if (url.pathname === "/api/sessions" && req.method === "GET") {
+          if (url.searchParams.get("dashboard") === "1") {
+            dashboardSeenAt = Date.now();
+          }
+          const list = Array.from(sessions.values()).map(toSummary);
+          return Response.json({ sessions: list });
+        }
+
+        // API: Register session
+        if (url.pathname === "/api/sessions" && req.method === "POST") {
+          let registration: SessionRegistration;
+          try {
+            registration = (await req.json()) as SessionRegistration;
+          } catch {
+            return Response.json({ error: "Invalid JSON body" }, { status: 400 });
+          }
+
+          if (registration.kind !== "plan" && registration.kind !== "review") {
+            return Response.json({ error: "Unknown session kind" }, { status: 400 });
+          }
+          if (!registration.htmlContent) {
+            return Response.json({ error: "Missing htmlContent" }, { status: 400 });
+          }
+
+          const id = crypto.randomUUID().slice(0, 8);
+          const handler =
+            registration.kind === "plan"
+              ? createPlanSession(registration)
+              : createReviewSession(registration);
+
+          const session: DaemonSession = {
+            id,
+            kind: registration.kind,
+            title: extractTitle(registration),
+            project: registration.project ?? null,
+            origin: registration.origin ?? null,
+            createdAt: new Date().toISOString(),
+            handler,
+            decision: null,
+            decidedAt: null,
+            lastPolledAt: Date.now(),
+          };
+          sessions.set(id, session);
+
+          handler.waitForDecision().then((decision) => {
+            session.decision = decision;
+            session.decidedAt = Date.now();
+          });
+
+          console.error(`[Daemon] Session ${id} registered (${session.kind}: ${session.title})`);
+
+          return Response.json({
+            id,
+            path: withAuthToken(`/session/${id}/`, handler.authToken),
+            dashboardOpen: Date.now() - dashboardSeenAt < DASHBOARD_ACTIVE_MS,
+          });
+        }
+
+        // API: Long-poll for a session decision / remove a session
+        const sessionApiMatch = url.pathname.match(/^\/api\/sessions\/([^/]+)(\/decision)?$/);
+        if (sessionApiMatch) {
+          const [, id, decisionSuffix] = sessionApiMatch;
+          const session = sessions.get(id);
+          if (!session) {
+            return Response.json({ error: "Session not found" }, { status: 404 });
+          }
+
+          if (!decisionSuffix && req.method === "DELETE") {
+            removeSession(id);
+            return Response.json({ ok: true });
+          }
+
+          if (decisionSuffix && req.method === "GET") {
+            session.lastPolledAt = Date.now();
+            const decision = await Promise.race([
+              session.handler.waitForDecision(),
+              Bun.sleep(DECISION_POLL_MS).then(() => null),
+            ]);
+            session.lastPolledAt = Date.now();
+            if (decision === null) {
+              return new Response(null, { status: 204 });
+            }
+            return Response.json({ decision });
+          }
+        }
+
+        // Session UI and API, with the /session/:id prefix stripped
+        const sessionMatch = url.pathname.match(/^\/session\/([^/]+)(\/.*)?$/);
+        if (sessionMatch) {
+          const [, id, rest] = sessionMatch;
+          const session = sessions.get(id);
+          if (!session) {
+            return new Response(SESSION_GONE_HTML, {
+              status: 404,
+              headers: { "Content-Type": "text/html" },
+            });
+          }
+          // Relative asset and API paths resolve against the trailing slash
+          if (!rest) {
+            return Response.redirect(`/session/${id}/${url.search}`, 302);
+          }
+
+          const sessionUrl = new URL(url);
+          sessionUrl.pathname = rest;
+          return session.handler.handleRequest(req, sessionUrl);
+        }
+
+        return new Response("Not found", { status: 404 });
+      },
+    });
+  } catch (err) {
+    clearInterval(pruneTimer);
+    if (err instanceof Error && err.message.includes("EADDRINUSE")) {
+      throw new Error(
+        `Port ${port} in use - is a daemon already running? (set PLANNOTATOR_DAEMON_PORT to use different port)`
+      );
+    }
+    throw err;
+  }
+
+  const daemonUrl = `http://localhost:${server.port}`;
+
+  // Let local clients find the token; mode 0600 keeps other users out. The
+  // mode option only applies on create, so an existing file is chmod-ed too.
+  mkdirSync(join(homedir(), ".plannotator"), { recursive: true, mode: 0o700 });
+  writeFileSync(DAEMON_INFO_PATH, JSON.stringify({ url: daemonUrl, token: daemonToken }, null, 2), {
+    encoding: "utf-8",
+    mode: 0o600,
+  });
+  chmodSync(DAEMON_INFO_PATH, 0o600);
+
+  if (options.onReady) {
+    options.onReady(withAuthToken(daemonUrl, daemonToken), server.port);
+  }
+
+  return {
+    port: server.port,
+    url: daemonUrl,
+    stop: () => {
+      clearInterval(pruneTimer);
+      server.stop();
+      for (const id of Array.from(sessions.keys())) removeSession(id);
+    },
+  };
+}
+
+// --- Client ---
+
+type DecisionPoll<T> =
+  | { status: "decided"; decision: T }
+  | { status: "pending" }
+  | { status: "failed"; reason: string; transient: boolean };
+
+// One long-poll for a session's decision. Network errors and daemon errors
+// are transient; anything else means the daemon no longer has the session
+// (it restarted, or pruned it).
+async function pollDecision<T>(url: string, headers: Record<string, string>): Promise<DecisionPoll<T>> {
+  try {
+    const res = await fetch(url, { headers });
+    if (res.status === 204) return { status: "pending" };
+    if (!res.ok) return { status: "failed", reason: `HTTP ${res.status}`, transient: res.status >= 500 };
+    const body = (await res.json()) as { decision: T };
+    return { status: "decided", decision: body.decision };
+  } catch (err) {
+    const reason = err instanceof Error ? err.message : String(err);
+    return { status: "failed", reason, transient: true };
+  }
+}
+
+/**
+ * Register a session with the daemon and return a handle shaped like the
+ * standalone server result. Returns null if the daemon can't be reached,
+ * so callers can fall back to starting their own server. If the daemon
+ * loses the session later on, `startStandalone` takes it over.
+ */
+async function registerSession<T>(
+  daemonUrl: string,
+  registration: SessionRegistration,
+  onReady: ((url: string, isRemote: boolean, port: number) => void) | undefined,
+  startStandalone: () => Promise<{ waitForDecision: () => Promise<T>; stop: () => void }>
+): Promise<{
+  port: number;
+  url: string;
+  isRemote: boolean;
+  waitForDecision: () => Promise<T>;
+  stop: () => void;
+} | null> {
+  const daemonToken = readDaemonToken();
+  const authHeaders: Record<string, string> = daemonToken ? { [AUTH_HEADER]: daemonToken } : {};
+
+  let registered: { id: string; path: string; dashboardOpen: boolean };
+  try {
+    const res = await fetch(`${daemonUrl}/api/sessions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...authHeaders },
+      body: JSON.stringify(registration),
+    });
+    if (!res.ok) {
+      const body = (await res.json().catch(() => ({}))) as { error?: string };
+      throw new Error(body.error || `HTTP ${res.status}`);
+    }
+    registered = (await res.json()) as typeof registered;
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.error(`[Daemon] Could not register with ${daemonUrl} (${message}), starting a standalone server`);
+    return null;
+  }
+
+  const isRemote = isRemoteSession();
+  const port = parseInt(new URL(daemonUrl).port, 10) || getDaemonPort();
+  const sessionUrl = `${daemonUrl}${registered.path}`;
+
+  // An open dashboard already shows the new session, no need for another tab
+  if (onReady && !registered.dashboardOpen) {
+    onReady(sessionUrl, isRemote, port);
+  } else {
+    console.error(`Plannotator session ready at ${sessionUrl}`);
+  }
+
+  let standalone: { stop: () => void } | null = null;
+
+  const waitForDecision = async (): Promise<T> => {
+    const decisionUrl = `${daemonUrl}/api/sessions/${registered.id}/decision`;
+    let failures = 0;
+    while (true) {
+      const poll = await pollDecision<T>(decisionUrl, authHeaders);
+      if (poll.status === "decided") return poll.decision;
+      if (poll.status === "pending") {
+        failures = 0;
+        continue;
+      }
+      if (poll.transient && failures < RECONNECT_DELAYS_MS.length) {
+        await Bun.sleep(RECONNECT_DELAYS_MS[failures++]);
+        continue;
+      }
+
+      console.error(`[Daemon] Lost session ${registered.id} (${poll.reason}), starting a standalone server`);
+      const server = await startStandalone();
+      standalone = server;
+      return server.waitForDecision();
+    }
+  };
+
+  return {
+    port,
+    url: sessionUrl,
+    isRemote,
+    waitForDecision,
+    stop: () => {
+      standalone?.stop();
+      fetch(`${daemonUrl}/api/sessions/${registered.id}`, {
+        method: "DELETE",
+        headers: authHeaders,
+      }).catch(() => {
+        // Daemon already gone
+      });
+    },
+  };
+}
+
+/**
+ * Register a plan review session with the daemon.
+ * Returns null if the daemon is unreachable.
+ * A session the daemon loses moves to a standalone plan server.
+ */
+export async function registerPlanSession(
+  daemonUrl: string,
+  options: ServerOptions & { project?: string | null }
+): Promise<ServerResult | null> {
+  const { onReady, ...sessionOptions } = options;
+  const project = sessionOptions.project ?? (await detectProjectName());
+  return registerSession(
+    daemonUrl,
+    { kind: "plan", ...sessionOptions, project, cwd: sessionOptions.cwd ?? process.cwd() },
+    onReady,
+    () => startPlannotatorServer(options)
+  );
+}
+
+/**
+ * Register a code review session with the daemon.
+ * Git operations run in options.cwd (default: the caller's working directory).
+ * Returns null if the daemon is unreachable.
+ * A session the daemon loses moves to a standalone review server.
+ */
+export async function registerReviewSession(
+  daemonUrl: string,
+  options: ReviewServerOptions & { project?: string | null }
+): Promise<ReviewServerResult | null> {
+  const { onReady, ...sessionOptions } = options;
+  const project = sessionOptions.project ?? (await detectProjectName());
+  return registerSession(
+    daemonUrl,
+    { kind: "review", ...sessionOptions, project, cwd: sessionOptions.cwd ?? process.cwd() },
+    onReady,
+    () => startReviewServer(options)
+  );
+}
+
+// --- Pages ---
+
+const PAGE_STYLE = `
+  body { margin: 0; font-family: ui-sans-serif, system-ui, sans-serif; background: #0f1117; color: #e4e4e7; }
+  main { max-width: 720px; margin: 0 auto; padding: 48px 24px; }
+  h1 { font-size: 18px; font-weight: 600; margin: 0 0 4px; }
+  p.muted, .muted { color: #71717a; font-size: 13px; }
+  ul { list-style: none; padding: 0; margin: 24px 0 0; }
+  li a { display: flex; align-items: center; gap: 12px; padding: 12px 16px; margin-bottom: 8px; border: 1px solid #27272a; border-radius: 10px; color: inherit; text-decoration: none; background: #16181f; }
+  li a:hover { border-color: #52525b; }
+  .kind { font-size: 11px; font-weight: 600; padding: 2px 6px; border-radius: 4px; text-transform: uppercase; }
+  .kind.plan { background: rgba(59,130,246,.15); color: #60a5fa; }
+  .kind.review { background: rgba(168,85,247,.15); color: #c084fc; }
+  .title { flex: 1; font-size: 14px; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+  .decided { opacity: .5; }
+`;
+
+const DASHBOARD_HTML = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Plannotator</title>
+<style>${PAGE_STYLE}</style>
+</head>
+<body>
+<main>
+  <h1>Plannotator</h1>
+  <p class="muted">Pending plan and code reviews. New sessions appear here automatically.</p>
+  <ul id="sessions"></ul>
+  <p class="muted" id="empty">No pending sessions.</p>
+</main>
+<script>
+  const list = document.getElementById('sessions');
+  const empty = document.getElementById('empty');
+  const known = new Set();
+  const token = new URLSearchParams(location.search).get('token');
+  let first = true;
+
+  const escape = (text) => String(text).replace(/[&<>"']/g, (c) => '&#' + c.charCodeAt(0) + ';');
+
+  async function refresh() {
+    try {
+      const res = await fetch('/api/sessions?dashboard=1' + (token ? '&token=' + encodeURIComponent(token) : ''));
+      const { sessions } = await res.json();
+      const pending = sessions.filter((s) => s.status === 'pending');
+      document.title = pending.length ? '(' + pending.length + ') Plannotator' : 'Plannotator';
+      empty.style.display = sessions.length ? 'none' : 'block';
+      list.innerHTML = sessions.map((s) =>
+        '<li class="' + s.status + '"><a href="' + s.path + '">' +
+        '<span class="kind ' + s.kind + '">' + s.kind + '</span>' +
+        '<span class="title">' + escape(s.title) + '</span>' +
+        '<span class="muted">' + escape(s.project || '') + ' · ' + new Date(s.createdAt).toLocaleTimeString() + '</span>' +
+        '</a></li>'
+      ).join('');
+
+      for (const s of pending) {
+        if (!known.has(s.id) && !first && 'Notification' in window && Notification.permission === 'granted') {
+          new Notification('Plannotator', { body: 'New ' + s.kind + ': ' + s.title });
+        }
+        known.add(s.id);
+      }
+      first = false;
+    } catch {
+      // Daemon restarting, try again on the next tick
+    }
+  }
+
+  if ('Notification' in window && Notification.permission === 'default') {
+    document.addEventListener('click', () => Notification.requestPermission(), { once: true });
+  }
+  refresh();
+  setInterval(refresh, 2000);
+</script>
+</body>
+</html>`;
+
+const SESSION_GONE_HTML = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Session closed - Plannotator</title>
+<style>${PAGE_STYLE}</style>
+</head>
+<body>
+<main>
+  <h1>Session closed</h1>
+  <p class="muted">This session has finished or its agent disconnected. Open the dashboard from the URL printed by <code>plannotator daemon</code>.</p>
+</main>
+</body>
+</html>`;
@@ -0,0 +1,109 @@
+/**
+ * Review drafts
+ *
+ * The UI autosaves in-progress annotations to ~/.plannotator/drafts/ so a
+ * closed tab, browser crash or server restart doesn't lose them. Drafts are
+ * JSON documents the UI writes and reconciles against the current plan or
+ * diff when it restores them. A draft is deleted once its review is
+ * submitted.
+ *
+ * Plan drafts are keyed by the plan slug; code review drafts by the
+ * repository and the diff being reviewed.
+ */
+
+import { createHash } from "crypto";
+import { homedir } from "os";
+import { join } from "path";
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import type { UploadStore } from "./upload";
+
+/** Largest draft /api/draft accepts */
+export const MAX_DRAFT_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Get the draft directory, creating it if needed
+ */
+export function getDraftDir(): string {
+  const dir = join(homedir(), ".plannotator", "drafts");
+  mkdirSync(dir, { recursive: true });
+  return dir;
+}
+
+/**
+ * Build a file-safe draft key from a kind and the values that identify the
+ * reviewed content
+ */
+export function getDraftKey(kind: "plan" | "review", ...parts: string[]): string {
+  const hash = createHash("sha256").update(parts.join("\0")).digest("hex").slice(0, 24);
+  return `${kind}-${hash}`;
+}
+
+function getDraftPath(key: string, dir: string): string {
+  return join(dir, `${key}.json`);
+}
+
+/**
+ * Load a saved draft, or null if there is none or it can't be read
+ */
+export function loadDraft(key: string, dir: string = getDraftDir()): unknown | null {
+  const path = getDraftPath(key, dir);
+  if (!existsSync(path)) return null;
+  try {
+    return JSON.parse(readFileSync(path, "utf-8"));
+  } catch (err) {
+    console.error(`[Drafts] Ignoring unreadable draft ${path}:`, err);
+    return null;
+  }
+}
+
+/**
+ * Save a draft, stamping when it was saved
+ */
+export function saveDraft(key: string, draft: Record<string, unknown>, dir: string = getDraftDir()): void {
+  const content = JSON.stringify({ ...draft, savedAt: new Date().toISOString() });
+  writeFileSync(getDraftPath(key, dir), content, "utf-8");
+}
+
+/**
+ * Delete a draft (no-op if there is none)
+ */
+export function deleteDraft(key: string, dir: string = getDraftDir()): void {
+  rmSync(getDraftPath(key, dir), { force: true });
+}
+
+/**
+ * Handle GET, PUT and DELETE /api/draft for a session
+ */
+export async function handleDraftRequest(req: Request, key: string, uploads: UploadStore): Promise<Response> {
+  try {
+    if (req.method === "GET") {
+      return Response.json({ draft: loadDraft(key) });
+    }
+
+    if (req.method === "PUT") {
+      const text = await req.text();
+      if (text.length > MAX_DRAFT_BYTES) {
+        return Response.json({ error: `Draft is too large (limit ${MAX_DRAFT_BYTES} bytes)` }, { status: 413 });
+      }
+      const draft = JSON.parse(text);
+      if (!draft || typeof draft !== "object" || Array.isArray(draft)) {
+        return Response.json({ error: "Draft must be a JSON object" }, { status: 400 });
+      }
+      // Images attached in the draft must survive a server restart
+      uploads.markReferenced(text);
+      saveDraft(key, draft);
+      return Response.json({ ok: true });
+    }
+
+    if (req.method === "DELETE") {
+      deleteDraft(key);
+      return Response.json({ ok: true });
+    }
+
+    return Response.json({ error: "Method not allowed" }, { status: 405 });
+  } catch (err) {
+    const message =
+      err instanceof Error ? err.message : "Failed to handle draft";
+    return Response.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Git Helper Tests
+ *
+ * Run: bun test packages/server/git.test.ts
+ */
+
+import { afterAll, describe, expect, test } from "bun:test";
+import { $ } from "bun";
+import { mkdirSync, mkdtempSync, rmSync, symlinkSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { getFileBytesAtRevision } from "./git";
+
+const base = mkdtempSync(join(tmpdir(), "plannotator-git-"));
+const repo = join(base, "repo");
+const outside = join(base, "outside");
+mkdirSync(join(repo, "src"), { recursive: true });
+mkdirSync(outside);
+writeFileSync(join(repo, "src", "a.ts"), "inside\n");
+writeFileSync(join(outside, "secret.txt"), "secret\n");
+symlinkSync(outside, join(repo, "linked"));
+await $`git init -q`.cwd(repo).quiet();
+
+afterAll(() => rmSync(base, { recursive: true, force: true }));
+
+describe("getFileBytesAtRevision (worktree)", () => {
+  const read = async (path: string) => {
+    const bytes = await getFileBytesAtRevision({ type: "worktree" }, path, repo);
+    return bytes && new TextDecoder().decode(bytes);
+  };
+
+  test("reads files inside the repository", async () => {
+    expect(await read("src/a.ts")).toBe("inside\n");
+  });
+
+  test("refuses paths that leave the repository", async () => {
+    expect(await read("../outside/secret.txt")).toBeNull();
+    // Through a symlinked directory inside the repository
+    expect(await read("linked/secret.txt")).toBeNull();
+  });
+});
@@ -6,13 +6,27 @@
  */
 
 import { $ } from "bun";
+import { lstat, readFile, readlink, realpath, stat } from "fs/promises";
+import { join, resolve, sep } from "path";
 
 export type DiffType =
   | "uncommitted"
   | "staged"
   | "unstaged"
   | "last-commit"
-  | "branch";
+  | "branch"
+  | "commit"
+  | "range";
+
+export const DIFF_TYPES: DiffType[] = [
+  "uncommitted",
+  "staged",
+  "unstaged",
+  "last-commit",
+  "branch",
+  "commit",
+  "range",
+];
 
 export interface DiffOption {
   id: DiffType | "separator";
@@ -23,6 +37,17 @@ export interface GitContext {
   currentBranch: string;
   defaultBranch: string;
   diffOptions: DiffOption[];
+  /** Local branch names, for the range picker */
+  branches: string[];
+}
+
+export interface CommitInfo {
+  hash: string;
+  shortHash: string;
+  subject: string;
+  author: string;
+  /** ISO 8601 author date */
+  date: string;
 }
 
 export interface DiffResult {
@@ -30,12 +55,32 @@ export interface DiffResult {
   label: string;
 }
 
+export interface GitDiffOptions {
+  /** Repository directory to run git in (default: process.cwd()) */
+  cwd?: string;
+  /** Commit to show, for the "commit" diff type */
+  commit?: string;
+  /** Range to diff, for the "range" diff type ("A..B" or "A...B") */
+  range?: string;
+  /** Add untracked, non-ignored files to "uncommitted" and "unstaged" diffs (default: true) */
+  includeUntracked?: boolean;
+  /** Ignore changes in whitespace (git diff -w) */
+  ignoreWhitespace?: boolean;
+}
+
+/** A ref range split into its ends; symmetric ranges (A...B) diff from the merge base */
+export interface RefRange {
+  base: string;
+  head: string;
+  symmetric: boolean;
+}
+
 /**
  * Get the current branch name
  */
-export async function getCurrentBranch(): Promise<string> {
+export async function getCurrentBranch(cwd?: string): Promise<string> {
   try {
-    const result = await $`git rev-parse --abbrev-ref HEAD`.quiet();
+    const result = await $`git rev-parse --abbrev-ref HEAD`.cwd(cwd ?? process.cwd()).quiet();
     return result.text().trim();
   } catch {
     return "HEAD"; // Detached HEAD state
@@ -50,11 +95,11 @@ export async function getCurrentBranch(): Promise<string> {
  * 2. Fallback to checking if 'main' exists
  * 3. Final fallback to 'master'
  */
-export async function getDefaultBranch(): Promise<string> {
+export async function getDefaultBranch(cwd?: string): Promise<string> {
   // Try origin's HEAD first (most reliable for repos with remotes)
   try {
     const result =
-      await $`git symbolic-ref refs/remotes/origin/HEAD`.quiet();
+      await $`git symbolic-ref refs/remotes/origin/HEAD`.cwd(cwd ?? process.cwd()).quiet();
     const ref = result.text().trim();
     return ref.replace("refs/remotes/origin/", "");
   } catch {
@@ -63,7 +108,7 @@ export async function getDefaultBranch(): Promise<string> {
 
   // Fallback: check if main exists locally
   try {
-    await $`git show-ref --verify refs/heads/main`.quiet();
+    await $`git show-ref --verify refs/heads/main`.cwd(cwd ?? process.cwd()).quiet();
     return "main";
   } catch {
     // main doesn't exist
@@ -73,17 +118,34 @@ export async function getDefaultBranch(): Promise<string> {
   return "master";
 }
 
+/**
+ * List local branch names
+ */
+export async function getLocalBranches(cwd?: string): Promise<string[]> {
+  try {
+    const result =
+      await $`git for-each-ref ${"--format=%(refname:short)"} refs/heads`.cwd(cwd ?? process.cwd()).quiet();
+    return result.text().split("\n").map((line) => line.trim()).filter(Boolean);
+  } catch {
+    return [];
+  }
+}
+
 /**
  * Get git context including branch info and available diff options
  */
-export async function getGitContext(): Promise<GitContext> {
-  const [currentBranch, defaultBranch] = await Promise.all([
-    getCurrentBranch(),
-    getDefaultBranch(),
+export async function getGitContext(cwd?: string): Promise<GitContext> {
+  const [currentBranch, defaultBranch, branches] = await Promise.all([
+    getCurrentBranch(cwd),
+    getDefaultBranch(cwd),
+    getLocalBranches(cwd),
   ]);
 
   const diffOptions: DiffOption[] = [
     { id: "uncommitted", label: "Uncommitted changes" },
+    { id: "staged", label: "Staged changes" },
+    { id: "unstaged", label: "Unstaged changes" },
+    { id: "separator", label: "" },
     { id: "last-commit", label: "Last commit" },
   ];
 
@@ -92,7 +154,228 @@ export async function getGitContext(): Promise<GitContext> {
     diffOptions.push({ id: "branch", label: `vs ${defaultBranch}` });
   }
 
-  return { currentBranch, defaultBranch, diffOptions };
+  diffOptions.push(
+    { id: "commit", label: "Pick a commit..." },
+    { id: "range", label: "Compare refs..." }
+  );
+
+  return { currentBranch, defaultBranch, diffOptions, branches };
+}
+
+// Field and record separators for parsing git log output
+const FIELD_SEP = "\x1f";
+const RECORD_SEP = "\x1e";
+
+/**
+ * Recent commits reachable from HEAD, newest first
+ */
+export async function getRecentCommits(cwd?: string, limit: number = 50): Promise<CommitInfo[]> {
+  const count = Math.max(1, Math.min(Math.floor(limit) || 50, 500));
+  try {
+    const result =
+      await $`git log -n ${count} --format=%H%x1f%h%x1f%s%x1f%an%x1f%aI%x1e`.cwd(cwd ?? process.cwd()).quiet();
+    return result
+      .text()
+      .split(RECORD_SEP)
+      .map((record) => record.trim())
+      .filter(Boolean)
+      .map((record) => {
+        const [hash, shortHash, subject, author, date] = record.split(FIELD_SEP);
+        return { hash, shortHash, subject, author, date };
+      });
+  } catch {
+    // No commits yet
+    return [];
+  }
+}
+
+// Characters allowed in a ref expression: names, hashes, and suffixes like
+// ~2, ^, @{1}. Excludes whitespace and anything git would read as an option.
+const REF_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._\/~^@{}-]*$/;
+
+/**
+ * Resolve a client-supplied ref to a full commit hash, or null if it isn't a
+ * plain ref or doesn't name a commit
+ */
+export async function resolveCommitRef(ref: string, cwd?: string): Promise<string | null> {
+  if (ref.length > 256 || !REF_PATTERN.test(ref) || ref.includes("..")) {
+    return null;
+  }
+  try {
+    const result =
+      await $`git rev-parse --verify --quiet ${`${ref}^{commit}`}`.cwd(cwd ?? process.cwd()).quiet();
+    return result.text().trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Split "A..B" or "A...B" into its ends. A missing end means HEAD, as in git.
+ */
+export function parseRefRange(range: string): RefRange | null {
+  const trimmed = range.trim();
+  const dots = trimmed.indexOf("..");
+  if (dots === -1) return null;
+  const symmetric = trimmed[dots + 2] === ".";
+  const base = trimmed.slice(0, dots);
+  const head = trimmed.slice(dots + (symmetric ? 3 : 2));
+  if ((!base && !head) || head.includes("..")) return null;
+  return { base: base || "HEAD", head: head || "HEAD", symmetric };
+}
+
+function formatRefRange(range: RefRange): string {
+  return `${range.base}${range.symmetric ? "..." : ".."}${range.head}`;
+}
+
+/**
+ * Validate a diff request from the client. Returns the diff options to pass
+ * to runGitDiff, or an error message.
+ */
+export async function validateDiffRequest(
+  diffType: unknown,
+  ref: unknown,
+  cwd?: string
+): Promise<{ ok: true; diffType: DiffType; options: GitDiffOptions } | { ok: false; error: string }> {
+  if (typeof diffType !== "string" || !DIFF_TYPES.includes(diffType as DiffType)) {
+    return { ok: false, error: `Unknown diff type: ${String(diffType)}` };
+  }
+
+  if (diffType === "commit") {
+    if (typeof ref !== "string" || !ref.trim()) {
+      return { ok: false, error: "Missing commit" };
+    }
+    const commit = await resolveCommitRef(ref.trim(), cwd);
+    if (!commit) {
+      return { ok: false, error: `Not a commit: ${ref}` };
+    }
+    return { ok: true, diffType, options: { cwd, commit } };
+  }
+
+  if (diffType === "range") {
+    const range = typeof ref === "string" ? parseRefRange(ref) : null;
+    if (!range) {
+      return { ok: false, error: "Expected a range like main..feature or main...feature" };
+    }
+    for (const end of [range.base, range.head]) {
+      if (!(await resolveCommitRef(end, cwd))) {
+        return { ok: false, error: `Not a commit: ${end}` };
+      }
+    }
+    // Pass the validated names on so the label reads as the user typed it
+    return { ok: true, diffType, options: { cwd, range: formatRefRange(range) } };
+  }
+
+  return { ok: true, diffType: diffType as DiffType, options: { cwd } };
+}
+
+// Untracked files larger than this are listed without content, like binaries
+const MAX_UNTRACKED_FILE_BYTES = 1024 * 1024;
+// Stop adding untracked files past this many (e.g. an unignored build dir)
+const MAX_UNTRACKED_FILES = 500;
+
+/**
+ * List untracked files that aren't ignored, relative to the repo root
+ */
+export async function getUntrackedFiles(cwd?: string): Promise<string[]> {
+  try {
+    const result =
+      await $`git ls-files --others --exclude-standard --full-name -z`.cwd(cwd ?? process.cwd()).quiet();
+    return result.text().split("\0").filter(Boolean);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Build the added-file patch git would show for an untracked file. Binary
+ * and oversized files get a "Binary files differ" stub instead of content.
+ */
+async function buildAddedFilePatch(root: string, path: string): Promise<string | null> {
+  const fullPath = join(root, path);
+  const stats = await lstat(fullPath);
+  const header = `diff --git a/${path} b/${path}\n`;
+
+  let content: string;
+  let mode: string;
+  if (stats.isSymbolicLink()) {
+    // git stores a symlink as a blob holding the target path
+    content = await readlink(fullPath);
+    mode = "120000";
+  } else if (stats.isFile()) {
+    mode = stats.mode & 0o111 ? "100755" : "100644";
+    if (stats.size > MAX_UNTRACKED_FILE_BYTES) {
+      return `${header}new file mode ${mode}\nBinary files /dev/null and b/${path} differ\n`;
+    }
+    const bytes = await readFile(fullPath);
+    // Same heuristic as git: a NUL byte in the first 8000 bytes means binary
+    if (bytes.subarray(0, 8000).includes(0)) {
+      return `${header}new file mode ${mode}\nBinary files /dev/null and b/${path} differ\n`;
+    }
+    content = bytes.toString("utf-8");
+  } else {
+    return null;
+  }
+
+  if (content === "") {
+    return `${header}new file mode ${mode}\n`;
+  }
+
+  const endsWithNewline = content.endsWith("\n");
+  const lines = (endsWithNewline ? content.slice(0, -1) : content).split("\n");
+  let patch = `${header}new file mode ${mode}\n--- /dev/null\n+++ b/${path}\n`;
+  patch += `@@ -0,0 +1${lines.length === 1 ? "" : `,${lines.length}`} @@\n`;
+  patch += lines.map((line) => `+${line}\n`).join("");
+  if (!endsWithNewline) {
+    patch += "\\ No newline at end of file\n";
+  }
+  return patch;
+}
+
+/**
+ * Absolute path of the repository's working tree, or null outside a repo
+ */
+export async function getRepoRoot(cwd?: string): Promise<string | null> {
+  try {
+    return (await $`git rev-parse --show-toplevel`.cwd(cwd ?? process.cwd()).quiet()).text().trim();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Added-file patches for all untracked, non-ignored files
+ */
+export async function getUntrackedPatch(cwd?: string): Promise<string> {
+  const dir = cwd ?? process.cwd();
+  const root = await getRepoRoot(dir);
+  if (!root) return "";
+
+  const files = await getUntrackedFiles(dir);
+  if (files.length > MAX_UNTRACKED_FILES) {
+    console.error(`[Git] ${files.length} untracked files, showing the first ${MAX_UNTRACKED_FILES}`);
+  }
+
+  const patches: string[] = [];
+  for (const path of files.slice(0, MAX_UNTRACKED_FILES)) {
+    try {
+      const patch = await buildAddedFilePatch(root, path);
+      if (patch) patches.push(patch);
+    } catch (err) {
+      // Deleted or unreadable since it was listed
+      console.error(`[Git] Skipping untracked file ${path}:`, err);
+    }
+  }
+  return patches.join("");
+}
+
+/**
+ * Append untracked-file patches to a diff, keeping a newline between them
+ */
+async function withUntracked(patch: string, cwd: string): Promise<string> {
+  const untracked = await getUntrackedPatch(cwd);
+  if (!untracked) return patch;
+  return patch && !patch.endsWith("\n") ? `${patch}\n${untracked}` : patch + untracked;
 }
 
 /**
@@ -100,38 +383,64 @@ export async function getGitContext(): Promise<GitContext> {
  */
 export async function runGitDiff(
   diffType: DiffType,
-  defaultBranch: string = "main"
+  defaultBranch: string = "main",
+  options: GitDiffOptions = {}
 ): Promise<DiffResult> {
+  const cwd = options.cwd ?? process.cwd();
+  const includeUntracked = options.includeUntracked ?? true;
+  const flags = options.ignoreWhitespace ? ["-w"] : [];
   let patch: string;
   let label: string;
 
   try {
     switch (diffType) {
       case "uncommitted":
-        patch = (await $`git diff HEAD`.quiet()).text();
+        patch = (await $`git diff ${flags} HEAD`.cwd(cwd).quiet()).text();
+        if (includeUntracked) patch = await withUntracked(patch, cwd);
         label = "Uncommitted changes";
         break;
 
       case "staged":
-        patch = (await $`git diff --staged`.quiet()).text();
+        patch = (await $`git diff ${flags} --staged`.cwd(cwd).quiet()).text();
         label = "Staged changes";
         break;
 
       case "unstaged":
-        patch = (await $`git diff`.quiet()).text();
+        patch = (await $`git diff ${flags}`.cwd(cwd).quiet()).text();
+        if (includeUntracked) patch = await withUntracked(patch, cwd);
         label = "Unstaged changes";
         break;
 
       case "last-commit":
-        patch = (await $`git diff HEAD~1..HEAD`.quiet()).text();
+        patch = (await $`git diff ${flags} HEAD~1..HEAD`.cwd(cwd).quiet()).text();
         label = "Last commit";
         break;
 
       case "branch":
-        patch = (await $`git diff ${defaultBranch}..HEAD`.quiet()).text();
+        patch = (await $`git diff ${flags} ${defaultBranch}..HEAD`.cwd(cwd).quiet()).text();
         label = `Changes vs ${defaultBranch}`;
         break;
 
+      case "commit": {
+        if (!options.commit) throw new Error("No commit given");
+        // --first-parent shows merges against the branch they were merged into;
+        // --root makes the first commit diff against the empty tree
+        patch = (
+          await $`git diff-tree -p -m --first-parent --root --no-commit-id -M ${flags} ${options.commit}`.cwd(cwd).quiet()
+        ).text();
+        const subject = (await $`git log -1 --format=%h%x20%s ${options.commit}`.cwd(cwd).quiet()).text().trim();
+        label = `Commit ${subject}`;
+        break;
+      }
+
+      case "range": {
+        const range = options.range ? parseRefRange(options.range) : null;
+        if (!range) throw new Error("No range given");
+        patch = (await $`git diff ${flags} ${formatRefRange(range)}`.cwd(cwd).quiet()).text();
+        label = formatRefRange(range);
+        break;
+      }
+
       default:
         patch = "";
         label = "Unknown diff type";
@@ -145,3 +454,242 @@ export async function runGitDiff(
 
   return { patch, label };
 }
+
+/** Where one side of a diff is read from */
+export type FileRevision =
+  | { type: "commit"; ref: string }
+  | { type: "index" }
+  | { type: "worktree" };
+
+// Files larger than this aren't returned for context expansion
+const MAX_FILE_CONTENT_BYTES = 2 * 1024 * 1024;
+
+/**
+ * The old and new revisions a diff type compares, matching runGitDiff
+ */
+export async function getDiffRevisions(
+  diffType: DiffType,
+  defaultBranch: string = "main",
+  options: GitDiffOptions = {}
+): Promise<{ old: FileRevision; new: FileRevision } | null> {
+  const cwd = options.cwd ?? process.cwd();
+
+  switch (diffType) {
+    case "uncommitted":
+      return { old: { type: "commit", ref: "HEAD" }, new: { type: "worktree" } };
+    case "staged":
+      return { old: { type: "commit", ref: "HEAD" }, new: { type: "index" } };
+    case "unstaged":
+      return { old: { type: "index" }, new: { type: "worktree" } };
+    case "last-commit":
+      return { old: { type: "commit", ref: "HEAD~1" }, new: { type: "commit", ref: "HEAD" } };
+    case "branch":
+      return { old: { type: "commit", ref: defaultBranch }, new: { type: "commit", ref: "HEAD" } };
+    case "commit":
+      if (!options.commit) return null;
+      // First parent, as in the --first-parent diff; a root commit has none
+      return { old: { type: "commit", ref: `${options.commit}^` }, new: { type: "commit", ref: options.commit } };
+    case "range": {
+      const range = options.range ? parseRefRange(options.range) : null;
+      if (!range) return null;
+      let base = range.base;
+      if (range.symmetric) {
+        try {
+          base = (await $`git merge-base ${range.base} ${range.head}`.cwd(cwd).quiet()).text().trim();
+        } catch {
+          return null;
+        }
+      }
+      return { old: { type: "commit", ref: base }, new: { type: "commit", ref: range.head } };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Read a file's bytes (path relative to the repo root) at a revision.
+ * Returns null when the file doesn't exist there or is larger than maxBytes.
+ */
+export async function getFileBytesAtRevision(
+  revision: FileRevision,
+  path: string,
+  cwd?: string,
+  maxBytes: number = MAX_FILE_CONTENT_BYTES
+): Promise<Uint8Array | null> {
+  const dir = cwd ?? process.cwd();
+
+  try {
+    if (revision.type === "worktree") {
+      const root = await getRepoRoot(dir);
+      if (!root) return null;
+      // Resolve symlinks anywhere in the path, so neither the file nor a
+      // directory above it can lead outside the repository
+      const realRoot = await realpath(root);
+      const fullPath = await realpath(resolve(realRoot, path));
+      if (!fullPath.startsWith(realRoot.endsWith(sep) ? realRoot : realRoot + sep)) return null;
+      const stats = await stat(fullPath);
+      if (!stats.isFile() || stats.size > maxBytes) return null;
+      return await readFile(fullPath);
+    }
+
+    // "<rev>:<path>" and ":<path>" (the index) take paths from the repo root
+    const spec = revision.type === "index" ? `:${path}` : `${revision.ref}:${path}`;
+    const size = Number((await $`git cat-file -s ${spec}`.cwd(dir).quiet()).text().trim());
+    if (size > maxBytes) return null;
+    return (await $`git cat-file blob ${spec}`.cwd(dir).quiet()).bytes();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read a file (path relative to the repo root) at a revision. Returns null
+ * when the file doesn't exist there, or is binary or too large to show.
+ */
+export async function getFileAtRevision(
+  revision: FileRevision,
+  path: string,
+  cwd?: string
+): Promise<string | null> {
+  const bytes = await getFileBytesAtRevision(revision, path, cwd);
+  if (!bytes || bytes.subarray(0, 8000).includes(0)) return null;
+  return new TextDecoder().decode(bytes);
+}
+
+const QUOTED_PATH_ESCAPES: Record<string, number> = {
+  a: 7, b: 8, t: 9, n: 10, v: 11, f: 12, r: 13, '"': 34, "\\": 92,
+};
+
+/**
+ * Undo git's C-style quoting of unusual paths ("caf\303\251" -> café).
+ * Unquoted paths are returned as they are.
+ */
+export function unquoteGitPath(path: string): string {
+  if (path.length < 2 || !path.startsWith('"') || !path.endsWith('"')) return path;
+
+  const bytes: number[] = [];
+  const body = path.slice(1, -1);
+  for (let i = 0; i < body.length; i++) {
+    if (body[i] !== "\\") {
+      bytes.push(...new TextEncoder().encode(body[i]));
+      continue;
+    }
+    const octal = body.slice(i + 1, i + 4);
+    if (/^[0-7]{3}$/.test(octal)) {
+      bytes.push(parseInt(octal, 8));
+      i += 3;
+    } else if (body[i + 1] in QUOTED_PATH_ESCAPES) {
+      bytes.push(QUOTED_PATH_ESCAPES[body[i + 1]]);
+      i += 1;
+    } else {
+      bytes.push(92);
+    }
+  }
+  return new TextDecoder().decode(new Uint8Array(bytes));
+}
+
+/**
+ * A path from a "--- a/..." or "+++ b/..." line, without the prefix. Git
+ * quotes unusual paths and adds a trailing tab to paths with spaces.
+ */
+export function parsePatchMarkerPath(value: string, prefix: "a/" | "b/"): string | null {
+  const path = unquoteGitPath(value.replace(/\t$/, ""));
+  return path.startsWith(prefix) ? path.slice(prefix.length) : null;
+}
+
+/**
+ * File paths that appear in a patch, on either side
+ */
+export function getPatchFilePaths(patch: string): Set<string> {
+  const paths = new Set<string>();
+  for (const match of patch.matchAll(/^(---|\+\+\+) ("?[ab]\/.+)$/gm)) {
+    const path = parsePatchMarkerPath(match[2], match[1] === "---" ? "a/" : "b/");
+    if (path) paths.add(path);
+  }
+  for (const match of patch.matchAll(/^(?:rename|copy) (?:from|to) (.+)$/gm)) {
+    paths.add(unquoteGitPath(match[1]));
+  }
+  // Binary and mode-only changes have no ---/+++ lines
+  for (const match of patch.matchAll(/^diff --git a\/(.+) b\/\1$/gm)) {
+    paths.add(match[1]);
+  }
+  for (const match of patch.matchAll(/^diff --git "a\/((?:[^"\\]|\\.)*)" "b\/((?:[^"\\]|\\.)*)"$/gm)) {
+    paths.add(unquoteGitPath(`"${match[1]}"`));
+    paths.add(unquoteGitPath(`"${match[2]}"`));
+  }
+  return paths;
+}
+
+/**
+ * Files whose part of a diff is larger than this are left out of diff
+ * responses and fetched one at a time when the reviewer opens them
+ */
+export const MAX_INLINE_FILE_PATCH_BYTES = 256 * 1024;
+
+export interface DeferredFilePatch {
+  path: string;
+  additions: number;
+  deletions: number;
+}
+
+/**
+ * The path a file's part of a patch is shown under: the new side, or the old
+ * one for deletions. Read from the ---/+++ and rename lines rather than the
+ * "diff --git" line, which can't be split reliably when a path contains " b/".
+ */
+export function getFilePatchPath(filePatch: string): string | null {
+  const hunkStart = filePatch.search(/^@@ /m);
+  const header = hunkStart === -1 ? filePatch : filePatch.slice(0, hunkStart);
+
+  const newPath = header.match(/^\+\+\+ (.+)$/m);
+  const oldPath = header.match(/^--- (.+)$/m);
+  const markerPath = (newPath && parsePatchMarkerPath(newPath[1], "b/"))
+    ?? (oldPath && parsePatchMarkerPath(oldPath[1], "a/"));
+  if (markerPath) return markerPath;
+
+  // Renames, copies, binary and mode-only changes have no ---/+++ lines
+  const renamed = header.match(/^(?:rename|copy) to (.+)$/m);
+  if (renamed) return unquoteGitPath(renamed[1]);
+  const quoted = header.match(/^diff --git "a\/(?:[^"\\]|\\.)*" "b\/((?:[^"\\]|\\.)*)"$/m);
+  if (quoted) return unquoteGitPath(`"${quoted[1]}"`);
+  // Without a rename both sides name the same file
+  return header.match(/^diff --git a\/(.+) b\/\1$/m)?.[1] ?? null;
+}
+
+/**
+ * Trim large files out of a patch, keeping only their headers so they still
+ * appear in the file list. Returns the trimmed patch and the files cut down.
+ */
+export function deferLargeFilePatches(
+  patch: string,
+  maxBytes: number = MAX_INLINE_FILE_PATCH_BYTES
+): { patch: string; deferred: DeferredFilePatch[] } {
+  const deferred: DeferredFilePatch[] = [];
+  const chunks = patch.split(/^(?=diff --git )/m).map((chunk) => {
+    const hunkStart = chunk.search(/^@@ /m);
+    const path = hunkStart !== -1 && chunk.length > maxBytes && getFilePatchPath(chunk.slice(0, hunkStart));
+    if (!path) return chunk;
+
+    let additions = 0;
+    let deletions = 0;
+    for (const line of chunk.slice(hunkStart).split("\n")) {
+      if (line.startsWith("+")) additions++;
+      else if (line.startsWith("-")) deletions++;
+    }
+    deferred.push({ path, additions, deletions });
+    return chunk.slice(0, hunkStart);
+  });
+
+  return { patch: chunks.join(""), deferred };
+}
+
+/**
+ * One file's part of a patch, looked up by the path it is shown under
+ */
+export function getFilePatch(patch: string, path: string): string | null {
+  for (const chunk of patch.split(/^(?=diff --git )/m)) {
+    if (chunk.startsWith("diff --git ") && getFilePatchPath(chunk) === path) return chunk;
+  }
+  return null;
+}
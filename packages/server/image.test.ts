@@ -0,0 +1,126 @@
+/**
+ * Image Serving Policy Tests
+ *
+ * Run: bun test packages/server/image.test.ts
+ */
+
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, realpathSync, rmSync, symlinkSync, truncateSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { MAX_IMAGE_BYTES, checkImagePath, extractReferencedImagePaths, serveImage, sniffImageType, type ImagePolicy } from "./image";
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0]);
+
+// <tmp>/root is allowed, <tmp>/outside is not
+const dir = realpathSync(mkdtempSync(join(tmpdir(), "plannotator-image-")));
+const root = join(dir, "root");
+const outside = join(dir, "outside");
+mkdirSync(join(root, "docs"), { recursive: true });
+mkdirSync(outside);
+writeFileSync(join(root, "docs", "shot.png"), PNG);
+writeFileSync(join(root, "notes.png"), "just some text, not an image");
+writeFileSync(join(root, "drawing.svg"), '<svg xmlns="http://www.w3.org/2000/svg"><script>alert(1)</script></svg>');
+writeFileSync(join(outside, "secret.png"), PNG);
+writeFileSync(join(outside, "referenced.png"), PNG);
+symlinkSync(join(outside, "secret.png"), join(root, "escape.png"));
+symlinkSync(outside, join(root, "linked"));
+// Sparse, so it takes no real space
+writeFileSync(join(root, "huge.png"), PNG);
+truncateSync(join(root, "huge.png"), MAX_IMAGE_BYTES + 1);
+
+const policy: ImagePolicy = {
+  allowedRoots: [root],
+  allowedFiles: new Set([join(outside, "referenced.png")]),
+  baseDir: root,
+};
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("checkImagePath", () => {
+  test("serves images inside an allowed root", async () => {
+    expect(await checkImagePath(policy, "docs/shot.png")).toEqual({
+      ok: true,
+      path: join(root, "docs", "shot.png"),
+      contentType: "image/png",
+    });
+    expect(await checkImagePath(policy, join(root, "docs", "shot.png"))).toMatchObject({ ok: true });
+  });
+
+  test("serves files referenced by the plan outside the roots", async () => {
+    expect(await checkImagePath(policy, join(outside, "referenced.png"))).toMatchObject({ ok: true });
+  });
+
+  test("rejects ../ traversal out of the root", async () => {
+    expect(await checkImagePath(policy, "../outside/secret.png")).toMatchObject({ ok: false, status: 403 });
+    expect(await checkImagePath(policy, "docs/../../outside/secret.png")).toMatchObject({ ok: false, status: 403 });
+  });
+
+  test("doesn't reveal whether missing files outside the roots exist", async () => {
+    expect(await checkImagePath(policy, "../outside/missing.png")).toMatchObject({ ok: false, status: 403 });
+    expect(await checkImagePath(policy, "docs/missing.png")).toMatchObject({ ok: false, status: 404 });
+  });
+
+  test("rejects symlinks that escape the root", async () => {
+    const file = await checkImagePath(policy, "escape.png");
+    expect(file).toMatchObject({ ok: false, status: 403 });
+    expect(file.ok === false && file.reason).toContain("symlink");
+    expect(await checkImagePath(policy, "linked/secret.png")).toMatchObject({ ok: false, status: 403 });
+  });
+
+  test("rejects non-image content behind an image extension", async () => {
+    expect(await checkImagePath(policy, "notes.png")).toMatchObject({ ok: false, status: 415 });
+  });
+
+  test("rejects non-image extensions and missing paths", async () => {
+    writeFileSync(join(root, "plan.md"), "# Plan");
+    expect(await checkImagePath(policy, "plan.md")).toMatchObject({ ok: false, status: 415 });
+    expect(await checkImagePath(policy, null)).toMatchObject({ ok: false, status: 400 });
+  });
+
+  test("rejects files over the size limit", async () => {
+    expect(await checkImagePath(policy, "huge.png")).toMatchObject({ ok: false, status: 413 });
+  });
+});
+
+describe("serveImage", () => {
+  test("serves SVGs with a CSP that blocks scripts", async () => {
+    const res = await serveImage(policy, "drawing.svg");
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toBe("image/svg+xml");
+    expect(res.headers.get("Content-Security-Policy")).toBe("default-src 'none'; style-src 'unsafe-inline'");
+    expect(res.headers.get("X-Content-Type-Options")).toBe("nosniff");
+  });
+
+  test("explains rejections in plain text", async () => {
+    const res = await serveImage(policy, "escape.png");
+    expect(res.status).toBe(403);
+    expect(await res.text()).toContain("outside the allowed locations");
+  });
+});
+
+describe("sniffImageType", () => {
+  test("recognizes formats by their leading bytes", () => {
+    const bytes = (text: string) => new TextEncoder().encode(text);
+    expect(sniffImageType(PNG)).toBe("image/png");
+    expect(sniffImageType(new Uint8Array([0xff, 0xd8, 0xff, 0xe0]))).toBe("image/jpeg");
+    expect(sniffImageType(bytes("GIF89a...."))).toBe("image/gif");
+    expect(sniffImageType(bytes("RIFF\0\0\0\0WEBPVP8 "))).toBe("image/webp");
+    expect(sniffImageType(bytes('  <?xml version="1.0"?><svg></svg>'))).toBe("image/svg+xml");
+    expect(sniffImageType(bytes("<html><body></body></html>"))).toBeNull();
+    expect(sniffImageType(new Uint8Array())).toBeNull();
+  });
+});
+
+describe("extractReferencedImagePaths", () => {
+  test("finds markdown images and bare paths, skipping URLs", () => {
+    const plan = [
+      "![diagram](./docs/arch.png)",
+      "See `~/shots/before.jpg` and /tmp/after.webp for comparison",
+      "![remote](https://example.com/logo.png)",
+    ].join("\n");
+    expect(extractReferencedImagePaths(plan).sort()).toEqual(["./docs/arch.png", "/tmp/after.webp", "~/shots/before.jpg"]);
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Image serving policy
+ *
+ * /api/image only serves images from a small set of allowed locations:
+ * - the upload temp dir (pasted and uploaded attachments)
+ * - the git repository root of the session
+ * - files explicitly referenced in the plan markdown
+ *
+ * Symlinks are resolved before the location check, the file must be below a
+ * size limit, and its content must sniff as an image.
+ */
+
+import { $ } from "bun";
+import { homedir } from "os";
+import { extname, isAbsolute, join, resolve, sep } from "path";
+import { mkdirSync, realpathSync, statSync } from "fs";
+
+/** Directory uploads are written to */
+export const UPLOAD_ROOT = "/tmp/plannotator";
+
+/** Largest image /api/image will serve */
+export const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+
+const IMAGE_EXTENSIONS = new Set([
+  ".png", ".jpg", ".jpeg", ".gif", ".webp", ".svg", ".bmp", ".avif", ".ico",
+]);
+
+export interface ImagePolicy {
+  /** Directories whose contents may be served (real paths) */
+  allowedRoots: string[];
+  /** Individual files that may be served (real paths) */
+  allowedFiles: Set<string>;
+  /** Base directory for resolving relative paths */
+  baseDir: string;
+}
+
+export type ImageCheckResult =
+  | { ok: true; path: string; contentType: string }
+  | { ok: false; status: number; reason: string };
+
+function expandHome(path: string): string {
+  return path === "~" || path.startsWith("~/") ? join(homedir(), path.slice(1)) : path;
+}
+
+function realpathOrNull(path: string): string | null {
+  try {
+    return realpathSync(path);
+  } catch {
+    return null;
+  }
+}
+
+async function getRepoRoot(cwd: string): Promise<string | null> {
+  try {
+    const result = await $`git rev-parse --show-toplevel`.cwd(cwd).quiet().nothrow();
+    return result.exitCode === 0 ? result.stdout.toString().trim() : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Extract local image paths referenced in markdown: image syntax
+ * (![alt](path)) and bare or backticked paths ending in an image extension.
+ */
+export function extractReferencedImagePaths(markdown: string): string[] {
+  const paths = new Set<string>();
+
+  for (const match of markdown.matchAll(/!\[[^\]]*\]\(\s*<?([^)\s>]+)>?/g)) {
+    paths.add(match[1]);
+  }
+
+  const barePath = /(?:^|[\s`'"(])((?:~|\.{1,2})?\/[^\s`'"()]+\.(?:png|jpe?g|gif|webp|svg|bmp|avif|ico))(?=$|[\s`'")])/gim;
+  for (const match of markdown.matchAll(barePath)) {
+    paths.add(match[1]);
+  }
+
+  return Array.from(paths).filter((path) => !/^[a-z]+:\/\//i.test(path));
+}
+
+/**
+ * Build the image policy for a session
+ */
+export async function createImagePolicy(options: {
+  cwd?: string;
+  plan?: string;
+} = {}): Promise<ImagePolicy> {
+  const cwd = options.cwd ?? process.cwd();
+  const repoRoot = await getRepoRoot(cwd);
+
+  // Must exist to resolve its real path (e.g. /tmp -> /private/tmp on macOS)
+  mkdirSync(UPLOAD_ROOT, { recursive: true });
+  const baseDir = repoRoot ?? cwd;
+
+  const allowedRoots = [UPLOAD_ROOT, repoRoot]
+    .filter((root): root is string => !!root)
+    .map(realpathOrNull)
+    .filter((root): root is string => !!root);
+
+  const allowedFiles = new Set<string>();
+  if (options.plan) {
+    for (const path of extractReferencedImagePaths(options.plan)) {
+      const real = realpathOrNull(resolve(baseDir, expandHome(path)));
+      if (real) allowedFiles.add(real);
+    }
+  }
+
+  return { allowedRoots, allowedFiles, baseDir };
+}
+
+/**
+ * Identify an image format from its leading bytes
+ */
+export function sniffImageType(bytes: Uint8Array): string | null {
+  const startsWith = (...sig: number[]) => sig.every((b, i) => bytes[i] === b);
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.slice(start, end));
+
+  if (startsWith(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a)) return "image/png";
+  if (startsWith(0xff, 0xd8, 0xff)) return "image/jpeg";
+  if (ascii(0, 6) === "GIF87a" || ascii(0, 6) === "GIF89a") return "image/gif";
+  if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") return "image/webp";
+  if (ascii(0, 2) === "BM") return "image/bmp";
+  if (startsWith(0x00, 0x00, 0x01, 0x00)) return "image/x-icon";
+  if (ascii(4, 8) === "ftyp" && ["avif", "avis"].includes(ascii(8, 12))) return "image/avif";
+
+  const head = new TextDecoder().decode(bytes).trimStart().toLowerCase();
+  if (head.startsWith("<svg") || (head.startsWith("<?xml") && head.includes("<svg"))) {
+    return "image/svg+xml";
+  }
+
+  return null;
+}
+
+function isWithin(path: string, root: string): boolean {
+  return path === root || path.startsWith(root.endsWith(sep) ? root : root + sep);
+}
+
+/**
+ * Check whether a requested path may be served under the policy
+ */
+export async function checkImagePath(
+  policy: ImagePolicy,
+  requestedPath: string | null
+): Promise<ImageCheckResult> {
+  if (!requestedPath) {
+    return { ok: false, status: 400, reason: "Missing path parameter" };
+  }
+
+  const expanded = expandHome(requestedPath);
+  const absolute = isAbsolute(expanded) ? expanded : resolve(policy.baseDir, expanded);
+
+  const extension = extname(absolute).toLowerCase();
+  if (!IMAGE_EXTENSIONS.has(extension)) {
+    return {
+      ok: false,
+      status: 415,
+      reason: `Not an image file extension (${extension || "none"}); allowed: ${Array.from(IMAGE_EXTENSIONS).join(", ")}`,
+    };
+  }
+
+  const isAllowed = (path: string) =>
+    policy.allowedFiles.has(path) || policy.allowedRoots.some((root) => isWithin(path, root));
+
+  const realPath = realpathOrNull(absolute);
+  if (!realPath) {
+    // Don't reveal whether files outside the allowed locations exist
+    return isAllowed(resolve(absolute))
+      ? { ok: false, status: 404, reason: `File not found: ${requestedPath}` }
+      : { ok: false, status: 403, reason: "Path is outside the allowed locations (upload dir, repository, plan references)" };
+  }
+
+  if (!isAllowed(realPath)) {
+    const viaSymlink = realPath !== resolve(absolute);
+    return {
+      ok: false,
+      status: 403,
+      reason: viaSymlink
+        ? `Path is a symlink to ${realPath}, which is outside the allowed locations (upload dir, repository, plan references)`
+        : "Path is outside the allowed locations (upload dir, repository, plan references)",
+    };
+  }
+
+  const stats = statSync(realPath);
+  if (!stats.isFile()) {
+    return { ok: false, status: 400, reason: "Path is not a regular file" };
+  }
+  if (stats.size > MAX_IMAGE_BYTES) {
+    return {
+      ok: false,
+      status: 413,
+      reason: `Image is too large (${stats.size} bytes, limit ${MAX_IMAGE_BYTES})`,
+    };
+  }
+
+  const head = new Uint8Array(await Bun.file(realPath).slice(0, 512).arrayBuffer());
+  const contentType = sniffImageType(head);
+  if (!contentType) {
+    return { ok: false, status: 415, reason: "File content is not a recognized image format" };
+  }
+
+  return { ok: true, path: realPath, contentType };
+}
+
+/**
+ * Serve an image request under the policy. Rejections are plain-text
+ * responses explaining why the file was refused.
+ */
+export async function serveImage(policy: ImagePolicy, requestedPath: string | null): Promise<Response> {
+  try {
+    const result = await checkImagePath(policy, requestedPath);
+    if (result.ok === false) {
+      return new Response(result.reason, { status: result.status });
+    }
+    return new Response(Bun.file(result.path), {
+      headers: {
+        "Content-Type": result.contentType,
+        "X-Content-Type-Options": "nosniff",
+        // SVGs can carry scripts; never let them run when opened directly
+        "Content-Security-Policy": "default-src 'none'; style-src 'unsafe-inline'",
+      },
+    });
+  } catch {
+    return new Response("Failed to read file", { status: 500 });
+  }
+}
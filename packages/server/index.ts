@@ -7,11 +7,20 @@
  *   PLANNOTATOR_REMOTE - Set to "1" or "true" for remote/devcontainer mode
  *   PLANNOTATOR_PORT   - Fixed port to use (default: random locally, 19432 for remote)
  *   PLANNOTATOR_ORIGIN - Origin identifier ("claude-code" or "opencode")
+ *   PLANNOTATOR_AUTH   - Set to "disabled" to turn off the per-session token
+ *   PLANNOTATOR_MAX_UPLOAD_MB, PLANNOTATOR_UPLOAD_TTL_HOURS - see ./upload
+ *   PLANNOTATOR_PLANTUML - see ./plantuml
  */
 
-import { mkdirSync } from "fs";
 import { isRemoteSession, getServerPort } from "./remote";
 import { openBrowser } from "./browser";
+import { checkAuth, resolveAuthToken, withAuthToken } from "./auth";
+import { createImagePolicy, serveImage } from "./image";
+import { createUploadStore, handleUploadRequest, sweepStaleUploads } from "./upload";
+import { handlePlantUmlRequest } from "./plantuml";
+import { handleMermaidRequest } from "./mermaid";
+import { deleteDraft, getDraftKey, handleDraftRequest } from "./drafts";
+import { appendPlanEdits, createUnifiedDiff } from "./textDiff";
 import {
   detectObsidianVaults,
   saveToObsidian,
@@ -23,7 +32,11 @@ import {
   generateSlug,
   savePlan,
   saveAnnotations,
+  saveFeedbackJson,
   saveFinalSnapshot,
+  getPlanRevisionKey,
+  getPreviousSnapshot,
+  saveRevision,
 } from "./storage";
 
 // Re-export utilities
@@ -34,7 +47,7 @@ export * from "./storage";
 
 // --- Types ---
 
-export interface ServerOptions {
+export interface PlanSessionOptions {
   /** The plan markdown content */
   plan: string;
   /** Origin identifier (e.g., "claude-code", "opencode") */
@@ -45,29 +58,334 @@ export interface ServerOptions {
   permissionMode?: string;
   /** Whether URL sharing is enabled (default: true) */
   sharingEnabled?: boolean;
+  /** Token required on every request (default: generated, null disables auth) */
+  authToken?: string | null;
+  /** Directory the plan refers to, for resolving image paths (default: process.cwd()) */
+  cwd?: string;
+  /** Agent conversation the plan comes from; revisions are compared within it */
+  agentSessionId?: string;
+}
+
+export interface ServerOptions extends PlanSessionOptions {
   /** Called when server starts with the URL, remote status, and port */
   onReady?: (url: string, isRemote: boolean, port: number) => void;
 }
 
+export interface PlanDecision {
+  approved: boolean;
+  feedback?: string;
+  feedbackJson?: Record<string, unknown>;
+  savedPath?: string;
+  agentSwitch?: string;
+  permissionMode?: string;
+}
+
+export interface PlanSession {
+  /** Token the browser must present (null when auth is disabled) */
+  authToken: string | null;
+  /** Handle a UI/API request. The URL path is relative to the session root. */
+  handleRequest: (req: Request, url: URL) => Promise<Response>;
+  /** Wait for user decision (approve/deny) */
+  waitForDecision: () => Promise<PlanDecision>;
+  /** Release session resources (unreferenced uploads) */
+  dispose: () => void;
+}
+
 export interface ServerResult {
   /** The port the server is running on */
   port: number;
-  /** The full URL to access the server */
+  /** The full URL to access the server (including the auth token) */
   url: string;
   /** Whether running in remote mode */
   isRemote: boolean;
   /** Wait for user decision (approve/deny) */
-  waitForDecision: () => Promise<{
-    approved: boolean;
-    feedback?: string;
-    savedPath?: string;
-    agentSwitch?: string;
-    permissionMode?: string;
-  }>;
+  waitForDecision: () => Promise<PlanDecision>;
   /** Stop the server */
   stop: () => void;
 }
 
+// --- Session Implementation ---
+
+/**
+ * Diff the reviewer's direct edits against the original plan, or null if
+ * no lines changed
+ */
+function diffPlanEdits(plan: string, editedPlan: string | undefined): string | null {
+  if (editedPlan === undefined || editedPlan === plan) return null;
+  return createUnifiedDiff(plan, editedPlan) || null;
+}
+
+/**
+ * Create a plan review session
+ *
+ * Holds the plan state and the decision promise, and handles all API routes
+ * (/api/plan, /api/approve, /api/deny, etc.). Used by the standalone server
+ * and by the daemon, which hosts many sessions under one port.
+ */
+export function createPlanSession(options: PlanSessionOptions): PlanSession {
+  const { plan, origin, htmlContent, permissionMode, sharingEnabled = true } = options;
+
+  // Generate slug for potential saving (actual save happens on decision)
+  const slug = generateSlug(plan);
+  // Unsent annotations are autosaved under the slug until a decision
+  const draftKey = getDraftKey("plan", slug);
+  // The last decided revision of this plan is looked up and recorded under this
+  const revisionKey = getPlanRevisionKey(plan, { agentSessionId: options.agentSessionId, cwd: options.cwd });
+
+  // Decision promise
+  let resolveDecision: (result: PlanDecision) => void;
+  const decisionPromise = new Promise<PlanDecision>((resolve) => {
+    resolveDecision = resolve;
+  });
+
+  const authToken = resolveAuthToken(options.authToken);
+
+  // Resolved once per session; awaited by /api/image
+  const imagePolicy = createImagePolicy({ plan, cwd: options.cwd });
+
+  // Uploads live in a per-session dir; stale dirs from earlier sessions are swept
+  sweepStaleUploads();
+  const uploads = createUploadStore();
+
+  async function handleRequest(req: Request, url: URL): Promise<Response> {
+    // Every route, including the UI itself, requires the session token
+    const unauthorized = checkAuth(req, url, authToken);
+    if (unauthorized) return unauthorized;
+
+    // API: Get plan content
+    if (url.pathname === "/api/plan") {
+      return Response.json({ plan, origin, permissionMode, sharingEnabled });
+    }
+
+    // API: Get the previous revision of this plan (last approve/deny snapshot)
+    if (url.pathname === "/api/plan/previous") {
+      try {
+        const previous = getPreviousSnapshot(revisionKey);
+        return Response.json({ previous });
+      } catch (err) {
+        const message =
+          err instanceof Error ? err.message : "Failed to read previous revision";
+        return Response.json({ error: message }, { status: 500 });
+      }
+    }
+
+    // API: Serve images (upload dir, repository and plan references only)
+    if (url.pathname === "/api/image") {
+      return serveImage(await imagePolicy, url.searchParams.get("path"));
+    }
+
+    // API: Upload image -> validate -> save to session upload dir -> return path
+    if (url.pathname === "/api/upload" && req.method === "POST") {
+      return handleUploadRequest(req, uploads);
+    }
+
+    // API: Load, autosave or discard the in-progress annotations
+    if (url.pathname === "/api/draft") {
+      return handleDraftRequest(req, draftKey, uploads);
+    }
+
+    // API: Render a PlantUML diagram with the local renderer
+    if (url.pathname === "/api/plantuml" && req.method === "POST") {
+      return handlePlantUmlRequest(req);
+    }
+
+    // Mermaid's standalone build, loaded by the UI on the first mermaid fence
+    if (url.pathname === "/api/mermaid.js") {
+      return handleMermaidRequest();
+    }
+
+    // API: Detect Obsidian vaults
+    if (url.pathname === "/api/obsidian/vaults") {
+      const vaults = detectObsidianVaults();
+      return Response.json({ vaults });
+    }
+
+    // API: Approve plan
+    if (url.pathname === "/api/approve" && req.method === "POST") {
+      // Check for note integrations and optional feedback
+      let feedback: string | undefined;
+      let feedbackJson: Record<string, unknown> | undefined;
+      let agentSwitch: string | undefined;
+      let requestedPermissionMode: string | undefined;
+      let planSaveEnabled = true; // default to enabled for backwards compat
+      let planSaveCustomPath: string | undefined;
+      let editedPlan: string | undefined;
+      try {
+        const body = (await req.json().catch(() => ({}))) as {
+          obsidian?: ObsidianConfig;
+          bear?: BearConfig;
+          feedback?: string;
+          feedbackJson?: Record<string, unknown>;
+          editedPlan?: string;
+          agentSwitch?: string;
+          planSave?: { enabled: boolean; customPath?: string };
+          permissionMode?: string;
+        };
+
+        // Capture feedback if provided (for "approve with notes")
+        if (body.feedback) {
+          feedback = body.feedback;
+        }
+
+        // Capture structured feedback, stamping the actual decision
+        if (body.feedbackJson) {
+          feedbackJson = { ...body.feedbackJson, decision: "approved" };
+        }
+
+        // Capture the reviewer's direct edits (edit mode)
+        if (typeof body.editedPlan === "string") {
+          editedPlan = body.editedPlan;
+        }
+
+        // Capture agent switch setting for OpenCode
+        if (body.agentSwitch) {
+          agentSwitch = body.agentSwitch;
+        }
+
+        // Capture permission mode from client request (Claude Code)
+        if (body.permissionMode) {
+          requestedPermissionMode = body.permissionMode;
+        }
+
+        // Capture plan save settings
+        if (body.planSave !== undefined) {
+          planSaveEnabled = body.planSave.enabled;
+          planSaveCustomPath = body.planSave.customPath;
+        }
+
+        // Obsidian integration
+        if (body.obsidian?.vaultPath && body.obsidian?.plan) {
+          const result = await saveToObsidian(body.obsidian);
+          if (result.success) {
+            console.error(`[Obsidian] Saved plan to: ${result.path}`);
+          } else {
+            console.error(`[Obsidian] Save failed: ${result.error}`);
+          }
+        }
+
+        // Bear integration
+        if (body.bear?.plan) {
+          const result = await saveToBear(body.bear);
+          if (result.success) {
+            console.error(`[Bear] Saved plan to Bear`);
+          } else {
+            console.error(`[Bear] Save failed: ${result.error}`);
+          }
+        }
+      } catch (err) {
+        // Don't block approval on integration errors
+        console.error(`[Integration] Error:`, err);
+      }
+
+      // Direct edits travel with the feedback, and the edited plan is what was approved
+      const editDiff = diffPlanEdits(plan, editedPlan);
+      if (editDiff) {
+        feedback = appendPlanEdits(feedback, editDiff);
+        if (feedbackJson) feedbackJson = { ...feedbackJson, edits: { diff: editDiff } };
+      }
+
+      // Uploads in the feedback must outlive the session so the agent can read them
+      uploads.markReferenced(feedback || "");
+
+      // Save annotations and final snapshot (if enabled)
+      let savedPath: string | undefined;
+      if (planSaveEnabled) {
+        const diff = feedback || "";
+        uploads.retain(diff);
+        if (diff) {
+          saveAnnotations(slug, diff, planSaveCustomPath);
+        }
+        if (feedbackJson) {
+          saveFeedbackJson(slug, feedbackJson, planSaveCustomPath);
+        }
+        savedPath = saveFinalSnapshot(slug, "approved", editDiff ? editedPlan! : plan, diff, planSaveCustomPath);
+        saveRevision(revisionKey, { plan: editDiff ? editedPlan! : plan, feedback: diff || null, status: "approved" });
+      }
+
+      // Use permission mode from client request if provided, otherwise fall back to hook input
+      const effectivePermissionMode = requestedPermissionMode || permissionMode;
+      deleteDraft(draftKey);
+      resolveDecision({ approved: true, feedback, feedbackJson, savedPath, agentSwitch, permissionMode: effectivePermissionMode });
+      return Response.json({ ok: true, savedPath, feedbackJson });
+    }
+
+    // API: Deny with feedback
+    if (url.pathname === "/api/deny" && req.method === "POST") {
+      let feedback = "Plan rejected by user";
+      let feedbackJson: Record<string, unknown> | undefined;
+      let planSaveEnabled = true; // default to enabled for backwards compat
+      let planSaveCustomPath: string | undefined;
+      let editedPlan: string | undefined;
+      try {
+        const body = (await req.json()) as {
+          feedback?: string;
+          feedbackJson?: Record<string, unknown>;
+          editedPlan?: string;
+          planSave?: { enabled: boolean; customPath?: string };
+        };
+        feedback = body.feedback || feedback;
+
+        // Capture the reviewer's direct edits (edit mode)
+        if (typeof body.editedPlan === "string") {
+          editedPlan = body.editedPlan;
+        }
+
+        // Capture structured feedback, stamping the actual decision
+        if (body.feedbackJson) {
+          feedbackJson = { ...body.feedbackJson, decision: "denied" };
+        }
+
+        // Capture plan save settings
+        if (body.planSave !== undefined) {
+          planSaveEnabled = body.planSave.enabled;
+          planSaveCustomPath = body.planSave.customPath;
+        }
+      } catch {
+        // Use default feedback
+      }
+
+      // Direct edits travel with the feedback; they're requested changes, so the
+      // denied snapshot keeps the plan as submitted
+      const editDiff = diffPlanEdits(plan, editedPlan);
+      if (editDiff) {
+        feedback = appendPlanEdits(feedback, editDiff);
+        if (feedbackJson) feedbackJson = { ...feedbackJson, edits: { diff: editDiff } };
+      }
+
+      // Uploads in the feedback must outlive the session so the agent can read them
+      uploads.markReferenced(feedback);
+
+      // Save annotations and final snapshot (if enabled)
+      let savedPath: string | undefined;
+      if (planSaveEnabled) {
+        uploads.retain(feedback);
+        saveAnnotations(slug, feedback, planSaveCustomPath);
+        if (feedbackJson) {
+          saveFeedbackJson(slug, feedbackJson, planSaveCustomPath);
+        }
+        savedPath = saveFinalSnapshot(slug, "denied", plan, feedback, planSaveCustomPath);
+        saveRevision(revisionKey, { plan, feedback, status: "denied" });
+      }
+
+      deleteDraft(draftKey);
+      resolveDecision({ approved: false, feedback, feedbackJson, savedPath });
+      return Response.json({ ok: true, savedPath, feedbackJson });
+    }
+
+    // Serve embedded HTML for all other routes (SPA)
+    return new Response(htmlContent, {
+      headers: { "Content-Type": "text/html" },
+    });
+  }
+
+  return {
+    authToken,
+    handleRequest,
+    waitForDecision: () => decisionPromise,
+    dispose: () => uploads.cleanup(),
+  };
+}
+
 // --- Server Implementation ---
 
 const MAX_RETRIES = 5;
@@ -78,38 +396,18 @@ const RETRY_DELAY_MS = 500;
  *
  * Handles:
  * - Remote detection and port configuration
- * - All API routes (/api/plan, /api/approve, /api/deny, etc.)
- * - Obsidian/Bear integrations
+ * - Serving a single plan session (see createPlanSession)
  * - Port conflict retries
  */
 export async function startPlannotatorServer(
   options: ServerOptions
 ): Promise<ServerResult> {
-  const { plan, origin, htmlContent, permissionMode, sharingEnabled = true, onReady } = options;
+  const { onReady } = options;
 
   const isRemote = isRemoteSession();
   const configuredPort = getServerPort();
 
-  // Generate slug for potential saving (actual save happens on decision)
-  const slug = generateSlug(plan);
-
-  // Decision promise
-  let resolveDecision: (result: {
-    approved: boolean;
-    feedback?: string;
-    savedPath?: string;
-    agentSwitch?: string;
-    permissionMode?: string;
-  }) => void;
-  const decisionPromise = new Promise<{
-    approved: boolean;
-    feedback?: string;
-    savedPath?: string;
-    agentSwitch?: string;
-    permissionMode?: string;
-  }>((resolve) => {
-    resolveDecision = resolve;
-  });
+  const session = createPlanSession(options);
 
   // Start server with retry logic
   let server: ReturnType<typeof Bun.serve> | null = null;
@@ -120,174 +418,7 @@ export async function startPlannotatorServer(
         port: configuredPort,
 
         async fetch(req) {
-          const url = new URL(req.url);
-
-          // API: Get plan content
-          if (url.pathname === "/api/plan") {
-            return Response.json({ plan, origin, permissionMode, sharingEnabled });
-          }
-
-          // API: Serve images (local paths or temp uploads)
-          if (url.pathname === "/api/image") {
-            const imagePath = url.searchParams.get("path");
-            if (!imagePath) {
-              return new Response("Missing path parameter", { status: 400 });
-            }
-            try {
-              const file = Bun.file(imagePath);
-              if (!(await file.exists())) {
-                return new Response("File not found", { status: 404 });
-              }
-              return new Response(file);
-            } catch {
-              return new Response("Failed to read file", { status: 500 });
-            }
-          }
-
-          // API: Upload image -> save to temp -> return path
-          if (url.pathname === "/api/upload" && req.method === "POST") {
-            try {
-              const formData = await req.formData();
-              const file = formData.get("file") as File;
-              if (!file) {
-                return new Response("No file provided", { status: 400 });
-              }
-
-              const ext = file.name.split(".").pop() || "png";
-              const tempDir = "/tmp/plannotator";
-              mkdirSync(tempDir, { recursive: true });
-              const tempPath = `${tempDir}/${crypto.randomUUID()}.${ext}`;
-
-              await Bun.write(tempPath, file);
-              return Response.json({ path: tempPath });
-            } catch (err) {
-              const message =
-                err instanceof Error ? err.message : "Upload failed";
-              return Response.json({ error: message }, { status: 500 });
-            }
-          }
-
-          // API: Detect Obsidian vaults
-          if (url.pathname === "/api/obsidian/vaults") {
-            const vaults = detectObsidianVaults();
-            return Response.json({ vaults });
-          }
-
-          // API: Approve plan
-          if (url.pathname === "/api/approve" && req.method === "POST") {
-            // Check for note integrations and optional feedback
-            let feedback: string | undefined;
-            let agentSwitch: string | undefined;
-            let requestedPermissionMode: string | undefined;
-            let planSaveEnabled = true; // default to enabled for backwards compat
-            let planSaveCustomPath: string | undefined;
-            try {
-              const body = (await req.json().catch(() => ({}))) as {
-                obsidian?: ObsidianConfig;
-                bear?: BearConfig;
-                feedback?: string;
-                agentSwitch?: string;
-                planSave?: { enabled: boolean; customPath?: string };
-                permissionMode?: string;
-              };
-
-              // Capture feedback if provided (for "approve with notes")
-              if (body.feedback) {
-                feedback = body.feedback;
-              }
-
-              // Capture agent switch setting for OpenCode
-              if (body.agentSwitch) {
-                agentSwitch = body.agentSwitch;
-              }
-
-              // Capture permission mode from client request (Claude Code)
-              if (body.permissionMode) {
-                requestedPermissionMode = body.permissionMode;
-              }
-
-              // Capture plan save settings
-              if (body.planSave !== undefined) {
-                planSaveEnabled = body.planSave.enabled;
-                planSaveCustomPath = body.planSave.customPath;
-              }
-
-              // Obsidian integration
-              if (body.obsidian?.vaultPath && body.obsidian?.plan) {
-                const result = await saveToObsidian(body.obsidian);
-                if (result.success) {
-                  console.error(`[Obsidian] Saved plan to: ${result.path}`);
-                } else {
-                  console.error(`[Obsidian] Save failed: ${result.error}`);
-                }
-              }
-
-              // Bear integration
-              if (body.bear?.plan) {
-                const result = await saveToBear(body.bear);
-                if (result.success) {
-                  console.error(`[Bear] Saved plan to Bear`);
-                } else {
-                  console.error(`[Bear] Save failed: ${result.error}`);
-                }
-              }
-            } catch (err) {
-              // Don't block approval on integration errors
-              console.error(`[Integration] Error:`, err);
-            }
-
-            // Save annotations and final snapshot (if enabled)
-            let savedPath: string | undefined;
-            if (planSaveEnabled) {
-              const diff = feedback || "";
-              if (diff) {
-                saveAnnotations(slug, diff, planSaveCustomPath);
-              }
-              savedPath = saveFinalSnapshot(slug, "approved", plan, diff, planSaveCustomPath);
-            }
-
-            // Use permission mode from client request if provided, otherwise fall back to hook input
-            const effectivePermissionMode = requestedPermissionMode || permissionMode;
-            resolveDecision({ approved: true, feedback, savedPath, agentSwitch, permissionMode: effectivePermissionMode });
-            return Response.json({ ok: true, savedPath });
-          }
-
-          // API: Deny with feedback
-          if (url.pathname === "/api/deny" && req.method === "POST") {
-            let feedback = "Plan rejected by user";
-            let planSaveEnabled = true; // default to enabled for backwards compat
-            let planSaveCustomPath: string | undefined;
-            try {
-              const body = (await req.json()) as {
-                feedback?: string;
-                planSave?: { enabled: boolean; customPath?: string };
-              };
-              feedback = body.feedback || feedback;
-
-              // Capture plan save settings
-              if (body.planSave !== undefined) {
-                planSaveEnabled = body.planSave.enabled;
-                planSaveCustomPath = body.planSave.customPath;
-              }
-            } catch {
-              // Use default feedback
-            }
-
-            // Save annotations and final snapshot (if enabled)
-            let savedPath: string | undefined;
-            if (planSaveEnabled) {
-              saveAnnotations(slug, feedback, planSaveCustomPath);
-              savedPath = saveFinalSnapshot(slug, "denied", plan, feedback, planSaveCustomPath);
-            }
-
-            resolveDecision({ approved: false, feedback, savedPath });
-            return Response.json({ ok: true, savedPath });
-          }
-
-          // Serve embedded HTML for all other routes (SPA)
-          return new Response(htmlContent, {
-            headers: { "Content-Type": "text/html" },
-          });
+          return session.handleRequest(req, new URL(req.url));
         },
       });
 
@@ -314,7 +445,7 @@ export async function startPlannotatorServer(
     throw new Error("Failed to start server");
   }
 
-  const serverUrl = `http://localhost:${server.port}`;
+  const serverUrl = withAuthToken(`http://localhost:${server.port}`, session.authToken);
 
   // Notify caller that server is ready
   if (onReady) {
@@ -325,8 +456,11 @@ export async function startPlannotatorServer(
     port: server.port,
     url: serverUrl,
     isRemote,
-    waitForDecision: () => decisionPromise,
-    stop: () => server.stop(),
+    waitForDecision: session.waitForDecision,
+    stop: () => {
+      server.stop();
+      session.dispose();
+    },
   };
 }
 
@@ -0,0 +1,25 @@
+/**
+ * Mermaid renderer
+ *
+ * Mermaid renders in the browser, but it's several megabytes and the plan
+ * UI is a single inlined HTML file. So rather than bundling it into every
+ * plan page, the server serves mermaid's standalone build and the UI loads
+ * it only when the plan has a ```mermaid fence.
+ */
+
+// Embed the standalone build at compile time
+// @ts-ignore - Bun import attribute for text
+import mermaidBundle from "mermaid/dist/mermaid.min.js" with { type: "text" };
+const mermaidScript = mermaidBundle as unknown as string;
+
+/**
+ * Handle GET /api/mermaid.js
+ */
+export function handleMermaidRequest(): Response {
+  return new Response(mermaidScript, {
+    headers: {
+      "Content-Type": "text/javascript; charset=utf-8",
+      "X-Content-Type-Options": "nosniff",
+    },
+  });
+}
@@ -0,0 +1,51 @@
+/**
+ * PlantUML Rendering Tests
+ *
+ * Run: bun test packages/server/plantuml.test.ts
+ */
+
+import { afterAll, afterEach, describe, expect, test } from "bun:test";
+import { chmodSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { handlePlantUmlRequest } from "./plantuml";
+
+const dir = mkdtempSync(join(tmpdir(), "plannotator-plantuml-"));
+
+// Stands in for plantuml: reports the security profile it was started with
+const renderer = join(dir, "fake-plantuml");
+writeFileSync(renderer, '#!/bin/sh\ncat > /dev/null\necho "<svg>$PLANTUML_SECURITY_PROFILE</svg>"\n');
+chmodSync(renderer, 0o755);
+
+const original = process.env.PLANNOTATOR_PLANTUML;
+
+afterEach(() => {
+  if (original === undefined) delete process.env.PLANNOTATOR_PLANTUML;
+  else process.env.PLANNOTATOR_PLANTUML = original;
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function render(source: string): Promise<Response> {
+  return handlePlantUmlRequest(new Request("http://localhost/api/plantuml", { method: "POST", body: source }));
+}
+
+describe("handlePlantUmlRequest", () => {
+  test("runs the renderer in PlantUML's sandbox profile", async () => {
+    process.env.PLANNOTATOR_PLANTUML = renderer;
+    const res = await render("@startuml\n!include /etc/passwd\n@enduml");
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe("<svg>SANDBOX</svg>\n");
+  });
+
+  test("explains a missing renderer", async () => {
+    process.env.PLANNOTATOR_PLANTUML = join(dir, "missing-plantuml");
+    expect((await render("@startuml\n@enduml")).status).toBe(501);
+  });
+
+  test("rejects empty source", async () => {
+    expect((await render("  \n")).status).toBe(400);
+  });
+});
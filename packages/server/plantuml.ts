@@ -0,0 +1,81 @@
+/**
+ * PlantUML rendering
+ *
+ * Renders ```plantuml fences to SVG with a locally installed PlantUML, so
+ * diagram sources never leave the machine. When no renderer is available
+ * the UI falls back to showing the source.
+ *
+ * The renderer always runs with PlantUML's SANDBOX security profile: plan
+ * source comes from the agent, and !include / !includeurl would otherwise
+ * let it pull local files or remote URLs into the rendered diagram.
+ *
+ * Environment variables:
+ *   PLANNOTATOR_PLANTUML - Command that renders PlantUML from stdin to SVG on
+ *                          stdout (default: "plantuml -tsvg -pipe", e.g.
+ *                          "java -jar /opt/plantuml.jar -tsvg -pipe"). It is
+ *                          run with PLANTUML_SECURITY_PROFILE=SANDBOX.
+ */
+
+const DEFAULT_COMMAND = "plantuml -tsvg -pipe";
+const RENDER_TIMEOUT_MS = 15_000;
+const MAX_SOURCE_BYTES = 256 * 1024;
+
+// No file or network access from diagram source (!include, !includeurl, ...)
+const SECURITY_PROFILE = "SANDBOX";
+
+function getPlantUmlCommand(): string[] {
+  const command = process.env.PLANNOTATOR_PLANTUML?.trim() || DEFAULT_COMMAND;
+  return command.split(/\s+/);
+}
+
+/**
+ * Handle POST /api/plantuml: diagram source in the body, SVG out
+ */
+export async function handlePlantUmlRequest(req: Request): Promise<Response> {
+  const source = await req.text();
+  if (!source.trim()) {
+    return new Response("Empty diagram source", { status: 400 });
+  }
+  if (source.length > MAX_SOURCE_BYTES) {
+    return new Response("Diagram source is too large", { status: 413 });
+  }
+
+  const [cmd, ...args] = getPlantUmlCommand();
+  if (!Bun.which(cmd)) {
+    return new Response(
+      `PlantUML renderer not found ("${cmd}"). Install plantuml or set PLANNOTATOR_PLANTUML.`,
+      { status: 501 }
+    );
+  }
+
+  try {
+    const proc = Bun.spawn([cmd, ...args], {
+      stdin: new TextEncoder().encode(source),
+      env: { ...process.env, PLANTUML_SECURITY_PROFILE: SECURITY_PROFILE },
+      stdout: "pipe",
+      stderr: "pipe",
+    });
+    const timer = setTimeout(() => proc.kill(), RENDER_TIMEOUT_MS);
+    const [svg, stderr, exitCode] = await Promise.all([
+      new Response(proc.stdout).text(),
+      new Response(proc.stderr).text(),
+      proc.exited,
+    ]);
+    clearTimeout(timer);
+
+    // PlantUML exits non-zero on syntax errors but still renders an error image
+    if (!svg.includes("<svg")) {
+      return new Response(stderr.trim() || `PlantUML exited with code ${exitCode}`, { status: 422 });
+    }
+
+    return new Response(svg, {
+      headers: {
+        "Content-Type": "image/svg+xml",
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "PlantUML rendering failed";
+    return new Response(message, { status: 500 });
+  }
+}
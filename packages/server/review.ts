@@ -7,21 +7,49 @@
  * Environment variables:
  *   PLANNOTATOR_REMOTE - Set to "1" or "true" for remote/devcontainer mode
  *   PLANNOTATOR_PORT   - Fixed port to use (default: random locally, 19432 for remote)
+ *   PLANNOTATOR_AUTH   - Set to "disabled" to turn off the per-session token
+ *   PLANNOTATOR_MAX_UPLOAD_MB, PLANNOTATOR_UPLOAD_TTL_HOURS - see ./upload
  */
 
-import { mkdirSync } from "fs";
 import { isRemoteSession, getServerPort } from "./remote";
 import { openBrowser } from "./browser";
-import { type DiffType, type GitContext, runGitDiff } from "./git";
+import { checkAuth, resolveAuthToken, withAuthToken } from "./auth";
+import { MAX_IMAGE_BYTES, createImagePolicy, serveImage, sniffImageType } from "./image";
+import { createUploadStore, handleUploadRequest, sweepStaleUploads } from "./upload";
+import {
+  type DiffType,
+  type GitContext,
+  type GitDiffOptions,
+  deferLargeFilePatches,
+  getDiffRevisions,
+  getFileAtRevision,
+  getFileBytesAtRevision,
+  getFilePatch,
+  getPatchFilePaths,
+  getRecentCommits,
+  getRepoRoot,
+  runGitDiff,
+  validateDiffRequest,
+} from "./git";
+import { type Suggestion, applySuggestions } from "./suggestions";
+import {
+  type StagingAction,
+  applyStagingAction,
+  getStagingActions,
+  restoreDiscarded,
+  selectHunk,
+} from "./staging";
+import { deleteDraft, getDraftKey, handleDraftRequest } from "./drafts";
+import { clearReviewRounds, loadLastReviewRound, saveReviewRound } from "./reviewRounds";
 
 // Re-export utilities
 export { isRemoteSession, getServerPort } from "./remote";
 export { openBrowser } from "./browser";
-export { type DiffType, type DiffOption, type GitContext } from "./git";
+export { type DiffType, type DiffOption, type GitContext, type CommitInfo } from "./git";
 
 // --- Types ---
 
-export interface ReviewServerOptions {
+export interface ReviewSessionOptions {
   /** Raw git diff patch string */
   rawPatch: string;
   /** Git ref used for the diff (e.g., "HEAD", "main..HEAD", "--staged") */
@@ -36,27 +64,452 @@ export interface ReviewServerOptions {
   gitContext?: GitContext;
   /** Whether URL sharing is enabled (default: true) */
   sharingEnabled?: boolean;
+  /** Token required on every request (default: generated, null disables auth) */
+  authToken?: string | null;
+  /** Repository directory for git operations (default: process.cwd()) */
+  cwd?: string;
+  /** Linter, type-check or analyzer output to import as annotations (SARIF, ESLint JSON, tsc) */
+  diagnostics?: { name: string; content: string }[];
+  /** lcov or Istanbul JSON coverage report to overlay on added lines */
+  coverage?: { name: string; content: string };
+}
+
+export interface ReviewServerOptions extends ReviewSessionOptions {
   /** Called when server starts with the URL, remote status, and port */
   onReady?: (url: string, isRemote: boolean, port: number) => void;
 }
 
+export interface ReviewDecision {
+  feedback: string;
+  feedbackJson?: Record<string, unknown>;
+  annotations: unknown[];
+  agentSwitch?: string;
+}
+
+export interface ReviewSession {
+  /** Token the browser must present (null when auth is disabled) */
+  authToken: string | null;
+  /** Handle a UI/API request. The URL path is relative to the session root. */
+  handleRequest: (req: Request, url: URL) => Promise<Response>;
+  /** Wait for user feedback submission */
+  waitForDecision: () => Promise<ReviewDecision>;
+  /** Release session resources (unreferenced uploads) */
+  dispose: () => void;
+}
+
 export interface ReviewServerResult {
   /** The port the server is running on */
   port: number;
-  /** The full URL to access the server */
+  /** The full URL to access the server (including the auth token) */
   url: string;
   /** Whether running in remote mode */
   isRemote: boolean;
   /** Wait for user feedback submission */
-  waitForDecision: () => Promise<{
-    feedback: string;
-    annotations: unknown[];
-    agentSwitch?: string;
-  }>;
+  waitForDecision: () => Promise<ReviewDecision>;
   /** Stop the server */
   stop: () => void;
 }
 
+// --- Session Implementation ---
+
+/**
+ * Create a code review session
+ *
+ * Holds the diff state and the decision promise, and handles all API routes
+ * (/api/diff, /api/feedback, etc.). Used by the standalone server and by the
+ * daemon, which hosts many sessions under one port.
+ */
+export function createReviewSession(options: ReviewSessionOptions): ReviewSession {
+  const { htmlContent, origin, gitContext, sharingEnabled = true, diagnostics = [], coverage } = options;
+  const cwd = options.cwd ?? process.cwd();
+
+  // Mutable state for diff switching
+  let currentPatch = options.rawPatch;
+  let currentGitRef = options.gitRef;
+  let currentDiffType: DiffType = options.diffType || "uncommitted";
+  // Commit or range for the "commit" and "range" diff types
+  let currentDiffRef: string | undefined;
+  // Untracked files are part of "uncommitted"/"unstaged" diffs unless toggled off
+  let includeUntracked = true;
+  // Whitespace-only changes are hidden when the reviewer asks (git diff -w)
+  let ignoreWhitespace = false;
+
+  // Decision promise
+  let resolveDecision: (result: ReviewDecision) => void;
+  const decisionPromise = new Promise<ReviewDecision>((resolve) => {
+    resolveDecision = resolve;
+  });
+
+  const authToken = resolveAuthToken(options.authToken);
+
+  // Resolved once per session; awaited by /api/image
+  const imagePolicy = createImagePolicy({ cwd });
+
+  // Unsent annotations are autosaved per repository and diff until feedback is sent
+  const currentDraftKey = () =>
+    getDraftKey("review", cwd, currentDiffType, currentDiffRef ?? "");
+
+  // Review rounds are kept per repository, whichever diff is shown
+  const reviewRoundRoot = async () => (await getRepoRoot(cwd)) ?? cwd;
+
+  // Options that reproduce the diff currently shown
+  const currentDiffOptions = (): GitDiffOptions => ({
+    cwd,
+    includeUntracked,
+    ignoreWhitespace,
+    ...(currentDiffType === "commit" && { commit: currentDiffRef }),
+    ...(currentDiffType === "range" && { range: currentDiffRef }),
+  });
+
+  // Patches discarded from the review, newest last, so they can be restored
+  const discarded: { path: string; patch: string }[] = [];
+  const MAX_DISCARDED = 20;
+
+  // The diff as sent to the browser: large files go without their hunks,
+  // which are fetched from /api/diff/file when the file is opened. Also says
+  // what can be staged or discarded from it.
+  const diffPayload = () => {
+    const { patch, deferred } = deferLargeFilePatches(currentPatch);
+    return {
+      rawPatch: patch,
+      deferredFiles: deferred,
+      stagingActions: getStagingActions(currentDiffType, ignoreWhitespace),
+      discardedCount: discarded.length,
+    };
+  };
+
+  // Re-run the diff shown after the repository changed
+  const refreshDiff = async () => {
+    const defaultBranch = gitContext?.defaultBranch || "main";
+    const result = await runGitDiff(currentDiffType, defaultBranch, currentDiffOptions());
+    currentPatch = result.patch;
+    currentGitRef = result.label;
+  };
+
+  // Uploads live in a per-session dir; stale dirs from earlier sessions are swept
+  sweepStaleUploads();
+  const uploads = createUploadStore();
+
+  async function handleRequest(req: Request, url: URL): Promise<Response> {
+    // Every route, including the UI itself, requires the session token
+    const unauthorized = checkAuth(req, url, authToken);
+    if (unauthorized) return unauthorized;
+
+    // API: Get diff content
+    if (url.pathname === "/api/diff" && req.method === "GET") {
+      return Response.json({
+        ...diffPayload(),
+        gitRef: currentGitRef,
+        origin,
+        diffType: currentDiffType,
+        diffRef: currentDiffRef,
+        includeUntracked,
+        ignoreWhitespace,
+        gitContext,
+        sharingEnabled,
+        diagnostics,
+        coverage,
+      });
+    }
+
+    // API: Recent commits for the commit picker
+    if (url.pathname === "/api/commits" && req.method === "GET") {
+      const limit = Number(url.searchParams.get("limit")) || undefined;
+      const commits = await getRecentCommits(cwd, limit);
+      return Response.json({ commits });
+    }
+
+    // API: Switch diff type
+    if (url.pathname === "/api/diff/switch" && req.method === "POST") {
+      try {
+        const body = (await req.json()) as {
+          diffType?: unknown;
+          ref?: unknown;
+          includeUntracked?: unknown;
+          ignoreWhitespace?: unknown;
+        };
+
+        if (!body.diffType) {
+          return Response.json(
+            { error: "Missing diffType" },
+            { status: 400 }
+          );
+        }
+
+        // Refs come from the client, so they are checked before reaching git
+        const request = await validateDiffRequest(body.diffType, body.ref, cwd);
+        if (request.ok === false) {
+          return Response.json({ error: request.error }, { status: 400 });
+        }
+
+        // Run the new diff
+        const defaultBranch = gitContext?.defaultBranch || "main";
+        if (typeof body.includeUntracked === "boolean") {
+          includeUntracked = body.includeUntracked;
+        }
+        if (typeof body.ignoreWhitespace === "boolean") {
+          ignoreWhitespace = body.ignoreWhitespace;
+        }
+        const result = await runGitDiff(request.diffType, defaultBranch, {
+          ...request.options,
+          includeUntracked,
+          ignoreWhitespace,
+        });
+
+        // Update state
+        currentPatch = result.patch;
+        currentGitRef = result.label;
+        currentDiffType = request.diffType;
+        currentDiffRef = request.options.commit ?? request.options.range;
+
+        return Response.json({
+          ...diffPayload(),
+          gitRef: currentGitRef,
+          diffType: currentDiffType,
+          diffRef: currentDiffRef,
+          includeUntracked,
+          ignoreWhitespace,
+        });
+      } catch (err) {
+        const message =
+          err instanceof Error ? err.message : "Failed to switch diff";
+        return Response.json({ error: message }, { status: 500 });
+      }
+    }
+
+    // API: One file's full patch, for files left out of the diff for size
+    if (url.pathname === "/api/diff/file" && req.method === "GET") {
+      const path = url.searchParams.get("path");
+      const patch = path && getFilePatch(currentPatch, path);
+      if (!patch) {
+        return Response.json({ error: "File is not part of the current diff" }, { status: 404 });
+      }
+      return Response.json({ patch });
+    }
+
+    // API: Full file contents on both sides of the current diff, for context expansion
+    if (url.pathname === "/api/file" && req.method === "GET") {
+      const path = url.searchParams.get("path");
+      const oldPath = url.searchParams.get("oldPath") || path;
+      // Only files in the diff can be read
+      const patchPaths = getPatchFilePaths(currentPatch);
+      if (!path || !patchPaths.has(path) || !patchPaths.has(oldPath!)) {
+        return Response.json({ error: "File is not part of the current diff" }, { status: 404 });
+      }
+
+      const defaultBranch = gitContext?.defaultBranch || "main";
+      const revisions = await getDiffRevisions(currentDiffType, defaultBranch, currentDiffOptions());
+      if (!revisions) {
+        return Response.json({ error: "No file revisions for this diff" }, { status: 400 });
+      }
+
+      const [oldContent, newContent] = await Promise.all([
+        getFileAtRevision(revisions.old, oldPath!, cwd),
+        getFileAtRevision(revisions.new, path, cwd),
+      ]);
+      return Response.json({ oldContent, newContent });
+    }
+
+    // API: An image in the current diff, on one side, for the image comparison view
+    if (url.pathname === "/api/file/image" && req.method === "GET") {
+      const path = url.searchParams.get("path");
+      const side = url.searchParams.get("side") === "old" ? "old" : "new";
+      if (!path || !getPatchFilePaths(currentPatch).has(path)) {
+        return new Response("File is not part of the current diff", { status: 404 });
+      }
+
+      const defaultBranch = gitContext?.defaultBranch || "main";
+      const revisions = await getDiffRevisions(currentDiffType, defaultBranch, currentDiffOptions());
+      const bytes = revisions && await getFileBytesAtRevision(revisions[side], path, cwd, MAX_IMAGE_BYTES);
+      const contentType = bytes && sniffImageType(bytes);
+      if (!bytes || !contentType) {
+        return new Response("No image on this side of the diff", { status: 404 });
+      }
+      return new Response(bytes, {
+        headers: {
+          "Content-Type": contentType,
+          "Cache-Control": "no-store",
+          "X-Content-Type-Options": "nosniff",
+          // SVGs can carry scripts; never let them run when opened directly
+          "Content-Security-Policy": "default-src 'none'; style-src 'unsafe-inline'",
+        },
+      });
+    }
+
+    // API: Write suggested code into the working tree, then re-run the diff
+    if (url.pathname === "/api/suggestions/apply" && req.method === "POST") {
+      try {
+        const body = (await req.json()) as { suggestions?: Suggestion[] };
+        if (!Array.isArray(body.suggestions) || body.suggestions.length === 0) {
+          return Response.json({ error: "No suggestions given" }, { status: 400 });
+        }
+
+        const root = await getRepoRoot(cwd);
+        if (!root) {
+          return Response.json({ error: "Not a git repository" }, { status: 400 });
+        }
+
+        const results = await applySuggestions(root, currentPatch, body.suggestions);
+        await refreshDiff();
+
+        return Response.json({ results, ...diffPayload(), gitRef: currentGitRef });
+      } catch (err) {
+        const message =
+          err instanceof Error ? err.message : "Failed to apply suggestions";
+        return Response.json({ error: message }, { status: 500 });
+      }
+    }
+
+    // API: Stage, unstage or discard a file or one of its hunks
+    if (url.pathname === "/api/staging" && req.method === "POST") {
+      try {
+        const body = (await req.json()) as {
+          action?: StagingAction;
+          path?: string;
+          hunk?: number;
+          hunkHeader?: string;
+        };
+        const action = body.action;
+        if (!action || !getStagingActions(currentDiffType, ignoreWhitespace).includes(action)) {
+          return Response.json({ error: "That action isn't available for this diff" }, { status: 400 });
+        }
+
+        const filePatch = typeof body.path === "string" ? getFilePatch(currentPatch, body.path) : null;
+        if (!filePatch) {
+          return Response.json({ error: "File is not part of the current diff" }, { status: 404 });
+        }
+
+        let patch = filePatch;
+        if (body.hunk !== undefined) {
+          const hunk = selectHunk(filePatch, Number(body.hunk));
+          // The header guards against acting on a hunk the reviewer didn't see
+          if (!hunk || hunk.header !== body.hunkHeader) {
+            return Response.json({ error: "The diff changed since it was loaded; reload it and try again" }, { status: 409 });
+          }
+          patch = hunk.patch;
+        }
+
+        const root = await getRepoRoot(cwd);
+        if (!root) {
+          return Response.json({ error: "Not a git repository" }, { status: 400 });
+        }
+
+        const error = await applyStagingAction(root, action, patch, currentDiffType);
+        if (error) {
+          return Response.json({ error }, { status: 409 });
+        }
+        if (action === "discard") {
+          discarded.push({ path: body.path!, patch });
+          if (discarded.length > MAX_DISCARDED) discarded.shift();
+        }
+
+        await refreshDiff();
+        return Response.json({ ...diffPayload(), gitRef: currentGitRef });
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "Failed to update the repository";
+        return Response.json({ error: message }, { status: 500 });
+      }
+    }
+
+    // API: Restore the most recently discarded patch
+    if (url.pathname === "/api/staging/undo" && req.method === "POST") {
+      try {
+        const last = discarded.at(-1);
+        const root = await getRepoRoot(cwd);
+        if (!last || !root) {
+          return Response.json({ error: "Nothing to restore" }, { status: 400 });
+        }
+
+        const error = await restoreDiscarded(root, last.patch);
+        if (error) {
+          return Response.json({ error }, { status: 409 });
+        }
+        discarded.pop();
+
+        await refreshDiff();
+        return Response.json({ ...diffPayload(), gitRef: currentGitRef, restored: last.path });
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "Failed to restore changes";
+        return Response.json({ error: message }, { status: 500 });
+      }
+    }
+
+    // API: Load, autosave or discard the in-progress annotations
+    if (url.pathname === "/api/draft") {
+      return handleDraftRequest(req, currentDraftKey(), uploads);
+    }
+
+    // API: Annotations from the last feedback sent on this repository
+    if (url.pathname === "/api/review/previous") {
+      if (req.method === "GET") {
+        return Response.json({ previous: loadLastReviewRound(await reviewRoundRoot()) });
+      }
+      if (req.method === "DELETE") {
+        clearReviewRounds(await reviewRoundRoot());
+        return Response.json({ ok: true });
+      }
+    }
+
+    // API: Serve images (upload dir, repository and plan references only)
+    if (url.pathname === "/api/image") {
+      return serveImage(await imagePolicy, url.searchParams.get("path"));
+    }
+
+    // API: Upload image -> validate -> save to session upload dir -> return path
+    if (url.pathname === "/api/upload" && req.method === "POST") {
+      return handleUploadRequest(req, uploads);
+    }
+
+    // API: Submit review feedback
+    if (url.pathname === "/api/feedback" && req.method === "POST") {
+      try {
+        const body = (await req.json()) as {
+          feedback: string;
+          feedbackJson?: Record<string, unknown>;
+          annotations: unknown[];
+          agentSwitch?: string;
+        };
+
+        // Uploads in the feedback must outlive the session so the agent can read them
+        uploads.markReferenced(body.feedback || "");
+        deleteDraft(currentDraftKey());
+
+        // Keep the open annotations so the next review can carry them forward
+        try {
+          saveReviewRound(await reviewRoundRoot(), body.annotations || [], currentPatch);
+        } catch (err) {
+          console.error("[Review] Failed to save review round:", err);
+        }
+
+        resolveDecision({
+          feedback: body.feedback || "",
+          feedbackJson: body.feedbackJson,
+          annotations: body.annotations || [],
+          agentSwitch: body.agentSwitch,
+        });
+
+        return Response.json({ ok: true, feedbackJson: body.feedbackJson });
+      } catch (err) {
+        const message =
+          err instanceof Error ? err.message : "Failed to process feedback";
+        return Response.json({ error: message }, { status: 500 });
+      }
+    }
+
+    // Serve embedded HTML for all other routes (SPA)
+    return new Response(htmlContent, {
+      headers: { "Content-Type": "text/html" },
+    });
+  }
+
+  return {
+    authToken,
+    handleRequest,
+    waitForDecision: () => decisionPromise,
+    dispose: () => uploads.cleanup(),
+  };
+}
+
 // --- Server Implementation ---
 
 const MAX_RETRIES = 5;
@@ -67,35 +520,18 @@ const RETRY_DELAY_MS = 500;
  *
  * Handles:
  * - Remote detection and port configuration
- * - API routes (/api/diff, /api/feedback)
+ * - Serving a single review session (see createReviewSession)
  * - Port conflict retries
  */
 export async function startReviewServer(
   options: ReviewServerOptions
 ): Promise<ReviewServerResult> {
-  const { htmlContent, origin, gitContext, sharingEnabled = true, onReady } = options;
-
-  // Mutable state for diff switching
-  let currentPatch = options.rawPatch;
-  let currentGitRef = options.gitRef;
-  let currentDiffType: DiffType = options.diffType || "uncommitted";
+  const { onReady } = options;
 
   const isRemote = isRemoteSession();
   const configuredPort = getServerPort();
 
-  // Decision promise
-  let resolveDecision: (result: {
-    feedback: string;
-    annotations: unknown[];
-    agentSwitch?: string;
-  }) => void;
-  const decisionPromise = new Promise<{
-    feedback: string;
-    annotations: unknown[];
-    agentSwitch?: string;
-  }>((resolve) => {
-    resolveDecision = resolve;
-  });
+  const session = createReviewSession(options);
 
   // Start server with retry logic
   let server: ReturnType<typeof Bun.serve> | null = null;
@@ -106,121 +542,7 @@ export async function startReviewServer(
         port: configuredPort,
 
         async fetch(req) {
-          const url = new URL(req.url);
-
-          // API: Get diff content
-          if (url.pathname === "/api/diff" && req.method === "GET") {
-            return Response.json({
-              rawPatch: currentPatch,
-              gitRef: currentGitRef,
-              origin,
-              diffType: currentDiffType,
-              gitContext,
-              sharingEnabled,
-            });
-          }
-
-          // API: Switch diff type
-          if (url.pathname === "/api/diff/switch" && req.method === "POST") {
-            try {
-              const body = (await req.json()) as { diffType: DiffType };
-              const newDiffType = body.diffType;
-
-              if (!newDiffType) {
-                return Response.json(
-                  { error: "Missing diffType" },
-                  { status: 400 }
-                );
-              }
-
-              // Run the new diff
-              const defaultBranch = gitContext?.defaultBranch || "main";
-              const result = await runGitDiff(newDiffType, defaultBranch);
-
-              // Update state
-              currentPatch = result.patch;
-              currentGitRef = result.label;
-              currentDiffType = newDiffType;
-
-              return Response.json({
-                rawPatch: currentPatch,
-                gitRef: currentGitRef,
-                diffType: currentDiffType,
-              });
-            } catch (err) {
-              const message =
-                err instanceof Error ? err.message : "Failed to switch diff";
-              return Response.json({ error: message }, { status: 500 });
-            }
-          }
-
-          // API: Serve images (local paths or temp uploads)
-          if (url.pathname === "/api/image") {
-            const imagePath = url.searchParams.get("path");
-            if (!imagePath) {
-              return new Response("Missing path parameter", { status: 400 });
-            }
-            try {
-              const file = Bun.file(imagePath);
-              if (!(await file.exists())) {
-                return new Response("File not found", { status: 404 });
-              }
-              return new Response(file);
-            } catch {
-              return new Response("Failed to read file", { status: 500 });
-            }
-          }
-
-          // API: Upload image -> save to temp -> return path
-          if (url.pathname === "/api/upload" && req.method === "POST") {
-            try {
-              const formData = await req.formData();
-              const file = formData.get("file") as File;
-              if (!file) {
-                return new Response("No file provided", { status: 400 });
-              }
-
-              const ext = file.name.split(".").pop() || "png";
-              const tempDir = "/tmp/plannotator";
-              mkdirSync(tempDir, { recursive: true });
-              const tempPath = `${tempDir}/${crypto.randomUUID()}.${ext}`;
-
-              await Bun.write(tempPath, file);
-              return Response.json({ path: tempPath });
-            } catch (err) {
-              const message =
-                err instanceof Error ? err.message : "Upload failed";
-              return Response.json({ error: message }, { status: 500 });
-            }
-          }
-
-          // API: Submit review feedback
-          if (url.pathname === "/api/feedback" && req.method === "POST") {
-            try {
-              const body = (await req.json()) as {
-                feedback: string;
-                annotations: unknown[];
-                agentSwitch?: string;
-              };
-
-              resolveDecision({
-                feedback: body.feedback || "",
-                annotations: body.annotations || [],
-                agentSwitch: body.agentSwitch,
-              });
-
-              return Response.json({ ok: true });
-            } catch (err) {
-              const message =
-                err instanceof Error ? err.message : "Failed to process feedback";
-              return Response.json({ error: message }, { status: 500 });
-            }
-          }
-
-          // Serve embedded HTML for all other routes (SPA)
-          return new Response(htmlContent, {
-            headers: { "Content-Type": "text/html" },
-          });
+          return session.handleRequest(req, new URL(req.url));
         },
       });
 
@@ -247,7 +569,7 @@ export async function startReviewServer(
     throw new Error("Failed to start server");
   }
 
-  const serverUrl = `http://localhost:${server.port}`;
+  const serverUrl = withAuthToken(`http://localhost:${server.port}`, session.authToken);
 
   // Notify caller that server is ready
   if (onReady) {
@@ -258,8 +580,11 @@ export async function startReviewServer(
     port: server.port,
     url: serverUrl,
     isRemote,
-    waitForDecision: () => decisionPromise,
-    stop: () => server.stop(),
+    waitForDecision: session.waitForDecision,
+    stop: () => {
+      server.stop();
+      session.dispose();
+    },
   };
 }
 
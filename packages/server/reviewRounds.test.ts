@@ -0,0 +1,43 @@
+/**
+ * Review Rounds Tests
+ *
+ * Run: bun test packages/server/reviewRounds.test.ts
+ */
+
+import { describe, expect, test } from "bun:test";
+import { splitPatchByFile } from "./reviewRounds";
+
+describe("splitPatchByFile", () => {
+  test("keys files by their path even when it contains ' b/'", () => {
+    const first = [
+      "diff --git a/docs/a b/notes.md b/docs/a b/notes.md",
+      "--- a/docs/a b/notes.md\t",
+      "+++ b/docs/a b/notes.md\t",
+      "@@ -1 +1 @@",
+      "-old",
+      "+new",
+      "",
+    ].join("\n");
+    const second = [
+      "diff --git a/src/old.ts b/src/new.ts",
+      "similarity index 100%",
+      "rename from src/old.ts",
+      "rename to src/new.ts",
+      "",
+    ].join("\n");
+    const deleted = [
+      "diff --git a/gone.txt b/gone.txt",
+      "deleted file mode 100644",
+      "--- a/gone.txt",
+      "+++ /dev/null",
+      "@@ -1 +0,0 @@",
+      "-bye",
+      "",
+    ].join("\n");
+
+    const files = splitPatchByFile(first + second + deleted);
+    expect([...files.keys()]).toEqual(["docs/a b/notes.md", "src/new.ts", "gone.txt"]);
+    expect(files.get("docs/a b/notes.md")).toBe(first);
+    expect(files.get("gone.txt")).toBe(deleted);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Review rounds
+ *
+ * When review feedback is sent, the open annotations are kept in
+ * ~/.plannotator/reviews/ along with the patch of each annotated file. The
+ * next review of the same repository loads them so the UI can carry them
+ * forward onto the new diff, and a review can span several rounds of
+ * feedback and fixes. Approving, or sending feedback with nothing left open,
+ * ends the cycle.
+ */
+
+import { createHash } from "crypto";
+import { homedir } from "os";
+import { join } from "path";
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { getFilePatchPath } from "./git";
+
+export interface ReviewRound {
+  /** 1 for the first feedback sent on this repository */
+  round: number;
+  submittedAt: string;
+  /** Open annotations as the UI sent them */
+  annotations: Record<string, unknown>[];
+  /** Patch of each annotated file when the feedback was sent */
+  patches: Record<string, string>;
+}
+
+/**
+ * Get the review rounds directory, creating it if needed
+ */
+export function getReviewRoundDir(): string {
+  const dir = join(homedir(), ".plannotator", "reviews");
+  mkdirSync(dir, { recursive: true });
+  return dir;
+}
+
+function getReviewRoundPath(repoRoot: string, dir: string): string {
+  const hash = createHash("sha256").update(repoRoot).digest("hex").slice(0, 24);
+  return join(dir, `${hash}.json`);
+}
+
+/**
+ * Split a patch into per-file patches, keyed by the path each file is shown
+ * under (the new path, or the old one for deletions)
+ */
+export function splitPatchByFile(patch: string): Map<string, string> {
+  const files = new Map<string, string>();
+  for (const chunk of patch.split(/^(?=diff --git )/m)) {
+    const path = chunk.startsWith("diff --git ") && getFilePatchPath(chunk);
+    if (path) files.set(path, chunk);
+  }
+  return files;
+}
+
+/**
+ * Load the last round of feedback sent on a repository, or null if there is
+ * none or it can't be read
+ */
+export function loadLastReviewRound(repoRoot: string, dir: string = getReviewRoundDir()): ReviewRound | null {
+  const path = getReviewRoundPath(repoRoot, dir);
+  if (!existsSync(path)) return null;
+  try {
+    return JSON.parse(readFileSync(path, "utf-8")) as ReviewRound;
+  } catch (err) {
+    console.error(`[Review] Ignoring unreadable review round ${path}:`, err);
+    return null;
+  }
+}
+
+/**
+ * Record the feedback just sent as the repository's latest round. Resolved
+ * annotations are done with; if none are left open the cycle ends and the
+ * stored round is removed.
+ */
+export function saveReviewRound(
+  repoRoot: string,
+  annotations: unknown[],
+  patch: string,
+  dir: string = getReviewRoundDir()
+): ReviewRound | null {
+  const open = annotations.filter(
+    (ann): ann is Record<string, unknown> =>
+      !!ann && typeof ann === "object" && typeof (ann as { filePath?: unknown }).filePath === "string" &&
+      !(ann as { resolved?: unknown }).resolved
+  );
+  if (open.length === 0) {
+    clearReviewRounds(repoRoot, dir);
+    return null;
+  }
+
+  const filePatches = splitPatchByFile(patch);
+  const patches: Record<string, string> = {};
+  for (const ann of open) {
+    const filePath = ann.filePath as string;
+    const filePatch = filePatches.get(filePath);
+    if (filePatch !== undefined) patches[filePath] = filePatch;
+  }
+
+  const previous = loadLastReviewRound(repoRoot, dir);
+  const round: ReviewRound = {
+    round: (previous?.round ?? 0) + 1,
+    submittedAt: new Date().toISOString(),
+    annotations: open,
+    patches,
+  };
+  writeFileSync(getReviewRoundPath(repoRoot, dir), JSON.stringify(round), "utf-8");
+  return round;
+}
+
+/**
+ * Forget the stored round for a repository (no-op if there is none)
+ */
+export function clearReviewRounds(repoRoot: string, dir: string = getReviewRoundDir()): void {
+  rmSync(getReviewRoundPath(repoRoot, dir), { force: true });
+}
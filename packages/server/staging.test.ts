@@ -0,0 +1,62 @@
+/**
+ * Staging Tests
+ *
+ * Run: bun test packages/server/staging.test.ts
+ */
+
+import { describe, expect, test } from "bun:test";
+import { getStagingActions, selectHunk } from "./staging";
+
+const FILE_PATCH = [
+  "diff --git a/src/a.ts b/src/a.ts",
+  "index 1111111..2222222 100644",
+  "--- a/src/a.ts",
+  "+++ b/src/a.ts",
+  "@@ -1,3 +1,3 @@",
+  " one",
+  "-two",
+  "+TWO",
+  " three",
+  "@@ -10,2 +10,3 @@ function f() {",
+  " ten",
+  "+ten and a half",
+  " eleven",
+  "",
+].join("\n");
+
+describe("selectHunk", () => {
+  test("keeps the file header with the chosen hunk", () => {
+    const hunk = selectHunk(FILE_PATCH, 1);
+    expect(hunk?.header).toBe("@@ -10,2 +10,3 @@ function f() {");
+    expect(hunk?.patch).toBe(
+      [
+        "diff --git a/src/a.ts b/src/a.ts",
+        "index 1111111..2222222 100644",
+        "--- a/src/a.ts",
+        "+++ b/src/a.ts",
+        "@@ -10,2 +10,3 @@ function f() {",
+        " ten",
+        "+ten and a half",
+        " eleven",
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("returns null for a hunk that doesn't exist", () => {
+    expect(selectHunk(FILE_PATCH, 2)).toBeNull();
+    expect(selectHunk(FILE_PATCH, -1)).toBeNull();
+  });
+});
+
+describe("getStagingActions", () => {
+  test("depends on the diff type", () => {
+    expect(getStagingActions("unstaged", false)).toEqual(["stage", "discard"]);
+    expect(getStagingActions("staged", false)).toEqual(["unstage"]);
+    expect(getStagingActions("branch", false)).toEqual([]);
+  });
+
+  test("offers nothing when whitespace is ignored", () => {
+    expect(getStagingActions("uncommitted", true)).toEqual([]);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Staging from the review
+ *
+ * Stages, unstages or discards a file or a single hunk of the diff under
+ * review with git apply, after checking that the patch applies cleanly.
+ * Patches are always cut from the diff the server holds, never taken from
+ * the browser, and are applied from the repository root since diff paths
+ * are relative to it.
+ */
+
+import { $ } from "bun";
+import { type DiffType, getPatchFilePaths } from "./git";
+
+export type StagingAction = "stage" | "unstage" | "discard";
+
+/**
+ * The actions that make sense for a diff. Patches made with whitespace
+ * ignored don't match the files exactly, so git can't apply them.
+ */
+export function getStagingActions(diffType: DiffType, ignoreWhitespace: boolean): StagingAction[] {
+  if (ignoreWhitespace) return [];
+  switch (diffType) {
+    case "uncommitted":
+    case "unstaged":
+      return ["stage", "discard"];
+    case "staged":
+      return ["unstage"];
+    default:
+      return [];
+  }
+}
+
+/**
+ * The patch of one hunk of a file: the file's header followed by the hunk,
+ * or null if there is no such hunk
+ */
+export function selectHunk(filePatch: string, index: number): { patch: string; header: string } | null {
+  const lines = filePatch.replace(/\n$/, "").split("\n");
+  const starts = lines.flatMap((line, i) => (line.startsWith("@@ ") ? [i] : []));
+  if (index < 0 || index >= starts.length) return null;
+
+  const end = starts[index + 1] ?? lines.length;
+  const hunk = lines.slice(starts[index], end);
+  return {
+    patch: [...lines.slice(0, starts[0]), ...hunk].join("\n") + "\n",
+    header: hunk[0],
+  };
+}
+
+const APPLY_ARGS: Record<StagingAction, string[]> = {
+  stage: ["--cached"],
+  unstage: ["--cached", "-R"],
+  discard: ["-R"],
+};
+
+/** Run git apply on a patch, checking it first; returns git's error, if any */
+async function gitApply(root: string, args: string[], patch: string): Promise<string | null> {
+  const check = await $`git apply ${args} --check - < ${new Response(patch)}`.cwd(root).quiet().nothrow();
+  if (check.exitCode !== 0) {
+    return check.stderr.toString().trim() || "The patch no longer applies";
+  }
+  const result = await $`git apply ${args} - < ${new Response(patch)}`.cwd(root).quiet().nothrow();
+  return result.exitCode === 0 ? null : result.stderr.toString().trim() || "git apply failed";
+}
+
+/**
+ * Stage, unstage or discard a patch cut from the current diff. Returns an
+ * error message, or null when it was applied.
+ */
+export async function applyStagingAction(
+  root: string,
+  action: StagingAction,
+  patch: string,
+  diffType: DiffType
+): Promise<string | null> {
+  // The uncommitted diff runs from HEAD, so discarding a file with staged
+  // changes would leave the index and working tree out of step
+  if (action === "discard" && diffType === "uncommitted") {
+    const paths = [...getPatchFilePaths(patch)];
+    const staged = await $`git diff --cached --quiet -- ${paths}`.cwd(root).quiet().nothrow();
+    if (staged.exitCode !== 0) {
+      return "This file has staged changes. Discard from the unstaged changes instead.";
+    }
+  }
+  return gitApply(root, APPLY_ARGS[action], patch);
+}
+
+/**
+ * Apply a discarded patch to the working tree again (undo a discard)
+ */
+export function restoreDiscarded(root: string, patch: string): Promise<string | null> {
+  return gitApply(root, [], patch);
+}
@@ -0,0 +1,53 @@
+/**
+ * Plan Storage Tests
+ *
+ * Run: bun test packages/server/storage.test.ts
+ */
+
+import { afterAll, describe, expect, test } from "bun:test";
+import { existsSync, mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { getPlanRevisionKey, getPreviousSnapshot, saveRevision } from "./storage";
+
+const dir = mkdtempSync(join(tmpdir(), "plannotator-storage-"));
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("getPlanRevisionKey", () => {
+  test("follows the agent session, whatever the plan's heading", () => {
+    const first = getPlanRevisionKey("# Add caching\n", { agentSessionId: "abc" });
+    expect(getPlanRevisionKey("# Add caching with Redis\n", { agentSessionId: "abc" })).toBe(first);
+    expect(getPlanRevisionKey("# Add caching\n", { agentSessionId: "def" })).not.toBe(first);
+  });
+
+  test("falls back to the project and first heading", () => {
+    const key = getPlanRevisionKey("# Add caching\n\nv1", { cwd: "/work/app" });
+    expect(getPlanRevisionKey("# Add caching\n\nv2", { cwd: "/work/app" })).toBe(key);
+    expect(getPlanRevisionKey("# Add caching\n", { cwd: "/work/other" })).not.toBe(key);
+    expect(key).toMatch(/^[0-9a-f]{24}$/);
+  });
+});
+
+describe("revisions", () => {
+  test("returns the last saved revision for a key", () => {
+    saveRevision("plan-a", { plan: "# v1", feedback: null, status: "denied" }, dir);
+    saveRevision("plan-a", { plan: "# v2", feedback: "# Plan Feedback", status: "approved" }, dir);
+
+    expect(getPreviousSnapshot("plan-a", dir)).toEqual({
+      plan: "# v2",
+      feedback: "# Plan Feedback",
+      status: "approved",
+      savedAt: expect.any(String),
+    });
+    expect(getPreviousSnapshot("plan-b", dir)).toBeNull();
+  });
+
+  test("looking up doesn't create directories", () => {
+    const missing = join(dir, "missing");
+    expect(getPreviousSnapshot("plan-a", missing)).toBeNull();
+    expect(existsSync(missing)).toBe(false);
+  });
+});
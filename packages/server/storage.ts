@@ -1,13 +1,15 @@
 /**
  * Plan Storage Utility
  *
- * Saves plans and annotations to ~/.plannotator/plans/
+ * Saves plans and annotations to ~/.plannotator/plans/, and the last decided
+ * revision of each plan to ~/.plannotator/revisions/
  * Cross-platform: works on Windows, macOS, and Linux.
  */
 
+import { createHash } from "crypto";
 import { homedir } from "os";
 import { join } from "path";
-import { mkdirSync, writeFileSync } from "fs";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
 import { sanitizeTag } from "./project";
 
 /**
@@ -75,6 +77,17 @@ export function saveAnnotations(slug: string, diffContent: string, customPath?:
   return filePath;
 }
 
+/**
+ * Save the structured feedback document next to the annotations diff.
+ * Returns the full path to the saved file.
+ */
+export function saveFeedbackJson(slug: string, feedbackJson: object, customPath?: string | null): string {
+  const planDir = getPlanDir(customPath);
+  const filePath = join(planDir, `${slug}.feedback.json`);
+  writeFileSync(filePath, JSON.stringify(feedbackJson, null, 2) + "\n", "utf-8");
+  return filePath;
+}
+
 /**
  * Save the final snapshot on approve/deny.
  * Combines plan and diff into a single file with status suffix.
@@ -99,3 +112,60 @@ export function saveFinalSnapshot(
   writeFileSync(filePath, content, "utf-8");
   return filePath;
 }
+
+/**
+ * The last decided revision of a plan, for showing what changed in the next one.
+ */
+export interface PlanSnapshot {
+  plan: string;
+  feedback: string | null;
+  status: "approved" | "denied";
+  savedAt: string;
+}
+
+/**
+ * Directory holding the last revision of each plan. Unlike the plan
+ * directory it isn't configurable, and it's only created when writing.
+ */
+function getRevisionDir(): string {
+  return join(homedir(), ".plannotator", "revisions");
+}
+
+/**
+ * Build a file-safe key that stays the same across revisions of a plan: the
+ * agent conversation it comes from when known, otherwise the project
+ * directory and first heading.
+ */
+export function getPlanRevisionKey(plan: string, options: { agentSessionId?: string; cwd?: string } = {}): string {
+  const identity = options.agentSessionId
+    ? ["session", options.agentSessionId]
+    : ["project", options.cwd ?? process.cwd(), extractFirstHeading(plan) ?? ""];
+  return createHash("sha256").update(identity.join("\0")).digest("hex").slice(0, 24);
+}
+
+/**
+ * Record the plan as decided so the next revision can be compared against it
+ */
+export function saveRevision(
+  key: string,
+  revision: Omit<PlanSnapshot, "savedAt">,
+  dir: string = getRevisionDir()
+): void {
+  mkdirSync(dir, { recursive: true });
+  const snapshot: PlanSnapshot = { ...revision, savedAt: new Date().toISOString() };
+  writeFileSync(join(dir, `${key}.json`), JSON.stringify(snapshot), "utf-8");
+}
+
+/**
+ * Load the last decided revision for a key, or null if there is none
+ */
+export function getPreviousSnapshot(key: string, dir: string = getRevisionDir()): PlanSnapshot | null {
+  const path = join(dir, `${key}.json`);
+  if (!existsSync(path)) return null;
+  try {
+    return JSON.parse(readFileSync(path, "utf-8")) as PlanSnapshot;
+  } catch (err) {
+    console.error(`[Storage] Ignoring unreadable revision ${path}:`, err);
+    return null;
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Suggested Code Tests
+ *
+ * Run: bun test packages/server/suggestions.test.ts
+ */
+
+import { describe, expect, test } from "bun:test";
+import { applySuggestionsToText, type Suggestion } from "./suggestions";
+
+const FILE = ["function add(a, b) {", "  return a - b;", "}", "", "export { add };", ""].join("\n");
+
+function suggestion(overrides: Partial<Suggestion>): Suggestion {
+  return {
+    id: "s1",
+    filePath: "math.js",
+    lineStart: 2,
+    lineEnd: 2,
+    anchorText: "  return a - b;",
+    suggestedCode: "  return a + b;",
+    ...overrides,
+  };
+}
+
+describe("applySuggestionsToText", () => {
+  test("replaces the line range when the lines are unchanged", () => {
+    const { text, results } = applySuggestionsToText(FILE, [suggestion({})]);
+    expect(text).toBe(FILE.replace("a - b", "a + b"));
+    expect(results).toEqual([{ id: "s1", status: "applied", lineStart: 2, lineEnd: 2, lineCount: 1 }]);
+  });
+
+  test("replaces a range with more or fewer lines", () => {
+    const { text } = applySuggestionsToText(FILE, [
+      suggestion({
+        lineStart: 1,
+        lineEnd: 3,
+        anchorText: "function add(a, b) {\n  return a - b;\n}",
+        suggestedCode: "const add = (a, b) => a + b;",
+      }),
+    ]);
+    expect(text).toBe("const add = (a, b) => a + b;\n\nexport { add };\n");
+  });
+
+  test("reports a conflict when the lines changed", () => {
+    const changed = FILE.replace("a - b", "b - a");
+    const { text, results } = applySuggestionsToText(changed, [suggestion({})]);
+    expect(text).toBe(changed);
+    expect(results[0].status).toBe("conflict");
+  });
+
+  test("follows lines that moved", () => {
+    const moved = "// math helpers\n" + FILE;
+    const { text, results } = applySuggestionsToText(moved, [suggestion({})]);
+    expect(text).toBe(moved.replace("a - b", "a + b"));
+    expect(results[0]).toMatchObject({ status: "applied", lineStart: 3 });
+  });
+
+  test("reports a conflict when moved lines appear more than once", () => {
+    const twice = "  return a - b;\n" + FILE.replace("function add", "\nfunction add");
+    const { results } = applySuggestionsToText(twice, [suggestion({})]);
+    expect(results[0].status).toBe("conflict");
+  });
+
+  test("applies several suggestions against the original line numbers", () => {
+    const { text, results } = applySuggestionsToText(FILE, [
+      suggestion({ id: "a", suggestedCode: "  // sum\n  return a + b;" }),
+      suggestion({ id: "b", lineStart: 5, lineEnd: 5, anchorText: "export { add };", suggestedCode: "export default add;" }),
+    ]);
+    expect(results.map((result) => result.status)).toEqual(["applied", "applied"]);
+    expect(text).toBe("function add(a, b) {\n  // sum\n  return a + b;\n}\n\nexport default add;\n");
+  });
+
+  test("rejects overlapping suggestions after the first", () => {
+    const { results } = applySuggestionsToText(FILE, [
+      suggestion({ id: "a" }),
+      suggestion({ id: "b", lineStart: 1, lineEnd: 2, anchorText: "function add(a, b) {\n  return a - b;" }),
+    ]);
+    expect(results.map((result) => result.status)).toEqual(["applied", "conflict"]);
+  });
+
+  test("keeps CRLF line endings and a missing trailing newline", () => {
+    const crlf = "a\r\nb\r\nc";
+    const { text } = applySuggestionsToText(crlf, [
+      suggestion({ lineStart: 2, lineEnd: 2, anchorText: "b", suggestedCode: "B1\nB2" }),
+    ]);
+    expect(text).toBe("a\r\nB1\r\nB2\r\nc");
+  });
+
+  test("refuses ranges that weren't fully visible in the diff", () => {
+    const { results } = applySuggestionsToText(FILE, [suggestion({ lineStart: 1, lineEnd: 3 })]);
+    expect(results[0]).toMatchObject({ status: "conflict", error: "The selected lines aren't all part of the diff" });
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Suggested code
+ *
+ * Writes the suggested code from review annotations into the working tree.
+ * Each suggestion replaces a line range on the new side of the diff. The
+ * lines the reviewer commented on are compared with the file first: if they
+ * moved, the suggestion follows them, and if they changed or are ambiguous
+ * the suggestion is reported as a conflict instead of overwriting anything.
+ */
+
+import { readFile, realpath, writeFile } from "fs/promises";
+import { resolve, sep } from "path";
+import { parsePatchMarkerPath } from "./git";
+
+export interface Suggestion {
+  /** Annotation id, echoed back in the result */
+  id: string;
+  filePath: string;
+  lineStart: number;
+  lineEnd: number;
+  suggestedCode: string;
+  /** The lines in lineStart..lineEnd when the reviewer made the suggestion */
+  anchorText?: string;
+}
+
+export type SuggestionResult =
+  | {
+      id: string;
+      status: "applied";
+      /** Where the replaced lines were, in the file as it was before applying */
+      lineStart: number;
+      lineEnd: number;
+      /** Number of lines the suggestion was replaced with */
+      lineCount: number;
+    }
+  | { id: string; status: "conflict"; error: string };
+
+function splitLines(text: string): string[] {
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  if (lines.length > 1 && lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+function matchesAt(lines: string[], start: number, expected: string[]): boolean {
+  if (start < 0 || start + expected.length > lines.length) return false;
+  return expected.every((line, i) => lines[start + i] === line);
+}
+
+/**
+ * Find where a suggestion's lines are now: at the recorded position, or at
+ * the only other place the same lines appear
+ */
+function locate(lines: string[], suggestion: Suggestion): number | string {
+  const count = suggestion.lineEnd - suggestion.lineStart + 1;
+  if (suggestion.anchorText === undefined) {
+    return "The original lines are unknown, so the suggestion can't be checked";
+  }
+
+  const expected = splitLines(suggestion.anchorText);
+  if (expected.length !== count) {
+    return "The selected lines aren't all part of the diff";
+  }
+  if (matchesAt(lines, suggestion.lineStart - 1, expected)) {
+    return suggestion.lineStart - 1;
+  }
+
+  const matches: number[] = [];
+  for (let start = 0; start + count <= lines.length && matches.length < 2; start++) {
+    if (matchesAt(lines, start, expected)) matches.push(start);
+  }
+  if (matches.length === 1) return matches[0];
+  return matches.length === 0
+    ? "The lines changed since the diff was loaded"
+    : "The lines moved and now appear more than once";
+}
+
+/**
+ * Apply suggestions to the text of one file. Suggestions are located against
+ * the original text, so their line numbers don't shift one another.
+ */
+export function applySuggestionsToText(
+  text: string,
+  suggestions: Suggestion[]
+): { text: string; results: SuggestionResult[] } {
+  const eol = text.includes("\r\n") ? "\r\n" : "\n";
+  const endsWithNewline = text === "" || text.endsWith("\n");
+  const lines = text === "" ? [] : splitLines(text);
+
+  const results = new Map<string, SuggestionResult>();
+  const located: { suggestion: Suggestion; start: number; end: number }[] = [];
+
+  for (const suggestion of suggestions) {
+    if (suggestion.lineStart < 1 || suggestion.lineEnd < suggestion.lineStart) {
+      results.set(suggestion.id, { id: suggestion.id, status: "conflict", error: "Invalid line range" });
+      continue;
+    }
+    const start = locate(lines, suggestion);
+    if (typeof start === "string") {
+      results.set(suggestion.id, { id: suggestion.id, status: "conflict", error: start });
+      continue;
+    }
+    const end = start + suggestion.lineEnd - suggestion.lineStart;
+    const overlapping = located.find((other) => start <= other.end && other.start <= end);
+    if (overlapping) {
+      results.set(suggestion.id, {
+        id: suggestion.id,
+        status: "conflict",
+        error: "Overlaps another suggestion being applied",
+      });
+      continue;
+    }
+    located.push({ suggestion, start, end });
+  }
+
+  // Bottom-up, so earlier replacements don't move later ones
+  const output = [...lines];
+  for (const { suggestion, start, end } of [...located].sort((a, b) => b.start - a.start)) {
+    const replacement = suggestion.suggestedCode === "" ? [] : splitLines(suggestion.suggestedCode);
+    output.splice(start, end - start + 1, ...replacement);
+    results.set(suggestion.id, {
+      id: suggestion.id,
+      status: "applied",
+      lineStart: start + 1,
+      lineEnd: end + 1,
+      lineCount: replacement.length,
+    });
+  }
+
+  let newText = output.join(eol);
+  if (output.length > 0 && endsWithNewline) newText += eol;
+
+  return {
+    text: newText,
+    results: suggestions.map((suggestion) => results.get(suggestion.id)!),
+  };
+}
+
+/**
+ * Paths on the new side of a patch (the "+++ b/..." lines)
+ */
+function getPatchNewPaths(patch: string): Set<string> {
+  const paths = new Set<string>();
+  for (const match of patch.matchAll(/^\+\+\+ ("?b\/.+)$/gm)) {
+    const path = parsePatchMarkerPath(match[1], "b/");
+    if (path) paths.add(path);
+  }
+  return paths;
+}
+
+function isWithin(path: string, root: string): boolean {
+  return path.startsWith(root.endsWith(sep) ? root : root + sep);
+}
+
+/**
+ * Apply suggestions to files in the repository. Only files on the new side of
+ * the current diff can be written, and only inside the repository root.
+ */
+export async function applySuggestions(
+  root: string,
+  patch: string,
+  suggestions: Suggestion[]
+): Promise<SuggestionResult[]> {
+  const allowedPaths = getPatchNewPaths(patch);
+  const realRoot = await realpath(root);
+
+  const byFile = new Map<string, Suggestion[]>();
+  for (const suggestion of suggestions) {
+    const existing = byFile.get(suggestion.filePath) || [];
+    existing.push(suggestion);
+    byFile.set(suggestion.filePath, existing);
+  }
+
+  const results = new Map<string, SuggestionResult>();
+  const fail = (fileSuggestions: Suggestion[], error: string) => {
+    for (const { id } of fileSuggestions) {
+      results.set(id, { id, status: "conflict", error });
+    }
+  };
+
+  for (const [filePath, fileSuggestions] of byFile) {
+    if (!allowedPaths.has(filePath)) {
+      fail(fileSuggestions, "File isn't on the new side of the current diff");
+      continue;
+    }
+
+    try {
+      // Resolve symlinks so a link can't point the write outside the repo
+      const path = await realpath(resolve(realRoot, filePath));
+      if (!isWithin(path, realRoot)) {
+        fail(fileSuggestions, "File is outside the repository");
+        continue;
+      }
+
+      const original = await readFile(path, "utf-8");
+      const { text, results: fileResults } = applySuggestionsToText(original, fileSuggestions);
+      if (text !== original) {
+        await writeFile(path, text);
+      }
+      for (const result of fileResults) {
+        results.set(result.id, result);
+      }
+    } catch (err) {
+      fail(fileSuggestions, err instanceof Error ? err.message : "Failed to write file");
+    }
+  }
+
+  return suggestions.map((suggestion) => results.get(suggestion.id)!);
+}
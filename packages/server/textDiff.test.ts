@@ -0,0 +1,165 @@
+/**
+ * Text Diff Tests
+ *
+ * Run: bun test packages/server/textDiff.test.ts
+ */
+
+import { describe, expect, test } from "bun:test";
+import { appendPlanEdits, createUnifiedDiff, diffLines } from "./textDiff";
+
+/**
+ * Apply a unified diff to text, to check that a diff round-trips
+ */
+function applyUnifiedDiff(oldText: string, diff: string): string {
+  const oldLines = oldText === "" ? [] : oldText.replace(/\n$/, "").split("\n");
+  const result: string[] = [];
+  let cursor = 0;
+
+  for (const hunk of diff.split(/^(?=@@ )/m).slice(1)) {
+    const [header, ...body] = hunk.replace(/\n$/, "").split("\n");
+    const oldStart = Number(header.match(/^@@ -(\d+)/)![1]);
+    const hunkStart = body.some((line) => !line.startsWith("+")) ? oldStart - 1 : oldStart;
+    result.push(...oldLines.slice(cursor, hunkStart));
+    cursor = hunkStart;
+    for (const line of body) {
+      if (line.startsWith("+")) result.push(line.slice(1));
+      else if (line.startsWith("-")) cursor++;
+      else {
+        result.push(line.slice(1));
+        cursor++;
+      }
+    }
+  }
+
+  result.push(...oldLines.slice(cursor));
+  return result.join("\n") + "\n";
+}
+
+describe("diffLines", () => {
+  test("returns only equal lines for identical text", () => {
+    const lines = diffLines("a\nb\nc\n", "a\nb\nc\n");
+    expect(lines.every((line) => line.type === "equal")).toBe(true);
+    expect(lines).toHaveLength(3);
+  });
+
+  test("finds a changed line between unchanged ones", () => {
+    expect(diffLines("a\nb\nc\n", "a\nB\nc\n")).toEqual([
+      { type: "equal", text: "a" },
+      { type: "delete", text: "b" },
+      { type: "insert", text: "B" },
+      { type: "equal", text: "c" },
+    ]);
+  });
+
+  test("handles empty inputs", () => {
+    expect(diffLines("", "a\n")).toEqual([{ type: "insert", text: "a" }]);
+    expect(diffLines("a\n", "")).toEqual([{ type: "delete", text: "a" }]);
+    expect(diffLines("", "")).toEqual([]);
+  });
+
+  test("ignores a missing trailing newline and CRLF line endings", () => {
+    expect(diffLines("a\r\nb\r\n", "a\nb").every((line) => line.type === "equal")).toBe(true);
+  });
+});
+
+describe("createUnifiedDiff", () => {
+  test("returns an empty string when nothing changed", () => {
+    expect(createUnifiedDiff("# Plan\n\nStep 1\n", "# Plan\n\nStep 1\n")).toBe("");
+  });
+
+  test("writes headers, a hunk header and context lines", () => {
+    const diff = createUnifiedDiff("# Plan\n\n1. Build\n2. Test\n", "# Plan\n\n1. Build\n2. Test thoroughly\n");
+    expect(diff).toBe(
+      [
+        "--- a/plan.md",
+        "+++ b/plan.md",
+        "@@ -1,4 +1,4 @@",
+        " # Plan",
+        " ",
+        " 1. Build",
+        "-2. Test",
+        "+2. Test thoroughly",
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("uses custom labels", () => {
+    const diff = createUnifiedDiff("a\n", "b\n", { oldLabel: "original", newLabel: "edited" });
+    expect(diff.startsWith("--- original\n+++ edited\n")).toBe(true);
+  });
+
+  test("splits distant changes into separate hunks", () => {
+    const oldText = Array.from({ length: 30 }, (_, i) => `line ${i + 1}`).join("\n") + "\n";
+    const newText = oldText.replace("line 2\n", "line two\n").replace("line 28\n", "line twenty-eight\n");
+    const diff = createUnifiedDiff(oldText, newText);
+    expect(diff.match(/^@@ /gm)).toHaveLength(2);
+    expect(diff).toContain("@@ -1,5 +1,5 @@");
+    expect(diff).toContain("@@ -25,6 +25,6 @@");
+  });
+
+  test("merges nearby changes into one hunk", () => {
+    const oldText = "1\n2\n3\n4\n5\n6\n7\n8\n9\n10\n";
+    const newText = "1\nTWO\n3\n4\n5\n6\n7\nEIGHT\n9\n10\n";
+    expect(createUnifiedDiff(oldText, newText).match(/^@@ /gm)).toHaveLength(1);
+  });
+
+  test("numbers an empty side by the line before it", () => {
+    expect(createUnifiedDiff("", "new\n")).toContain("@@ -0,0 +1,1 @@");
+    expect(createUnifiedDiff("a\nb\n", "a\n", { context: 0 })).toContain("@@ -2,1 +1,0 @@");
+  });
+
+  test("round-trips edits to a plan", () => {
+    const oldText = [
+      "# Migration plan",
+      "",
+      "## Steps",
+      "1. Add the column",
+      "2. Backfill",
+      "3. Drop the old column",
+      "",
+      "## Rollback",
+      "Restore from backup.",
+      "",
+    ].join("\n");
+    const newText = [
+      "# Migration plan",
+      "",
+      "## Steps",
+      "1. Add the column (nullable)",
+      "2. Backfill in batches of 1000",
+      "3. Verify row counts",
+      "4. Drop the old column",
+      "",
+      "## Rollback",
+      "Re-add the old column and copy data back.",
+      "",
+    ].join("\n");
+
+    expect(applyUnifiedDiff(oldText, createUnifiedDiff(oldText, newText))).toBe(newText);
+    expect(applyUnifiedDiff(oldText, createUnifiedDiff(oldText, newText, { context: 0 }))).toBe(newText);
+  });
+});
+
+describe("appendPlanEdits", () => {
+  test("adds the diff before the closing separator of exported feedback", () => {
+    const diff = createUnifiedDiff("# Plan\n\nStep one\n", "# Plan\n\nStep two\n");
+    const feedback = appendPlanEdits("# Plan Feedback\n\n## 1. Remove this\n\n---\n", diff);
+
+    expect(feedback).toBe(
+      "# Plan Feedback\n\n## 1. Remove this\n\n## Direct edits to the plan\n" +
+        "The reviewer edited the plan text directly. Update the plan to match these changes:\n" +
+        "```diff\n" + diff + "```\n\n---\n"
+    );
+    expect(appendPlanEdits("Plan rejected by user", diff)).toStartWith("# Plan Feedback\n\n## Direct edits to the plan\n");
+  });
+
+  test("fences the diff past any code fence in the plan", () => {
+    const plan = "# Plan\n\n```ts\nconst a = 1;\n```\n\nDone\n";
+    const diff = createUnifiedDiff(plan, plan.replace("Done", "Done soon"));
+    expect(diff).toContain("\n ```\n");
+
+    const feedback = appendPlanEdits(undefined, diff);
+    expect(feedback).toContain("````diff\n" + diff + "````\n");
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Text diffs
+ *
+ * Line-based unified diffs using Myers' algorithm. Used to turn a reviewer's
+ * direct edits to a plan into a patch the agent can apply.
+ */
+
+export interface DiffLine {
+  type: "equal" | "delete" | "insert";
+  text: string;
+}
+
+export interface UnifiedDiffOptions {
+  /** Label for the --- header (default: "a/plan.md") */
+  oldLabel?: string;
+  /** Label for the +++ header (default: "b/plan.md") */
+  newLabel?: string;
+  /** Unchanged lines shown around each change (default: 3) */
+  context?: number;
+}
+
+function splitLines(text: string): string[] {
+  if (text === "") return [];
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  // A trailing newline ends the last line, it doesn't start a new one
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+/**
+ * Myers' shortest edit script between two line arrays
+ */
+function myers(a: string[], b: string[]): DiffLine[] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  search: for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) break search;
+    }
+  }
+
+  // Walk the trace back from the end to recover the edit script
+  const result: DiffLine[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vd = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && vd[offset + k - 1] < vd[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = vd[offset + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      result.push({ type: "equal", text: a[x - 1] });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        result.push({ type: "insert", text: b[y - 1] });
+      } else {
+        result.push({ type: "delete", text: a[x - 1] });
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return result.reverse();
+}
+
+/**
+ * Line-by-line diff of two texts. Common leading and trailing lines are
+ * matched up front to keep the search small.
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  return [
+    ...a.slice(0, start).map((text): DiffLine => ({ type: "equal", text })),
+    ...myers(a.slice(start, endA), b.slice(start, endB)),
+    ...a.slice(endA).map((text): DiffLine => ({ type: "equal", text })),
+  ];
+}
+
+/**
+ * Unified diff of two texts, or "" when they have the same lines
+ */
+export function createUnifiedDiff(oldText: string, newText: string, options: UnifiedDiffOptions = {}): string {
+  const { oldLabel = "a/plan.md", newLabel = "b/plan.md", context = 3 } = options;
+  const lines = diffLines(oldText, newText);
+
+  // Line numbers each entry sits at in the old and new text
+  let oldLine = 1;
+  let newLine = 1;
+  const entries = lines.map((line) => {
+    const entry = { ...line, oldLine, newLine };
+    if (line.type !== "insert") oldLine++;
+    if (line.type !== "delete") newLine++;
+    return entry;
+  });
+
+  const changes = entries.flatMap((entry, index) => (entry.type === "equal" ? [] : [index]));
+  if (changes.length === 0) return "";
+
+  let output = `--- ${oldLabel}\n+++ ${newLabel}\n`;
+
+  let i = 0;
+  while (i < changes.length) {
+    // Merge changes whose context would overlap into one hunk
+    const firstChange = changes[i];
+    let lastChange = firstChange;
+    while (i + 1 < changes.length && changes[i + 1] - lastChange <= context * 2 + 1) {
+      lastChange = changes[++i];
+    }
+    i++;
+
+    const hunk = entries.slice(Math.max(0, firstChange - context), Math.min(entries.length, lastChange + context + 1));
+    const oldCount = hunk.filter((entry) => entry.type !== "insert").length;
+    const newCount = hunk.filter((entry) => entry.type !== "delete").length;
+    // An empty side is numbered by the line before it
+    const oldStart = oldCount === 0 ? hunk[0].oldLine - 1 : hunk[0].oldLine;
+    const newStart = newCount === 0 ? hunk[0].newLine - 1 : hunk[0].newLine;
+
+    output += `@@ -${oldStart},${oldCount} +${newStart},${newCount} @@\n`;
+    for (const entry of hunk) {
+      const prefix = entry.type === "insert" ? "+" : entry.type === "delete" ? "-" : " ";
+      output += `${prefix}${entry.text}\n`;
+    }
+  }
+
+  return output;
+}
+
+// A fence longer than any run of backticks in the text, so plan code fences
+// showing up as diff context can't close it early
+function fenceFor(text: string): string {
+  const longest = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  return "`".repeat(Math.max(3, longest + 1));
+}
+
+/**
+ * Add the edit diff to the markdown feedback, before the closing separator
+ * exportDiff writes
+ */
+export function appendPlanEdits(feedback: string | undefined, diff: string): string {
+  const fence = fenceFor(diff);
+  const section =
+    `## Direct edits to the plan\n` +
+    `The reviewer edited the plan text directly. Update the plan to match these changes:\n` +
+    `${fence}diff\n${diff}${fence}\n`;
+
+  if (!feedback || feedback === "Plan rejected by user" || feedback === "No changes detected.") {
+    return `# Plan Feedback\n\n${section}\n---\n`;
+  }
+  return `${feedback.replace(/\n*---\n?$/, "")}\n\n${section}\n---\n`;
+}
@@ -0,0 +1,180 @@
+/**
+ * Image Upload Tests
+ *
+ * Run: bun test packages/server/upload.test.ts
+ */
+
+import { afterAll, afterEach, describe, expect, test } from "bun:test";
+import { existsSync, mkdirSync, readdirSync, rmSync, utimesSync, writeFileSync } from "fs";
+import { join } from "path";
+import { UPLOAD_ROOT } from "./image";
+import { createUploadStore, getMaxUploadBytes, handleUploadRequest, sweepStaleUploads, type UploadStore } from "./upload";
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0]);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const stores: UploadStore[] = [];
+function store(): UploadStore {
+  const created = createUploadStore();
+  stores.push(created);
+  return created;
+}
+
+const testDirs: string[] = [];
+function testDir(): string {
+  const dir = join(UPLOAD_ROOT, `test-${crypto.randomUUID()}`);
+  mkdirSync(dir, { recursive: true });
+  testDirs.push(dir);
+  return dir;
+}
+
+afterAll(() => {
+  for (const created of stores) created.cleanup();
+  for (const dir of testDirs) rmSync(dir, { recursive: true, force: true });
+});
+
+function uploadRequest(file: Blob, name: string): Request {
+  const form = new FormData();
+  form.append("file", file, name);
+  return new Request("http://localhost/api/upload", { method: "POST", body: form });
+}
+
+function makeOld(path: string): void {
+  const old = new Date(Date.now() - 2 * DAY_MS);
+  utimesSync(path, old, old);
+}
+
+describe("handleUploadRequest", () => {
+  test("saves images under the sniffed type, whatever the browser claims", async () => {
+    const uploads = store();
+    const res = await handleUploadRequest(uploadRequest(new Blob([PNG], { type: "text/plain" }), "notes.txt"), uploads);
+    expect(res.status).toBe(200);
+    const { path } = (await res.json()) as { path: string };
+    expect(path.startsWith(uploads.dir)).toBe(true);
+    expect(path).toEndWith(".png");
+    expect(existsSync(path)).toBe(true);
+  });
+
+  test("rejects non-images with an image name and type", async () => {
+    const uploads = store();
+    const text = new Blob(["not really a picture"], { type: "image/png" });
+    expect((await handleUploadRequest(uploadRequest(text, "shot.png"), uploads)).status).toBe(415);
+  });
+
+  test("rejects SVG, which can carry scripts", async () => {
+    const uploads = store();
+    const svg = new Blob(['<svg xmlns="http://www.w3.org/2000/svg"></svg>'], { type: "image/svg+xml" });
+    expect((await handleUploadRequest(uploadRequest(svg, "icon.svg"), uploads)).status).toBe(415);
+    expect(existsSync(uploads.dir)).toBe(false);
+  });
+
+  test("rejects requests without a file", async () => {
+    const res = await handleUploadRequest(
+      new Request("http://localhost/api/upload", { method: "POST", body: new FormData() }),
+      store()
+    );
+    expect(res.status).toBe(400);
+  });
+});
+
+describe("upload size limit", () => {
+  const original = process.env.PLANNOTATOR_MAX_UPLOAD_MB;
+
+  afterEach(() => {
+    if (original === undefined) delete process.env.PLANNOTATOR_MAX_UPLOAD_MB;
+    else process.env.PLANNOTATOR_MAX_UPLOAD_MB = original;
+  });
+
+  test("rejects files over the limit", async () => {
+    process.env.PLANNOTATOR_MAX_UPLOAD_MB = "0.01";
+    const large = new Uint8Array(getMaxUploadBytes() + 1);
+    large.set(PNG);
+    const res = await handleUploadRequest(uploadRequest(new Blob([large]), "large.png"), store());
+    expect(res.status).toBe(413);
+  });
+
+  test("rejects an oversized declared length before reading the body", async () => {
+    let read = false;
+    const body = new ReadableStream({
+      pull(controller) {
+        read = true;
+        controller.close();
+      },
+    }, { highWaterMark: 0 });
+    const req = new Request("http://localhost/api/upload", {
+      method: "POST",
+      headers: { "Content-Length": String(1024 * 1024 * 1024), "Content-Type": "multipart/form-data; boundary=x" },
+      body,
+    });
+    expect((await handleUploadRequest(req, store())).status).toBe(413);
+    expect(read).toBe(false);
+  });
+
+  test("stops reading a streamed body once it passes the limit", async () => {
+    process.env.PLANNOTATOR_MAX_UPLOAD_MB = "0.01";
+    let chunks = 0;
+    // Would never end on its own
+    const body = new ReadableStream({
+      pull(controller) {
+        chunks++;
+        controller.enqueue(new Uint8Array(16 * 1024));
+      },
+    });
+    const req = new Request("http://localhost/api/upload", {
+      method: "POST",
+      headers: { "Content-Type": "multipart/form-data; boundary=x" },
+      body,
+    });
+    expect((await handleUploadRequest(req, store())).status).toBe(413);
+    expect(chunks).toBeLessThan(10);
+  });
+});
+
+describe("sweepStaleUploads", () => {
+  test("removes stale session dirs, keeping retained files", () => {
+    const stale = testDir();
+    const retained = testDir();
+    writeFileSync(join(stale, "a.png"), PNG);
+    writeFileSync(join(retained, "keep.png"), PNG);
+    writeFileSync(join(retained, "drop.png"), PNG);
+    writeFileSync(join(retained, ".retain"), JSON.stringify(["keep.png"]));
+    makeOld(stale);
+    makeOld(retained);
+
+    sweepStaleUploads();
+
+    expect(existsSync(stale)).toBe(false);
+    expect(readdirSync(retained).sort()).toEqual([".retain", "keep.png"]);
+  });
+
+  test("leaves recent dirs alone", () => {
+    const recent = testDir();
+    writeFileSync(join(recent, "a.png"), PNG);
+
+    sweepStaleUploads();
+
+    expect(existsSync(join(recent, "a.png"))).toBe(true);
+    makeOld(recent);
+    sweepStaleUploads();
+    expect(existsSync(recent)).toBe(false);
+  });
+
+  test("skips dirs of sessions that are still running", async () => {
+    const uploads = store();
+    testDirs.push(uploads.dir);
+    const res = await handleUploadRequest(uploadRequest(new Blob([PNG]), "shot.png"), uploads);
+    const { path } = (await res.json()) as { path: string };
+    makeOld(uploads.dir);
+
+    sweepStaleUploads();
+    expect(existsSync(path)).toBe(true);
+
+    // Once the session ends its dir is fair game again
+    uploads.markReferenced(path);
+    uploads.cleanup();
+    expect(existsSync(path)).toBe(true);
+    makeOld(uploads.dir);
+    sweepStaleUploads();
+    expect(existsSync(uploads.dir)).toBe(false);
+  });
+});
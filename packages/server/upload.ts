@@ -0,0 +1,283 @@
+/**
+ * Image uploads
+ *
+ * /api/upload accepts images only: the content is sniffed (the browser's
+ * filename and MIME type are ignored), the size is capped while the body is
+ * read (an oversized request is never buffered whole), and the file
+ * extension is derived from the sniffed type. Each session writes to its own
+ * directory under the upload root so it can be cleaned up as a unit.
+ *
+ * Cleanup:
+ * - When a session stops, uploads that no decision referenced are deleted.
+ *   Uploads referenced by the feedback stay so the agent can still read them.
+ * - On startup, session directories older than the TTL are swept, except
+ *   those of sessions still running in this process (the daemon keeps
+ *   sessions open for as long as the reviewer needs).
+ * - Uploads referenced by a saved plan snapshot are never swept.
+ *
+ * Environment variables:
+ *   PLANNOTATOR_MAX_UPLOAD_MB     - Largest accepted upload in MB (default: 10)
+ *   PLANNOTATOR_UPLOAD_TTL_HOURS  - Age after which upload dirs are swept (default: 24)
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, statSync, writeFileSync } from "fs";
+import { basename, join } from "path";
+import { sniffImageType, UPLOAD_ROOT } from "./image";
+import { getPlanDir } from "./storage";
+
+const DEFAULT_MAX_UPLOAD_MB = 10;
+const DEFAULT_UPLOAD_TTL_HOURS = 24;
+
+/** Records which files in a session dir are referenced by saved snapshots */
+const RETAIN_FILE = ".retain";
+
+// Room for multipart boundaries and part headers on top of the file itself
+const MULTIPART_OVERHEAD_BYTES = 64 * 1024;
+
+/** Dirs of this process's sessions that haven't been cleaned up yet */
+const liveDirs = new Set<string>();
+
+// SVG is left out on purpose: it can carry scripts
+const EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "image/bmp": "bmp",
+  "image/avif": "avif",
+  "image/x-icon": "ico",
+};
+
+export type UploadResult =
+  | { ok: true; path: string }
+  | { ok: false; status: number; reason: string };
+
+export interface UploadStore {
+  /** Directory this session's uploads are written to */
+  dir: string;
+  /** Validate and save an uploaded file */
+  save: (file: File) => Promise<UploadResult>;
+  /** Keep uploads referenced in text past session cleanup (until the TTL sweep) */
+  markReferenced: (text: string) => void;
+  /** Keep uploads referenced in text permanently (saved plan snapshots) */
+  retain: (text: string) => void;
+  /** Delete uploads nothing referenced; removes the dir if it ends up empty */
+  cleanup: () => void;
+}
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Get the upload size limit in bytes
+ */
+export function getMaxUploadBytes(): number {
+  return Math.floor(readNumberEnv("PLANNOTATOR_MAX_UPLOAD_MB", DEFAULT_MAX_UPLOAD_MB) * 1024 * 1024);
+}
+
+/**
+ * Get the age after which upload directories are swept, in ms
+ */
+export function getUploadTtlMs(): number {
+  return readNumberEnv("PLANNOTATOR_UPLOAD_TTL_HOURS", DEFAULT_UPLOAD_TTL_HOURS) * 60 * 60 * 1000;
+}
+
+/**
+ * Names of files in dir that are mentioned in text
+ */
+function findReferencedFiles(dir: string, text: string): string[] {
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir).filter(
+    (name) => name !== RETAIN_FILE && text.includes(join(dir, name))
+  );
+}
+
+function readRetained(dir: string): Set<string> {
+  try {
+    return new Set(JSON.parse(readFileSync(join(dir, RETAIN_FILE), "utf-8")) as string[]);
+  } catch {
+    return new Set();
+  }
+}
+
+/**
+ * Delete everything in dir except the given names, then the dir itself if
+ * nothing is left
+ */
+function pruneDir(dir: string, keep: Set<string>): void {
+  for (const name of readdirSync(dir)) {
+    if (name === RETAIN_FILE || keep.has(name)) continue;
+    rmSync(join(dir, name), { force: true, recursive: true });
+  }
+  if (keep.size === 0) {
+    rmSync(dir, { force: true, recursive: true });
+  }
+}
+
+/**
+ * Create the upload store for a session
+ */
+export function createUploadStore(): UploadStore {
+  const dir = join(UPLOAD_ROOT, crypto.randomUUID());
+  const referenced = new Set<string>();
+  liveDirs.add(dir);
+
+  async function save(file: File): Promise<UploadResult> {
+    const maxBytes = getMaxUploadBytes();
+    if (file.size > maxBytes) {
+      return {
+        ok: false,
+        status: 413,
+        reason: `Upload is too large (${file.size} bytes, limit ${maxBytes})`,
+      };
+    }
+
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const contentType = sniffImageType(bytes.subarray(0, 512));
+    const extension = contentType ? EXTENSIONS[contentType] : undefined;
+    if (!extension) {
+      return {
+        ok: false,
+        status: 415,
+        reason: `Only images can be uploaded (${Array.from(new Set(Object.values(EXTENSIONS))).join(", ")})`,
+      };
+    }
+
+    mkdirSync(dir, { recursive: true });
+    const path = join(dir, `${crypto.randomUUID()}.${extension}`);
+    await Bun.write(path, bytes);
+    return { ok: true, path };
+  }
+
+  function markReferenced(text: string): void {
+    for (const name of findReferencedFiles(dir, text)) referenced.add(name);
+  }
+
+  function retain(text: string): void {
+    const names = findReferencedFiles(dir, text);
+    if (names.length === 0) return;
+    const retained = readRetained(dir);
+    for (const name of names) {
+      retained.add(name);
+      referenced.add(name);
+    }
+    writeFileSync(join(dir, RETAIN_FILE), JSON.stringify(Array.from(retained)));
+  }
+
+  function cleanup(): void {
+    liveDirs.delete(dir);
+    if (!existsSync(dir)) return;
+    try {
+      pruneDir(dir, new Set([...referenced, ...readRetained(dir)]));
+    } catch (err) {
+      console.error(`[Upload] Cleanup of ${dir} failed:`, err);
+    }
+  }
+
+  return { dir, save, markReferenced, retain, cleanup };
+}
+
+/**
+ * Text of all saved plan snapshots in the default plan directory, used to
+ * keep loose uploads from before per-session directories existed
+ */
+function readSavedSnapshots(): string {
+  const planDir = getPlanDir();
+  try {
+    return readdirSync(planDir)
+      .filter((name) => name.endsWith(".md"))
+      .map((name) => readFileSync(join(planDir, name), "utf-8"))
+      .join("\n");
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * Remove upload directories (and loose legacy uploads) older than the TTL,
+ * keeping files referenced by saved plan snapshots and the directories of
+ * sessions that are still running
+ */
+export function sweepStaleUploads(ttlMs: number = getUploadTtlMs()): void {
+  if (!existsSync(UPLOAD_ROOT)) return;
+
+  const cutoff = Date.now() - ttlMs;
+  let snapshots: string | null = null;
+
+  for (const name of readdirSync(UPLOAD_ROOT)) {
+    const path = join(UPLOAD_ROOT, name);
+    if (liveDirs.has(path)) continue;
+    try {
+      const stats = statSync(path);
+      if (stats.mtimeMs > cutoff) continue;
+
+      if (stats.isDirectory()) {
+        pruneDir(path, readRetained(path));
+      } else if (stats.isFile()) {
+        snapshots ??= readSavedSnapshots();
+        if (!snapshots.includes(join(UPLOAD_ROOT, basename(path)))) {
+          rmSync(path, { force: true });
+        }
+      }
+    } catch (err) {
+      console.error(`[Upload] Failed to sweep ${path}:`, err);
+    }
+  }
+}
+
+/**
+ * Read a request body, giving up as soon as it passes limit bytes.
+ * Returns null when the body (or its declared length) is over the limit.
+ */
+async function readBodyUpTo(req: Request, limit: number): Promise<Blob | null> {
+  if (Number(req.headers.get("Content-Length")) > limit) return null;
+  if (!req.body) return new Blob([]);
+
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  const reader = req.body.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > limit) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return new Blob(chunks);
+}
+
+/**
+ * Handle POST /api/upload for a session
+ */
+export async function handleUploadRequest(req: Request, store: UploadStore): Promise<Response> {
+  try {
+    const maxBytes = getMaxUploadBytes();
+    const body = await readBodyUpTo(req, maxBytes + MULTIPART_OVERHEAD_BYTES);
+    if (!body) {
+      return Response.json({ error: `Upload is too large (limit ${maxBytes} bytes)` }, { status: 413 });
+    }
+
+    const formData = await new Response(body, {
+      headers: { "Content-Type": req.headers.get("Content-Type") ?? "" },
+    }).formData();
+    const file = formData.get("file");
+    if (!(file instanceof File)) {
+      return new Response("No file provided", { status: 400 });
+    }
+
+    const result = await store.save(file);
+    if (result.ok === false) {
+      return Response.json({ error: result.reason }, { status: result.status });
+    }
+    return Response.json({ path: result.path });
+  } catch (err) {
+    const message =
+      err instanceof Error ? err.message : "Upload failed";
+    return Response.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,209 @@
+import React, { useState } from 'react';
+import { AnnotationSeverity } from '../types';
+import {
+  SEVERITIES,
+  SEVERITY_LABELS,
+  SUGGESTED_TAGS,
+  LabelFilter,
+  EMPTY_LABEL_FILTER,
+  SeverityFilter,
+  collectTags,
+  isFilterActive,
+  parseTags,
+} from '../utils/labels';
+
+const SEVERITY_STYLES: Record<AnnotationSeverity, string> = {
+  blocking: 'text-destructive bg-destructive/10',
+  important: 'text-warning bg-warning/10',
+  nit: 'text-muted-foreground bg-muted',
+  question: 'text-accent bg-accent/10',
+};
+
+export const SeverityBadge: React.FC<{ severity: AnnotationSeverity }> = ({ severity }) => (
+  <span className={`px-1.5 py-0.5 rounded text-[10px] font-semibold uppercase tracking-wide ${SEVERITY_STYLES[severity]}`}>
+    {SEVERITY_LABELS[severity]}
+  </span>
+);
+
+interface AnnotationLabelsProps {
+  severity?: AnnotationSeverity;
+  tags?: string[];
+  /** Omit for a read-only view */
+  onChange?: (updates: { severity?: AnnotationSeverity; tags?: string[] }) => void;
+}
+
+/**
+ * Severity badge and tag chips on an annotation card, with an inline editor
+ */
+export const AnnotationLabels: React.FC<AnnotationLabelsProps> = ({ severity, tags = [], onChange }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [tagInput, setTagInput] = useState('');
+
+  const addTags = (input: string) => {
+    const added = parseTags(input).filter(tag => !tags.includes(tag));
+    if (added.length > 0) onChange?.({ tags: [...tags, ...added] });
+    setTagInput('');
+  };
+
+  const removeTag = (tag: string) => {
+    onChange?.({ tags: tags.filter(t => t !== tag) });
+  };
+
+  if (!onChange && !severity && tags.length === 0) return null;
+
+  return (
+    <div className="mt-2 space-y-1.5" onClick={(e: React.MouseEvent) => e.stopPropagation()}>
+      <div className="flex flex-wrap items-center gap-1">
+        {severity && <SeverityBadge severity={severity} />}
+        {tags.map(tag => (
+          <span key={tag} className="inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded bg-muted/70 text-[10px] font-mono text-muted-foreground">
+            #{tag}
+            {isEditing && (
+              <button
+                onClick={() => removeTag(tag)}
+                className="hover:text-destructive transition-colors"
+                title={`Remove #${tag}`}
+              >
+                ×
+              </button>
+            )}
+          </span>
+        ))}
+        {onChange && (
+          <button
+            onClick={() => setIsEditing(!isEditing)}
+            className="px-1 text-[10px] font-medium text-muted-foreground hover:text-foreground transition-colors"
+          >
+            {isEditing ? 'Done' : severity || tags.length > 0 ? 'Edit labels' : '+ Label'}
+          </button>
+        )}
+      </div>
+
+      {onChange && isEditing && (
+        <div className="space-y-1.5">
+          <div className="flex flex-wrap gap-1">
+            {SEVERITIES.map(level => (
+              <button
+                key={level}
+                onClick={() => onChange({ severity: severity === level ? undefined : level })}
+                className={`px-1.5 py-0.5 rounded text-[10px] font-medium transition-colors ${
+                  severity === level
+                    ? SEVERITY_STYLES[level]
+                    : 'text-muted-foreground hover:text-foreground hover:bg-muted/50'
+                }`}
+              >
+                {SEVERITY_LABELS[level]}
+              </button>
+            ))}
+          </div>
+          <input
+            type="text"
+            value={tagInput}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTagInput(e.target.value)}
+            onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => {
+              if (e.key === 'Enter' || e.key === ',') {
+                e.preventDefault();
+                addTags(tagInput);
+              } else if (e.key === 'Escape') {
+                e.preventDefault();
+                setIsEditing(false);
+              }
+            }}
+            onBlur={() => tagInput && addTags(tagInput)}
+            placeholder="Add tags, e.g. security, perf"
+            className="w-full text-xs bg-background border border-border rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-primary/50"
+          />
+          {SUGGESTED_TAGS.some(tag => !tags.includes(tag)) && (
+            <div className="flex flex-wrap gap-1">
+              {SUGGESTED_TAGS.filter(tag => !tags.includes(tag)).map(tag => (
+                <button
+                  key={tag}
+                  onClick={() => addTags(tag)}
+                  className="px-1.5 py-0.5 rounded text-[10px] font-mono text-muted-foreground hover:text-foreground hover:bg-muted/50 transition-colors"
+                >
+                  +#{tag}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface LabelFilterBarProps<G extends string> {
+  annotations: { severity?: AnnotationSeverity; tags?: string[] }[];
+  filter: LabelFilter;
+  onFilterChange: (filter: LabelFilter) => void;
+  grouping: G;
+  groupings: { id: G; label: string }[];
+  onGroupingChange: (grouping: G) => void;
+}
+
+const selectClassName =
+  'min-w-0 flex-1 px-1.5 py-1 bg-muted rounded text-[10px] text-foreground focus:outline-none focus:ring-1 focus:ring-primary/50 cursor-pointer';
+
+/**
+ * Severity/tag filters and the grouping selector for an annotation panel
+ */
+export function LabelFilterBar<G extends string>({
+  annotations,
+  filter,
+  onFilterChange,
+  grouping,
+  groupings,
+  onGroupingChange,
+}: LabelFilterBarProps<G>) {
+  const tags = collectTags(annotations);
+
+  return (
+    <div className="px-2 py-1.5 border-b border-border/30 flex items-center gap-1">
+      <select
+        value={filter.severity}
+        onChange={(e: React.ChangeEvent<HTMLSelectElement>) => onFilterChange({ ...filter, severity: e.target.value as SeverityFilter })}
+        className={selectClassName}
+        title="Filter by severity"
+      >
+        <option value="all">All severities</option>
+        {SEVERITIES.map(level => (
+          <option key={level} value={level}>{SEVERITY_LABELS[level]}</option>
+        ))}
+        <option value="none">No severity</option>
+      </select>
+      <select
+        value={filter.tag ?? ''}
+        onChange={(e: React.ChangeEvent<HTMLSelectElement>) => onFilterChange({ ...filter, tag: e.target.value || null })}
+        className={selectClassName}
+        title="Filter by tag"
+        disabled={tags.length === 0 && !filter.tag}
+      >
+        <option value="">All tags</option>
+        {tags.map(tag => (
+          <option key={tag} value={tag}>#{tag}</option>
+        ))}
+      </select>
+      <select
+        value={grouping}
+        onChange={(e: React.ChangeEvent<HTMLSelectElement>) => onGroupingChange(e.target.value as G)}
+        className={selectClassName}
+        title="Group by"
+      >
+        {groupings.map(option => (
+          <option key={option.id} value={option.id}>{option.label}</option>
+        ))}
+      </select>
+      {isFilterActive(filter) && (
+        <button
+          onClick={() => onFilterChange(EMPTY_LABEL_FILTER)}
+          className="p-1 rounded text-muted-foreground hover:text-foreground transition-colors"
+          title="Clear filters"
+        >
+          <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      )}
+    </div>
+  );
+}
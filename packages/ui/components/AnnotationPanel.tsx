@@ -2,6 +2,17 @@ import React, { useState, useRef, useEffect } from 'react';
 import { Annotation, AnnotationType, Block } from '../types';
 import { isCurrentUser } from '../utils/identity';
 import { ImageThumbnail } from './ImageThumbnail';
+import { AnnotationThread } from './AnnotationThread';
+import { AnnotationLabels, LabelFilterBar } from './AnnotationLabels';
+import { EMPTY_LABEL_FILTER, LabelFilter, LabelGrouping, groupByLabel, matchesLabelFilter } from '../utils/labels';
+
+type PanelGrouping = 'none' | LabelGrouping;
+
+const GROUPINGS: { id: PanelGrouping; label: string }[] = [
+  { id: 'none', label: 'No grouping' },
+  { id: 'severity', label: 'By severity' },
+  { id: 'tag', label: 'By tag' },
+];
 
 interface PanelProps {
   isOpen: boolean;
@@ -27,7 +38,11 @@ export const AnnotationPanel: React.FC<PanelProps> = ({
   sharingEnabled = true
 }) => {
   const [copied, setCopied] = useState(false);
+  const [filter, setFilter] = useState<LabelFilter>(EMPTY_LABEL_FILTER);
+  const [grouping, setGrouping] = useState<PanelGrouping>('none');
   const sortedAnnotations = [...annotations].sort((a, b) => a.createdA - b.createdA);
+  const visibleAnnotations = sortedAnnotations.filter(ann => matchesLabelFilter(ann, filter));
+  const resolvedCount = annotations.filter(ann => ann.resolved).length;
 
   const handleQuickShare = async () => {
     if (!shareUrl) return;
@@ -40,6 +55,17 @@ export const AnnotationPanel: React.FC<PanelProps> = ({
     }
   };
 
+  const renderCard = (ann: Annotation) => (
+    <AnnotationCard
+      key={ann.id}
+      annotation={ann}
+      isSelected={selectedId === ann.id}
+      onSelect={() => onSelect(ann.id)}
+      onDelete={() => onDelete(ann.id)}
+      onEdit={onEdit ? (updates: Partial<Annotation>) => onEdit(ann.id, updates) : undefined}
+    />
+  );
+
   if (!isOpen) return null;
 
   return (
@@ -50,12 +76,26 @@ export const AnnotationPanel: React.FC<PanelProps> = ({
           <h2 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
             Annotations
           </h2>
-          <span className="text-[10px] font-mono bg-muted px-1.5 py-0.5 rounded text-muted-foreground">
-            {annotations.length}
+          <span
+            className="text-[10px] font-mono bg-muted px-1.5 py-0.5 rounded text-muted-foreground"
+            title={resolvedCount > 0 ? `${resolvedCount} resolved` : undefined}
+          >
+            {resolvedCount > 0 ? `${annotations.length - resolvedCount}/${annotations.length}` : annotations.length}
           </span>
         </div>
       </div>
 
+      {annotations.length > 0 && (
+        <LabelFilterBar
+          annotations={annotations}
+          filter={filter}
+          onFilterChange={setFilter}
+          grouping={grouping}
+          groupings={GROUPINGS}
+          onGroupingChange={setGrouping}
+        />
+      )}
+
       {/* List */}
       <div className="flex-1 overflow-y-auto p-2 space-y-1.5">
         {sortedAnnotations.length === 0 ? (
@@ -69,16 +109,20 @@ export const AnnotationPanel: React.FC<PanelProps> = ({
               Select text to add annotations
             </p>
           </div>
+        ) : visibleAnnotations.length === 0 ? (
+          <p className="text-xs text-muted-foreground text-center py-6">
+            No annotations match the filters
+          </p>
+        ) : grouping === 'none' ? (
+          visibleAnnotations.map(renderCard)
         ) : (
-          sortedAnnotations.map(ann => (
-            <AnnotationCard
-              key={ann.id}
-              annotation={ann}
-              isSelected={selectedId === ann.id}
-              onSelect={() => onSelect(ann.id)}
-              onDelete={() => onDelete(ann.id)}
-              onEdit={onEdit ? (updates: Partial<Annotation>) => onEdit(ann.id, updates) : undefined}
-            />
+          groupByLabel(visibleAnnotations, grouping).map(group => (
+            <div key={group.key} className="space-y-1.5">
+              <div className="px-2 pt-1 text-[10px] font-semibold uppercase tracking-wider text-muted-foreground">
+                {group.label} <span className="font-mono font-normal">({group.items.length})</span>
+              </div>
+              {group.items.map(renderCard)}
+            </div>
           ))
         )}
       </div>
@@ -255,6 +299,7 @@ const AnnotationCard: React.FC<{
           ? 'bg-primary/5 border-primary/30 shadow-sm'
           : 'border-transparent hover:bg-muted/50 hover:border-border/50'
         }
+        ${annotation.resolved && !isSelected ? 'opacity-60' : ''}
       `}
     >
       {/* Author */}
@@ -281,6 +326,9 @@ const AnnotationCard: React.FC<{
           <span className="text-[10px] text-muted-foreground/50">
             {formatTimestamp(annotation.createdA)}
           </span>
+          {annotation.resolved && (
+            <span className="text-[10px] font-medium text-success">Resolved</span>
+          )}
         </div>
         <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-all">
           {onEdit && annotation.type !== AnnotationType.DELETION && !isEditing && (
@@ -346,6 +394,7 @@ const AnnotationCard: React.FC<{
         <>
           {/* Original Text */}
           <div className="text-[11px] font-mono text-muted-foreground bg-muted/50 rounded px-2 py-1.5 whitespace-pre-wrap max-h-24 overflow-y-auto">
+            {annotation.diagramAnchor && <span className="not-italic text-accent">Diagram {annotation.diagramAnchor.kind}: </span>}
             "{annotation.originalText}"
           </div>
 
@@ -404,6 +453,22 @@ const AnnotationCard: React.FC<{
           ))}
         </div>
       )}
+
+      {/* Severity + tags */}
+      <AnnotationLabels
+        severity={annotation.severity}
+        tags={annotation.tags}
+        onChange={onEdit}
+      />
+
+      {/* Replies + resolve */}
+      {onEdit && (
+        <AnnotationThread
+          replies={annotation.replies}
+          resolved={annotation.resolved}
+          onChange={onEdit}
+        />
+      )}
     </div>
   );
 };
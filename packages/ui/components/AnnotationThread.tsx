@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { AnnotationReply } from '../types';
+import { isCurrentUser } from '../utils/identity';
+import { createReply } from '../utils/threads';
+
+interface AnnotationThreadProps {
+  replies?: AnnotationReply[];
+  resolved?: boolean;
+  onChange: (updates: { replies?: AnnotationReply[]; resolved?: boolean }) => void;
+}
+
+/**
+ * Reply thread and resolve toggle shown under an annotation card.
+ * Used by the plan AnnotationPanel and the code ReviewPanel.
+ */
+export const AnnotationThread: React.FC<AnnotationThreadProps> = ({ replies = [], resolved = false, onChange }) => {
+  const [isReplying, setIsReplying] = useState(false);
+  const [replyText, setReplyText] = useState('');
+
+  const handleSubmit = () => {
+    const text = replyText.trim();
+    if (!text) return;
+    onChange({ replies: [...replies, createReply(text)] });
+    setReplyText('');
+    setIsReplying(false);
+  };
+
+  const handleDeleteReply = (id: string) => {
+    onChange({ replies: replies.filter(reply => reply.id !== id) });
+  };
+
+  return (
+    <div className="mt-2 space-y-1.5" onClick={(e: React.MouseEvent) => e.stopPropagation()}>
+      {replies.length > 0 && (
+        <div className="space-y-1.5 pl-2 border-l border-border">
+          {replies.map(reply => (
+            <div key={reply.id} className="group/reply text-xs">
+              <div className="flex items-center justify-between gap-1">
+                <span className={`text-[10px] font-mono truncate ${isCurrentUser(reply.author) ? 'text-muted-foreground/60' : 'text-muted-foreground'}`}>
+                  {reply.author || 'Anonymous'}{isCurrentUser(reply.author) && ' (me)'}
+                </span>
+                {isCurrentUser(reply.author) && (
+                  <button
+                    onClick={() => handleDeleteReply(reply.id)}
+                    className="p-0.5 rounded opacity-0 group-hover/reply:opacity-100 text-muted-foreground hover:text-destructive transition-all"
+                    title="Delete reply"
+                  >
+                    <svg className="w-2.5 h-2.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                )}
+              </div>
+              <div className="text-foreground/80 whitespace-pre-wrap">{reply.text}</div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {isReplying ? (
+        <div className="space-y-1.5">
+          <textarea
+            autoFocus
+            value={replyText}
+            onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setReplyText(e.target.value)}
+            onKeyDown={(e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+              if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+                e.preventDefault();
+                handleSubmit();
+              } else if (e.key === 'Escape') {
+                e.preventDefault();
+                setIsReplying(false);
+                setReplyText('');
+              }
+            }}
+            placeholder="Reply..."
+            className="w-full text-xs bg-background border border-border rounded px-2 py-1.5 resize-none focus:outline-none focus:ring-2 focus:ring-primary/50"
+            rows={Math.min(replyText.split('\n').length + 1, 6)}
+          />
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleSubmit}
+              disabled={!replyText.trim()}
+              className="px-2 py-1 text-[10px] font-medium rounded bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50 transition-colors"
+            >
+              Reply
+            </button>
+            <button
+              onClick={() => { setIsReplying(false); setReplyText(''); }}
+              className="px-2 py-1 text-[10px] font-medium rounded bg-muted text-muted-foreground hover:bg-muted/80 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex items-center gap-3 text-[10px] font-medium">
+          <button
+            onClick={() => setIsReplying(true)}
+            className="text-muted-foreground hover:text-foreground transition-colors"
+          >
+            Reply
+          </button>
+          <button
+            onClick={() => onChange({ resolved: !resolved })}
+            className={`transition-colors ${resolved ? 'text-success hover:text-foreground' : 'text-muted-foreground hover:text-success'}`}
+            title={resolved ? 'Reopen this thread' : 'Resolve this thread (it will not be sent to the agent)'}
+          >
+            {resolved ? 'Unresolve' : 'Resolve'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -20,6 +20,8 @@ interface AnnotationToolbarProps {
   onMouseEnter?: () => void;
   onMouseLeave?: () => void;
   onLockChange?: (locked: boolean) => void;
+  /** Skip the menu and go straight to the comment input (e.g. diagram nodes) */
+  commentOnly?: boolean;
 }
 
 export const AnnotationToolbar: React.FC<AnnotationToolbarProps> = ({
@@ -33,9 +35,12 @@ export const AnnotationToolbar: React.FC<AnnotationToolbarProps> = ({
   onMouseEnter,
   onMouseLeave,
   onLockChange,
+  commentOnly = false,
 }) => {
-  const [step, setStep] = useState<"menu" | "input">("menu");
-  const [activeType, setActiveType] = useState<AnnotationType | null>(null);
+  const initialStep = commentOnly ? "input" : "menu";
+  const initialType = commentOnly ? AnnotationType.COMMENT : null;
+  const [step, setStep] = useState<"menu" | "input">(initialStep);
+  const [activeType, setActiveType] = useState<AnnotationType | null>(initialType);
   const [inputValue, setInputValue] = useState("");
   const [imagePaths, setImagePaths] = useState<string[]>([]);
   const [position, setPosition] = useState<{ top: number; left?: number; right?: number } | null>(null);
@@ -61,8 +66,8 @@ export const AnnotationToolbar: React.FC<AnnotationToolbarProps> = ({
 
   // Reset state when element changes
   useEffect(() => {
-    setStep("menu");
-    setActiveType(null);
+    setStep(initialStep);
+    setActiveType(initialType);
     setInputValue("");
     setImagePaths([]);
     setCopied(false);
@@ -196,7 +201,10 @@ export const AnnotationToolbar: React.FC<AnnotationToolbarProps> = ({
             value={inputValue}
             onChange={(e) => setInputValue(e.target.value)}
             onKeyDown={(e) => {
-              if (e.key === "Escape") setStep("menu");
+              if (e.key === "Escape") {
+                if (commentOnly) onClose();
+                else setStep("menu");
+              }
               if (e.key === "Enter" && !e.shiftKey) {
                 e.preventDefault();
                 if (inputValue.trim() || imagePaths.length > 0) {
@@ -220,7 +228,7 @@ export const AnnotationToolbar: React.FC<AnnotationToolbarProps> = ({
           </button>
           <button
             type="button"
-            onClick={() => setStep("menu")}
+            onClick={() => (commentOnly ? onClose() : setStep("menu"))}
             className="p-1 rounded text-muted-foreground hover:text-foreground hover:bg-muted transition-colors"
           >
             <CloseIcon small />
@@ -2,6 +2,7 @@ import React, { useState, useRef, useEffect } from 'react';
 import { createPortal } from 'react-dom';
 import { ImageThumbnail, getImageSrc } from './ImageThumbnail';
 import { ImageAnnotator } from './ImageAnnotator';
+import { apiUrl } from '../utils/api';
 
 interface AttachmentsButtonProps {
   paths: string[];
@@ -19,6 +20,7 @@ export const AttachmentsButton: React.FC<AttachmentsButtonProps> = ({
   const [isOpen, setIsOpen] = useState(false);
   const [manualPath, setManualPath] = useState('');
   const [uploading, setUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
   const [dragOver, setDragOver] = useState(false);
   const buttonRef = useRef<HTMLButtonElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -59,6 +61,7 @@ export const AttachmentsButton: React.FC<AttachmentsButtonProps> = ({
 
   const handleAnnotatorAccept = async (blob: Blob, hasDrawings: boolean) => {
     setUploading(true);
+    setUploadError(null);
     try {
       const formData = new FormData();
       // Use annotated blob if drawings exist, otherwise original file
@@ -72,7 +75,7 @@ export const AttachmentsButton: React.FC<AttachmentsButtonProps> = ({
         formData.append('file', new File([blob], 'annotated.png', { type: 'image/png' }));
       }
 
-      const res = await fetch('/api/upload', { method: 'POST', body: formData });
+      const res = await fetch(apiUrl('/api/upload'), { method: 'POST', body: formData });
       const data = await res.json();
       if (data.path) {
         // If re-editing, remove old path first
@@ -80,9 +83,15 @@ export const AttachmentsButton: React.FC<AttachmentsButtonProps> = ({
           onRemove(editingPath);
         }
         onAdd(data.path);
+      } else {
+        // Reopen the popover so the rejection reason is visible
+        setUploadError(data.error || `Upload failed (${res.status})`);
+        setIsOpen(true);
       }
     } catch (err) {
       console.error('Upload failed:', err);
+      setUploadError('Upload failed');
+      setIsOpen(true);
     } finally {
       setUploading(false);
       // Cleanup
@@ -248,6 +257,9 @@ export const AttachmentsButton: React.FC<AttachmentsButtonProps> = ({
                   </>
                 )}
               </div>
+              {uploadError && (
+                <p className="text-[11px] text-destructive -mt-1">{uploadError}</p>
+              )}
               <input
                 ref={fileInputRef}
                 type="file"
@@ -0,0 +1,201 @@
+/**
+ * Diagram Block
+ *
+ * Renders ```mermaid fences in the browser and ```plantuml fences through
+ * the server's local PlantUML renderer. Nodes and edges are clickable so they
+ * can carry comments; annotated elements are outlined. A toggle switches
+ * back to the fence source.
+ *
+ * Mermaid is several megabytes, too much to inline into every plan page, so
+ * the server serves its standalone build and it's loaded on the first
+ * mermaid fence.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Annotation, Block, DiagramAnchor } from '../types';
+import { apiUrl } from '../utils/api';
+import { sanitizeSvg } from '../utils/sanitizeSvg';
+
+type DiagramKind = 'mermaid' | 'plantuml';
+
+const DIAGRAM_LANGUAGES: Record<string, DiagramKind> = {
+  mermaid: 'mermaid',
+  plantuml: 'plantuml',
+  puml: 'plantuml',
+};
+
+// Elements that represent a node or an edge label in mermaid/PlantUML SVGs
+const NODE_SELECTOR = '.node, .cluster, .actor, .classGroup, .entity, [id^="state-"]';
+const EDGE_SELECTOR = '.edgeLabel, .messageText, .link';
+
+export const getDiagramKind = (block: Block): DiagramKind | null =>
+  block.type === 'code' && block.language ? DIAGRAM_LANGUAGES[block.language.toLowerCase()] ?? null : null;
+
+const labelOf = (element: Element): string =>
+  (element.textContent || '').replace(/\s+/g, ' ').trim();
+
+/**
+ * Find the node or edge a click landed on
+ */
+const findTarget = (target: Element, root: Element, blockId: string): { element: Element; anchor: DiagramAnchor } | null => {
+  const edge = target.closest(EDGE_SELECTOR);
+  if (edge && root.contains(edge) && labelOf(edge)) {
+    return { element: edge, anchor: { kind: 'edge', label: labelOf(edge), blockId } };
+  }
+  const node = target.closest(NODE_SELECTOR);
+  if (node && root.contains(node) && labelOf(node)) {
+    return { element: node, anchor: { kind: 'node', label: labelOf(node), blockId } };
+  }
+  return null;
+};
+
+// The parts of mermaid's API used here
+interface Mermaid {
+  initialize: (config: Record<string, unknown>) => void;
+  render: (id: string, source: string) => Promise<{ svg: string }>;
+}
+
+let mermaidLoader: Promise<Mermaid> | null = null;
+
+// The standalone build defines a global `mermaid` once its script has run
+const loadMermaid = (): Promise<Mermaid> => {
+  mermaidLoader ??= new Promise<Mermaid>((resolve, reject) => {
+    const script = document.createElement('script');
+    script.src = apiUrl('/api/mermaid.js');
+    script.onload = () => {
+      const mermaid = (window as unknown as { mermaid?: Mermaid }).mermaid;
+      if (mermaid) resolve(mermaid);
+      else reject(new Error('Mermaid renderer did not load'));
+    };
+    script.onerror = () => reject(new Error('Mermaid renderer is not available'));
+    document.head.appendChild(script);
+  }).catch(err => {
+    // Let the next diagram try again
+    mermaidLoader = null;
+    throw err;
+  });
+  return mermaidLoader;
+};
+
+let mermaidCounter = 0;
+
+const renderMermaid = async (source: string): Promise<string> => {
+  const mermaid = await loadMermaid();
+  mermaid.initialize({
+    startOnLoad: false,
+    securityLevel: 'strict',
+    theme: document.documentElement.classList.contains('light') ? 'default' : 'dark',
+  });
+  const { svg } = await mermaid.render(`mermaid-diagram-${mermaidCounter++}`, source);
+  return svg;
+};
+
+const renderPlantUml = async (source: string): Promise<string> => {
+  const res = await fetch(apiUrl('/api/plantuml'), { method: 'POST', body: source });
+  if (!res.ok) {
+    throw new Error(await res.text());
+  }
+  return sanitizeSvg(await res.text());
+};
+
+interface DiagramBlockProps {
+  block: Block;
+  kind: DiagramKind;
+  /** Diagram annotations attached to this block */
+  annotations: Annotation[];
+  selectedAnnotationId: string | null;
+  onSelectAnnotation: (id: string | null) => void;
+  /** Called when a node or edge without an annotation is clicked */
+  onTargetClick: (element: HTMLElement, anchor: DiagramAnchor) => void;
+  /** Rendered in place of the diagram when showing source */
+  sourceView: React.ReactNode;
+}
+
+export const DiagramBlock: React.FC<DiagramBlockProps> = ({
+  block,
+  kind,
+  annotations,
+  selectedAnnotationId,
+  onSelectAnnotation,
+  onTargetClick,
+  sourceView,
+}) => {
+  const [svg, setSvg] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [showSource, setShowSource] = useState(false);
+  const diagramRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSvg(null);
+    setError(null);
+
+    (kind === 'mermaid' ? renderMermaid(block.content) : renderPlantUml(block.content))
+      .then(result => { if (!cancelled) setSvg(result); })
+      .catch(err => { if (!cancelled) setError(err instanceof Error ? err.message : String(err)); });
+
+    return () => { cancelled = true; };
+  }, [block.content, kind]);
+
+  // Mark clickable and annotated elements after each render
+  useEffect(() => {
+    const root = diagramRef.current;
+    if (!root || !svg) return;
+
+    root.querySelectorAll(`${NODE_SELECTOR}, ${EDGE_SELECTOR}`).forEach(el => {
+      const label = labelOf(el);
+      el.classList.toggle('diagram-target', !!label);
+      const match = annotations.find(ann => ann.diagramAnchor?.label === label);
+      el.classList.toggle('diagram-annotated', !!match);
+      el.classList.toggle('diagram-selected', !!match && match.id === selectedAnnotationId);
+    });
+  }, [svg, annotations, selectedAnnotationId, showSource]);
+
+  const handleClick = (e: React.MouseEvent) => {
+    const root = diagramRef.current;
+    if (!root) return;
+    const hit = findTarget(e.target as Element, root, block.id);
+    if (!hit) return;
+
+    const existing = annotations.find(ann => ann.diagramAnchor?.label === hit.anchor.label);
+    if (existing) {
+      onSelectAnnotation(existing.id);
+    } else {
+      onTargetClick(hit.element as HTMLElement, hit.anchor);
+    }
+  };
+
+  return (
+    <div className="relative group my-5" data-block-id={block.id}>
+      <button
+        onClick={() => setShowSource(!showSource)}
+        className="absolute top-2 right-2 px-2 py-1 rounded-md bg-muted/80 hover:bg-muted text-xs text-muted-foreground hover:text-foreground opacity-0 group-hover:opacity-100 transition-opacity z-10"
+        title={showSource ? 'Show diagram' : 'Show source'}
+      >
+        {showSource ? 'Diagram' : 'Source'}
+      </button>
+
+      {showSource ? (
+        sourceView
+      ) : error ? (
+        <div>
+          <p className="text-xs text-destructive mb-2">
+            Could not render {kind === 'mermaid' ? 'Mermaid' : 'PlantUML'} diagram: {error}
+          </p>
+          {sourceView}
+        </div>
+      ) : svg ? (
+        <div
+          ref={diagramRef}
+          onClick={handleClick}
+          className="diagram flex justify-center overflow-x-auto rounded-lg border border-border/30 bg-muted/20 p-4 select-none"
+          dangerouslySetInnerHTML={{ __html: svg }}
+        />
+      ) : (
+        <div className="rounded-lg border border-border/30 bg-muted/20 p-4 text-xs text-muted-foreground">
+          Rendering diagram...
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import React from 'react';
+
+interface DraftBannerProps {
+  /** What was restored, e.g. "Restored 4 annotations from your last session" */
+  message: string;
+  /** Extra detail, e.g. how many annotations no longer match the content */
+  detail?: string;
+  /** Label of the discard button (default "Discard draft") */
+  discardLabel?: string;
+  onDiscard: () => void;
+  onDismiss: () => void;
+}
+
+/**
+ * Shown after saved annotations were restored, with a way to throw them away
+ */
+export const DraftBanner: React.FC<DraftBannerProps> = ({ message, detail, discardLabel = 'Discard draft', onDiscard, onDismiss }) => (
+  <div className="fixed bottom-4 left-4 z-50 max-w-sm animate-in slide-in-from-bottom-2 fade-in duration-300">
+    <div className="bg-card border border-border rounded-lg shadow-xl p-4">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <h4 className="text-sm font-medium text-foreground">{message}</h4>
+          {detail && <p className="text-xs text-muted-foreground mt-0.5">{detail}</p>}
+        </div>
+        <button
+          onClick={onDismiss}
+          className="text-muted-foreground hover:text-foreground transition-colors"
+          title="Keep draft"
+        >
+          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+      <div className="mt-3 flex items-center gap-2">
+        <button
+          onClick={onDismiss}
+          className="flex-1 px-3 py-1.5 text-xs font-medium bg-primary text-primary-foreground rounded-md hover:opacity-90 transition-opacity"
+        >
+          Keep
+        </button>
+        <button
+          onClick={onDiscard}
+          className="px-3 py-1.5 text-xs font-medium text-muted-foreground hover:text-destructive border border-border rounded-md hover:bg-muted transition-colors"
+        >
+          {discardLabel}
+        </button>
+      </div>
+    </div>
+  </div>
+);
@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import { apiUrl } from '../utils/api';
 
 /**
  * Get the display URL for an image path or URL
@@ -7,7 +8,7 @@ export const getImageSrc = (path: string): string => {
   if (path.startsWith('http://') || path.startsWith('https://')) {
     return path; // Remote URL, use directly
   }
-  return `/api/image?path=${encodeURIComponent(path)}`; // Local path, proxy through server
+  return apiUrl(`/api/image?path=${encodeURIComponent(path)}`); // Local path, proxy through server
 };
 
 interface ImageThumbnailProps {
@@ -34,8 +35,20 @@ export const ImageThumbnail: React.FC<ImageThumbnailProps> = ({
   className = '',
 }) => {
   const [error, setError] = useState(false);
+  const [errorReason, setErrorReason] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
 
+  // The server explains refused images (outside allowed dirs, too large, ...)
+  const handleError = () => {
+    setError(true);
+    setLoading(false);
+    if (path.startsWith('http://') || path.startsWith('https://')) return;
+    fetch(getImageSrc(path))
+      .then(res => (res.ok ? null : res.text()))
+      .then(reason => setErrorReason(reason))
+      .catch(() => {});
+  };
+
   const sizeClass = SIZES[size];
 
   return (
@@ -47,6 +60,7 @@ export const ImageThumbnail: React.FC<ImageThumbnailProps> = ({
       {error ? (
         <div
           className={`${sizeClass} rounded bg-muted flex items-center justify-center text-muted-foreground`}
+          title={errorReason || 'Image failed to load'}
         >
           <svg
             className="w-4 h-4"
@@ -69,10 +83,7 @@ export const ImageThumbnail: React.FC<ImageThumbnailProps> = ({
           loading="lazy"
           onClick={onClick}
           onLoad={() => setLoading(false)}
-          onError={() => {
-            setError(true);
-            setLoading(false);
-          }}
+          onError={handleError}
           className={`${sizeClass} rounded object-cover border border-border ${onClick ? 'cursor-pointer hover:opacity-80' : ''}`}
         />
       )}
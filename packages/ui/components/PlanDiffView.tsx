@@ -0,0 +1,169 @@
+/**
+ * Plan Diff View
+ *
+ * Shows what changed since the previous revision of the plan: added and
+ * removed blocks, plus the status of each piece of feedback from that round.
+ */
+
+import React, { useMemo } from 'react';
+import { Block } from '../types';
+import { parseMarkdownToBlocks } from '../utils/parser';
+import {
+  diffBlocks,
+  getPlanDiffStats,
+  assessPreviousFeedback,
+  type BlockChange,
+  type FeedbackItemStatus,
+  type PreviousFeedbackItem,
+} from '../utils/planDiff';
+
+export interface PreviousRevision {
+  plan: string;
+  feedback: string | null;
+  status: 'approved' | 'denied';
+  savedAt: string;
+}
+
+interface PlanDiffViewProps {
+  previous: PreviousRevision;
+  blocks: Block[];
+  markdown: string;
+}
+
+const changeStyles: Record<BlockChange, string> = {
+  unchanged: 'border-transparent opacity-60',
+  added: 'border-success bg-success/10',
+  removed: 'border-destructive bg-destructive/10 line-through decoration-destructive/60',
+};
+
+const statusConfig: Record<FeedbackItemStatus, { label: string; className: string }> = {
+  addressed: { label: 'Addressed', className: 'bg-success/15 text-success' },
+  open: { label: 'Still open', className: 'bg-accent/15 text-accent' },
+  unknown: { label: 'Check manually', className: 'bg-muted text-muted-foreground' },
+};
+
+const kindLabels: Record<PreviousFeedbackItem['kind'], string> = {
+  remove: 'Remove',
+  add: 'Add',
+  change: 'Change',
+  comment: 'Comment',
+  general: 'General',
+};
+
+const DiffBlock: React.FC<{ block: Block; change: BlockChange }> = ({ block, change }) => {
+  const marker = change === 'added' ? '+' : change === 'removed' ? '−' : '';
+
+  let content: React.ReactNode;
+  switch (block.type) {
+    case 'heading':
+      content = (
+        <div className={`font-semibold ${block.level === 1 ? 'text-xl' : block.level === 2 ? 'text-lg' : 'text-base'}`}>
+          {block.content}
+        </div>
+      );
+      break;
+    case 'code':
+      content = (
+        <pre className="text-xs font-mono whitespace-pre-wrap bg-muted/50 rounded p-2 overflow-x-auto">
+          {block.content}
+        </pre>
+      );
+      break;
+    case 'list-item':
+      content = (
+        <div style={{ paddingLeft: `${(block.level || 0) * 1.25}rem` }}>
+          {block.checked !== undefined ? (block.checked ? '☑ ' : '☐ ') : '• '}
+          {block.content}
+        </div>
+      );
+      break;
+    case 'blockquote':
+      content = <div className="border-l-2 border-border pl-3 italic text-muted-foreground">{block.content}</div>;
+      break;
+    case 'table':
+      content = <pre className="text-xs font-mono whitespace-pre-wrap">{block.content}</pre>;
+      break;
+    case 'hr':
+      content = <hr className="border-border" />;
+      break;
+    default:
+      content = <div>{block.content}</div>;
+  }
+
+  return (
+    <div className={`relative border-l-2 pl-4 pr-2 py-1 text-sm ${changeStyles[change]}`}>
+      {marker && (
+        <span className={`absolute left-1 top-1 text-xs font-mono ${change === 'added' ? 'text-success' : 'text-destructive'}`}>
+          {marker}
+        </span>
+      )}
+      {content}
+    </div>
+  );
+};
+
+export const PlanDiffView: React.FC<PlanDiffViewProps> = ({ previous, blocks, markdown }) => {
+  const entries = useMemo(
+    () => diffBlocks(parseMarkdownToBlocks(previous.plan), blocks),
+    [previous.plan, blocks]
+  );
+  const stats = useMemo(() => getPlanDiffStats(entries), [entries]);
+  const feedbackItems = useMemo(
+    () => (previous.feedback ? assessPreviousFeedback(previous.feedback, markdown) : []),
+    [previous.feedback, markdown]
+  );
+  const addressedCount = feedbackItems.filter(item => item.status === 'addressed').length;
+
+  return (
+    <div className="w-full max-w-[832px] 2xl:max-w-5xl bg-card border border-border/50 rounded-xl shadow-xl p-5 md:p-8 space-y-6">
+      {/* Summary */}
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h2 className="text-sm font-semibold">Changes since last revision</h2>
+          <p className="text-xs text-muted-foreground">
+            Previous revision was {previous.status} on {new Date(previous.savedAt).toLocaleString()}
+          </p>
+        </div>
+        <div className="flex items-center gap-2 text-xs font-mono">
+          <span className="px-1.5 py-0.5 rounded bg-success/15 text-success">+{stats.added}</span>
+          <span className="px-1.5 py-0.5 rounded bg-destructive/15 text-destructive">−{stats.removed}</span>
+        </div>
+      </div>
+
+      {/* Previous feedback */}
+      {feedbackItems.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+            Previous feedback ({addressedCount}/{feedbackItems.length} addressed)
+          </h3>
+          <ul className="space-y-1.5">
+            {feedbackItems.map(item => (
+              <li key={item.index} className="flex items-start gap-2 text-xs">
+                <span className={`shrink-0 px-1.5 py-0.5 rounded font-medium ${statusConfig[item.status].className}`}>
+                  {statusConfig[item.status].label}
+                </span>
+                <span className="shrink-0 text-muted-foreground">{kindLabels[item.kind]}</span>
+                <span className="min-w-0 truncate" title={item.text || item.quote}>
+                  {item.quote && <span className="italic">"{item.quote}"</span>}
+                  {item.quote && item.text && ' → '}
+                  {item.text}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Block diff */}
+      {stats.added === 0 && stats.removed === 0 ? (
+        <p className="text-sm text-muted-foreground">No changes to the plan content.</p>
+      ) : (
+        <div className="space-y-1">
+          {entries.map((entry, index) => (
+            <DiffBlock key={`${entry.change}-${entry.block.id}-${index}`} block={entry.block} change={entry.change} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
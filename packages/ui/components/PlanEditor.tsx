@@ -0,0 +1,52 @@
+import React, { useEffect, useRef } from 'react';
+
+interface PlanEditorProps {
+  /** The plan as submitted by the agent */
+  original: string;
+  /** The reviewer's edited markdown */
+  value: string;
+  onChange: (markdown: string) => void;
+}
+
+/**
+ * Edit mode: the plan markdown in a plain textarea, in place of the rendered
+ * plan. On submit the server diffs the edited text against the original.
+ */
+export const PlanEditor: React.FC<PlanEditorProps> = ({ original, value, onChange }) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const isEdited = value !== original;
+
+  // Grow with the content so the page scrolls, not the textarea
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    textarea.style.height = 'auto';
+    textarea.style.height = `${textarea.scrollHeight}px`;
+  }, [value]);
+
+  return (
+    <div className="w-full max-w-[832px] 2xl:max-w-5xl bg-card border border-border/50 rounded-xl shadow-xl relative">
+      <div className="flex items-center justify-between gap-2 px-4 py-2 border-b border-border/50">
+        <span className="text-xs text-muted-foreground">
+          {isEdited
+            ? 'Edited. The changes are sent to the agent as a diff with your feedback.'
+            : 'Edit the plan markdown directly.'}
+        </span>
+        <button
+          onClick={() => onChange(original)}
+          disabled={!isEdited}
+          className="px-2 py-1 rounded-md text-xs font-medium text-muted-foreground hover:text-foreground hover:bg-muted disabled:opacity-40 disabled:pointer-events-none transition-colors"
+        >
+          Discard edits
+        </button>
+      </div>
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => onChange(e.target.value)}
+        spellCheck
+        className="w-full min-h-[60vh] resize-none bg-transparent px-5 py-4 md:px-8 md:py-6 font-mono text-sm leading-relaxed text-foreground focus:outline-none"
+      />
+    </div>
+  );
+};
@@ -30,6 +30,13 @@ import {
   PERMISSION_MODE_OPTIONS,
   type PermissionMode,
 } from '../utils/permissionMode';
+import {
+  getGeneratedFilePatterns,
+  saveGeneratedFilePatterns,
+  parsePatterns,
+  DEFAULT_GENERATED_PATTERNS,
+} from '../utils/generatedFiles';
+import { apiUrl } from '../utils/api';
 
 interface SettingsProps {
   taterMode: boolean;
@@ -38,9 +45,11 @@ interface SettingsProps {
   origin?: 'claude-code' | 'opencode' | null;
   /** Mode determines which settings are shown. 'plan' shows all, 'review' shows only identity + agent switching */
   mode?: 'plan' | 'review';
+  /** Called when the review's collapsed file patterns change */
+  onGeneratedPatternsChange?: (patterns: string[]) => void;
 }
 
-export const Settings: React.FC<SettingsProps> = ({ taterMode, onTaterModeChange, onIdentityChange, origin, mode = 'plan' }) => {
+export const Settings: React.FC<SettingsProps> = ({ taterMode, onTaterModeChange, onIdentityChange, origin, mode = 'plan', onGeneratedPatternsChange }) => {
   const [showDialog, setShowDialog] = useState(false);
   const [identity, setIdentity] = useState('');
   const [obsidian, setObsidian] = useState<ObsidianSettings>({
@@ -54,6 +63,7 @@ export const Settings: React.FC<SettingsProps> = ({ taterMode, onTaterModeChange
   const [agent, setAgent] = useState<AgentSwitchSettings>({ switchTo: 'build' });
   const [planSave, setPlanSave] = useState<PlanSaveSettings>({ enabled: true, customPath: null });
   const [permissionMode, setPermissionMode] = useState<PermissionMode>('bypassPermissions');
+  const [generatedPatterns, setGeneratedPatterns] = useState('');
 
   useEffect(() => {
     if (showDialog) {
@@ -63,6 +73,7 @@ export const Settings: React.FC<SettingsProps> = ({ taterMode, onTaterModeChange
       setAgent(getAgentSwitchSettings());
       setPlanSave(getPlanSaveSettings());
       setPermissionMode(getPermissionModeSettings().mode);
+      setGeneratedPatterns(getGeneratedFilePatterns().join('\n'));
     }
   }, [showDialog]);
 
@@ -70,7 +81,7 @@ export const Settings: React.FC<SettingsProps> = ({ taterMode, onTaterModeChange
   useEffect(() => {
     if (obsidian.enabled && detectedVaults.length === 0 && !vaultsLoading) {
       setVaultsLoading(true);
-      fetch('/api/obsidian/vaults')
+      fetch(apiUrl('/api/obsidian/vaults'))
         .then(res => res.json())
         .then((data: { vaults: string[] }) => {
           setDetectedVaults(data.vaults || []);
@@ -113,6 +124,13 @@ export const Settings: React.FC<SettingsProps> = ({ taterMode, onTaterModeChange
     savePermissionModeSettings(mode);
   };
 
+  const handleGeneratedPatternsChange = (text: string) => {
+    setGeneratedPatterns(text);
+    const patterns = parsePatterns(text);
+    saveGeneratedFilePatterns(patterns);
+    onGeneratedPatternsChange?.(patterns);
+  };
+
   const handleRegenerateIdentity = () => {
     const oldIdentity = identity;
     const newIdentity = regenerateIdentity();
@@ -226,6 +244,41 @@ export const Settings: React.FC<SettingsProps> = ({ taterMode, onTaterModeChange
                 </>
               )}
 
+              {mode === 'review' && (
+                <>
+                  <div className="border-t border-border" />
+
+                  {/* Collapsed Files */}
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <div className="text-sm font-medium">Collapsed Files</div>
+                        <div className="text-xs text-muted-foreground">
+                          Generated files to collapse in reviews, one glob per line
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => handleGeneratedPatternsChange(DEFAULT_GENERATED_PATTERNS.join('\n'))}
+                        className="text-xs text-muted-foreground hover:text-foreground transition-colors"
+                      >
+                        Reset
+                      </button>
+                    </div>
+                    <textarea
+                      value={generatedPatterns}
+                      onChange={(e) => handleGeneratedPatternsChange(e.target.value)}
+                      rows={5}
+                      spellCheck={false}
+                      placeholder="*.lock"
+                      className="w-full px-3 py-2 bg-muted rounded-lg text-xs font-mono resize-y placeholder:text-muted-foreground/50 focus:outline-none focus:ring-1 focus:ring-primary/50"
+                    />
+                    <div className="text-[10px] text-muted-foreground/70">
+                      Patterns without a slash match in any directory; ** matches across directories
+                    </div>
+                  </div>
+                </>
+              )}
+
               {origin === 'opencode' && (
                 <>
                   <div className="border-t border-border" />
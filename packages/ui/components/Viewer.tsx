@@ -2,11 +2,12 @@ import React, { useRef, useState, useEffect, forwardRef, useImperativeHandle, us
 import Highlighter from 'web-highlighter';
 import hljs from 'highlight.js';
 import 'highlight.js/styles/github-dark.css';
-import { Block, Annotation, AnnotationType, EditorMode } from '../types';
+import { Block, Annotation, AnnotationType, DiagramAnchor, EditorMode } from '../types';
 import { Frontmatter } from '../utils/parser';
 import { AnnotationToolbar } from './AnnotationToolbar';
 import { TaterSpriteSitting } from './TaterSpriteSitting';
 import { AttachmentsButton } from './AttachmentsButton';
+import { DiagramBlock, getDiagramKind } from './DiagramBlock';
 import { getIdentity } from '../utils/identity';
 
 interface ViewerProps {
@@ -126,6 +127,7 @@ export const Viewer = forwardRef<ViewerHandle, ViewerProps>(({
   const [hoveredCodeBlock, setHoveredCodeBlock] = useState<{ block: Block; element: HTMLElement } | null>(null);
   const [isCodeBlockToolbarExiting, setIsCodeBlockToolbarExiting] = useState(false);
   const [isCodeBlockToolbarLocked, setIsCodeBlockToolbarLocked] = useState(false);
+  const [diagramTarget, setDiagramTarget] = useState<{ block: Block; element: HTMLElement; anchor: DiagramAnchor } | null>(null);
   const hoverTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
   // Keep refs in sync with props
@@ -301,6 +303,9 @@ export const Viewer = forwardRef<ViewerHandle, ViewerProps>(({
       if (!highlighter || !containerRef.current) return;
 
       sharedAnnotations.forEach(ann => {
+        // Diagram comments are shown by the diagram itself, not as text highlights
+        if (ann.diagramAnchor) return;
+
         // Skip if already highlighted
         const existingDoms = highlighter.getDoms(ann.id);
         if (existingDoms && existingDoms.length > 0) return;
@@ -553,6 +558,79 @@ export const Viewer = forwardRef<ViewerHandle, ViewerProps>(({
     setIsCodeBlockToolbarLocked(false);
   };
 
+  const handleDiagramAnnotate = (type: AnnotationType, text?: string, imagePaths?: string[]) => {
+    if (!diagramTarget) return;
+
+    const { block, anchor } = diagramTarget;
+    const newAnnotation: Annotation = {
+      id: `diagram-${Date.now()}`,
+      blockId: block.id,
+      startOffset: 0,
+      endOffset: anchor.label.length,
+      type,
+      text,
+      originalText: anchor.label,
+      createdA: Date.now(),
+      author: getIdentity(),
+      imagePaths,
+      diagramAnchor: anchor,
+    };
+
+    onAddAnnotationRef.current(newAnnotation);
+    setDiagramTarget(null);
+  };
+
+  const renderCodeBlock = (block: Block) => (
+    <CodeBlock
+      key={block.id}
+      block={block}
+      onHover={(element) => {
+        // Clear any pending leave timeout
+        if (hoverTimeoutRef.current) {
+          clearTimeout(hoverTimeoutRef.current);
+          hoverTimeoutRef.current = null;
+        }
+        // Cancel exit animation if re-entering
+        setIsCodeBlockToolbarExiting(false);
+        // Only show hover toolbar if no selection toolbar is active
+        if (!toolbarState) {
+          setHoveredCodeBlock({ block, element });
+        }
+      }}
+      onLeave={() => {
+        // Delay then start exit animation
+        hoverTimeoutRef.current = setTimeout(() => {
+          setIsCodeBlockToolbarExiting(true);
+          // After exit animation, unmount
+          setTimeout(() => {
+            setHoveredCodeBlock(null);
+            setIsCodeBlockToolbarExiting(false);
+          }, 150);
+        }, 100);
+      }}
+      isHovered={hoveredCodeBlock?.block.id === block.id}
+    />
+  );
+
+  const renderBlock = (block: Block) => {
+    const diagramKind = getDiagramKind(block);
+    if (diagramKind) {
+      return (
+        <DiagramBlock
+          key={block.id}
+          block={block}
+          kind={diagramKind}
+          annotations={annotations.filter(ann => ann.diagramAnchor?.blockId === block.id)}
+          selectedAnnotationId={selectedAnnotationId}
+          onSelectAnnotation={onSelectAnnotation}
+          onTargetClick={(element, anchor) => setDiagramTarget({ block, element, anchor })}
+          sourceView={renderCodeBlock(block)}
+        />
+      );
+    }
+    return block.type === 'code' ? renderCodeBlock(block) : <BlockRenderer key={block.id} block={block} />;
+  };
+
   return (
     <div className="relative z-50 w-full max-w-[832px] 2xl:max-w-5xl">
       {taterMode && <TaterSpriteSitting />}
@@ -660,41 +738,7 @@ export const Viewer = forwardRef<ViewerHandle, ViewerProps>(({
           </button>
         </div>
         {frontmatter && <FrontmatterCard frontmatter={frontmatter} />}
-        {blocks.map(block => (
-          block.type === 'code' ? (
-            <CodeBlock
-              key={block.id}
-              block={block}
-              onHover={(element) => {
-                // Clear any pending leave timeout
-                if (hoverTimeoutRef.current) {
-                  clearTimeout(hoverTimeoutRef.current);
-                  hoverTimeoutRef.current = null;
-                }
-                // Cancel exit animation if re-entering
-                setIsCodeBlockToolbarExiting(false);
-                // Only show hover toolbar if no selection toolbar is active
-                if (!toolbarState) {
-                  setHoveredCodeBlock({ block, element });
-                }
-              }}
-              onLeave={() => {
-                // Delay then start exit animation
-                hoverTimeoutRef.current = setTimeout(() => {
-                  setIsCodeBlockToolbarExiting(true);
-                  // After exit animation, unmount
-                  setTimeout(() => {
-                    setHoveredCodeBlock(null);
-                    setIsCodeBlockToolbarExiting(false);
-                  }, 150);
-                }, 100);
-              }}
-              isHovered={hoveredCodeBlock?.block.id === block.id}
-            />
-          ) : (
-            <BlockRenderer key={block.id} block={block} />
-          )
-        ))}
+        {blocks.map(renderBlock)}
 
         {/* Text selection toolbar */}
         {toolbarState && (
@@ -708,6 +752,17 @@ export const Viewer = forwardRef<ViewerHandle, ViewerProps>(({
           />
         )}
 
+        {/* Diagram node/edge comment toolbar */}
+        {diagramTarget && !toolbarState && (
+          <AnnotationToolbar
+            element={diagramTarget.element}
+            positionMode="center-above"
+            onAnnotate={handleDiagramAnnotate}
+            onClose={() => setDiagramTarget(null)}
+            commentOnly
+          />
+        )}
+
         {/* Code block hover toolbar */}
         {hoveredCodeBlock && !toolbarState && (
           <AnnotationToolbar
@@ -937,6 +992,8 @@ const BlockRenderer: React.FC<{ block: Block }> = ({ block }) => {
         <p
           className="mb-4 leading-relaxed text-foreground/90 text-[15px]"
           data-block-id={block.id}
+          // Continuation paragraphs of list items line up with the item text
+          style={block.level ? { marginLeft: `${block.level * 1.25}rem` } : undefined}
         >
           <InlineMarkdown text={block.content} />
         </p>
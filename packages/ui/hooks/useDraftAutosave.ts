@@ -0,0 +1,39 @@
+import { useEffect, useRef } from 'react';
+import { Draft, discardDraft, saveDraft } from '../utils/drafts';
+
+/**
+ * Autosave a review draft to the server shortly after it changes, and once
+ * more when the page is closed. Pass null to pause saving (e.g. before the
+ * saved draft has been restored, or after the review was submitted). An empty
+ * draft deletes the saved one.
+ */
+export function useDraftAutosave(draft: Draft | null, isEmpty: boolean, delayMs = 1000): void {
+  // The change not yet written to the server, if any
+  const pendingRef = useRef<{ draft: Draft; isEmpty: boolean } | null>(null);
+
+  const flush = (keepalive: boolean) => {
+    const pending = pendingRef.current;
+    if (!pending) return;
+    pendingRef.current = null;
+    const request = pending.isEmpty ? discardDraft(keepalive) : saveDraft(pending.draft, keepalive);
+    request.catch((err) => console.error('Failed to save draft:', err));
+  };
+
+  useEffect(() => {
+    if (!draft) {
+      pendingRef.current = null;
+      return;
+    }
+    pendingRef.current = { draft, isEmpty };
+    const timer = setTimeout(() => flush(false), delayMs);
+    return () => clearTimeout(timer);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [draft, isEmpty, delayMs]);
+
+  useEffect(() => {
+    const handlePageHide = () => flush(true);
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+}
@@ -73,7 +73,7 @@ export function useSharing(
         setMarkdown(payload.p);
 
         // Convert shareable annotations to full annotations
-        const restoredAnnotations = fromShareable(payload.a);
+        const restoredAnnotations = fromShareable(payload.a, payload.t);
         setAnnotations(restoredAnnotations);
 
         // Restore global attachments if present
@@ -91,11 +91,11 @@ export function useSharing(
         onSharedLoad?.();
 
         // Clear the hash from URL to prevent re-loading on refresh
-        // but keep the state in memory
+        // but keep the state in memory (and the query, which carries the session token)
         window.history.replaceState(
           {},
           '',
-          window.location.pathname
+          window.location.pathname + window.location.search
         );
 
         return true;
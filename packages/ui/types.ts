@@ -6,7 +6,28 @@ export enum AnnotationType {
   GLOBAL_COMMENT = 'GLOBAL_COMMENT',
 }
 
-export type EditorMode = 'selection' | 'redline';
+export type EditorMode = 'selection' | 'redline' | 'edit';
+
+/**
+ * A diagram node or edge a comment is attached to, identified by the
+ * diagram's block and the element's label (labels repeat across diagrams)
+ */
+export interface DiagramAnchor {
+  kind: 'node' | 'edge';
+  label: string;
+  blockId: string;
+}
+
+/** How urgently an annotation needs to be addressed */
+export type AnnotationSeverity = 'blocking' | 'important' | 'nit' | 'question';
+
+/** A reply in an annotation's discussion thread */
+export interface AnnotationReply {
+  id: string;
+  text: string;
+  author?: string;
+  createdAt: number;
+}
 
 export interface Annotation {
   id: string;
@@ -19,6 +40,11 @@ export interface Annotation {
   createdA: number;
   author?: string; // Tater identity for collaborative sharing
   imagePaths?: string[]; // Attached images (local paths or URLs)
+  diagramAnchor?: DiagramAnchor; // Set for comments on a rendered diagram (originalText is the label)
+  replies?: AnnotationReply[]; // Discussion thread, oldest first
+  resolved?: boolean; // Resolved threads are not sent to the agent
+  severity?: AnnotationSeverity;
+  tags?: string[]; // Freeform categories, e.g. security, perf, testing
   // web-highlighter metadata for cross-element selections
   startMeta?: {
     parentTagName: string;
@@ -52,6 +78,13 @@ export interface DiffResult {
 // Code Review Types
 export type CodeAnnotationType = 'comment' | 'suggestion' | 'concern';
 
+/** Set on annotations carried forward from an earlier round of review feedback */
+export interface CarriedOver {
+  round: number; // The round the annotation was first sent in
+  status: 'still-open' | 'likely-addressed'; // likely-addressed: its code changed since
+  confirmed?: boolean; // The reviewer checked the status
+}
+
 export interface CodeAnnotation {
   id: string;
   type: CodeAnnotationType;
@@ -61,8 +94,16 @@ export interface CodeAnnotation {
   side: 'old' | 'new'; // Maps to 'deletions' | 'additions' in @pierre/diffs
   text?: string;
   suggestedCode?: string;
+  applied?: boolean; // suggestedCode was written to the working tree
+  anchorText?: string; // The lines in the range when the annotation was made
+  outdated?: boolean; // The lines changed since the annotation was made and couldn't be found
+  carriedOver?: CarriedOver;
   createdAt: number;
   author?: string;
+  replies?: AnnotationReply[]; // Discussion thread, oldest first
+  resolved?: boolean; // Resolved threads are not sent to the agent
+  severity?: AnnotationSeverity;
+  tags?: string[]; // Freeform categories, e.g. security, perf, testing
 }
 
 // For @pierre/diffs integration
@@ -71,7 +112,10 @@ export interface DiffAnnotationMetadata {
   type: CodeAnnotationType;
   text?: string;
   suggestedCode?: string;
+  applied?: boolean;
+  applyError?: string;
   author?: string;
+  severity?: AnnotationSeverity;
 }
 
 export interface SelectedLineRange {
@@ -80,3 +124,75 @@ export interface SelectedLineRange {
   side: 'deletions' | 'additions';
   endSide?: 'deletions' | 'additions';
 }
+
+// Structured Feedback Types
+// Machine-readable counterpart to the markdown feedback. Bump the version
+// whenever a field is removed or changes meaning.
+export const FEEDBACK_SCHEMA_VERSION = 1;
+
+export interface FeedbackReply {
+  text: string;
+  author?: string;
+  createdAt: string;
+}
+
+export interface PlanFeedbackAnnotation {
+  id: string;
+  type: AnnotationType;
+  anchorText: string; // The plan text the annotation is attached to
+  text?: string;
+  block: {
+    id: string;
+    type: Block['type'];
+    startLine: number; // 1-based line numbers in the full plan markdown
+    endLine: number;
+  } | null;
+  diagram?: DiagramAnchor; // For comments on a rendered diagram node or edge
+  severity?: AnnotationSeverity;
+  tags?: string[];
+  replies?: FeedbackReply[];
+  author?: string;
+  images: string[];
+  createdAt: string;
+}
+
+export interface PlanFeedbackDocument {
+  schema: 'plannotator/feedback';
+  version: typeof FEEDBACK_SCHEMA_VERSION;
+  kind: 'plan';
+  decision: 'approved' | 'denied';
+  createdAt: string;
+  annotations: PlanFeedbackAnnotation[];
+  images: string[]; // Global attachments
+  edits?: { diff: string }; // Set by the server when the reviewer edited the plan directly
+}
+
+export interface ReviewFeedbackAnnotation {
+  id: string;
+  type: CodeAnnotationType;
+  filePath: string;
+  side: 'old' | 'new';
+  lineStart: number;
+  lineEnd: number;
+  anchorText: string; // The diff lines the annotation is attached to
+  text?: string;
+  suggestedCode?: string;
+  applied?: boolean; // The reviewer already wrote suggestedCode to the file
+  carriedOver?: CarriedOver; // Sent in an earlier round and not yet resolved
+  severity?: AnnotationSeverity;
+  tags?: string[];
+  replies?: FeedbackReply[];
+  author?: string;
+  createdAt: string;
+}
+
+export interface ReviewFeedbackDocument {
+  schema: 'plannotator/feedback';
+  version: typeof FEEDBACK_SCHEMA_VERSION;
+  kind: 'review';
+  decision: 'approved' | 'changes-requested';
+  createdAt: string;
+  annotations: ReviewFeedbackAnnotation[];
+}
+
+export type FeedbackDocument = PlanFeedbackDocument | ReviewFeedbackDocument;
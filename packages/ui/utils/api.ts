@@ -0,0 +1,55 @@
+/**
+ * API URL helper
+ *
+ * The UI normally runs at the server root, but when served by the Plannotator
+ * daemon each session lives under /session/:id/ and its API routes are
+ * relative to that prefix.
+ *
+ * Servers also require a per-session token. It arrives in the page URL
+ * (?token=...) and is kept in sessionStorage so reloads keep working even if
+ * the query string is lost. It is sent as a query parameter so plain <img>
+ * requests are authorized too.
+ */
+
+const SESSION_PREFIX = /^\/session\/[^/]+/;
+const TOKEN_PARAM = 'token';
+const TOKEN_STORAGE_KEY = 'plannotator-token';
+
+/**
+ * Get the path prefix for API requests ('' when served at the root).
+ */
+export function getApiBase(): string {
+  if (typeof window === 'undefined') return '';
+  const match = window.location.pathname.match(SESSION_PREFIX);
+  return match ? match[0] : '';
+}
+
+/**
+ * Get the session auth token from the page URL or sessionStorage.
+ */
+export function getAuthToken(): string | null {
+  if (typeof window === 'undefined') return null;
+  const fromUrl = new URLSearchParams(window.location.search).get(TOKEN_PARAM);
+  try {
+    if (fromUrl) {
+      sessionStorage.setItem(TOKEN_STORAGE_KEY, fromUrl);
+      return fromUrl;
+    }
+    return sessionStorage.getItem(TOKEN_STORAGE_KEY);
+  } catch {
+    // sessionStorage unavailable (e.g. sandboxed iframe)
+    return fromUrl;
+  }
+}
+
+/**
+ * Resolve an API path (e.g. '/api/plan') for the current session,
+ * including the auth token when there is one.
+ */
+export function apiUrl(path: string): string {
+  const url = `${getApiBase()}${path}`;
+  const token = getAuthToken();
+  if (!token) return url;
+  const separator = url.includes('?') ? '&' : '?';
+  return `${url}${separator}${TOKEN_PARAM}=${encodeURIComponent(token)}`;
+}
@@ -0,0 +1,71 @@
+/**
+ * Code Anchor Tests
+ *
+ * Run: bun test packages/ui/utils/codeAnchors.test.ts
+ */
+
+import { describe, expect, test } from "bun:test";
+import { CodeAnnotation } from "../types";
+import { carryForwardAnnotation } from "./codeAnchors";
+
+function patch(lines: string[]): string {
+  return ["diff --git a/app.ts b/app.ts", "--- a/app.ts", "+++ b/app.ts", `@@ -1,${lines.length} +1,${lines.length} @@`, ...lines].join("\n");
+}
+
+const ROUND_1 = patch([
+  " import { db } from './db';",
+  " ",
+  "+export function load(id) {",
+  "+  return db.query(`SELECT * FROM t WHERE id = ${id}`);",
+  "+}",
+  " ",
+  " export default load;",
+]);
+
+function annotation(overrides: Partial<CodeAnnotation> = {}): CodeAnnotation {
+  return {
+    id: "c1",
+    type: "concern",
+    filePath: "app.ts",
+    lineStart: 4,
+    lineEnd: 4,
+    side: "new",
+    text: "SQL injection",
+    anchorText: "  return db.query(`SELECT * FROM t WHERE id = ${id}`);",
+    createdAt: 0,
+    ...overrides,
+  };
+}
+
+describe("carryForwardAnnotation", () => {
+  test("keeps annotations open when their lines are unchanged", () => {
+    const moved = ROUND_1.replace(" import { db }", "+// Loader\n import { db }");
+    const carried = carryForwardAnnotation(annotation(), 1, ROUND_1, moved);
+    expect(carried).toMatchObject({ lineStart: 5, lineEnd: 5, carriedOver: { round: 1, status: "still-open" } });
+  });
+
+  test("marks annotations likely addressed and places them where their lines were", () => {
+    const fixed = ROUND_1.replace(
+      "+  return db.query(`SELECT * FROM t WHERE id = ${id}`);",
+      "+  const sql = 'SELECT * FROM t WHERE id = ?';\n+  return db.query(sql, [id]);"
+    );
+    const carried = carryForwardAnnotation(annotation(), 1, ROUND_1, fixed);
+    expect(carried).toMatchObject({
+      lineStart: 4,
+      lineEnd: 5,
+      anchorText: "  const sql = 'SELECT * FROM t WHERE id = ?';\n  return db.query(sql, [id]);",
+      carriedOver: { round: 1, status: "likely-addressed" },
+    });
+    expect(carried.outdated).toBeUndefined();
+  });
+
+  test("marks annotations outdated when their file left the diff", () => {
+    const carried = carryForwardAnnotation(annotation(), 2, ROUND_1, undefined);
+    expect(carried).toMatchObject({ outdated: true, carriedOver: { round: 2, status: "likely-addressed" } });
+  });
+
+  test("keeps the round an annotation was first sent in", () => {
+    const carried = carryForwardAnnotation(annotation({ carriedOver: { round: 1, status: "still-open", confirmed: true } }), 2, ROUND_1, ROUND_1);
+    expect(carried.carriedOver).toEqual({ round: 1, status: "still-open" });
+  });
+});
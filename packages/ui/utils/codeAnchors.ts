@@ -0,0 +1,151 @@
+/**
+ * Code annotation anchors
+ *
+ * A code annotation points at a line range on one side of a file's diff and
+ * remembers the text of those lines (anchorText). When the diff changes, the
+ * annotation is moved to wherever that text is now.
+ */
+
+import { CodeAnnotation } from '../types';
+import { getPatchLines } from './diffParser';
+
+/**
+ * Lines on one side of a file patch, by line number. Only lines inside
+ * hunks are known.
+ */
+export function getPatchSideLines(patch: string, side: 'old' | 'new'): Map<number, string> {
+  const lines = new Map<number, string>();
+  for (const line of getPatchLines(patch)) {
+    const lineNumber = side === 'old' ? line.oldLine : line.newLine;
+    if (lineNumber !== undefined) lines.set(lineNumber, line.text);
+  }
+  return lines;
+}
+
+/**
+ * Find the first line of a block of text among known lines, preferring the
+ * match closest to where it used to be. Returns null if the text is gone.
+ */
+export function findAnchorLine(lines: Map<number, string>, anchorText: string, nearLine: number): number | null {
+  const expected = anchorText.split('\n');
+  let best: number | null = null;
+
+  for (const [lineNumber, text] of lines) {
+    if (text !== expected[0]) continue;
+    if (!expected.every((line, i) => lines.get(lineNumber + i) === line)) continue;
+    if (best === null || Math.abs(lineNumber - nearLine) < Math.abs(best - nearLine)) {
+      best = lineNumber;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Move an annotation onto a file's current patch. Returns the annotation at
+ * its new position, or null when its lines can no longer be found.
+ */
+export function reanchorCodeAnnotation(annotation: CodeAnnotation, patch: string): CodeAnnotation | null {
+  if (annotation.anchorText === undefined) return null;
+
+  const lines = getPatchSideLines(patch, annotation.side);
+  const lineStart = findAnchorLine(lines, annotation.anchorText, annotation.lineStart);
+  if (lineStart === null) return null;
+
+  const lineEnd = lineStart + (annotation.lineEnd - annotation.lineStart);
+  return lineStart === annotation.lineStart ? annotation : { ...annotation, lineStart, lineEnd };
+}
+
+/** The text of lines start..end, or null if any of them is unknown */
+function readRange(lines: Map<number, string>, start: number, end: number): string | null {
+  const result: string[] = [];
+  for (let line = start; line <= end; line++) {
+    const text = lines.get(line);
+    if (text === undefined) return null;
+    result.push(text);
+  }
+  return result.join('\n');
+}
+
+/** Up to two known lines ending at `end`, or null if there are none */
+function readContext(lines: Map<number, string>, end: number): { text: string; count: number } | null {
+  for (const count of [2, 1]) {
+    const text = readRange(lines, end - count + 1, end);
+    if (text !== null) return { text, count };
+  }
+  return null;
+}
+
+/**
+ * Carry an annotation from an earlier review round onto the current diff.
+ * If its lines are still there it stays open (an old-side annotation only if
+ * the whole file patch is unchanged, since fixes land on the new side). If
+ * they changed it is likely addressed, and is placed between the lines that
+ * surrounded it; when those are gone too it is marked outdated.
+ */
+export function carryForwardAnnotation(
+  annotation: CodeAnnotation,
+  round: number,
+  oldPatch: string | undefined,
+  newPatch: string | undefined
+): CodeAnnotation {
+  const fromRound = annotation.carriedOver?.round ?? round;
+  const likelyAddressed = { round: fromRound, status: 'likely-addressed' as const };
+  if (newPatch === undefined) {
+    return { ...annotation, outdated: true, carriedOver: likelyAddressed };
+  }
+
+  const oldLines = oldPatch !== undefined ? getPatchSideLines(oldPatch, annotation.side) : new Map<number, string>();
+  const newLines = getPatchSideLines(newPatch, annotation.side);
+  const span = annotation.lineEnd - annotation.lineStart;
+  const anchorText = annotation.anchorText ?? readRange(oldLines, annotation.lineStart, annotation.lineEnd);
+
+  if (anchorText !== null) {
+    const lineStart = findAnchorLine(newLines, anchorText, annotation.lineStart);
+    if (lineStart !== null) {
+      const stillOpen = annotation.side === 'new' || oldPatch === newPatch;
+      return {
+        ...annotation,
+        anchorText,
+        lineStart,
+        lineEnd: lineStart + span,
+        outdated: undefined,
+        carriedOver: stillOpen ? { round: fromRound, status: 'still-open' } : likelyAddressed,
+      };
+    }
+  }
+
+  // The lines changed: find the lines just before and after them
+  const before = readContext(oldLines, annotation.lineStart - 1);
+  const afterText = readRange(oldLines, annotation.lineEnd + 1, annotation.lineEnd + 2)
+    ?? readRange(oldLines, annotation.lineEnd + 1, annotation.lineEnd + 1);
+  const beforeMatch = before ? findAnchorLine(newLines, before.text, annotation.lineStart - before.count) : null;
+  const beforeLine = beforeMatch !== null ? beforeMatch + before!.count - 1 : null;
+  const afterLine = afterText !== null ? findAnchorLine(newLines, afterText, annotation.lineEnd + 1) : null;
+
+  let lineStart: number;
+  let lineEnd: number;
+  if (beforeLine !== null && afterLine !== null && afterLine > beforeLine + 1) {
+    lineStart = beforeLine + 1;
+    lineEnd = afterLine - 1;
+  } else if (beforeLine !== null) {
+    lineStart = lineEnd = newLines.has(beforeLine + 1) ? beforeLine + 1 : beforeLine;
+  } else if (afterLine !== null) {
+    lineStart = lineEnd = newLines.has(afterLine - 1) ? afterLine - 1 : afterLine;
+  } else {
+    return { ...annotation, outdated: true, carriedOver: likelyAddressed };
+  }
+
+  const newAnchorText = readRange(newLines, lineStart, lineEnd);
+  if (newAnchorText === null) {
+    return { ...annotation, outdated: true, carriedOver: likelyAddressed };
+  }
+  return {
+    ...annotation,
+    anchorText: newAnchorText,
+    lineStart,
+    lineEnd,
+    outdated: undefined,
+    carriedOver: likelyAddressed,
+  };
+}
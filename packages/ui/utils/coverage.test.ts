@@ -0,0 +1,78 @@
+/**
+ * Patch Coverage Tests
+ *
+ * Run: bun test packages/ui/utils/coverage.test.ts
+ */
+
+import { describe, expect, test } from "bun:test";
+import { parseDiffToFiles } from "./diffParser";
+import { getCoveragePercent, getDiffCoverage, isCoverageReport, parseCoverage, toLineRanges } from "./coverage";
+
+const FILES = parseDiffToFiles(
+  [
+    "diff --git a/src/math.ts b/src/math.ts",
+    "--- a/src/math.ts",
+    "+++ b/src/math.ts",
+    "@@ -1,2 +1,5 @@",
+    " export function add(a, b) {",
+    "+  if (a < 0) {",
+    "+    throw new Error('negative');",
+    "+  }",
+    "   return a + b;",
+    "",
+  ].join("\n")
+);
+
+const LCOV = [
+  "TN:",
+  "SF:/home/dev/project/src/math.ts",
+  "DA:1,4",
+  "DA:2,4",
+  "DA:3,0",
+  "DA:5,4",
+  "end_of_record",
+].join("\n");
+
+describe("parseCoverage", () => {
+  test("reads lcov", () => {
+    expect(isCoverageReport(LCOV)).toBe(true);
+    const report = parseCoverage(LCOV);
+    expect([...report.get("/home/dev/project/src/math.ts")!]).toEqual([[1, 4], [2, 4], [3, 0], [5, 4]]);
+  });
+
+  test("reads Istanbul JSON, taking the highest count per line", () => {
+    const json = JSON.stringify({
+      "/home/dev/project/src/math.ts": {
+        path: "/home/dev/project/src/math.ts",
+        statementMap: { "0": { start: { line: 2 } }, "1": { start: { line: 2 } }, "2": { start: { line: 3 } } },
+        s: { "0": 0, "1": 3, "2": 0 },
+      },
+    });
+    expect(isCoverageReport(json)).toBe(true);
+    expect([...parseCoverage(json).get("/home/dev/project/src/math.ts")!]).toEqual([[2, 3], [3, 0]]);
+  });
+
+  test("rejects diagnostics and other files", () => {
+    expect(isCoverageReport('[{"filePath": "a.ts", "messages": []}]')).toBe(false);
+    expect(() => parseCoverage("src/a.ts(1,1): error TS1005: ';' expected.")).toThrow("Unrecognized coverage format");
+  });
+});
+
+describe("getDiffCoverage", () => {
+  test("counts tracked added lines only", () => {
+    const coverage = getDiffCoverage(parseCoverage(LCOV), FILES);
+    expect(coverage).toEqual({ "src/math.ts": { covered: [2], uncovered: [3] } });
+    expect(getCoveragePercent(coverage["src/math.ts"])).toBe(50);
+    expect(getCoveragePercent({ covered: [], uncovered: [] })).toBeNull();
+  });
+});
+
+describe("toLineRanges", () => {
+  test("groups consecutive lines", () => {
+    expect(toLineRanges([3, 4, 5, 9, 11, 12])).toEqual([
+      { start: 3, end: 5 },
+      { start: 9, end: 9 },
+      { start: 11, end: 12 },
+    ]);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Patch Coverage
+ *
+ * Reads an lcov or Istanbul JSON (coverage-final.json) report and works out,
+ * for each file in the diff, which of the lines it adds ran under the tests.
+ * Lines the report doesn't track (blank lines, comments, types) count as
+ * neither covered nor uncovered.
+ */
+
+import { DiffFile, getPatchLines } from './diffParser';
+import { matchDiffFile } from './diagnostics';
+
+/** Execution count per line, by file path as the report gives it */
+export type CoverageReport = Map<string, Map<number, number>>;
+
+export interface FileCoverage {
+  /** Added lines that ran, in order */
+  covered: number[];
+  /** Added lines that never ran, in order */
+  uncovered: number[];
+}
+
+interface IstanbulFileCoverage {
+  path?: string;
+  statementMap: Record<string, { start: { line: number } }>;
+  s: Record<string, number>;
+}
+
+function isIstanbulReport(json: unknown): json is Record<string, IstanbulFileCoverage> {
+  if (!json || typeof json !== 'object' || Array.isArray(json)) return false;
+  const entries = Object.values(json);
+  return entries.length > 0 && entries.every(entry => entry && typeof entry === 'object' && 'statementMap' in entry && 's' in entry);
+}
+
+function parseJson(content: string): unknown {
+  try {
+    return JSON.parse(content);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Whether the content looks like a coverage report rather than diagnostics
+ */
+export function isCoverageReport(content: string): boolean {
+  return /^SF:/m.test(content) || isIstanbulReport(parseJson(content));
+}
+
+function parseLcov(content: string): CoverageReport {
+  const report: CoverageReport = new Map();
+  let lines: Map<number, number> | null = null;
+
+  for (const raw of content.split('\n')) {
+    const line = raw.trim();
+    if (line.startsWith('SF:')) {
+      const path = line.slice(3);
+      lines = report.get(path) ?? new Map();
+      report.set(path, lines);
+    } else if (line.startsWith('DA:') && lines) {
+      const [number, hits] = line.slice(3).split(',');
+      const lineNumber = parseInt(number, 10);
+      lines.set(lineNumber, Math.max(lines.get(lineNumber) ?? 0, parseInt(hits, 10) || 0));
+    } else if (line === 'end_of_record') {
+      lines = null;
+    }
+  }
+
+  return report;
+}
+
+// A line's count is the highest of the statements starting on it, as
+// Istanbul's own line coverage works it out
+function parseIstanbul(json: Record<string, IstanbulFileCoverage>): CoverageReport {
+  const report: CoverageReport = new Map();
+  for (const [key, file] of Object.entries(json)) {
+    const lines = new Map<number, number>();
+    for (const [id, statement] of Object.entries(file.statementMap)) {
+      const line = statement.start.line;
+      lines.set(line, Math.max(lines.get(line) ?? 0, file.s[id] ?? 0));
+    }
+    report.set(file.path ?? key, lines);
+  }
+  return report;
+}
+
+/**
+ * Parse an lcov or Istanbul JSON report, detecting the format from the content
+ */
+export function parseCoverage(content: string): CoverageReport {
+  const json = parseJson(content);
+  if (isIstanbulReport(json)) return parseIstanbul(json);
+  if (/^SF:/m.test(content)) return parseLcov(content);
+  throw new Error('Unrecognized coverage format; expected lcov or Istanbul JSON');
+}
+
+// New-side line numbers of the lines a file patch adds
+function getAddedLines(patch: string): number[] {
+  return getPatchLines(patch).flatMap(line => (line.marker === '+' ? [line.newLine!] : []));
+}
+
+/**
+ * Coverage of the added lines of each diff file the report knows about
+ */
+export function getDiffCoverage(report: CoverageReport, files: DiffFile[]): Record<string, FileCoverage> {
+  const result: Record<string, FileCoverage> = {};
+
+  for (const [reportedPath, lines] of report) {
+    const path = matchDiffFile(reportedPath, files);
+    const file = path ? files.find(f => f.path === path) : undefined;
+    if (!file || file.deferred || file.binary) continue;
+
+    const coverage: FileCoverage = { covered: [], uncovered: [] };
+    for (const line of getAddedLines(file.patch)) {
+      const hits = lines.get(line);
+      if (hits === undefined) continue;
+      (hits > 0 ? coverage.covered : coverage.uncovered).push(line);
+    }
+    result[file.path] = coverage;
+  }
+
+  return result;
+}
+
+/**
+ * Share of tracked added lines that ran, 0-100, or null when none are tracked
+ */
+export function getCoveragePercent(coverage: FileCoverage | undefined): number | null {
+  if (!coverage) return null;
+  const total = coverage.covered.length + coverage.uncovered.length;
+  return total === 0 ? null : Math.round((coverage.covered.length / total) * 100);
+}
+
+/**
+ * Group sorted line numbers into runs of consecutive lines
+ */
+export function toLineRanges(lines: number[]): { start: number; end: number }[] {
+  const ranges: { start: number; end: number }[] = [];
+  for (const line of lines) {
+    const last = ranges[ranges.length - 1];
+    if (last && line === last.end + 1) last.end = line;
+    else ranges.push({ start: line, end: line });
+  }
+  return ranges;
+}
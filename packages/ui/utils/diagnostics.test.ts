@@ -0,0 +1,121 @@
+/**
+ * Imported Diagnostics Tests
+ *
+ * Run: bun test packages/ui/utils/diagnostics.test.ts
+ */
+
+import { describe, expect, test } from "bun:test";
+import { parseDiffToFiles } from "./diffParser";
+import { findingsToAnnotations, matchDiffFile, parseDiagnostics } from "./diagnostics";
+
+const FILES = parseDiffToFiles(
+  [
+    "diff --git a/src/app.ts b/src/app.ts",
+    "--- a/src/app.ts",
+    "+++ b/src/app.ts",
+    "@@ -1,3 +1,4 @@",
+    " const a = 1;",
+    "-const b = 2;",
+    "+const b: string = 2;",
+    "+const c = a + b;",
+    " export { a };",
+    "",
+  ].join("\n")
+);
+
+describe("parseDiagnostics", () => {
+  test("reads SARIF", () => {
+    const sarif = JSON.stringify({
+      runs: [{
+        tool: { driver: { name: "CodeQL" } },
+        results: [{
+          ruleId: "js/unused-local-variable",
+          level: "note",
+          message: { text: "Unused variable c." },
+          locations: [{ physicalLocation: { artifactLocation: { uri: "src/app.ts" }, region: { startLine: 3 } } }],
+        }],
+      }],
+    });
+    expect(parseDiagnostics(sarif)).toEqual([{
+      tool: "codeql",
+      path: "src/app.ts",
+      line: 3,
+      endLine: undefined,
+      level: "note",
+      message: "Unused variable c.",
+      ruleId: "js/unused-local-variable",
+    }]);
+  });
+
+  test("keeps SARIF uris that aren't valid escapes as they are", () => {
+    const result = (uri: string) => ({
+      message: { text: "Finding" },
+      locations: [{ physicalLocation: { artifactLocation: { uri }, region: { startLine: 1 } } }],
+    });
+    const sarif = JSON.stringify({
+      runs: [{ tool: { driver: { name: "Semgrep" } }, results: [result("src/100%.ts"), result("file:///repo/src/my%20app.ts")] }],
+    });
+    expect(parseDiagnostics(sarif).map((finding) => finding.path)).toEqual(["src/100%.ts", "/repo/src/my app.ts"]);
+  });
+
+  test("reads ESLint JSON", () => {
+    const eslint = JSON.stringify([{
+      filePath: "/home/dev/project/src/app.ts",
+      messages: [{ ruleId: "prefer-const", severity: 2, message: "Use const.", line: 2, endLine: 2 }],
+    }]);
+    const [finding] = parseDiagnostics(eslint);
+    expect(finding).toMatchObject({ tool: "eslint", level: "error", line: 2, ruleId: "prefer-const" });
+  });
+
+  test("reads tsc output, joining continuation lines", () => {
+    const output = [
+      "src/app.ts(2,7): error TS2322: Type 'number' is not assignable to type 'string'.",
+      "  Some more detail.",
+      "Found 1 error.",
+    ].join("\n");
+    expect(parseDiagnostics(output)).toEqual([{
+      tool: "tsc",
+      path: "src/app.ts",
+      line: 2,
+      level: "error",
+      message: "Type 'number' is not assignable to type 'string'.\nSome more detail.",
+      ruleId: "TS2322",
+    }]);
+  });
+
+  test("rejects anything else", () => {
+    expect(() => parseDiagnostics('{"hello": "world"}')).toThrow("Unrecognized format");
+    expect(() => parseDiagnostics("just some text")).toThrow("Unrecognized format");
+  });
+});
+
+describe("matchDiffFile", () => {
+  test("matches absolute and subdirectory-relative paths", () => {
+    expect(matchDiffFile("/home/dev/project/src/app.ts", FILES)).toBe("src/app.ts");
+    expect(matchDiffFile("./app.ts", FILES)).toBe("src/app.ts");
+    expect(matchDiffFile("lib/app.ts", FILES)).toBeNull();
+  });
+});
+
+describe("findingsToAnnotations", () => {
+  test("keeps findings on added lines only, once each", () => {
+    const added = { tool: "tsc", path: "src/app.ts", line: 2, level: "error" as const, message: "Bad type", ruleId: "TS2322" };
+    const context = { ...added, line: 1 };
+    const otherFile = { ...added, path: "src/other.ts" };
+
+    const { annotations, skipped } = findingsToAnnotations([added, added, context, otherFile], FILES, 1000);
+    expect(skipped).toBe(2);
+    expect(annotations).toHaveLength(1);
+    expect(annotations[0]).toMatchObject({
+      type: "concern",
+      filePath: "src/app.ts",
+      lineStart: 2,
+      lineEnd: 2,
+      side: "new",
+      text: "Bad type (TS2322)",
+      author: "tsc",
+      severity: "important",
+      tags: ["tsc"],
+    });
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Imported Diagnostics
+ *
+ * Turns the output of linters, type checkers and other analyzers into code
+ * annotations, so their findings can be triaged in the review next to the
+ * reviewer's own comments. Reads SARIF, ESLint's JSON formatter and
+ * `tsc --pretty false` output.
+ *
+ * Only findings on lines the diff adds are kept: the rest were there before
+ * the change and aren't part of this review.
+ */
+
+import { AnnotationSeverity, CodeAnnotation } from '../types';
+import { DiffFile } from './diffParser';
+import { hashContent } from './drafts';
+import { normalizeTag } from './labels';
+import { findDiffLine } from './pullRequestExport';
+
+/** A diagnostics file as read from disk or dropped on the page */
+export interface DiagnosticsSource {
+  name: string;
+  content: string;
+}
+
+export interface DiagnosticFinding {
+  /** The tool that reported it, lowercased ("eslint", "tsc", SARIF driver name) */
+  tool: string;
+  /** As reported: absolute, or relative to wherever the tool ran */
+  path: string;
+  line: number;
+  endLine?: number;
+  level: 'error' | 'warning' | 'note';
+  message: string;
+  ruleId?: string;
+}
+
+const SEVERITY_BY_LEVEL: Record<DiagnosticFinding['level'], AnnotationSeverity | undefined> = {
+  error: 'important',
+  warning: 'nit',
+  note: undefined,
+};
+
+interface SarifLog {
+  runs?: {
+    tool?: { driver?: { name?: string } };
+    results?: {
+      ruleId?: string;
+      level?: string;
+      message?: { text?: string; markdown?: string };
+      locations?: {
+        physicalLocation?: {
+          artifactLocation?: { uri?: string };
+          region?: { startLine?: number; endLine?: number };
+        };
+      }[];
+    }[];
+  }[];
+}
+
+interface EslintFileResult {
+  filePath: string;
+  messages: { ruleId?: string | null; severity: number; message: string; line?: number; endLine?: number }[];
+}
+
+// SARIF uris are URI references, but tools don't always escape them
+function sarifUriToPath(uri: string): string {
+  const path = uri.replace(/^file:\/\//, '');
+  try {
+    return decodeURIComponent(path);
+  } catch {
+    return path;
+  }
+}
+
+function parseSarif(log: SarifLog): DiagnosticFinding[] {
+  return (log.runs ?? []).flatMap(run => {
+    const tool = (run.tool?.driver?.name || 'sarif').toLowerCase();
+    return (run.results ?? []).flatMap(result => {
+      const location = result.locations?.[0]?.physicalLocation;
+      const uri = location?.artifactLocation?.uri;
+      const line = location?.region?.startLine;
+      if (!uri || !line) return [];
+      return [{
+        tool,
+        path: sarifUriToPath(uri),
+        line,
+        endLine: location?.region?.endLine,
+        level: result.level === 'error' ? 'error' : result.level === 'note' || result.level === 'none' ? 'note' : 'warning',
+        message: result.message?.text ?? result.message?.markdown ?? '',
+        ...(result.ruleId && { ruleId: result.ruleId }),
+      } satisfies DiagnosticFinding];
+    });
+  });
+}
+
+function parseEslint(results: EslintFileResult[]): DiagnosticFinding[] {
+  return results.flatMap(result => result.messages.flatMap(message => {
+    if (!message.line) return [];
+    return [{
+      tool: 'eslint',
+      path: result.filePath,
+      line: message.line,
+      endLine: message.endLine,
+      level: message.severity === 2 ? 'error' : 'warning',
+      message: message.message,
+      ...(message.ruleId && { ruleId: message.ruleId }),
+    } satisfies DiagnosticFinding];
+  }));
+}
+
+// src/app.ts(12,5): error TS2345: Argument of type ...
+const TSC_LINE = /^(.+?)\((\d+),\d+\): (error|warning|message) (TS\d+): (.*)$/;
+
+function parseTsc(output: string): DiagnosticFinding[] {
+  const findings: DiagnosticFinding[] = [];
+  for (const line of output.split('\n')) {
+    const match = line.match(TSC_LINE);
+    if (match) {
+      findings.push({
+        tool: 'tsc',
+        path: match[1],
+        line: parseInt(match[2], 10),
+        level: match[3] === 'error' ? 'error' : match[3] === 'warning' ? 'warning' : 'note',
+        message: match[5],
+        ruleId: match[4],
+      });
+    } else if (/^\s+\S/.test(line) && findings.length > 0) {
+      // Indented lines continue the previous message
+      findings[findings.length - 1].message += `\n${line.trim()}`;
+    }
+  }
+  return findings;
+}
+
+/**
+ * Parse diagnostics, detecting the format from the content
+ */
+export function parseDiagnostics(content: string): DiagnosticFinding[] {
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch {
+    json = undefined;
+  }
+
+  if (json && typeof json === 'object' && Array.isArray((json as SarifLog).runs)) {
+    return parseSarif(json as SarifLog);
+  }
+  if (Array.isArray(json) && json.every(item => item && typeof item.filePath === 'string' && Array.isArray(item.messages))) {
+    return parseEslint(json as EslintFileResult[]);
+  }
+  if (json === undefined) {
+    const findings = parseTsc(content);
+    if (findings.length > 0 || content.trim() === '') return findings;
+  }
+  throw new Error('Unrecognized format; expected SARIF, ESLint JSON or tsc output');
+}
+
+/**
+ * Find the diff file a reported path refers to. Tools report absolute paths
+ * or paths relative to where they ran, while diff paths are relative to the
+ * repository root, so paths are compared by their trailing segments.
+ */
+export function matchDiffFile(reportedPath: string, files: { path: string }[]): string | null {
+  const path = reportedPath.replace(/\\/g, '/').replace(/^\.\//, '');
+  if (files.some(file => file.path === path)) return path;
+
+  // Absolute, or run from above the repository root
+  const containing = files
+    .filter(file => path.endsWith(`/${file.path}`))
+    .sort((a, b) => b.path.length - a.path.length);
+  if (containing.length > 0) return containing[0].path;
+
+  // Run from a subdirectory; only trusted when it's unambiguous
+  const contained = files.filter(file => file.path.endsWith(`/${path}`));
+  return contained.length === 1 ? contained[0].path : null;
+}
+
+// Whether a line of the new file was added by the diff
+function isAddedLine(patch: string, line: number): boolean {
+  const position = findDiffLine(patch, 'new', line);
+  return !!position && position.oldLine === undefined;
+}
+
+/**
+ * Convert findings to annotations on the lines the diff adds. Ids are derived
+ * from the finding, so importing the same output twice adds nothing new.
+ */
+export function findingsToAnnotations(
+  findings: DiagnosticFinding[],
+  files: DiffFile[],
+  now: number = Date.now()
+): { annotations: CodeAnnotation[]; skipped: number } {
+  const annotations: CodeAnnotation[] = [];
+  const seen = new Set<string>();
+  let skipped = 0;
+
+  for (const finding of findings) {
+    const filePath = matchDiffFile(finding.path, files);
+    const file = filePath ? files.find(f => f.path === filePath) : undefined;
+    if (!file || !isAddedLine(file.patch, finding.line)) {
+      skipped++;
+      continue;
+    }
+
+    const id = `diag-${hashContent([finding.tool, file.path, finding.line, finding.ruleId, finding.message].join('\0'))}`;
+    if (seen.has(id)) continue;
+    seen.add(id);
+
+    const endLine = finding.endLine && finding.endLine > finding.line && isAddedLine(file.patch, finding.endLine)
+      ? finding.endLine
+      : finding.line;
+    const severity = SEVERITY_BY_LEVEL[finding.level];
+    annotations.push({
+      id,
+      type: finding.level === 'error' ? 'concern' : 'comment',
+      filePath: file.path,
+      lineStart: finding.line,
+      lineEnd: endLine,
+      side: 'new',
+      text: finding.ruleId ? `${finding.message} (${finding.ruleId})` : finding.message,
+      createdAt: now,
+      author: finding.tool,
+      ...(severity && { severity }),
+      tags: [normalizeTag(finding.tool)],
+    });
+  }
+
+  return { annotations, skipped };
+}
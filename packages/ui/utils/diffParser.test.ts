@@ -0,0 +1,201 @@
+/**
+ * Git Diff Parser Tests
+ *
+ * Run: bun test packages/ui/utils/diffParser.test.ts
+ */
+
+import { describe, expect, test } from "bun:test";
+import { getPatchLines, parseDiffToFiles, splitFilePatch, unquoteGitPath } from "./diffParser";
+
+function parseOne(patch: string) {
+  const files = parseDiffToFiles(patch);
+  expect(files).toHaveLength(1);
+  return files[0];
+}
+
+describe("parseDiffToFiles", () => {
+  test("parses a modified file and counts only hunk lines", () => {
+    const file = parseOne([
+      "diff --git a/src/app.ts b/src/app.ts",
+      "index 1111111..2222222 100644",
+      "--- a/src/app.ts",
+      "+++ b/src/app.ts",
+      "@@ -1,2 +1,2 @@",
+      "--- a comment",
+      "+++ a comment",
+      " keep",
+    ].join("\n"));
+    expect(file).toMatchObject({ path: "src/app.ts", status: "modified", binary: false, additions: 1, deletions: 1 });
+    expect(file.oldPath).toBeUndefined();
+  });
+
+  test("parses added and deleted files", () => {
+    const [added, deleted] = parseDiffToFiles([
+      "diff --git a/new.ts b/new.ts",
+      "new file mode 100644",
+      "index 0000000..1111111",
+      "--- /dev/null",
+      "+++ b/new.ts",
+      "@@ -0,0 +1 @@",
+      "+hello",
+      "diff --git a/old.ts b/old.ts",
+      "deleted file mode 100755",
+      "index 1111111..0000000",
+      "--- a/old.ts",
+      "+++ /dev/null",
+      "@@ -1 +0,0 @@",
+      "-bye",
+    ].join("\n"));
+    expect(added).toMatchObject({ path: "new.ts", status: "added", newMode: "100644", additions: 1 });
+    expect(deleted).toMatchObject({ path: "old.ts", status: "deleted", oldMode: "100755", deletions: 1 });
+  });
+
+  test("parses renames with spaces in the path", () => {
+    const file = parseOne([
+      "diff --git a/docs/old name.md b/docs/new name.md",
+      "similarity index 90%",
+      "rename from docs/old name.md",
+      "rename to docs/new name.md",
+      "--- a/docs/old name.md\t",
+      "+++ b/docs/new name.md\t",
+      "@@ -1 +1 @@",
+      "-a",
+      "+b",
+    ].join("\n"));
+    expect(file).toMatchObject({
+      path: "docs/new name.md",
+      oldPath: "docs/old name.md",
+      status: "renamed",
+      similarity: 90,
+    });
+  });
+
+  test("parses copies", () => {
+    const file = parseOne([
+      "diff --git a/a.ts b/b.ts",
+      "similarity index 100%",
+      "copy from a.ts",
+      "copy to b.ts",
+    ].join("\n"));
+    expect(file).toMatchObject({ path: "b.ts", oldPath: "a.ts", status: "copied" });
+  });
+
+  test("parses mode-only changes to paths with spaces", () => {
+    const file = parseOne(["diff --git a/bin/run me.sh b/bin/run me.sh", "old mode 100644", "new mode 100755"].join("\n"));
+    expect(file).toMatchObject({ path: "bin/run me.sh", status: "mode-changed", oldMode: "100644", newMode: "100755" });
+  });
+
+  test("parses binary files", () => {
+    const [modified, added] = parseDiffToFiles([
+      "diff --git a/logo.png b/logo.png",
+      "index 1111111..2222222 100644",
+      "Binary files a/logo.png and b/logo.png differ",
+      "diff --git a/icon.png b/icon.png",
+      "new file mode 100644",
+      "index 0000000..3333333",
+      "Binary files /dev/null and b/icon.png differ",
+    ].join("\n"));
+    expect(modified).toMatchObject({ path: "logo.png", status: "modified", binary: true });
+    expect(added).toMatchObject({ path: "icon.png", status: "added", binary: true });
+  });
+
+  test("unquotes paths git quoted", () => {
+    const file = parseOne([
+      'diff --git "a/caf\\303\\251.txt" "b/caf\\303\\251.txt"',
+      "new file mode 100644",
+      "index 0000000..1111111",
+      "--- /dev/null",
+      '+++ "b/caf\\303\\251.txt"',
+      "@@ -0,0 +1 @@",
+      "+x",
+    ].join("\n"));
+    expect(file.path).toBe("café.txt");
+  });
+});
+
+describe("parseDiffToFiles with deferred files", () => {
+  test("marks deferred files and takes their line counts", () => {
+    const [file] = parseDiffToFiles(
+      ["diff --git a/big.json b/big.json", "index 1111111..2222222 100644", "--- a/big.json", "+++ b/big.json", ""].join("\n"),
+      [{ path: "big.json", additions: 5000, deletions: 12 }]
+    );
+    expect(file).toMatchObject({ path: "big.json", status: "modified", deferred: true, additions: 5000, deletions: 12 });
+  });
+});
+
+describe("splitFilePatch", () => {
+  const HEADER = ["diff --git a/app.ts b/app.ts", "--- a/app.ts", "+++ b/app.ts"];
+
+  test("leaves small patches whole", () => {
+    const patch = [...HEADER, "@@ -1,2 +1,2 @@", "-a", "+b", " c", ""].join("\n");
+    expect(splitFilePatch(patch, 10)).toEqual([{ patch, lineCount: 3, oldEnd: 2, newEnd: 2 }]);
+  });
+
+  test("groups hunks and splits long ones with their line numbers", () => {
+    const patch = [
+      ...HEADER,
+      "@@ -1,2 +1,2 @@ first",
+      "-a",
+      "+b",
+      "@@ -10,3 +10,5 @@ second",
+      " x",
+      "+y1",
+      "+y2",
+      " z",
+      "-w",
+      "+v",
+      "",
+    ].join("\n");
+    const chunks = splitFilePatch(patch, 3);
+    expect(chunks.map(chunk => chunk.patch.split("\n").slice(3, -1))).toEqual([
+      ["@@ -1,2 +1,2 @@ first", "-a", "+b"],
+      ["@@ -10,1 +10,3 @@ second", " x", "+y1", "+y2"],
+      ["@@ -11,2 +13,2 @@ second", " z", "-w", "+v"],
+    ]);
+    expect(chunks[1]).toMatchObject({ lineCount: 3, oldEnd: 10, newEnd: 12 });
+    expect(chunks.every(chunk => chunk.patch.startsWith(HEADER.join("\n")))).toBe(true);
+  });
+
+  test("numbers pieces of an added file", () => {
+    const patch = [...HEADER, "@@ -0,0 +1,4 @@", "+1", "+2", "+3", "+4", ""].join("\n");
+    expect(splitFilePatch(patch, 2).map(chunk => chunk.patch.split("\n")[3])).toEqual([
+      "@@ -0,0 +1,2 @@",
+      "@@ -0,0 +3,2 @@",
+    ]);
+  });
+});
+
+describe("getPatchLines", () => {
+  test("numbers each side of every hunk", () => {
+    const patch = [
+      "diff --git a/app.ts b/app.ts",
+      "--- a/app.ts",
+      "+++ b/app.ts",
+      "@@ -1,2 +1,2 @@",
+      " a",
+      "-b",
+      "+B",
+      "@@ -10,1 +10,2 @@",
+      " x",
+      "+y",
+      "\\ No newline at end of file",
+      "diff --git a/next.ts b/next.ts",
+      "--- a/next.ts",
+      "",
+    ].join("\n");
+    expect(getPatchLines(patch)).toEqual([
+      { marker: " ", oldLine: 1, newLine: 1, text: "a", hunk: 0 },
+      { marker: "-", oldLine: 2, text: "b", hunk: 0 },
+      { marker: "+", newLine: 2, text: "B", hunk: 0 },
+      { marker: " ", oldLine: 10, newLine: 10, text: "x", hunk: 1 },
+      { marker: "+", newLine: 11, text: "y", hunk: 1 },
+    ]);
+  });
+});
+
+describe("unquoteGitPath", () => {
+  test("decodes escapes and leaves plain paths alone", () => {
+    expect(unquoteGitPath('"tab\\there \\"q\\" \\\\"')).toBe('tab\there "q" \\');
+    expect(unquoteGitPath("plain path.txt")).toBe("plain path.txt");
+  });
+});
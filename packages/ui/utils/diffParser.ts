@@ -0,0 +1,379 @@
+/**
+ * Git Diff Parser
+ *
+ * Splits a multi-file git patch into files and reads each file's extended
+ * header (new/deleted file, rename, copy, mode and binary lines) to work out
+ * what happened to it. Paths come from the rename/copy and ---/+++ lines
+ * where present, since the "diff --git" line is ambiguous for paths with
+ * spaces; paths git quotes (non-ASCII or special characters) are unquoted.
+ */
+
+export type DiffFileStatus = 'added' | 'deleted' | 'modified' | 'renamed' | 'copied' | 'mode-changed';
+
+export interface DiffFile {
+  /** Path on the new side (the old path for deleted files) */
+  path: string;
+  /** Path on the old side, when it differs (renames and copies) */
+  oldPath?: string;
+  status: DiffFileStatus;
+  /** Git reported the file as binary; there are no hunks to show */
+  binary: boolean;
+  oldMode?: string;
+  newMode?: string;
+  /** Rename or copy similarity, 0-100 */
+  similarity?: number;
+  /** This file's part of the patch, starting at its "diff --git" line */
+  patch: string;
+  additions: number;
+  deletions: number;
+  /** Too large to send with the diff; the patch holds only the file's header until fetched */
+  deferred?: boolean;
+}
+
+/** A file the server left out of the diff for size; its patch is fetched on demand */
+export interface DeferredFile {
+  path: string;
+  additions: number;
+  deletions: number;
+}
+
+const ESCAPES: Record<string, number> = {
+  a: 7, b: 8, t: 9, n: 10, v: 11, f: 12, r: 13, '"': 34, '\\': 92,
+};
+
+/**
+ * Undo git's C-style path quoting ("a/caf\303\251" -> a/café). Unquoted
+ * paths are returned as they are.
+ */
+export function unquoteGitPath(path: string): string {
+  if (!path.startsWith('"') || !path.endsWith('"') || path.length < 2) return path;
+
+  const bytes: number[] = [];
+  const body = path.slice(1, -1);
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char !== '\\') {
+      bytes.push(...new TextEncoder().encode(char));
+      continue;
+    }
+    const next = body[i + 1];
+    const octal = body.slice(i + 1, i + 4);
+    if (/^[0-7]{3}$/.test(octal)) {
+      bytes.push(parseInt(octal, 8));
+      i += 3;
+    } else if (next in ESCAPES) {
+      bytes.push(ESCAPES[next]);
+      i += 1;
+    } else {
+      bytes.push(92);
+    }
+  }
+  return new TextDecoder().decode(new Uint8Array(bytes));
+}
+
+/** A path from a ---/+++ line, without its a/ or b/ prefix; null for /dev/null */
+function parseMarkerPath(value: string): string | null {
+  // Git adds a trailing tab when a path contains spaces
+  const path = unquoteGitPath(value.replace(/\t$/, ''));
+  if (path === '/dev/null') return null;
+  return path.replace(/^[ab]\//, '');
+}
+
+/** Both paths from a "diff --git" line, as a fallback when no other line names them */
+function parseHeaderPaths(header: string): { oldPath: string; newPath: string } | null {
+  const quoted = header.match(/^("(?:[^"\\]|\\.)*"|\S+) ("(?:[^"\\]|\\.)*"|\S+)$/);
+  if (quoted && (quoted[1].startsWith('"') || quoted[2].startsWith('"'))) {
+    return {
+      oldPath: unquoteGitPath(quoted[1]).replace(/^a\//, ''),
+      newPath: unquoteGitPath(quoted[2]).replace(/^b\//, ''),
+    };
+  }
+
+  // "a/<path> b/<path>" with the same path on both sides, which may contain spaces
+  const length = (header.length - 5) / 2;
+  if (Number.isInteger(length) && header.startsWith('a/') && header.slice(2 + length, 5 + length) === ' b/') {
+    const oldPath = header.slice(2, 2 + length);
+    if (oldPath === header.slice(5 + length)) return { oldPath, newPath: oldPath };
+  }
+
+  const split = header.match(/^a\/(.+?) b\/(.+)$/);
+  return split ? { oldPath: split[1], newPath: split[2] } : null;
+}
+
+/**
+ * Parse one file's section of a patch (starting after "diff --git ")
+ */
+function parseFileChunk(chunk: string): DiffFile | null {
+  const lines = chunk.split('\n');
+  let oldPath: string | null | undefined;
+  let newPath: string | null | undefined;
+  let status: DiffFileStatus | null = null;
+  let binary = false;
+  let oldMode: string | undefined;
+  let newMode: string | undefined;
+  let similarity: number | undefined;
+  let additions = 0;
+  let deletions = 0;
+  let inHunks = false;
+
+  for (const line of lines.slice(1)) {
+    if (inHunks) {
+      if (line.startsWith('+')) additions++;
+      else if (line.startsWith('-')) deletions++;
+      continue;
+    }
+
+    if (line.startsWith('@@')) {
+      inHunks = true;
+    } else if (line.startsWith('new file mode ')) {
+      status = 'added';
+      newMode = line.slice('new file mode '.length);
+    } else if (line.startsWith('deleted file mode ')) {
+      status = 'deleted';
+      oldMode = line.slice('deleted file mode '.length);
+    } else if (line.startsWith('old mode ')) {
+      oldMode = line.slice('old mode '.length);
+    } else if (line.startsWith('new mode ')) {
+      newMode = line.slice('new mode '.length);
+    } else if (line.startsWith('similarity index ')) {
+      similarity = parseInt(line.slice('similarity index '.length), 10);
+    } else if (line.startsWith('rename from ') || line.startsWith('copy from ')) {
+      status = line.startsWith('rename') ? 'renamed' : 'copied';
+      oldPath = unquoteGitPath(line.slice(line.indexOf(' from ') + 6));
+    } else if (line.startsWith('rename to ') || line.startsWith('copy to ')) {
+      newPath = unquoteGitPath(line.slice(line.indexOf(' to ') + 4));
+    } else if (line.startsWith('--- ')) {
+      if (oldPath === undefined) oldPath = parseMarkerPath(line.slice(4));
+    } else if (line.startsWith('+++ ')) {
+      if (newPath === undefined) newPath = parseMarkerPath(line.slice(4));
+    } else if (line.startsWith('Binary files ') || line === 'GIT binary patch') {
+      binary = true;
+    }
+  }
+
+  if (oldPath === undefined || newPath === undefined) {
+    const header = parseHeaderPaths(lines[0].replace(/\r$/, ''));
+    if (!header) return null;
+    if (oldPath === undefined) oldPath = status === 'added' ? null : header.oldPath;
+    if (newPath === undefined) newPath = status === 'deleted' ? null : header.newPath;
+  }
+
+  const path = newPath ?? oldPath;
+  if (!path) return null;
+
+  if (!status) {
+    if (newPath === null) status = 'deleted';
+    else if (oldPath === null) status = 'added';
+    else if (oldMode && newMode && !inHunks && !binary) status = 'mode-changed';
+    else status = 'modified';
+  }
+
+  return {
+    path,
+    ...(oldPath && oldPath !== path && { oldPath }),
+    status,
+    binary,
+    ...(oldMode && { oldMode }),
+    ...(newMode && { newMode }),
+    ...(similarity !== undefined && { similarity }),
+    patch: 'diff --git ' + chunk,
+    additions,
+    deletions,
+  };
+}
+
+/**
+ * Split a git patch into its files. Files the server deferred keep their
+ * header in the patch, and take their line counts from `deferredFiles`.
+ */
+export function parseDiffToFiles(rawPatch: string, deferredFiles: DeferredFile[] = []): DiffFile[] {
+  const deferred = new Map(deferredFiles.map(file => [file.path, file]));
+  const files: DiffFile[] = [];
+  for (const chunk of rawPatch.split(/^diff --git /m).slice(1)) {
+    const file = parseFileChunk(chunk);
+    if (!file) continue;
+    const counts = deferred.get(file.path);
+    files.push(counts ? { ...file, additions: counts.additions, deletions: counts.deletions, deferred: true } : file);
+  }
+  return files;
+}
+
+export interface PatchChunk {
+  /** The file header followed by some of its hunks, a patch of its own */
+  patch: string;
+  /** Hunk lines in this chunk */
+  lineCount: number;
+  /** Last line number covered on each side */
+  oldEnd: number;
+  newEnd: number;
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@(.*)$/;
+
+/** Split one hunk into pieces of at most maxLines lines, with their own headers */
+function splitHunk(hunk: string[], maxLines: number): string[][] {
+  const match = hunk[0].match(HUNK_HEADER);
+  if (!match || hunk.length - 1 <= maxLines) return [hunk];
+
+  // Next line number on each side; a zero-length side starts after its line
+  let oldNext = match[2] === '0' ? Number(match[1]) + 1 : Number(match[1]);
+  let newNext = match[4] === '0' ? Number(match[3]) + 1 : Number(match[3]);
+  const body = hunk.slice(1);
+  const pieces: string[][] = [];
+
+  for (let start = 0; start < body.length;) {
+    let end = Math.min(start + maxLines, body.length);
+    // Keep "\ No newline at end of file" with the line it belongs to
+    while (end < body.length && body[end].startsWith('\\')) end++;
+    const lines = body.slice(start, end);
+    const oldCount = lines.filter(line => line[0] === ' ' || line[0] === '-').length;
+    const newCount = lines.filter(line => line[0] === ' ' || line[0] === '+').length;
+    const oldStart = oldCount === 0 ? oldNext - 1 : oldNext;
+    const newStart = newCount === 0 ? newNext - 1 : newNext;
+    pieces.push([`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@${match[5]}`, ...lines]);
+    oldNext += oldCount;
+    newNext += newCount;
+    start = end;
+  }
+  return pieces;
+}
+
+export interface PatchHunk {
+  /** The hunk's "@@ ... @@" line */
+  header: string;
+  /** Last line number covered on each side */
+  oldEnd: number;
+  newEnd: number;
+  /** The hunk has lines on the new side (it isn't only deletions) */
+  hasNewLines: boolean;
+}
+
+/**
+ * The hunks of a file's patch, in order
+ */
+export function getPatchHunks(patch: string): PatchHunk[] {
+  return patch.split('\n').flatMap(line => {
+    const match = line.match(HUNK_HEADER);
+    if (!match) return [];
+    const oldCount = Number(match[2] ?? 1);
+    const newCount = Number(match[4] ?? 1);
+    return [{
+      header: line,
+      oldEnd: Number(match[1]) + Math.max(oldCount - 1, 0),
+      newEnd: Number(match[3]) + Math.max(newCount - 1, 0),
+      hasNewLines: newCount > 0,
+    }];
+  });
+}
+
+export interface PatchLine {
+  marker: ' ' | '-' | '+';
+  /** Line number on the old side; absent for added lines */
+  oldLine?: number;
+  /** Line number on the new side; absent for removed lines */
+  newLine?: number;
+  /** The line without its marker */
+  text: string;
+  /** Index of the hunk the line is in */
+  hunk: number;
+}
+
+/**
+ * The lines inside a patch's hunks, in order, with their line numbers.
+ * Anything other than a context, removed or added line ends a hunk, and
+ * "\ No newline at end of file" markers are left out.
+ */
+export function getPatchLines(patch: string): PatchLine[] {
+  const lines: PatchLine[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+  let hunk = -1;
+  let inHunk = false;
+
+  for (const line of patch.split('\n')) {
+    const match = line.match(HUNK_HEADER);
+    if (match) {
+      oldLine = Number(match[1]);
+      newLine = Number(match[3]);
+      hunk++;
+      inHunk = true;
+      continue;
+    }
+    if (!inHunk || line.startsWith('\\')) continue;
+
+    const marker = line[0];
+    const text = line.slice(1);
+    if (marker === ' ') {
+      lines.push({ marker, oldLine: oldLine++, newLine: newLine++, text, hunk });
+    } else if (marker === '-') {
+      lines.push({ marker, oldLine: oldLine++, text, hunk });
+    } else if (marker === '+') {
+      lines.push({ marker, newLine: newLine++, text, hunk });
+    } else {
+      inHunk = false;
+    }
+  }
+
+  return lines;
+}
+
+/** Last line number each side of a run of hunks reaches */
+function hunkEnds(lines: string[]): { oldEnd: number; newEnd: number } {
+  let oldEnd = 0;
+  let newEnd = 0;
+  for (const line of lines) {
+    const match = line.match(HUNK_HEADER);
+    if (!match) continue;
+    // A zero-length side sits after its start line
+    oldEnd = Math.max(oldEnd, Number(match[1]) + Math.max(Number(match[2] ?? 1) - 1, 0));
+    newEnd = Math.max(newEnd, Number(match[3]) + Math.max(Number(match[4] ?? 1) - 1, 0));
+  }
+  return { oldEnd, newEnd };
+}
+
+/**
+ * Split a file's patch into chunks of about maxLines hunk lines each, so a
+ * very large diff can be rendered a piece at a time. Hunks longer than
+ * maxLines are split, with line numbers carried over into the new headers.
+ */
+export function splitFilePatch(patch: string, maxLines: number): PatchChunk[] {
+  const lines = patch.replace(/\n$/, '').split('\n');
+  const firstHunk = lines.findIndex(line => line.startsWith('@@'));
+  if (firstHunk === -1) return [{ patch, lineCount: 0, oldEnd: 0, newEnd: 0 }];
+
+  const header = lines.slice(0, firstHunk);
+  const hunks: string[][] = [];
+  for (const line of lines.slice(firstHunk)) {
+    if (line.startsWith('@@')) hunks.push([line]);
+    else hunks[hunks.length - 1].push(line);
+  }
+
+  const groups: string[][][] = [];
+  let groupLines = 0;
+  for (const piece of hunks.flatMap(hunk => splitHunk(hunk, maxLines))) {
+    if (groups.length === 0 || groupLines + piece.length > maxLines) {
+      groups.push([]);
+      groupLines = 0;
+    }
+    groups[groups.length - 1].push(piece);
+    groupLines += piece.length;
+  }
+
+  return groups.map(group => {
+    const body = group.flat();
+    return {
+      patch: [...header, ...body].join('\n') + '\n',
+      lineCount: body.length - group.length,
+      ...hunkEnds(body),
+    };
+  });
+}
+
+const IMAGE_EXTENSIONS = /\.(png|jpe?g|gif|webp|svg|bmp|avif|ico)$/i;
+
+/**
+ * Whether a file is an image the review UI can show side by side
+ */
+export function isImagePath(path: string): boolean {
+  return IMAGE_EXTENSIONS.test(path);
+}
@@ -0,0 +1,124 @@
+/**
+ * Draft Reconciliation Tests
+ *
+ * Run: bun test packages/ui/utils/drafts.test.ts
+ */
+
+import { describe, expect, test } from "bun:test";
+import { Annotation, AnnotationType, CodeAnnotation } from "../types";
+import { getViewedFileHash, hashContent, reconcilePlanDraft, reconcileReviewDraft, restoreViewedFiles } from "./drafts";
+
+function planAnnotation(overrides: Partial<Annotation>): Annotation {
+  return {
+    id: "a1",
+    blockId: "block-1",
+    startOffset: 0,
+    endOffset: 0,
+    type: AnnotationType.COMMENT,
+    text: "Why?",
+    originalText: "run the migration",
+    createdA: 0,
+    ...overrides,
+  };
+}
+
+describe("reconcilePlanDraft", () => {
+  test("keeps annotations whose text is still in the plan", () => {
+    const ann = planAnnotation({ originalText: "run the **migration**" });
+    const { annotations, detached } = reconcilePlanDraft([ann], "## Steps\n\nFirst run the *migration* twice.");
+    expect(detached).toBe(0);
+    expect(annotations[0]).toBe(ann);
+  });
+
+  test("turns annotations on removed text into global comments", () => {
+    const { annotations, detached } = reconcilePlanDraft([planAnnotation({})], "## Steps\n\nDeploy it.");
+    expect(detached).toBe(1);
+    expect(annotations[0]).toMatchObject({
+      type: AnnotationType.GLOBAL_COMMENT,
+      originalText: "",
+      text: 'On "run the migration" (no longer in the plan): Why?',
+    });
+  });
+});
+
+const PATCH = [
+  "diff --git a/app.ts b/app.ts",
+  "--- a/app.ts",
+  "+++ b/app.ts",
+  "@@ -1,3 +1,3 @@",
+  " const a = 1;",
+  "-const b = 2;",
+  "+const b = 3;",
+  " export { a, b };",
+].join("\n");
+
+function codeAnnotation(overrides: Partial<CodeAnnotation>): CodeAnnotation {
+  return {
+    id: "c1",
+    type: "comment",
+    filePath: "app.ts",
+    lineStart: 2,
+    lineEnd: 2,
+    side: "new",
+    anchorText: "const b = 3;",
+    createdAt: 0,
+    ...overrides,
+  };
+}
+
+describe("reconcileReviewDraft", () => {
+  test("leaves annotations alone when the file is unchanged", () => {
+    const ann = codeAnnotation({});
+    const { annotations, outdated } = reconcileReviewDraft(
+      [ann],
+      [{ path: "app.ts", patch: PATCH }],
+      { "app.ts": hashContent(PATCH) }
+    );
+    expect(outdated).toBe(0);
+    expect(annotations[0]).toBe(ann);
+  });
+
+  test("moves annotations to where their lines are now", () => {
+    const moved = PATCH.replace("@@ -1,3 +1,3 @@", "@@ -1,3 +1,4 @@\n+// header");
+    const { annotations } = reconcileReviewDraft([codeAnnotation({})], [{ path: "app.ts", patch: moved }], {
+      "app.ts": hashContent(PATCH),
+    });
+    expect(annotations[0]).toMatchObject({ lineStart: 3, lineEnd: 3 });
+    expect(annotations[0].outdated).toBeUndefined();
+  });
+
+  test("marks annotations outdated when their lines are gone", () => {
+    const changed = PATCH.replace("+const b = 3;", "+const b = 4;");
+    const { annotations, outdated } = reconcileReviewDraft(
+      [codeAnnotation({}), codeAnnotation({ id: "c2", filePath: "gone.ts" })],
+      [{ path: "app.ts", patch: changed }],
+      { "app.ts": hashContent(PATCH) }
+    );
+    expect(outdated).toBe(2);
+    expect(annotations.map((ann) => ann.outdated)).toEqual([true, true]);
+  });
+});
+
+describe("restoreViewedFiles", () => {
+  test("keeps only files whose patch is unchanged", () => {
+    const changed = PATCH.replace("+const b = 3;", "+const b = 4;");
+    const hash = getViewedFileHash({ patch: PATCH, additions: 1, deletions: 1 });
+    const viewed = { "app.ts": hash, "lib.ts": hash, "gone.ts": hash };
+    expect(restoreViewedFiles(viewed, [
+      { path: "app.ts", patch: PATCH, additions: 1, deletions: 1 },
+      { path: "lib.ts", patch: changed, additions: 1, deletions: 1 },
+    ])).toEqual(["app.ts"]);
+    expect(restoreViewedFiles(undefined, [{ path: "app.ts", patch: PATCH, additions: 1, deletions: 1 }])).toEqual([]);
+  });
+
+  test("keeps deferred files viewed while their hunks aren't loaded", () => {
+    const full = PATCH.replace("--- a/app.ts", "index 3f2a1b0..9c8d7e6 100644\n--- a/app.ts");
+    const header = full.slice(0, full.indexOf("@@"));
+    const viewed = { "app.ts": getViewedFileHash({ patch: full, additions: 1, deletions: 1 }) };
+
+    expect(restoreViewedFiles(viewed, [{ path: "app.ts", patch: header, additions: 1, deletions: 1 }])).toEqual(["app.ts"]);
+    // A new version of the file has other blob ids
+    const edited = header.replace("9c8d7e6", "5b4a3c2");
+    expect(restoreViewedFiles(viewed, [{ path: "app.ts", patch: edited, additions: 1, deletions: 1 }])).toEqual([]);
+  });
+});
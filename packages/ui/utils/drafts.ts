@@ -0,0 +1,182 @@
+/**
+ * Review drafts
+ *
+ * In-progress annotations are autosaved to the server (/api/draft) and
+ * restored when the page is reloaded. The server keys drafts by plan slug or
+ * by the diff being reviewed; the content a draft was made against may have
+ * changed since, so restoring reconciles its annotations with what is on the
+ * page now.
+ */
+
+import { Annotation, AnnotationType, CodeAnnotation } from '../types';
+import { apiUrl } from './api';
+import { reanchorCodeAnnotation } from './codeAnchors';
+import { DiffFile } from './diffParser';
+
+export const DRAFT_VERSION = 1;
+
+export interface PlanDraft {
+  version: typeof DRAFT_VERSION;
+  kind: 'plan';
+  contentHash: string;
+  annotations: Annotation[];
+  globalAttachments: string[];
+  editedPlan: string | null;
+  savedAt?: string;
+}
+
+export interface ReviewDraft {
+  version: typeof DRAFT_VERSION;
+  kind: 'review';
+  /** Hash of each file's patch when the draft was saved */
+  fileHashes: Record<string, string>;
+  annotations: CodeAnnotation[];
+  /** Files marked viewed, with their getViewedFileHash when they were */
+  viewedFiles?: Record<string, string>;
+  savedAt?: string;
+}
+
+export type Draft = PlanDraft | ReviewDraft;
+
+/**
+ * Short, stable hash of a string (FNV-1a). Only used to tell whether
+ * content changed, not for security.
+ */
+export function hashContent(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Fetch the saved draft for this session, or null if there is none
+ */
+export async function fetchDraft<T extends Draft>(kind: T['kind']): Promise<T | null> {
+  try {
+    const res = await fetch(apiUrl('/api/draft'));
+    if (!res.ok) return null;
+    const data = (await res.json()) as { draft: T | null };
+    const draft = data.draft;
+    if (!draft || draft.version !== DRAFT_VERSION || draft.kind !== kind) return null;
+    return draft;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Save a draft. Pass keepalive when the page is being closed.
+ */
+export async function saveDraft(draft: Draft, keepalive = false): Promise<void> {
+  await fetch(apiUrl('/api/draft'), {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(draft),
+    keepalive,
+  });
+}
+
+/**
+ * Delete the saved draft
+ */
+export async function discardDraft(keepalive = false): Promise<void> {
+  await fetch(apiUrl('/api/draft'), { method: 'DELETE', keepalive });
+}
+
+/** Compare text loosely, ignoring markdown punctuation and whitespace */
+function normalizeText(text: string): string {
+  return text.replace(/[*_`~#>|[\]()]/g, '').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * Match a plan draft's annotations to the current plan. Annotations whose
+ * text is gone become global comments that quote it, so the feedback isn't
+ * lost.
+ */
+export function reconcilePlanDraft(
+  annotations: Annotation[],
+  markdown: string
+): { annotations: Annotation[]; detached: number } {
+  const planText = normalizeText(markdown);
+  let detached = 0;
+
+  const reconciled = annotations.map((ann) => {
+    if (ann.type === AnnotationType.GLOBAL_COMMENT) return ann;
+    const quoted = normalizeText(ann.originalText);
+    if (quoted && planText.includes(quoted)) return ann;
+
+    detached++;
+    const quote = ann.originalText.length > 120 ? `${ann.originalText.slice(0, 120)}…` : ann.originalText;
+    const note = ann.type === AnnotationType.DELETION ? 'Remove this' : ann.text || '';
+    return {
+      ...ann,
+      type: AnnotationType.GLOBAL_COMMENT,
+      text: `On "${quote}" (no longer in the plan): ${note}`.trim(),
+      originalText: '',
+      blockId: '',
+      diagramAnchor: undefined,
+      startMeta: undefined,
+      endMeta: undefined,
+    };
+  });
+
+  return { annotations: reconciled, detached };
+}
+
+/**
+ * Match a review draft's annotations to the current diff. Annotations on
+ * files whose patch changed are moved to where their lines are now, or
+ * marked outdated if the lines are gone. Annotations on files no longer in
+ * the diff are marked outdated too.
+ */
+export function reconcileReviewDraft(
+  annotations: CodeAnnotation[],
+  files: { path: string; patch: string }[],
+  fileHashes: Record<string, string>
+): { annotations: CodeAnnotation[]; outdated: number } {
+  const patches = new Map(files.map((file) => [file.path, file.patch]));
+  let outdated = 0;
+
+  const reconciled = annotations.map((ann) => {
+    const patch = patches.get(ann.filePath);
+    if (patch !== undefined && fileHashes[ann.filePath] === hashContent(patch)) return ann;
+
+    const moved = patch !== undefined ? reanchorCodeAnnotation(ann, patch) : null;
+    if (moved) return { ...moved, outdated: undefined };
+
+    outdated++;
+    return { ...ann, outdated: true };
+  });
+
+  return { annotations: reconciled, outdated };
+}
+
+/**
+ * Hash of a file's version in the diff that doesn't depend on whether the
+ * server deferred its hunks. Git's "index <old>..<new>" header line names
+ * both blobs, so the header and line counts pin the change; patches without
+ * one are hashed whole.
+ */
+export function getViewedFileHash(file: Pick<DiffFile, 'patch' | 'additions' | 'deletions'>): string {
+  const hunkStart = file.patch.search(/^@@ /m);
+  const header = hunkStart === -1 ? file.patch : file.patch.slice(0, hunkStart);
+  if (!/^index /m.test(header)) return hashContent(file.patch);
+  return hashContent(`${header}+${file.additions} -${file.deletions}`);
+}
+
+/**
+ * Files saved as viewed whose patch is unchanged since. Files that changed
+ * need another look, so they come back unviewed.
+ */
+export function restoreViewedFiles(
+  viewedFiles: Record<string, string> | undefined,
+  files: Pick<DiffFile, 'path' | 'patch' | 'additions' | 'deletions'>[]
+): string[] {
+  if (!viewedFiles) return [];
+  return files
+    .filter((file) => viewedFiles[file.path] === getViewedFileHash(file))
+    .map((file) => file.path);
+}
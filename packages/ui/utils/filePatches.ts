@@ -0,0 +1,60 @@
+/**
+ * Deferred File Patches
+ *
+ * The review server leaves very large files out of the diff it sends and
+ * keeps only their headers. Their patches are fetched here one file at a
+ * time, when the reviewer opens the file or something needs its lines.
+ */
+
+import { apiUrl } from './api';
+import { DiffFile, parseDiffToFiles } from './diffParser';
+
+/**
+ * Fetch one file's full patch from the current diff
+ */
+export async function fetchFilePatch(path: string): Promise<string> {
+  const res = await fetch(apiUrl(`/api/diff/file?${new URLSearchParams({ path })}`));
+  if (!res.ok) {
+    const { error } = await res.json().catch(() => ({ error: undefined })) as { error?: string };
+    throw new Error(error || 'Failed to load file diff');
+  }
+  const data = await res.json() as { patch: string };
+  return data.patch;
+}
+
+/**
+ * Replace a deferred file with the one parsed from its full patch
+ */
+export function withFilePatch(files: DiffFile[], path: string, patch: string): DiffFile[] {
+  const [loaded] = parseDiffToFiles(patch);
+  if (!loaded) return files;
+  return files.map(file => (file.path === path && file.deferred ? loaded : file));
+}
+
+/**
+ * Fetch the patches of deferred files, all of them or only those in `paths`.
+ * Files that fail to load stay deferred.
+ */
+export async function loadDeferredFiles(files: DiffFile[], paths?: Set<string>): Promise<DiffFile[]> {
+  const wanted = files.filter(file => file.deferred && (!paths || paths.has(file.path)));
+  const patches = await Promise.all(wanted.map(file =>
+    fetchFilePatch(file.path).catch(err => {
+      console.error(`Failed to load diff of ${file.path}:`, err);
+      return null;
+    })
+  ));
+
+  return wanted.reduce(
+    (result, file, i) => (patches[i] ? withFilePatch(result, file.path, patches[i]!) : result),
+    files
+  );
+}
+
+/**
+ * Carry patches loaded in the background over to the current file list,
+ * which may have changed (or had other files loaded) in the meantime
+ */
+export function mergeLoadedFiles(files: DiffFile[], loaded: DiffFile[]): DiffFile[] {
+  const byPath = new Map(loaded.filter(file => !file.deferred).map(file => [file.path, file]));
+  return files.map(file => (file.deferred ? byPath.get(file.path) ?? file : file));
+}
@@ -0,0 +1,62 @@
+/**
+ * File Tree Tests
+ *
+ * Run: bun test packages/ui/utils/fileTree.test.ts
+ */
+
+import { describe, expect, test } from "bun:test";
+import { buildFileTreeRows, fuzzyMatch, getFileExtension } from "./fileTree";
+
+const FILES = [
+  { path: "README.md", additions: 1, deletions: 0 },
+  { path: "src/app.ts", additions: 5, deletions: 2 },
+  { path: "src/utils/deep/nested/a.ts", additions: 3, deletions: 1 },
+  { path: "src/utils/deep/nested/b.ts", additions: 1, deletions: 1 },
+].map((file, index) => ({ index, file }));
+
+function describeRows(collapsed: string[] = []) {
+  return buildFileTreeRows(FILES, new Set(collapsed)).map(row =>
+    row.kind === "dir"
+      ? `${"  ".repeat(row.depth)}${row.name}/ +${row.additions} -${row.deletions}`
+      : `${"  ".repeat(row.depth)}${row.name} #${row.index}`
+  );
+}
+
+describe("buildFileTreeRows", () => {
+  test("groups files by directory, merging single-child directories", () => {
+    expect(describeRows()).toEqual([
+      "src/ +9 -4",
+      "  utils/deep/nested/ +4 -2",
+      "    a.ts #2",
+      "    b.ts #3",
+      "  app.ts #1",
+      "README.md #0",
+    ]);
+  });
+
+  test("hides the contents of collapsed directories", () => {
+    expect(describeRows(["src/utils/deep/nested"])).toEqual([
+      "src/ +9 -4",
+      "  utils/deep/nested/ +4 -2",
+      "  app.ts #1",
+      "README.md #0",
+    ]);
+  });
+});
+
+describe("fuzzyMatch", () => {
+  test("matches characters in order, ignoring case", () => {
+    expect(fuzzyMatch("ftree", "components/FileTree.tsx")).toBe(true);
+    expect(fuzzyMatch("comp/ft", "components/FileTree.tsx")).toBe(true);
+    expect(fuzzyMatch("treef", "components/FileTree.tsx")).toBe(false);
+    expect(fuzzyMatch("", "anything")).toBe(true);
+  });
+});
+
+describe("getFileExtension", () => {
+  test("returns the lowercased extension, ignoring dotfiles", () => {
+    expect(getFileExtension("src/App.TSX")).toBe(".tsx");
+    expect(getFileExtension(".gitignore")).toBe("");
+    expect(getFileExtension("Makefile")).toBe("");
+  });
+});
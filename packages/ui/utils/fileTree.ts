@@ -0,0 +1,135 @@
+/**
+ * File Tree
+ *
+ * Groups the files of a diff into a directory tree for the review sidebar,
+ * and flattens it into the rows currently shown (collapsed directories hide
+ * their contents). Directories with a single subdirectory and no files of
+ * their own are merged into one row ("src/utils"), as most editors do.
+ */
+
+export interface FileTreeEntry {
+  path: string;
+  additions: number;
+  deletions: number;
+}
+
+export type FileTreeRow<T extends FileTreeEntry> =
+  | {
+      kind: 'dir';
+      /** Full path of the directory; the key for collapsing it */
+      path: string;
+      /** Shown name, including merged single-child directories */
+      name: string;
+      depth: number;
+      collapsed: boolean;
+      fileCount: number;
+      additions: number;
+      deletions: number;
+    }
+  | {
+      kind: 'file';
+      /** Position of the file in the list the tree was built from */
+      index: number;
+      file: T;
+      name: string;
+      depth: number;
+    };
+
+interface DirNode<T extends FileTreeEntry> {
+  name: string;
+  path: string;
+  dirs: Map<string, DirNode<T>>;
+  files: { index: number; file: T; name: string }[];
+  fileCount: number;
+  additions: number;
+  deletions: number;
+}
+
+function createDir<T extends FileTreeEntry>(name: string, path: string): DirNode<T> {
+  return { name, path, dirs: new Map(), files: [], fileCount: 0, additions: 0, deletions: 0 };
+}
+
+/**
+ * Build the rows of the tree for the given files, which keep their index in
+ * the full file list. Directories come before files, each sorted by name.
+ */
+export function buildFileTreeRows<T extends FileTreeEntry>(
+  files: { index: number; file: T }[],
+  collapsedDirs: Set<string>
+): FileTreeRow<T>[] {
+  const root = createDir<T>('', '');
+
+  for (const { index, file } of files) {
+    const parts = file.path.split('/');
+    const name = parts.pop()!;
+    let dir = root;
+    for (const part of [null, ...parts]) {
+      if (part !== null) {
+        let child = dir.dirs.get(part);
+        if (!child) {
+          child = createDir<T>(part, dir.path ? `${dir.path}/${part}` : part);
+          dir.dirs.set(part, child);
+        }
+        dir = child;
+      }
+      dir.fileCount++;
+      dir.additions += file.additions;
+      dir.deletions += file.deletions;
+    }
+    dir.files.push({ index, file, name });
+  }
+
+  const rows: FileTreeRow<T>[] = [];
+  const visit = (dir: DirNode<T>, depth: number) => {
+    const dirs = [...dir.dirs.values()].sort((a, b) => a.name.localeCompare(b.name));
+    for (let child of dirs) {
+      let name = child.name;
+      while (child.files.length === 0 && child.dirs.size === 1) {
+        child = child.dirs.values().next().value!;
+        name += `/${child.name}`;
+      }
+      const collapsed = collapsedDirs.has(child.path);
+      rows.push({
+        kind: 'dir',
+        path: child.path,
+        name,
+        depth,
+        collapsed,
+        fileCount: child.fileCount,
+        additions: child.additions,
+        deletions: child.deletions,
+      });
+      if (!collapsed) visit(child, depth + 1);
+    }
+    const sorted = [...dir.files].sort((a, b) => a.name.localeCompare(b.name));
+    for (const { index, file, name } of sorted) {
+      rows.push({ kind: 'file', index, file, name, depth });
+    }
+  };
+  visit(root, 0);
+
+  return rows;
+}
+
+/**
+ * Whether the query's characters appear in order in the path, ignoring case
+ * and spaces ("ftree" matches "components/FileTree.tsx")
+ */
+export function fuzzyMatch(query: string, path: string): boolean {
+  const needle = query.toLowerCase().replace(/\s+/g, '');
+  let i = 0;
+  for (const char of path.toLowerCase()) {
+    if (i === needle.length) break;
+    if (char === needle[i]) i++;
+  }
+  return i === needle.length;
+}
+
+/**
+ * A file's extension including the dot (".ts"), or "" when it has none
+ */
+export function getFileExtension(path: string): string {
+  const name = path.slice(path.lastIndexOf('/') + 1);
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot).toLowerCase() : '';
+}
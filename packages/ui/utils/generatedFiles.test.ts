@@ -0,0 +1,41 @@
+/**
+ * Generated File Pattern Tests
+ *
+ * Run: bun test packages/ui/utils/generatedFiles.test.ts
+ */
+
+import { describe, expect, test } from "bun:test";
+import { DEFAULT_GENERATED_PATTERNS, createGeneratedFileMatcher, parsePatterns } from "./generatedFiles";
+
+describe("createGeneratedFileMatcher", () => {
+  const isGenerated = createGeneratedFileMatcher(DEFAULT_GENERATED_PATTERNS);
+
+  test("matches lockfiles, snapshots and minified output in any directory", () => {
+    expect(isGenerated("package-lock.json")).toBe(true);
+    expect(isGenerated("apps/web/yarn.lock")).toBe(true);
+    expect(isGenerated("src/__snapshots__/App.test.tsx.snap")).toBe(true);
+    expect(isGenerated("src/__snapshots__/data.json")).toBe(true);
+    expect(isGenerated("dist/vendor.min.js")).toBe(true);
+  });
+
+  test("leaves source files alone", () => {
+    expect(isGenerated("src/lockfile.ts")).toBe(false);
+    expect(isGenerated("src/minify.js")).toBe(false);
+    expect(isGenerated("my-package-lock.json")).toBe(false);
+  });
+
+  test("anchors patterns with a slash to the repository root", () => {
+    const matches = createGeneratedFileMatcher(["dist/*.js", "**/gen/**"]);
+    expect(matches("dist/app.js")).toBe(true);
+    expect(matches("packages/dist/app.js")).toBe(false);
+    expect(matches("dist/nested/app.js")).toBe(false);
+    expect(matches("gen/types.ts")).toBe(true);
+    expect(matches("src/gen/deep/types.ts")).toBe(true);
+  });
+});
+
+describe("parsePatterns", () => {
+  test("skips blank lines and comments", () => {
+    expect(parsePatterns("*.snap\n\n  # vendored\nvendor/**  \n")).toEqual(["*.snap", "vendor/**"]);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Generated File Settings Utility
+ *
+ * Glob patterns for files the code review collapses by default: lockfiles,
+ * snapshots, minified output and the like. Their diffs are rarely worth
+ * reading and can be large enough to slow the page down.
+ *
+ * Uses cookies (not localStorage) because each hook invocation runs on a
+ * random port, and localStorage is scoped by origin including port.
+ */
+
+import { storage } from './storage';
+
+const STORAGE_KEY = 'plannotator-generated-files';
+
+export const DEFAULT_GENERATED_PATTERNS: string[] = [
+  'package-lock.json',
+  'yarn.lock',
+  'pnpm-lock.yaml',
+  'bun.lock',
+  'bun.lockb',
+  'Cargo.lock',
+  'Gemfile.lock',
+  'poetry.lock',
+  'composer.lock',
+  'go.sum',
+  '*.snap',
+  '**/__snapshots__/**',
+  '*.min.js',
+  '*.min.css',
+  '*.map',
+];
+
+/**
+ * Get the configured patterns (the defaults until the user changes them)
+ */
+export function getGeneratedFilePatterns(): string[] {
+  const stored = storage.getItem(STORAGE_KEY);
+  if (stored === null) return DEFAULT_GENERATED_PATTERNS;
+  return parsePatterns(stored);
+}
+
+/**
+ * Save patterns to storage; saving the defaults resets to them
+ */
+export function saveGeneratedFilePatterns(patterns: string[]): void {
+  if (patterns.join('\n') === DEFAULT_GENERATED_PATTERNS.join('\n')) {
+    storage.removeItem(STORAGE_KEY);
+  } else {
+    storage.setItem(STORAGE_KEY, patterns.join('\n'));
+  }
+}
+
+/**
+ * One pattern per line; blank lines and # comments are ignored
+ */
+export function parsePatterns(text: string): string[] {
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'));
+}
+
+/**
+ * Convert a glob to a regular expression. `*` matches within a path segment,
+ * `**` across segments and `?` a single character. Patterns without a slash
+ * match the file name in any directory, like .gitignore.
+ */
+export function globToRegExp(glob: string): RegExp {
+  const anchored = glob.includes('/') && !glob.startsWith('**/');
+  let source = '';
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // "**/" also matches no directories at all
+      if (glob[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`${anchored ? '^' : '(?:^|/)'}${source.replace(/^\//, '')}$`);
+}
+
+/**
+ * Build a matcher for a list of patterns
+ */
+export function createGeneratedFileMatcher(patterns: string[]): (path: string) => boolean {
+  const regexps = patterns.map(globToRegExp);
+  return (path) => regexps.some((regexp) => regexp.test(path));
+}
@@ -0,0 +1,136 @@
+/**
+ * Annotation Labels
+ *
+ * Severity levels and freeform category tags shared by plan and code
+ * annotations: ordering for the feedback export, and filtering and grouping
+ * for the annotation panels.
+ */
+
+import { AnnotationSeverity } from '../types';
+
+interface Labelled {
+  severity?: AnnotationSeverity;
+  tags?: string[];
+}
+
+export const SEVERITIES: AnnotationSeverity[] = ['blocking', 'important', 'nit', 'question'];
+
+export const SEVERITY_LABELS: Record<AnnotationSeverity, string> = {
+  blocking: 'Blocking',
+  important: 'Important',
+  nit: 'Nit',
+  question: 'Question',
+};
+
+/** Offered in the tag input; any other tag can be typed */
+export const SUGGESTED_TAGS = ['security', 'perf', 'testing'];
+
+// Export order: unlabelled annotations sit between important items and
+// questions, nits always come last
+const SEVERITY_RANK: Record<AnnotationSeverity, number> = {
+  blocking: 0,
+  important: 1,
+  question: 3,
+  nit: 4,
+};
+const UNLABELLED_RANK = 2;
+
+const rankOf = (item: Labelled): number =>
+  item.severity ? SEVERITY_RANK[item.severity] ?? UNLABELLED_RANK : UNLABELLED_RANK;
+
+/**
+ * Stable sort with blocking items first. Items of the same severity keep
+ * their relative order, so sort by position before calling this.
+ */
+export function sortBySeverity<T extends Labelled>(items: T[]): T[] {
+  return items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => rankOf(a.item) - rankOf(b.item) || a.index - b.index)
+    .map(({ item }) => item);
+}
+
+/**
+ * Lowercase a tag and turn spaces into dashes; strips a leading #
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#+/, '').toLowerCase().replace(/\s+/g, '-');
+}
+
+/**
+ * Split comma separated input into normalized, de-duplicated tags
+ */
+export function parseTags(input: string): string[] {
+  return Array.from(new Set(input.split(',').map(normalizeTag).filter(Boolean)));
+}
+
+/**
+ * All tags used by the given annotations, sorted
+ */
+export function collectTags(items: Labelled[]): string[] {
+  return Array.from(new Set(items.flatMap(item => item.tags ?? []))).sort();
+}
+
+/**
+ * Render severity and tags for the markdown feedback, or '' if neither is set
+ */
+export function formatLabelsMarkdown(item: Labelled): string {
+  const parts: string[] = [];
+  if (item.severity) parts.push(`**Severity:** ${item.severity}`);
+  if (item.tags?.length) parts.push(`**Tags:** ${item.tags.join(', ')}`);
+  return parts.length > 0 ? `${parts.join(' · ')}\n` : '';
+}
+
+// Panel filtering and grouping
+
+/** 'none' matches annotations without a severity */
+export type SeverityFilter = AnnotationSeverity | 'none' | 'all';
+
+export interface LabelFilter {
+  severity: SeverityFilter;
+  tag: string | null;
+}
+
+export const EMPTY_LABEL_FILTER: LabelFilter = { severity: 'all', tag: null };
+
+export function isFilterActive(filter: LabelFilter): boolean {
+  return filter.severity !== 'all' || filter.tag !== null;
+}
+
+export function matchesLabelFilter(item: Labelled, filter: LabelFilter): boolean {
+  if (filter.severity === 'none' && item.severity) return false;
+  if (filter.severity !== 'all' && filter.severity !== 'none' && item.severity !== filter.severity) return false;
+  if (filter.tag && !item.tags?.includes(filter.tag)) return false;
+  return true;
+}
+
+export type LabelGrouping = 'severity' | 'tag';
+
+/**
+ * Group annotations by severity (in export order) or by tag (alphabetical).
+ * An annotation with several tags appears under each of them.
+ */
+export function groupByLabel<T extends Labelled>(items: T[], by: LabelGrouping): { key: string; label: string; items: T[] }[] {
+  if (by === 'severity') {
+    const keys = [...SEVERITIES, null].sort(
+      (a, b) => (a ? SEVERITY_RANK[a] : UNLABELLED_RANK) - (b ? SEVERITY_RANK[b] : UNLABELLED_RANK)
+    );
+    return keys
+      .map(severity => ({
+        key: severity ?? 'none',
+        label: severity ? SEVERITY_LABELS[severity] : 'No severity',
+        items: items.filter(item => (item.severity ?? null) === severity),
+      }))
+      .filter(group => group.items.length > 0);
+  }
+
+  const groups = collectTags(items).map(tag => ({
+    key: tag,
+    label: `#${tag}`,
+    items: items.filter(item => item.tags?.includes(tag)),
+  }));
+  const untagged = items.filter(item => !item.tags?.length);
+  if (untagged.length > 0) {
+    groups.push({ key: '', label: 'Untagged', items: untagged });
+  }
+  return groups;
+}
@@ -0,0 +1,162 @@
+/**
+ * Markdown Parser Golden Tests
+ *
+ * Each __fixtures__/parser/<name>.md is parsed and compared against the
+ * blocks recorded in <name>.json. Block ids, order and startLine are what
+ * annotations and exported feedback anchor to, so changes here are
+ * user-visible.
+ *
+ * Run: bun test packages/ui/utils/parser.test.ts
+ * Update goldens after an intended change: UPDATE_GOLDEN=1 bun test packages/ui/utils/parser.test.ts
+ */
+
+import { describe, expect, test } from "bun:test";
+import { readdirSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import type { Annotation } from "../types";
+import { exportFeedbackJson, parseMarkdownToBlocks } from "./parser";
+
+const FIXTURE_DIR = join(import.meta.dir, "__fixtures__", "parser");
+
+const fixtures = readdirSync(FIXTURE_DIR)
+  .filter((name) => name.endsWith(".md"))
+  .map((name) => name.slice(0, -3))
+  .sort();
+
+describe("parseMarkdownToBlocks golden fixtures", () => {
+  for (const name of fixtures) {
+    test(name, () => {
+      const markdown = readFileSync(join(FIXTURE_DIR, `${name}.md`), "utf-8");
+      const blocks = parseMarkdownToBlocks(markdown);
+      const goldenPath = join(FIXTURE_DIR, `${name}.json`);
+
+      if (process.env.UPDATE_GOLDEN) {
+        writeFileSync(goldenPath, JSON.stringify(blocks, null, 2) + "\n");
+      }
+
+      expect(blocks).toEqual(JSON.parse(readFileSync(goldenPath, "utf-8")));
+    });
+  }
+});
+
+describe("parseMarkdownToBlocks", () => {
+  test("ids and order follow document order", () => {
+    const blocks = parseMarkdownToBlocks("# A\n\ntext\n\n- item\n");
+    expect(blocks.map((b) => b.id)).toEqual(["block-0", "block-1", "block-2"]);
+    expect(blocks.map((b) => b.order)).toEqual([1, 2, 3]);
+  });
+
+  test("startLine is relative to the body after frontmatter", () => {
+    const blocks = parseMarkdownToBlocks("---\ntitle: x\n---\n\n# Heading\n\nBody\n");
+    expect(blocks.map((b) => b.startLine)).toEqual([1, 3]);
+  });
+
+  test("list item content keeps inline markdown and drops the checkbox", () => {
+    const [item] = parseMarkdownToBlocks("- [ ] Update `config.ts` **first**\n");
+    expect(item).toMatchObject({ type: "list-item", content: "Update `config.ts` **first**", checked: false, level: 0 });
+  });
+
+  test("fences inside list items are code blocks", () => {
+    const blocks = parseMarkdownToBlocks("- step\n\n  ```sh\n  # not a heading\n  ```\n");
+    expect(blocks.map((b) => b.type)).toEqual(["list-item", "code"]);
+    expect(blocks[1]).toMatchObject({ content: "# not a heading", language: "sh" });
+  });
+});
+
+describe("exportFeedbackJson", () => {
+  const markdown = "---\ntitle: Plan\n---\n\n# Migrate auth\n\n```ts\nconst token = read();\n```\n\n- Drop the legacy table\n";
+  const blocks = parseMarkdownToBlocks(markdown);
+  const base = { startOffset: 0, endOffset: 0, createdA: Date.UTC(2026, 0, 2) };
+
+  const annotations: Annotation[] = [
+    {
+      ...base,
+      id: "a1",
+      blockId: "block-1",
+      type: "COMMENT",
+      originalText: "const token = read();",
+      text: "Where does the token come from?",
+      author: "alice",
+      severity: "question",
+      tags: ["security"],
+      replies: [
+        { id: "r1", text: "From the keychain", author: "bob", createdAt: Date.UTC(2026, 0, 3) },
+        { id: "r2", text: "OK", createdAt: Date.UTC(2026, 0, 4) },
+      ],
+    },
+    {
+      ...base,
+      id: "a2",
+      blockId: "block-2",
+      type: "DELETION",
+      originalText: "Drop the legacy table",
+      severity: "blocking",
+      imagePaths: ["/tmp/plannotator/schema.png"],
+    },
+    {
+      ...base,
+      id: "a3",
+      blockId: "",
+      type: "GLOBAL_COMMENT",
+      originalText: "",
+      text: "Split this into two PRs",
+    },
+    { ...base, id: "a4", blockId: "block-0", type: "COMMENT", originalText: "Migrate auth", text: "Settled", resolved: true },
+  ];
+
+  test("fixes the document structure", () => {
+    const doc = exportFeedbackJson(markdown, blocks, annotations, ["/tmp/plannotator/ref.png"], "denied");
+
+    expect(doc).toEqual({
+      schema: "plannotator/feedback",
+      version: 1,
+      kind: "plan",
+      decision: "denied",
+      createdAt: expect.any(String),
+      // Blocking first, then document order (global comments have no block); resolved dropped
+      annotations: [
+        {
+          id: "a2",
+          type: "DELETION",
+          anchorText: "Drop the legacy table",
+          severity: "blocking",
+          block: { id: "block-2", type: "list-item", startLine: 11, endLine: 11 },
+          images: ["/tmp/plannotator/schema.png"],
+          createdAt: "2026-01-02T00:00:00.000Z",
+        },
+        {
+          id: "a3",
+          type: "GLOBAL_COMMENT",
+          anchorText: "",
+          text: "Split this into two PRs",
+          block: null,
+          images: [],
+          createdAt: "2026-01-02T00:00:00.000Z",
+        },
+        {
+          id: "a1",
+          type: "COMMENT",
+          anchorText: "const token = read();",
+          text: "Where does the token come from?",
+          severity: "question",
+          tags: ["security"],
+          replies: [
+            { text: "From the keychain", author: "bob", createdAt: "2026-01-03T00:00:00.000Z" },
+            { text: "OK", createdAt: "2026-01-04T00:00:00.000Z" },
+          ],
+          block: { id: "block-1", type: "code", startLine: 7, endLine: 9 },
+          author: "alice",
+          images: [],
+          createdAt: "2026-01-02T00:00:00.000Z",
+        },
+      ],
+      images: ["/tmp/plannotator/ref.png"],
+    });
+    expect(new Date(doc.createdAt).toISOString()).toBe(doc.createdAt);
+  });
+
+  test("survives a JSON round trip unchanged", () => {
+    const doc = exportFeedbackJson(markdown, blocks, annotations, [], "approved");
+    expect(JSON.parse(JSON.stringify(doc))).toEqual(doc);
+  });
+});
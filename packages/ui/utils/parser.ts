@@ -1,4 +1,9 @@
-import { Block } from '../types';
+import { fromMarkdown } from 'mdast-util-from-markdown';
+import { gfmFromMarkdown } from 'mdast-util-gfm';
+import { gfm } from 'micromark-extension-gfm';
+import { Annotation, Block, FEEDBACK_SCHEMA_VERSION, PlanFeedbackDocument } from '../types';
+import { formatRepliesMarkdown, getOpenAnnotations, toFeedbackReplies } from './threads';
+import { formatLabelsMarkdown, sortBySeverity } from './labels';
 
 /**
  * Parsed YAML frontmatter as key-value pairs.
@@ -62,199 +67,170 @@ export function extractFrontmatter(markdown: string): { frontmatter: Frontmatter
   return { frontmatter, content: afterFrontmatter };
 }
 
+type MdastRoot = ReturnType<typeof fromMarkdown>;
+type MdastNode = MdastRoot['children'][number];
+type MdastParent = Extract<MdastNode, { children: unknown[] }>;
+
+/** Container a block sits in, which affects how its source lines are cleaned */
+interface BlockContext {
+  /** List nesting depth (0 outside lists) */
+  listDepth: number;
+  /** Inside a blockquote */
+  inQuote: boolean;
+}
+
+/** HTML comments render nothing, so they don't become blocks */
+const HTML_COMMENT = /^<!--[\s\S]*-->$/;
+
 /**
- * A simplified markdown parser that splits content into linear blocks.
- * For a production app, we would use a robust AST walker (remark),
- * but for this demo, we want predictable text-anchoring.
+ * Parse markdown into linear blocks for annotation.
+ *
+ * Uses a CommonMark + GFM syntax tree (mdast) and flattens it: each
+ * paragraph, heading, list item, code block, table, rule and quoted
+ * paragraph becomes one block. Block content is the raw source of the block
+ * (inline markdown is rendered by the viewer), with list and quote markers
+ * stripped. Ids are `block-N` in document order and startLine is the 1-based
+ * line in the markdown after frontmatter.
  */
 export const parseMarkdownToBlocks = (markdown: string): Block[] => {
   const { content: cleanMarkdown } = extractFrontmatter(markdown);
-  const lines = cleanMarkdown.split('\n');
+  const tree = fromMarkdown(cleanMarkdown, {
+    extensions: [gfm()],
+    mdastExtensions: [gfmFromMarkdown()],
+  });
   const blocks: Block[] = [];
-  let currentId = 0;
-
-  let buffer: string[] = [];
-  let currentType: Block['type'] = 'paragraph';
-  let currentLevel = 0;
-  let bufferStartLine = 1; // Track the start line of the current buffer
-
-  const flush = () => {
-    if (buffer.length > 0) {
-      const content = buffer.join('\n');
-      blocks.push({
-        id: `block-${currentId++}`,
-        type: currentType,
-        content: content,
-        level: currentLevel,
-        order: currentId,
-        startLine: bufferStartLine
-      });
-      buffer = [];
-    }
+
+  const push = (block: Omit<Block, 'id' | 'order'>) => {
+    blocks.push({ id: `block-${blocks.length}`, ...block, order: blocks.length + 1 });
   };
 
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    const trimmed = line.trim();
-    const currentLineNum = i + 1; // 1-based index
-
-    // Headings
-    if (trimmed.startsWith('#')) {
-      flush();
-      const level = trimmed.match(/^#+/)?.[0].length || 1;
-      blocks.push({
-        id: `block-${currentId++}`,
-        type: 'heading',
-        content: trimmed.replace(/^#+\s*/, ''),
-        level,
-        order: currentId,
-        startLine: currentLineNum
-      });
-      continue;
-    }
+  const startLine = (node: MdastNode) => node.position?.start.line ?? 1;
+
+  // Source text between two nodes (inclusive). Continuation lines of nested
+  // blocks still carry indentation and `>` markers, which are removed.
+  const source = (from: MdastNode, to: MdastNode, context: BlockContext): string => {
+    const start = from.position?.start.offset ?? 0;
+    const end = to.position?.end.offset ?? start;
+    const text = cleanMarkdown.slice(start, end);
+    if (context.listDepth === 0 && !context.inQuote) return text;
+    return text
+      .split('\n')
+      .map((line, index) => (index === 0 ? line : line.replace(/^[ \t]*(?:>[ \t]?)*[ \t]*/, '')))
+      .join('\n');
+  };
 
-    // Horizontal Rule
-    if (trimmed === '---' || trimmed === '***') {
-      flush();
-      blocks.push({
-        id: `block-${currentId++}`,
-        type: 'hr',
-        content: '',
-        order: currentId,
-        startLine: currentLineNum
-      });
-      continue;
-    }
+  const wholeSource = (node: MdastNode, context: BlockContext) => source(node, node, context);
+
+  const visitChildren = (parent: MdastParent, context: BlockContext) => {
+    for (const child of parent.children as MdastNode[]) visit(child, context);
+  };
 
-    // List Items (Simple detection)
-    if (trimmed.match(/^(\*|-|\d+\.)\s/)) {
-      flush(); // Treat each list item as a separate block for easier annotation
-      // Calculate indentation level from leading whitespace
-      const leadingWhitespace = line.match(/^(\s*)/)?.[1] || '';
-      // Count spaces (2 spaces = 1 level) or tabs (1 tab = 1 level)
-      const spaceCount = leadingWhitespace.replace(/\t/g, '  ').length;
-      const listLevel = Math.floor(spaceCount / 2);
-
-      // Remove list marker
-      let content = trimmed.replace(/^(\*|-|\d+\.)\s/, '');
-
-      // Check for checkbox syntax: [ ] or [x] or [X]
-      let checked: boolean | undefined = undefined;
-      const checkboxMatch = content.match(/^\[([ xX])\]\s*/);
-      if (checkboxMatch) {
-        checked = checkboxMatch[1].toLowerCase() === 'x';
-        content = content.replace(/^\[([ xX])\]\s*/, '');
+  const visit = (node: MdastNode, context: BlockContext) => {
+    switch (node.type) {
+      case 'heading': {
+        const first = node.children[0];
+        const last = node.children[node.children.length - 1];
+        push({
+          type: 'heading',
+          content: first && last ? source(first, last, context) : '',
+          level: node.depth,
+          startLine: startLine(node),
+        });
+        break;
       }
 
-      blocks.push({
-        id: `block-${currentId++}`,
-        type: 'list-item',
-        content,
-        level: listLevel,
-        checked,
-        order: currentId,
-        startLine: currentLineNum
-      });
-      continue;
-    }
+      case 'paragraph':
+        push({
+          type: context.inQuote ? 'blockquote' : 'paragraph',
+          content: wholeSource(node, context),
+          // Continuation paragraphs of a list item are indented under it
+          level: context.inQuote ? undefined : context.listDepth,
+          startLine: startLine(node),
+        });
+        break;
 
-    // Blockquotes
-    if (trimmed.startsWith('>')) {
-       // Check if previous was blockquote, if so, merge? No, separate for now
-       flush();
-       blocks.push({
-         id: `block-${currentId++}`,
-         type: 'blockquote',
-         content: trimmed.replace(/^>\s*/, ''),
-         order: currentId,
-         startLine: currentLineNum
-       });
-       continue;
-    }
-    
-    // Code blocks (naive)
-    if (trimmed.startsWith('```')) {
-      flush();
-      const codeStartLine = currentLineNum;
-      // Extract language from fence (e.g., ```rust → "rust")
-      const language = trimmed.slice(3).trim() || undefined;
-      // Fast forward until end of code block
-      let codeContent = [];
-      i++; // Skip start fence
-      while(i < lines.length && !lines[i].trim().startsWith('```')) {
-        codeContent.push(lines[i]);
-        i++;
-      }
-      blocks.push({
-        id: `block-${currentId++}`,
-        type: 'code',
-        content: codeContent.join('\n'),
-        language,
-        order: currentId,
-        startLine: codeStartLine
-      });
-      continue;
-    }
+      case 'blockquote':
+        visitChildren(node, { ...context, inQuote: true });
+        break;
 
-    // Tables (lines starting and containing |)
-    if (trimmed.startsWith('|') || (trimmed.includes('|') && trimmed.match(/^\|?.+\|.+\|?$/))) {
-      flush();
-      const tableStartLine = currentLineNum;
-      const tableLines: string[] = [line];
-
-      // Collect all consecutive table lines
-      while (i + 1 < lines.length) {
-        const nextLine = lines[i + 1].trim();
-        // Continue if line has table structure (contains | and looks like table content)
-        if (nextLine.startsWith('|') || (nextLine.includes('|') && nextLine.match(/^\|?.+\|.+\|?$/))) {
-          i++;
-          tableLines.push(lines[i]);
-        } else {
-          break;
+      case 'list':
+        for (const item of node.children) {
+          const [first, ...rest] = item.children;
+          const hasLead = first?.type === 'paragraph';
+          push({
+            type: 'list-item',
+            content: hasLead ? wholeSource(first, { ...context, listDepth: context.listDepth + 1 }) : '',
+            level: context.listDepth,
+            checked: item.checked ?? undefined,
+            startLine: startLine(item),
+          });
+          const nested = { ...context, listDepth: context.listDepth + 1 };
+          for (const child of hasLead ? rest : item.children) visit(child, nested);
         }
+        break;
+
+      case 'code':
+        push({
+          type: 'code',
+          content: node.value,
+          language: node.lang || undefined,
+          startLine: startLine(node),
+        });
+        break;
+
+      case 'html': {
+        const html = node.value.trim();
+        if (HTML_COMMENT.test(html)) break;
+        // Shown verbatim rather than rendered
+        push({ type: 'code', content: node.value, language: 'html', startLine: startLine(node) });
+        break;
       }
 
-      blocks.push({
-        id: `block-${currentId++}`,
-        type: 'table',
-        content: tableLines.join('\n'),
-        order: currentId,
-        startLine: tableStartLine
-      });
-      continue;
-    }
+      case 'table':
+        push({ type: 'table', content: wholeSource(node, context), startLine: startLine(node) });
+        break;
 
-    // Empty lines separate paragraphs
-    if (trimmed === '') {
-      flush();
-      currentType = 'paragraph';
-      continue;
-    }
+      case 'thematicBreak':
+        push({ type: 'hr', content: '', startLine: startLine(node) });
+        break;
+
+      case 'footnoteDefinition':
+        push({
+          type: 'paragraph',
+          content: wholeSource(node, context),
+          level: context.listDepth,
+          startLine: startLine(node),
+        });
+        break;
+
+      // Link reference definitions render nothing
+      case 'definition':
+        break;
 
-    // Accumulate paragraph text
-    if (buffer.length === 0) {
-      bufferStartLine = currentLineNum;
+      default:
+        if ('children' in node) visitChildren(node as MdastParent, context);
     }
-    buffer.push(line);
-  }
-  
-  flush(); // Final flush
+  };
+
+  visitChildren(tree as unknown as MdastParent, { listDepth: 0, inQuote: false });
 
   return blocks;
 };
 
-export const exportDiff = (blocks: Block[], annotations: any[], globalAttachments: string[] = []): string => {
+export const exportDiff = (blocks: Block[], allAnnotations: any[], globalAttachments: string[] = []): string => {
+  // Resolved threads are settled between reviewers, not feedback for the agent
+  const annotations = getOpenAnnotations(allAnnotations);
   if (annotations.length === 0 && globalAttachments.length === 0) {
     return 'No changes detected.';
   }
 
-  // Sort annotations by block and offset
-  const sortedAnns = [...annotations].sort((a, b) => {
+  // Sort annotations by block and offset, then blocking items first
+  const sortedAnns = sortBySeverity([...annotations].sort((a, b) => {
     const blockA = blocks.findIndex(blk => blk.id === a.blockId);
     const blockB = blocks.findIndex(blk => blk.id === b.blockId);
     if (blockA !== blockB) return blockA - blockB;
     return a.startOffset - b.startOffset;
-  });
+  }));
 
   let output = `# Plan Feedback\n\n`;
 
@@ -269,7 +245,9 @@ export const exportDiff = (blocks: Block[], annotations: any[], globalAttachment
   }
 
   if (annotations.length > 0) {
-    output += `I've reviewed this plan and have ${annotations.length} piece${annotations.length > 1 ? 's' : ''} of feedback:\n\n`;
+    const blockingCount = annotations.filter(ann => ann.severity === 'blocking').length;
+    output += `I've reviewed this plan and have ${annotations.length} piece${annotations.length > 1 ? 's' : ''} of feedback`;
+    output += blockingCount > 0 ? ` (${blockingCount} blocking, listed first):\n\n` : `:\n\n`;
   }
 
   sortedAnns.forEach((ann, index) => {
@@ -296,7 +274,9 @@ export const exportDiff = (blocks: Block[], annotations: any[], globalAttachment
         break;
 
       case 'COMMENT':
-        output += `Feedback on: "${ann.originalText}"\n`;
+        output += ann.diagramAnchor
+          ? `Feedback on diagram ${ann.diagramAnchor.kind}: "${ann.diagramAnchor.label}"\n`
+          : `Feedback on: "${ann.originalText}"\n`;
         output += `> ${ann.text}\n`;
         break;
 
@@ -306,6 +286,8 @@ export const exportDiff = (blocks: Block[], annotations: any[], globalAttachment
         break;
     }
 
+    output += formatLabelsMarkdown(ann);
+
     // Add attached images for this annotation
     if (ann.imagePaths && ann.imagePaths.length > 0) {
       output += `**Attached images:**\n`;
@@ -314,10 +296,86 @@ export const exportDiff = (blocks: Block[], annotations: any[], globalAttachment
       });
     }
 
+    output += formatRepliesMarkdown(ann.replies);
+
     output += '\n';
   });
 
   output += `---\n`;
 
   return output;
-};
\ No newline at end of file
+};
+/**
+ * Number of lines before the plan body (frontmatter and leading blank lines).
+ * Block startLine values are relative to the body, so add this to get the
+ * line number in the full markdown.
+ */
+const getBodyLineOffset = (markdown: string): number => {
+  const { content } = extractFrontmatter(markdown);
+  const prefix = markdown.slice(0, markdown.length - content.length);
+  return prefix.split('\n').length - 1;
+};
+
+const getBlockEndLine = (block: Block): number => {
+  const contentLines = block.content ? block.content.split('\n').length : 1;
+  // Code block content excludes the opening and closing fences
+  return block.startLine + contentLines - 1 + (block.type === 'code' ? 2 : 0);
+};
+
+/**
+ * Export annotations as a versioned, machine-readable feedback document.
+ * Mirrors exportDiff but keeps annotation types, anchors and block line
+ * numbers as structured data.
+ */
+export const exportFeedbackJson = (
+  markdown: string,
+  blocks: Block[],
+  annotations: Annotation[],
+  globalAttachments: string[],
+  decision: PlanFeedbackDocument['decision']
+): PlanFeedbackDocument => {
+  const lineOffset = getBodyLineOffset(markdown);
+
+  const sortedAnns = sortBySeverity(getOpenAnnotations(annotations).sort((a, b) => {
+    const blockA = blocks.findIndex(blk => blk.id === a.blockId);
+    const blockB = blocks.findIndex(blk => blk.id === b.blockId);
+    if (blockA !== blockB) return blockA - blockB;
+    return a.startOffset - b.startOffset;
+  }));
+
+  return {
+    schema: 'plannotator/feedback',
+    version: FEEDBACK_SCHEMA_VERSION,
+    kind: 'plan',
+    decision,
+    createdAt: new Date().toISOString(),
+    annotations: sortedAnns.map(ann => {
+      // Shared annotations have no blockId, fall back to a content match
+      const block = blocks.find(b => b.id === ann.blockId)
+        ?? (ann.originalText ? blocks.find(b => b.content.includes(ann.originalText)) : undefined);
+
+      return {
+        id: ann.id,
+        type: ann.type,
+        anchorText: ann.originalText,
+        ...(ann.text !== undefined && { text: ann.text }),
+        ...(ann.diagramAnchor && { diagram: ann.diagramAnchor }),
+        ...(ann.severity && { severity: ann.severity }),
+        ...(ann.tags?.length && { tags: ann.tags }),
+        ...(ann.replies?.length && { replies: toFeedbackReplies(ann.replies) }),
+        block: block
+          ? {
+              id: block.id,
+              type: block.type,
+              startLine: block.startLine + lineOffset,
+              endLine: getBlockEndLine(block) + lineOffset,
+            }
+          : null,
+        ...(ann.author && { author: ann.author }),
+        images: ann.imagePaths ?? [],
+        createdAt: new Date(ann.createdA).toISOString(),
+      };
+    }),
+    images: globalAttachments,
+  };
+};
@@ -0,0 +1,128 @@
+/**
+ * Plan Revision Diff Tests
+ *
+ * Feedback is parsed back out of the markdown exportDiff writes, so these
+ * tests run real exportDiff output through it: a change to that wording
+ * has to come with a matching change here.
+ *
+ * Run: bun test packages/ui/utils/planDiff.test.ts
+ */
+
+import { describe, expect, test } from "bun:test";
+import type { Annotation } from "../types";
+import { exportDiff, parseMarkdownToBlocks } from "./parser";
+import { assessPreviousFeedback, diffBlocks, getPlanDiffStats, parsePreviousFeedback } from "./planDiff";
+
+const PREVIOUS = [
+  "# Cache rollout",
+  "",
+  "Add a Redis cache in front of the user service.",
+  "",
+  "- Write a migration script",
+  "- Deploy on Friday",
+  "",
+].join("\n");
+
+const blocks = parseMarkdownToBlocks(PREVIOUS);
+
+function annotation(fields: Partial<Annotation> & Pick<Annotation, "id" | "type" | "originalText">): Annotation {
+  return { blockId: "", startOffset: 0, endOffset: 0, createdA: 0, ...fields };
+}
+
+const annotations: Annotation[] = [
+  annotation({ id: "1", blockId: "block-1", type: "REPLACEMENT", originalText: "Redis", text: "Memcached" }),
+  annotation({
+    id: "2",
+    blockId: "block-2",
+    type: "COMMENT",
+    originalText: "Write a migration script",
+    text: "Is this reversible?",
+    severity: "question",
+    tags: ["data"],
+    replies: [{ id: "r1", text: "It should be", author: "sam", createdAt: 0 }],
+  }),
+  annotation({ id: "3", blockId: "block-3", type: "DELETION", originalText: "Deploy on Friday", severity: "blocking" }),
+  annotation({ id: "4", blockId: "block-3", type: "INSERTION", originalText: "", text: "Roll out behind a flag", imagePaths: ["/tmp/flag.png"] }),
+  annotation({
+    id: "5",
+    blockId: "block-1",
+    type: "COMMENT",
+    originalText: "Cache",
+    text: "Name the cache node",
+    diagramAnchor: { kind: "node", label: "Cache", blockId: "block-1" },
+  }),
+  annotation({ id: "6", blockId: "", type: "GLOBAL_COMMENT", originalText: "", text: "Looks good overall" }),
+];
+
+const FEEDBACK = exportDiff(blocks, annotations, ["/tmp/reference.png"]);
+
+describe("parsePreviousFeedback", () => {
+  test("reads back every kind of item exportDiff writes", () => {
+    // Ordered as exportDiff lists them: blocking first, questions last,
+    // otherwise in document order with the global comment (no block) first
+    expect(parsePreviousFeedback(FEEDBACK)).toEqual([
+      { index: 1, kind: "remove", quote: "Deploy on Friday" },
+      { index: 2, kind: "general", quote: "", text: "Looks good overall" },
+      { index: 3, kind: "change", quote: "Redis", text: "Memcached" },
+      { index: 4, kind: "comment", quote: "Cache", text: "Name the cache node" },
+      { index: 5, kind: "add", quote: "Roll out behind a flag" },
+      { index: 6, kind: "comment", quote: "Write a migration script", text: "Is this reversible?" },
+    ]);
+  });
+
+  test("ignores feedback without numbered items", () => {
+    expect(parsePreviousFeedback("No changes detected.")).toEqual([]);
+    expect(parsePreviousFeedback("Plan rejected by user")).toEqual([]);
+  });
+});
+
+describe("assessPreviousFeedback", () => {
+  test("checks each item against the revised plan", () => {
+    const revised = [
+      "# Cache rollout",
+      "",
+      "Add a Memcached cache in front of the user service.",
+      "",
+      "- Write a reversible migration script",
+      "- Roll out behind a flag",
+      "",
+    ].join("\n");
+
+    const statuses = Object.fromEntries(assessPreviousFeedback(FEEDBACK, revised).map((item) => [item.index, item.status]));
+    expect(statuses).toEqual({
+      1: "addressed", // Friday deploy is gone
+      2: "unknown", // general comments can't be checked
+      3: "addressed", // Redis became Memcached
+      4: "open", // "Cache" is still in the plan
+      5: "addressed", // the flag rollout was added
+      6: "addressed", // the commented line changed
+    });
+  });
+
+  test("leaves items open when the plan didn't change", () => {
+    const items = assessPreviousFeedback(FEEDBACK, PREVIOUS);
+    expect(items.filter((item) => item.status === "addressed")).toEqual([]);
+  });
+});
+
+describe("diffBlocks", () => {
+  test("matches blocks by type and content, removed before added", () => {
+    const current = parseMarkdownToBlocks("# Cache rollout\n\nAdd a **Redis** cache in front of the user service.\n\n- Write a migration script\n- Roll out behind a flag\n");
+    const entries = diffBlocks(blocks, current);
+
+    expect(entries.map((entry) => [entry.change, entry.block.content])).toEqual([
+      ["unchanged", "Cache rollout"],
+      // Inline markdown alone doesn't count as a change
+      ["unchanged", "Add a **Redis** cache in front of the user service."],
+      ["unchanged", "Write a migration script"],
+      ["removed", "Deploy on Friday"],
+      ["added", "Roll out behind a flag"],
+    ]);
+    expect(getPlanDiffStats(entries)).toEqual({ added: 1, removed: 1, unchanged: 3 });
+  });
+
+  test("treats a heading turned into a paragraph as a change", () => {
+    const entries = diffBlocks(parseMarkdownToBlocks("# Steps\n"), parseMarkdownToBlocks("Steps\n"));
+    expect(entries.map((entry) => entry.change)).toEqual(["removed", "added"]);
+  });
+});
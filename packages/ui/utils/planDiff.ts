@@ -0,0 +1,170 @@
+import { Block } from '../types';
+
+/**
+ * Plan revision diffing
+ *
+ * Compares the blocks of the current plan against the previous revision
+ * (the last approve/deny snapshot) and checks which pieces of the previous
+ * round's feedback appear to have been addressed.
+ */
+
+export type BlockChange = 'unchanged' | 'added' | 'removed';
+
+export interface BlockDiffEntry {
+  change: BlockChange;
+  block: Block;
+}
+
+export interface PlanDiffStats {
+  added: number;
+  removed: number;
+  unchanged: number;
+}
+
+export type FeedbackItemKind = 'remove' | 'add' | 'change' | 'comment' | 'general';
+
+export type FeedbackItemStatus = 'addressed' | 'open' | 'unknown';
+
+export interface PreviousFeedbackItem {
+  index: number;
+  kind: FeedbackItemKind;
+  /** The plan text the feedback was attached to (or the text to add) */
+  quote: string;
+  /** Comment text, or replacement text for changes */
+  text?: string;
+  status: FeedbackItemStatus;
+}
+
+/**
+ * Normalize text for loose comparison: drop inline markdown syntax and
+ * collapse whitespace, since annotations store rendered text while the
+ * plan is raw markdown.
+ */
+const normalize = (text: string): string =>
+  text
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[`*_~#>|]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+
+const blockKey = (block: Block): string =>
+  `${block.type}:${block.level ?? ''}:${block.checked ?? ''}:${normalize(block.content)}`;
+
+/**
+ * Diff two block lists using a longest-common-subsequence match on block
+ * type and normalized content. Removed blocks are emitted before the added
+ * blocks that replace them so the result reads top to bottom.
+ */
+export function diffBlocks(previous: Block[], current: Block[]): BlockDiffEntry[] {
+  const a = previous.map(blockKey);
+  const b = current.map(blockKey);
+
+  // LCS length table, filled from the end
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const entries: BlockDiffEntry[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      entries.push({ change: 'unchanged', block: current[j] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      entries.push({ change: 'removed', block: previous[i++] });
+    } else {
+      entries.push({ change: 'added', block: current[j++] });
+    }
+  }
+  while (i < a.length) entries.push({ change: 'removed', block: previous[i++] });
+  while (j < b.length) entries.push({ change: 'added', block: current[j++] });
+
+  return entries;
+}
+
+export function getPlanDiffStats(entries: BlockDiffEntry[]): PlanDiffStats {
+  const stats: PlanDiffStats = { added: 0, removed: 0, unchanged: 0 };
+  for (const entry of entries) stats[entry.change]++;
+  return stats;
+}
+
+const extractCodeFences = (section: string): string[] =>
+  Array.from(section.matchAll(/```\n([\s\S]*?)\n```/g), match => match[1]);
+
+const extractQuote = (section: string): string | undefined => {
+  const match = section.match(/^> ([\s\S]*?)$/m);
+  return match ? match[1] : undefined;
+};
+
+/**
+ * Parse feedback markdown produced by exportDiff back into individual items.
+ */
+export function parsePreviousFeedback(feedback: string): Omit<PreviousFeedbackItem, 'status'>[] {
+  const items: Omit<PreviousFeedbackItem, 'status'>[] = [];
+  const sections = feedback.split(/^## (?=\d+\. )/m).slice(1);
+
+  for (const raw of sections) {
+    // Trailing separator from the export is not part of the last item
+    const section = raw.replace(/\n---\n?$/, '');
+    const header = section.match(/^(\d+)\. (.*)$/m);
+    if (!header) continue;
+
+    const index = Number(header[1]);
+    const title = header[2];
+    const fences = extractCodeFences(section);
+
+    if (title === 'Remove this') {
+      items.push({ index, kind: 'remove', quote: fences[0] ?? '' });
+    } else if (title === 'Add this') {
+      items.push({ index, kind: 'add', quote: fences[0] ?? '' });
+    } else if (title === 'Change this') {
+      items.push({ index, kind: 'change', quote: fences[0] ?? '', text: fences[1] });
+    } else if (title.startsWith('Feedback on: "') || title.startsWith('Feedback on diagram ')) {
+      const match = section.match(/Feedback on(?: diagram (?:node|edge))?: "([\s\S]*?)"\n> /);
+      items.push({ index, kind: 'comment', quote: match ? match[1] : '', text: extractQuote(section) });
+    } else if (title === 'General feedback about the plan') {
+      items.push({ index, kind: 'general', quote: '', text: extractQuote(section) });
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Decide whether each piece of previous feedback looks addressed in the
+ * current plan. This is a text heuristic: removals are addressed when the
+ * text is gone, additions when it appears, and comments when the text they
+ * pointed at has changed. General comments can't be checked automatically.
+ */
+export function assessPreviousFeedback(feedback: string, currentMarkdown: string): PreviousFeedbackItem[] {
+  const plan = normalize(currentMarkdown);
+  const contains = (text: string) => {
+    const needle = normalize(text);
+    return needle.length > 0 && plan.includes(needle);
+  };
+
+  return parsePreviousFeedback(feedback).map(item => {
+    let status: FeedbackItemStatus;
+    switch (item.kind) {
+      case 'remove':
+      case 'comment':
+        status = item.quote && !contains(item.quote) ? 'addressed' : 'open';
+        break;
+      case 'add':
+        status = contains(item.quote) ? 'addressed' : 'open';
+        break;
+      case 'change':
+        status = (item.text && contains(item.text)) || (item.quote && !contains(item.quote)) ? 'addressed' : 'open';
+        break;
+      default:
+        status = 'unknown';
+    }
+    return { ...item, status };
+  });
+}
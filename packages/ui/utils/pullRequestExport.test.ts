@@ -0,0 +1,123 @@
+/**
+ * Pull Request Review Export Tests
+ *
+ * Run: bun test packages/ui/utils/pullRequestExport.test.ts
+ */
+
+import { describe, expect, test } from "bun:test";
+import { CodeAnnotation } from "../types";
+import { parseDiffToFiles } from "./diffParser";
+import { splitExportableAnnotations, toGitHubReview, toGitLabDiscussions } from "./pullRequestExport";
+
+const FILES = parseDiffToFiles(
+  [
+    "diff --git a/src/old.ts b/src/math.ts",
+    "similarity index 80%",
+    "rename from src/old.ts",
+    "rename to src/math.ts",
+    "--- a/src/old.ts",
+    "+++ b/src/math.ts",
+    "@@ -1,4 +1,5 @@",
+    " export function add(a, b) {",
+    "-  return a - b;",
+    "+  const sum = a + b;",
+    "+  return sum;",
+    " }",
+    " ",
+    "",
+  ].join("\n")
+);
+
+function annotation(overrides: Partial<CodeAnnotation>): CodeAnnotation {
+  return {
+    id: "a1",
+    type: "comment",
+    filePath: "src/math.ts",
+    lineStart: 2,
+    lineEnd: 2,
+    side: "new",
+    text: "Inline this",
+    createdAt: 0,
+    ...overrides,
+  };
+}
+
+describe("splitExportableAnnotations", () => {
+  test("skips outdated, resolved and out-of-diff annotations", () => {
+    const inDiff = annotation({});
+    const outside = annotation({ id: "a2", lineStart: 40, lineEnd: 40 });
+    const outdated = annotation({ id: "a3", outdated: true });
+    const resolved = annotation({ id: "a4", resolved: true });
+
+    const { exportable, skipped } = splitExportableAnnotations([inDiff, outside, outdated, resolved], FILES);
+    expect(exportable).toEqual([inDiff]);
+    expect(skipped.map(ann => ann.id)).toEqual(["a3", "a2"]);
+  });
+
+  test("skips ranges that span more than one hunk", () => {
+    const files = parseDiffToFiles(
+      [
+        "diff --git a/src/list.ts b/src/list.ts",
+        "--- a/src/list.ts",
+        "+++ b/src/list.ts",
+        "@@ -1,2 +1,2 @@",
+        "-const a = 1;",
+        "+const a = 2;",
+        " const b = 2;",
+        "@@ -20,2 +20,2 @@",
+        " const y = 3;",
+        "-const z = 4;",
+        "+const z = 5;",
+        "",
+      ].join("\n")
+    );
+    const withinHunk = annotation({ filePath: "src/list.ts", lineStart: 20, lineEnd: 21 });
+    // Both ends are in the diff, but the lines between them aren't
+    const acrossHunks = annotation({ id: "a2", filePath: "src/list.ts", lineStart: 2, lineEnd: 20 });
+
+    const { exportable, skipped } = splitExportableAnnotations([withinHunk, acrossHunks], files);
+    expect(exportable).toEqual([withinHunk]);
+    expect(skipped).toEqual([acrossHunks]);
+  });
+});
+
+describe("toGitHubReview", () => {
+  test("maps ranges and turns suggested code into a suggestion block", () => {
+    const review = toGitHubReview([
+      annotation({ lineStart: 2, lineEnd: 3, suggestedCode: "  return a + b;", severity: "nit" }),
+      annotation({ id: "a2", side: "old", lineStart: 2, lineEnd: 2, text: "Was this a bug?" }),
+    ]);
+
+    expect(review.event).toBe("COMMENT");
+    expect(review.comments[0]).toEqual({
+      path: "src/math.ts",
+      line: 3,
+      side: "RIGHT",
+      start_line: 2,
+      start_side: "RIGHT",
+      body: "**Severity:** nit\n\nInline this\n\n```suggestion\n  return a + b;\n```",
+    });
+    expect(review.comments[1]).toEqual({ path: "src/math.ts", line: 2, side: "LEFT", body: "Was this a bug?" });
+  });
+});
+
+describe("toGitLabDiscussions", () => {
+  test("anchors on both sides for context lines and keeps the old path", () => {
+    const [discussion] = toGitLabDiscussions(
+      [annotation({ lineStart: 3, lineEnd: 4, suggestedCode: "  return a + b;\n}" })],
+      FILES
+    );
+
+    expect(discussion.position).toEqual({
+      position_type: "text",
+      base_sha: "",
+      start_sha: "",
+      head_sha: "",
+      old_path: "src/old.ts",
+      new_path: "src/math.ts",
+      old_line: 3,
+      new_line: 4,
+    });
+    expect(discussion.body).toBe("Inline this\n\n```suggestion:-1+0\n  return a + b;\n}\n```");
+  });
+});
